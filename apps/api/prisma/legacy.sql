@@ -0,0 +1,17 @@
+-- Databases from before accounts hold dreams and coupons without an owner, and databases from before spaces hold
+-- them without a space; `prisma db push` can turn neither into the current tables. Run ahead of the push
+-- (`npm run prisma:push` does), this moves the old tables into the gomun_legacy schema, which the push leaves
+-- alone; the API imports them on its next start.
+DO $$
+DECLARE
+  legacy_table text;
+BEGIN
+  IF to_regclass('public."Entry"') IS NOT NULL AND to_regclass('public."Space"') IS NULL THEN
+    CREATE SCHEMA gomun_legacy;
+    FOREACH legacy_table IN ARRAY ARRAY['User', 'Session', 'Entry', 'Coupon'] LOOP
+      IF to_regclass(format('public.%I', legacy_table)) IS NOT NULL THEN
+        EXECUTE format('ALTER TABLE public.%I SET SCHEMA gomun_legacy', legacy_table);
+      END IF;
+    END LOOP;
+  END IF;
+END $$;
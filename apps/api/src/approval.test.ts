@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  answerRequest,
+  findAnswerRefusal,
+  findRequestRefusal,
+  findWithdrawRefusal,
+  needsApproval,
+  pickRecipient,
+} from './approval';
+
+const GIVER = 'user-giver';
+const RECIPIENT = 'user-recipient';
+const coupon = { userId: GIVER, recipientId: RECIPIENT, requestStatus: null };
+
+describe('pickRecipient', () => {
+  it('makes a coupon out to the other person when none is named', () => {
+    assert.deepEqual(pickRecipient([GIVER, RECIPIENT], GIVER, undefined), { recipientId: RECIPIENT });
+    assert.deepEqual(pickRecipient([GIVER], GIVER, undefined), { recipientId: null });
+  });
+
+  it('accepts the other person or nobody, and no one else', () => {
+    assert.deepEqual(pickRecipient([GIVER, RECIPIENT], GIVER, RECIPIENT), { recipientId: RECIPIENT });
+    assert.deepEqual(pickRecipient([GIVER, RECIPIENT], GIVER, null), { recipientId: null });
+    assert.equal(pickRecipient([GIVER, RECIPIENT], GIVER, GIVER), null);
+    assert.equal(pickRecipient([GIVER, RECIPIENT], GIVER, 'user-stranger'), null);
+  });
+});
+
+describe('needsApproval', () => {
+  it('holds for the recipient only', () => {
+    assert.equal(needsApproval(coupon, RECIPIENT), true);
+    assert.equal(needsApproval(coupon, GIVER), false);
+    assert.equal(needsApproval({ ...coupon, recipientId: null }, RECIPIENT), false);
+  });
+
+  it('does not hold for a coupon someone made out to themselves', () => {
+    assert.equal(needsApproval({ ...coupon, recipientId: GIVER }, GIVER), false);
+  });
+});
+
+describe('findRequestRefusal', () => {
+  it('lets the recipient ask, again after a decline', () => {
+    assert.equal(findRequestRefusal(coupon, RECIPIENT), null);
+    assert.equal(findRequestRefusal({ ...coupon, requestStatus: 'declined' }, RECIPIENT), null);
+  });
+
+  it('turns away the giver and a second request while one is open', () => {
+    assert.match(findRequestRefusal(coupon, GIVER) ?? '', /^Only the person this coupon is made out to/);
+    assert.match(findRequestRefusal({ ...coupon, requestStatus: 'pending' }, RECIPIENT) ?? '', /already asked/);
+    assert.match(findRequestRefusal({ ...coupon, requestStatus: 'scheduled' }, RECIPIENT) ?? '', /already asked/);
+  });
+});
+
+describe('findAnswerRefusal', () => {
+  it('lets the giver answer a pending or planned request', () => {
+    assert.equal(findAnswerRefusal({ ...coupon, requestStatus: 'pending' }, GIVER), null);
+    assert.equal(findAnswerRefusal({ ...coupon, requestStatus: 'scheduled' }, GIVER), null);
+  });
+
+  it('turns away the recipient and requests that are not open', () => {
+    assert.match(findAnswerRefusal({ ...coupon, requestStatus: 'pending' }, RECIPIENT) ?? '', /^Only the giver/);
+    assert.match(findAnswerRefusal(coupon, GIVER) ?? '', /no open request/);
+    assert.match(findAnswerRefusal({ ...coupon, requestStatus: 'declined' }, GIVER) ?? '', /no open request/);
+  });
+});
+
+describe('findWithdrawRefusal', () => {
+  it('leaves withdrawing to the recipient', () => {
+    const requested = { ...coupon, requestStatus: 'pending' as const };
+
+    assert.equal(findWithdrawRefusal(requested, RECIPIENT), null);
+    assert.match(findWithdrawRefusal(requested, GIVER) ?? '', /^Only the person who asked/);
+  });
+});
+
+describe('answerRequest', () => {
+  const now = new Date('2026-03-20T09:00:00.000Z');
+  const day = new Date('2026-03-28T00:00:00.000Z');
+
+  it('plans the day when the giver schedules it', () => {
+    assert.deepEqual(answerRequest('schedule', day, now), {
+      requestStatus: 'scheduled',
+      respondedAt: now,
+      scheduledFor: day,
+    });
+  });
+
+  it('clears a planned day when the giver declines', () => {
+    assert.deepEqual(answerRequest('decline', day, now), {
+      requestStatus: 'declined',
+      respondedAt: now,
+      scheduledFor: null,
+    });
+  });
+});
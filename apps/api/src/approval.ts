@@ -0,0 +1,58 @@
+import type { Coupon } from '@prisma/client';
+import type { RequestResponse } from '@gomun/contract';
+
+// Coupons made out to someone: who they can be made out to, who asks to use one, who answers, and where the
+// request stands afterwards.
+
+type RequestParties = Pick<Coupon, 'userId' | 'recipientId' | 'requestStatus'>;
+
+export const CLEARED_REQUEST = { requestStatus: null, requestedAt: null, respondedAt: null, scheduledFor: null };
+
+export const RECIPIENT_MESSAGE = 'A coupon can only be made out to the other person in your space.';
+
+/**
+ * Checks that a coupon is made out to the other person in the space. Left out, the recipient is that person, or
+ * nobody in a space of one. Returns null when the id is not someone the giver can give a coupon to.
+ */
+export function pickRecipient(memberIds: string[], giverId: string, recipientId: string | null | undefined) {
+  const others = memberIds.filter((userId) => userId !== giverId);
+
+  if (recipientId === undefined) return { recipientId: others[0] ?? null };
+  return recipientId === null || others.includes(recipientId) ? { recipientId } : null;
+}
+
+/** A coupon made out to someone is used by asking its giver, not directly. */
+export function needsApproval(coupon: Pick<Coupon, 'userId' | 'recipientId'>, userId: string) {
+  return coupon.recipientId === userId && coupon.userId !== userId;
+}
+
+/** A request waits for the giver while it is pending or planned for a day; a declined one is settled. */
+export function hasOpenRequest(coupon: Pick<Coupon, 'requestStatus'>) {
+  return coupon.requestStatus === 'pending' || coupon.requestStatus === 'scheduled';
+}
+
+/** Why the user cannot ask to use the coupon, or null when they can. Whether it can be used at all is checked apart. */
+export function findRequestRefusal(coupon: RequestParties, userId: string) {
+  if (!needsApproval(coupon, userId)) return 'Only the person this coupon is made out to can ask to use it.';
+  if (hasOpenRequest(coupon)) return 'You have already asked to use this coupon.';
+  return null;
+}
+
+export function findAnswerRefusal(coupon: RequestParties, userId: string) {
+  if (coupon.userId !== userId) return 'Only the giver of this coupon can answer a request to use it.';
+  if (!hasOpenRequest(coupon)) return 'There is no open request for this coupon.';
+  return null;
+}
+
+export function findWithdrawRefusal(coupon: RequestParties, userId: string) {
+  return coupon.recipientId === userId ? null : 'Only the person who asked can withdraw a request.';
+}
+
+/** Where a request stands once the giver declines it or plans a day; accepting uses the coupon instead. */
+export function answerRequest(action: Exclude<RequestResponse, 'accept'>, scheduledFor: Date | null, now: Date) {
+  return {
+    requestStatus: action === 'decline' ? ('declined' as const) : ('scheduled' as const),
+    respondedAt: now,
+    scheduledFor: action === 'schedule' ? scheduledFor : null,
+  };
+}
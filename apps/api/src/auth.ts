@@ -0,0 +1,30 @@
+import crypto from 'crypto';
+
+// Passwords are kept as scrypt hashes, and session and calendar tokens as their SHA-256.
+
+function derivePasswordKey(password: string, salt: string) {
+  return new Promise<Buffer>((resolve, reject) => {
+    crypto.scrypt(password, salt, 64, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+export async function hashPassword(password: string) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const key = await derivePasswordKey(password, salt);
+  return `${salt}:${key.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const candidate = await derivePasswordKey(password, salt);
+  return expected.length === candidate.length && crypto.timingSafeEqual(expected, candidate);
+}
+
+export function hashSessionToken(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
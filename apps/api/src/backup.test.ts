@@ -0,0 +1,245 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BACKUP_FORMAT, BACKUP_VERSION, parseBackup } from './backup';
+
+function backup(fields: Record<string, unknown> = {}) {
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: '2026-03-20T09:00:00.000Z', ...fields };
+}
+
+const unlockedCoupon = { id: 'coupon-1', title: 'Breakfast in bed', unlocked: true };
+
+describe('parseBackup', () => {
+  it('accepts a minimal backup', () => {
+    assert.deepEqual(parseBackup(backup()), { entries: [], coupons: [], tags: [], problems: [] });
+  });
+
+  it('rejects other formats and versions', () => {
+    assert.deepEqual(parseBackup(null).problems, [
+      `format must be "${BACKUP_FORMAT}".`,
+      `version must be a number between 1 and ${BACKUP_VERSION}.`,
+    ]);
+    assert.equal(parseBackup(backup({ version: BACKUP_VERSION + 1 })).problems.length, 1);
+    assert.equal(parseBackup(backup({ version: '1' })).problems.length, 1);
+  });
+
+  it('collects every problem instead of stopping at the first', () => {
+    const { problems } = parseBackup(
+      backup({
+        entries: [{ id: 'entry-1', date: 'someday', done: 'yes', steps: [{ done: true }] }],
+        coupons: 'none',
+      })
+    );
+
+    assert.deepEqual(problems, [
+      'entries[0].title is required.',
+      'entries[0].date must be an ISO date.',
+      'entries[0].done must be true or false.',
+      'entries[0].steps[0].title is required.',
+      'coupons must be an array.',
+    ]);
+  });
+
+  it('reports ids and tag names that appear more than once', () => {
+    const { problems } = parseBackup(
+      backup({
+        tags: [
+          { id: 'tag-1', name: 'Beach' },
+          { id: 'tag-1', name: '  beach ' },
+        ],
+        entries: [
+          { id: 'entry-1', title: 'Surf' },
+          { id: 'entry-1', title: 'Snorkel' },
+        ],
+      })
+    );
+
+    assert.deepEqual(problems, [
+      'tags[1].id "tag-1" appears more than once.',
+      'tags[1].name "beach" appears more than once.',
+      'entries[1].id "entry-1" appears more than once.',
+    ]);
+  });
+
+  it('drops tag references that are not in the backup', () => {
+    const { entries, problems } = parseBackup(
+      backup({
+        tags: [{ id: 'tag-1', name: 'beach' }],
+        entries: [{ id: 'entry-1', title: 'Surf', tags: ['tag-1', 'tag-2'] }],
+      })
+    );
+
+    assert.deepEqual(entries[0].tags, ['tag-1']);
+    assert.deepEqual(problems, ['entries[0].tags[1] must be the id of a tag in the backup.']);
+  });
+
+  it('normalizes recurrence rules and rejects unsupported ones', () => {
+    const { entries, problems } = parseBackup(
+      backup({
+        entries: [
+          { id: 'entry-1', title: 'Call home', recurrence: 'rrule:freq=weekly;byday=we,mo' },
+          { id: 'entry-2', title: 'Water plants', recurrence: 'FREQ=HOURLY' },
+        ],
+      })
+    );
+
+    assert.equal(entries[0].recurrence, 'FREQ=WEEKLY;BYDAY=MO,WE');
+    assert.equal(entries[1].recurrence, null);
+    assert.deepEqual(problems, ['entries[1].recurrence is not a supported RRULE.']);
+  });
+
+  it('reads steps in order and checks reflections like the done route', () => {
+    const { entries, problems } = parseBackup(
+      backup({
+        entries: [
+          {
+            id: 'entry-1',
+            title: 'Hike the ridge',
+            steps: [{ title: 'Buy boots', done: true }, { title: 'Pick a weekend' }],
+            reflection: { rating: 9 },
+            occurrences: [{ completedAt: '2026-03-01T10:00:00.000Z', reflection: { note: 'Windy', rating: 4 } }],
+          },
+        ],
+      })
+    );
+
+    assert.deepEqual(
+      entries[0].steps.map(({ title, done, position }) => ({ title, done, position })),
+      [
+        { title: 'Buy boots', done: true, position: 0 },
+        { title: 'Pick a weekend', done: false, position: 1 },
+      ]
+    );
+    assert.equal(entries[0].reflection, null);
+    assert.equal(entries[0].occurrences[0].reflection?.note, 'Windy');
+    assert.equal(problems.length, 1);
+    assert.match(problems[0], /^entries\[0\]\.reflection\.rating must be a whole number/);
+  });
+
+  it('fills in coupon defaults', () => {
+    const { coupons, problems } = parseBackup(backup({ coupons: [{ id: 'coupon-1', title: ' Breakfast in bed ' }] }));
+
+    assert.deepEqual(problems, []);
+    assert.equal(coupons[0].title, 'Breakfast in bed');
+    assert.equal(coupons[0].unlocked, false);
+    assert.equal(coupons[0].unlockCondition, null);
+    assert.equal(coupons[0].relockPolicy, 'keep');
+    assert.equal(coupons[0].maxRedemptions, 1);
+    assert.deepEqual(coupons[0].redemptions, []);
+  });
+
+  it('keeps coupons that can be used as often as you like', () => {
+    const { coupons, problems } = parseBackup(backup({ coupons: [{ ...unlockedCoupon, maxRedemptions: null }] }));
+
+    assert.deepEqual(problems, []);
+    assert.equal(coupons[0].maxRedemptions, null);
+  });
+
+  it('checks unlock rules and relock policies', () => {
+    const { coupons, problems } = parseBackup(
+      backup({
+        coupons: [
+          { ...unlockedCoupon, unlockCondition: { type: 'all', conditions: [] } },
+          { ...unlockedCoupon, id: 'coupon-2', relockPolicy: 'sometimes' },
+          { ...unlockedCoupon, id: 'coupon-3', unlockCondition: { type: 'dreamCount', value: 2.7 } },
+        ],
+      })
+    );
+
+    assert.deepEqual(problems, [
+      'coupons[0].unlockCondition is not a valid rule.',
+      'coupons[1].relockPolicy must be one of keep, relock, flag.',
+    ]);
+    assert.deepEqual(coupons[2].unlockCondition, { type: 'dreamCount', value: 2 });
+  });
+
+  it('turns the redeemed flag of older backups into a redemption', () => {
+    const { coupons, problems } = parseBackup(
+      backup({
+        coupons: [
+          { ...unlockedCoupon, redeemed: true, redeemedAt: '2026-02-14T20:00:00.000Z', redeemedBy: 'user-2' },
+          { ...unlockedCoupon, id: 'coupon-2', redeemed: false },
+        ],
+      })
+    );
+
+    assert.deepEqual(problems, []);
+    assert.deepEqual(coupons[0].redemptions, [
+      { redeemedAt: new Date('2026-02-14T20:00:00.000Z'), redeemedBy: 'user-2' },
+    ]);
+    assert.deepEqual(coupons[1].redemptions, []);
+  });
+
+  it('sorts redemptions and checks them against the lock and the limit', () => {
+    const redemptions = [{ redeemedAt: '2026-03-02T10:00:00.000Z' }, { redeemedAt: '2026-03-01T10:00:00.000Z' }];
+    const { coupons, problems } = parseBackup(
+      backup({
+        coupons: [
+          { ...unlockedCoupon, maxRedemptions: 3, redemptions },
+          { ...unlockedCoupon, id: 'coupon-2', unlocked: false, redeemed: true },
+          { ...unlockedCoupon, id: 'coupon-3', redemptions },
+          { ...unlockedCoupon, id: 'coupon-4', maxRedemptions: 0 },
+        ],
+      })
+    );
+
+    assert.deepEqual(
+      coupons[0].redemptions.map((redemption) => redemption.redeemedAt.toISOString()),
+      ['2026-03-01T10:00:00.000Z', '2026-03-02T10:00:00.000Z']
+    );
+    assert.equal(problems.length, 3);
+    assert.equal(problems[0], 'coupons[1] cannot be redeemed while locked.');
+    assert.equal(problems[1], 'coupons[2] is used more often than its maxRedemptions allows.');
+    assert.match(problems[2], /^coupons\[3\]\.maxRedemptions must be a whole number/);
+  });
+
+  it('keeps where a request to use the coupon stands', () => {
+    const { coupons, problems } = parseBackup(
+      backup({
+        coupons: [
+          {
+            ...unlockedCoupon,
+            recipient: 'partner@example.com',
+            requestStatus: 'scheduled',
+            requestedAt: '2026-03-01T10:00:00.000Z',
+            respondedAt: '2026-03-02T10:00:00.000Z',
+            scheduledFor: '2026-03-14T00:00:00.000Z',
+          },
+          { ...unlockedCoupon, id: 'coupon-2', requestStatus: 'pending', scheduledFor: '2026-03-14T00:00:00.000Z' },
+          { ...unlockedCoupon, id: 'coupon-3' },
+        ],
+      })
+    );
+
+    assert.deepEqual(problems, []);
+    assert.deepEqual(coupons[0].request, {
+      status: 'scheduled',
+      requestedAt: new Date('2026-03-01T10:00:00.000Z'),
+      respondedAt: new Date('2026-03-02T10:00:00.000Z'),
+      scheduledFor: new Date('2026-03-14T00:00:00.000Z'),
+    });
+    assert.equal(coupons[1].request?.scheduledFor, null);
+    assert.equal(coupons[2].request, null);
+  });
+
+  it('checks request states and keeps a review only with its reason', () => {
+    const { coupons, problems } = parseBackup(
+      backup({
+        coupons: [
+          { ...unlockedCoupon, requestStatus: 'accepted' },
+          { ...unlockedCoupon, id: 'coupon-2', requestStatus: 'scheduled' },
+          { ...unlockedCoupon, id: 'coupon-3', needsReview: true },
+          { ...unlockedCoupon, id: 'coupon-4', needsReview: true, reviewReason: 'tagDeleted' },
+          { ...unlockedCoupon, id: 'coupon-5', needsReview: false, reviewReason: 'tagDeleted' },
+        ],
+      })
+    );
+
+    assert.deepEqual(problems, [
+      'coupons[0].requestStatus must be one of pending, scheduled, declined.',
+      'coupons[1].scheduledFor is required when the request is scheduled.',
+      'coupons[2].reviewReason is required when needsReview is true.',
+    ]);
+    assert.equal(coupons[3].reviewReason, 'tagDeleted');
+    assert.equal(coupons[4].reviewReason, null);
+  });
+});
@@ -0,0 +1,308 @@
+import {
+  maxRedemptionsSchema,
+  MAX_TAG_NAME_LENGTH,
+  MAX_TAGS_PER_ENTRY,
+  normalizeTagName,
+  reflectionBodySchema,
+  RELOCK_POLICIES,
+  reminderOffsetsSchema,
+  REQUEST_STATUSES,
+  REVIEW_REASONS,
+} from '@gomun/contract';
+import type { RelockPolicy, RequestStatus, ReviewReason, UnlockCondition } from '@gomun/contract';
+import { formatRecurrence, parseRecurrence } from './recurrence';
+import { parseRelockPolicy, parseUnlockCondition } from './unlock';
+
+// The versioned JSON backup: its format markers and the validator every restore goes through.
+
+export type BackupEntry = {
+  id: string;
+  title: string;
+  note: string | null;
+  date: Date | null;
+  done: boolean;
+  completedAt: Date | null;
+  completedBy: string | null;
+  createdBy: string | null;
+  recurrence: string | null;
+  autoComplete: boolean;
+  reminderOffsets: number[];
+  createdAt: Date | null;
+  tags: string[];
+  steps: { title: string; done: boolean; position: number; completedAt: Date | null }[];
+  reflection: BackupReflection | null;
+  occurrences: {
+    date: Date | null;
+    completedAt: Date;
+    completedBy: string | null;
+    reflection: BackupReflection | null;
+  }[];
+};
+
+export type BackupReflection = {
+  completedOn: Date | null;
+  note: string | null;
+  rating: number | null;
+  companions: string[];
+  author: string | null;
+};
+
+export type BackupTag = {
+  id: string;
+  name: string;
+};
+
+export type BackupCoupon = {
+  id: string;
+  title: string;
+  description: string | null;
+  createdAt: Date | null;
+  createdBy: string | null;
+  unlockCondition: UnlockCondition | null;
+  relockPolicy: RelockPolicy;
+  unlocked: boolean;
+  expiresAt: Date | null;
+  maxRedemptions: number | null;
+  redemptions: { redeemedAt: Date; redeemedBy: string | null }[];
+  recipient: string | null;
+  request: BackupCouponRequest | null;
+  reviewReason: ReviewReason | null;
+};
+
+export type BackupCouponRequest = {
+  status: RequestStatus;
+  requestedAt: Date | null;
+  respondedAt: Date | null;
+  scheduledFor: Date | null;
+};
+
+export const BACKUP_FORMAT = 'gomun-backup';
+export const BACKUP_VERSION = 1;
+
+/**
+ * Validates a backup document field by field. Problems are collected rather than thrown
+ * so a broken file can be fixed in one go; only the first few are reported.
+ */
+export function parseBackup(raw: unknown) {
+  const problems: string[] = [];
+  const entries: BackupEntry[] = [];
+  const coupons: BackupCoupon[] = [];
+  const tags: BackupTag[] = [];
+  const doc = (raw ?? {}) as Record<string, unknown>;
+
+  const readText = (value: unknown, path: string, required = false) => {
+    if (value === undefined || value === null || value === '') {
+      if (required) problems.push(`${path} is required.`);
+      return null;
+    }
+    if (typeof value !== 'string') {
+      problems.push(`${path} must be a string.`);
+      return null;
+    }
+    return value;
+  };
+
+  const readDate = (value: unknown, path: string) => {
+    if (value === undefined || value === null) return null;
+    const date = typeof value === 'string' ? new Date(value) : null;
+    if (!date || Number.isNaN(date.getTime())) {
+      problems.push(`${path} must be an ISO date.`);
+      return null;
+    }
+    return date;
+  };
+
+  const readFlag = (value: unknown, path: string) => {
+    if (value === undefined) return false;
+    if (typeof value !== 'boolean') problems.push(`${path} must be true or false.`);
+    return value === true;
+  };
+
+  const readChoice = <T extends string>(value: unknown, path: string, choices: readonly T[]) => {
+    if (value === undefined || value === null) return null;
+    if (typeof value !== 'string' || !choices.includes(value as T)) {
+      problems.push(`${path} must be one of ${choices.join(', ')}.`);
+      return null;
+    }
+    return value as T;
+  };
+
+  const readList = (value: unknown, path: string) => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+      problems.push(`${path} must be an array.`);
+      return [];
+    }
+    return value as Record<string, unknown>[];
+  };
+
+  // Checked with the schema the done route uses, so a backup cannot hold a rating or a name that route would refuse.
+  const readReflection = (value: unknown, path: string): BackupReflection | null => {
+    if (value === undefined || value === null) return null;
+
+    const item = value as Record<string, unknown>;
+    const parsed = reflectionBodySchema.safeParse({ ...item, companions: item.companions ?? [] });
+    if (!parsed.success) {
+      problems.push(`${path}.${parsed.error.issues[0]?.message}`);
+      return null;
+    }
+
+    return {
+      completedOn: parsed.data.completedOn ?? null,
+      note: parsed.data.note ?? null,
+      rating: parsed.data.rating ?? null,
+      companions: parsed.data.companions ?? [],
+      author: readText(item.author, `${path}.author`),
+    };
+  };
+
+  if (doc.format !== BACKUP_FORMAT) {
+    problems.push(`format must be "${BACKUP_FORMAT}".`);
+  }
+
+  if (typeof doc.version !== 'number' || doc.version < 1 || doc.version > BACKUP_VERSION) {
+    problems.push(`version must be a number between 1 and ${BACKUP_VERSION}.`);
+  }
+
+  const tagIds = new Set<string>();
+
+  readList(doc.tags, 'tags').forEach((item, index) => {
+    const path = `tags[${index}]`;
+    const id = readText(item?.id, `${path}.id`, true);
+    if (id && tagIds.has(id)) problems.push(`${path}.id "${id}" appears more than once.`);
+    if (id) tagIds.add(id);
+
+    const name = normalizeTagName(readText(item?.name, `${path}.name`, true) ?? '');
+    if (name.length > MAX_TAG_NAME_LENGTH) {
+      problems.push(`${path}.name must be at most ${MAX_TAG_NAME_LENGTH} characters.`);
+    }
+    if (name && tags.some((tag) => tag.name === name)) problems.push(`${path}.name "${name}" appears more than once.`);
+
+    tags.push({ id: id ?? '', name });
+  });
+
+  const entryIds = new Set<string>();
+
+  readList(doc.entries, 'entries').forEach((item, index) => {
+    const path = `entries[${index}]`;
+    const id = readText(item?.id, `${path}.id`, true);
+    if (id && entryIds.has(id)) problems.push(`${path}.id "${id}" appears more than once.`);
+    if (id) entryIds.add(id);
+
+    const recurrence = readText(item?.recurrence, `${path}.recurrence`);
+    const rule = recurrence ? parseRecurrence(recurrence) : null;
+    if (recurrence && !rule) problems.push(`${path}.recurrence is not a supported RRULE.`);
+
+    const reminderOffsets = reminderOffsetsSchema.safeParse(item?.reminderOffsets ?? []);
+    if (!reminderOffsets.success) problems.push(`${path}.${reminderOffsets.error.issues[0]?.message}`);
+
+    const entryTags = (readList(item?.tags, `${path}.tags`) as unknown[]).filter((tagId, tagIndex) => {
+      if (typeof tagId === 'string' && tagIds.has(tagId)) return true;
+      problems.push(`${path}.tags[${tagIndex}] must be the id of a tag in the backup.`);
+      return false;
+    }) as string[];
+    if (entryTags.length > MAX_TAGS_PER_ENTRY) {
+      problems.push(`${path}.tags can hold at most ${MAX_TAGS_PER_ENTRY} tags.`);
+    }
+
+    entries.push({
+      id: id ?? '',
+      title: readText(item?.title, `${path}.title`, true)?.trim() ?? '',
+      note: readText(item?.note, `${path}.note`),
+      date: readDate(item?.date, `${path}.date`),
+      done: readFlag(item?.done, `${path}.done`),
+      completedAt: readDate(item?.completedAt, `${path}.completedAt`),
+      completedBy: readText(item?.completedBy, `${path}.completedBy`),
+      createdBy: readText(item?.createdBy, `${path}.createdBy`),
+      recurrence: rule ? formatRecurrence(rule) : null,
+      autoComplete: readFlag(item?.autoComplete, `${path}.autoComplete`),
+      reminderOffsets: reminderOffsets.data ?? [],
+      createdAt: readDate(item?.createdAt, `${path}.createdAt`),
+      tags: entryTags,
+      steps: readList(item?.steps, `${path}.steps`).map((step, stepIndex) => ({
+        title: readText(step?.title, `${path}.steps[${stepIndex}].title`, true) ?? '',
+        done: readFlag(step?.done, `${path}.steps[${stepIndex}].done`),
+        position: stepIndex,
+        completedAt: readDate(step?.completedAt, `${path}.steps[${stepIndex}].completedAt`),
+      })),
+      occurrences: readList(item?.occurrences, `${path}.occurrences`).map((occurrence, occurrenceIndex) => ({
+        date: readDate(occurrence?.date, `${path}.occurrences[${occurrenceIndex}].date`),
+        completedAt:
+          readDate(occurrence?.completedAt, `${path}.occurrences[${occurrenceIndex}].completedAt`) ?? new Date(),
+        completedBy: readText(occurrence?.completedBy, `${path}.occurrences[${occurrenceIndex}].completedBy`),
+        reflection: readReflection(occurrence?.reflection, `${path}.occurrences[${occurrenceIndex}].reflection`),
+      })),
+      reflection: readReflection(item?.reflection, `${path}.reflection`),
+    });
+  });
+
+  readList(doc.coupons, 'coupons').forEach((item, index) => {
+    const path = `coupons[${index}]`;
+    const rawCondition = item?.unlockCondition;
+    const unlockCondition = rawCondition == null ? null : parseUnlockCondition(rawCondition);
+    if (rawCondition != null && !unlockCondition) problems.push(`${path}.unlockCondition is not a valid rule.`);
+
+    const relockPolicy = parseRelockPolicy(item?.relockPolicy ?? 'keep');
+    if (!relockPolicy) problems.push(`${path}.relockPolicy must be one of ${RELOCK_POLICIES.join(', ')}.`);
+
+    const unlocked = readFlag(item?.unlocked, `${path}.unlocked`);
+    const maxRedemptions = maxRedemptionsSchema.safeParse(item?.maxRedemptions);
+    if (!maxRedemptions.success) problems.push(`${path}.${maxRedemptions.error.issues[0]?.message}`);
+
+    // Files written before coupons could be used more than once only say whether the one use was spent.
+    const redemptions =
+      item?.redemptions === undefined
+        ? readFlag(item?.redeemed, `${path}.redeemed`)
+          ? [
+              {
+                redeemedAt: readDate(item?.redeemedAt, `${path}.redeemedAt`) ?? new Date(),
+                redeemedBy: readText(item?.redeemedBy, `${path}.redeemedBy`),
+              },
+            ]
+          : []
+        : readList(item?.redemptions, `${path}.redemptions`).map((redemption, redemptionIndex) => ({
+            redeemedAt:
+              readDate(redemption?.redeemedAt, `${path}.redemptions[${redemptionIndex}].redeemedAt`) ?? new Date(),
+            redeemedBy: readText(redemption?.redeemedBy, `${path}.redemptions[${redemptionIndex}].redeemedBy`),
+          }));
+    if (redemptions.length > 0 && !unlocked) problems.push(`${path} cannot be redeemed while locked.`);
+    if (maxRedemptions.data && redemptions.length > maxRedemptions.data) {
+      problems.push(`${path} is used more often than its maxRedemptions allows.`);
+    }
+
+    const requestStatus = readChoice(item?.requestStatus, `${path}.requestStatus`, REQUEST_STATUSES);
+    const scheduledFor = readDate(item?.scheduledFor, `${path}.scheduledFor`);
+    if (requestStatus === 'scheduled' && !scheduledFor) {
+      problems.push(`${path}.scheduledFor is required when the request is scheduled.`);
+    }
+
+    // needsReview is only kept with the reason for it, which the coupon card shows.
+    const reviewReason = readChoice(item?.reviewReason, `${path}.reviewReason`, REVIEW_REASONS);
+    const needsReview = readFlag(item?.needsReview, `${path}.needsReview`);
+    if (needsReview && !reviewReason) problems.push(`${path}.reviewReason is required when needsReview is true.`);
+
+    coupons.push({
+      id: readText(item?.id, `${path}.id`, true) ?? '',
+      title: readText(item?.title, `${path}.title`, true)?.trim() ?? '',
+      description: readText(item?.description, `${path}.description`),
+      createdAt: readDate(item?.createdAt, `${path}.createdAt`),
+      createdBy: readText(item?.createdBy, `${path}.createdBy`),
+      unlockCondition,
+      relockPolicy: relockPolicy ?? 'keep',
+      unlocked,
+      expiresAt: readDate(item?.expiresAt, `${path}.expiresAt`),
+      maxRedemptions: maxRedemptions.success ? maxRedemptions.data : 1,
+      recipient: readText(item?.recipient, `${path}.recipient`),
+      redemptions: redemptions.sort((a, b) => a.redeemedAt.getTime() - b.redeemedAt.getTime()),
+      request: requestStatus && {
+        status: requestStatus,
+        requestedAt: readDate(item?.requestedAt, `${path}.requestedAt`),
+        respondedAt: readDate(item?.respondedAt, `${path}.respondedAt`),
+        scheduledFor: requestStatus === 'scheduled' ? scheduledFor : null,
+      },
+      reviewReason: needsReview ? reviewReason : null,
+    });
+  });
+
+  return { entries, coupons, tags, problems };
+}
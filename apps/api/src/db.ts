@@ -0,0 +1,5 @@
+import { PrismaClient } from '@prisma/client';
+
+// The API's one database client, shared by the routes, the sweeps and the legacy import.
+
+export const prisma = new PrismaClient();
@@ -0,0 +1,186 @@
+import nodemailer from 'nodemailer';
+import webpush from 'web-push';
+import type { Entry, Prisma } from '@prisma/client';
+import { MAX_REMINDER_OFFSET_MINUTES } from '@gomun/contract';
+import type { ReminderChannel } from '@gomun/contract';
+import { prisma } from './db';
+import { findDueReminder, OVERDUE_REMINDER_WINDOW_MS } from './reminders';
+import type { DueReminder } from './reminders';
+import { DAY_MS, MINUTE_MS } from './time';
+
+// Sending reminders: the channels that carry them, and the sweep that finds which dreams are due one.
+
+type ReminderRecipient = Prisma.UserGetPayload<{ include: { pushSubscriptions: true } }>;
+
+/** What a reminder says, whichever channel carries it. */
+type ReminderMessage = {
+  title: string;
+  body: string;
+  /** Lets a newer notification for the same dream replace an older one. */
+  tag: string;
+  url: string;
+};
+
+/** One way of delivering reminders. A new channel is one more of these and one more flag in the settings. */
+type ReminderSender = {
+  channel: ReminderChannel;
+  /** False when the server has no settings for the channel, so nobody can turn it on. */
+  available: boolean;
+  wants: (user: ReminderRecipient) => boolean;
+  send: (user: ReminderRecipient, message: ReminderMessage) => Promise<void>;
+};
+
+export const REMINDER_SWEEP_INTERVAL_MS = (Number(process.env.REMINDER_SWEEP_INTERVAL_MINUTES) || 5) * MINUTE_MS;
+const REMINDER_EMAIL_FROM = process.env.SMTP_FROM ?? 'GoMun <reminders@gomun.local>';
+const APP_URL = process.env.APP_URL ?? '';
+
+// A reminder channel is on only when its settings are present. A local SMTP stand-in needs just a host and port.
+const mailer = process.env.SMTP_HOST
+  ? nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+    })
+  : null;
+export const vapidPublicKey = (process.env.VAPID_PRIVATE_KEY && process.env.VAPID_PUBLIC_KEY) || null;
+
+if (vapidPublicKey) {
+  webpush.setVapidDetails(
+    process.env.VAPID_SUBJECT ?? 'mailto:reminders@gomun.local',
+    vapidPublicKey,
+    process.env.VAPID_PRIVATE_KEY as string
+  );
+}
+
+const reminderSenders: ReminderSender[] = [
+  {
+    channel: 'email',
+    available: mailer !== null,
+    wants: (user) => user.emailReminders,
+    send: async (user, message) => {
+      const footer = APP_URL ? `\n\nOpen GoMun: ${APP_URL}` : '';
+      await mailer?.sendMail({
+        from: REMINDER_EMAIL_FROM,
+        to: user.email,
+        subject: message.title,
+        text: `${message.body}${footer}\n\nYou get these because email reminders are on in GoMun's settings.`,
+      });
+    },
+  },
+  {
+    channel: 'push',
+    available: vapidPublicKey !== null,
+    wants: (user) => user.pushReminders && user.pushSubscriptions.length > 0,
+    send: async (user, message) => {
+      const payload = JSON.stringify(message);
+
+      await Promise.all(
+        user.pushSubscriptions.map(async (subscription) => {
+          try {
+            await webpush.sendNotification(
+              { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+              payload
+            );
+          } catch (error) {
+            // The browser dropped the subscription, so it is forgotten rather than tried on every pass.
+            if (error instanceof webpush.WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+              await prisma.pushSubscription.deleteMany({ where: { id: subscription.id } });
+              return;
+            }
+            throw error;
+          }
+        })
+      );
+    },
+  },
+];
+
+export function isReminderChannelAvailable(channel: ReminderChannel) {
+  return reminderSenders.some((sender) => sender.channel === channel && sender.available);
+}
+
+function buildReminderMessage(entry: Entry, date: Date, due: DueReminder): ReminderMessage {
+  const day = date.toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+  const note = entry.note ? `\n\n${entry.note}` : '';
+
+  return due.kind === 'overdue'
+    ? {
+        title: `"${entry.title}" is overdue`,
+        body: `This dream was due on ${day} and has not come true yet.${note}`,
+        tag: `gomun-reminder-${entry.id}`,
+        url: '/',
+      }
+    : {
+        title: `"${entry.title}" is coming up`,
+        body: `This dream is due on ${day}.${note}`,
+        tag: `gomun-reminder-${entry.id}`,
+        url: '/',
+      };
+}
+
+/** Sends one reminder on every channel the person has on. Returns false when there was nothing to send. */
+async function deliverReminder(user: ReminderRecipient, entry: Entry, date: Date, due: DueReminder) {
+  const senders = reminderSenders.filter((sender) => sender.available && sender.wants(user));
+  if (senders.length === 0) return false;
+
+  try {
+    // Claimed before it is sent, so an overlapping pass or a second instance skips it.
+    await prisma.reminder.create({ data: { entryId: entry.id, userId: user.id, dueAt: date, ...due } });
+  } catch (error) {
+    if ((error as { code?: string }).code === 'P2002') return false;
+    throw error;
+  }
+
+  const message = buildReminderMessage(entry, date, due);
+  const results = await Promise.allSettled(senders.map((sender) => sender.send(user, message)));
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`Sending a ${senders[index].channel} reminder failed`, result.reason);
+    }
+  });
+  return true;
+}
+
+export async function runReminderSweep() {
+  const now = new Date();
+
+  try {
+    const entries = await prisma.entry.findMany({
+      where: {
+        done: false,
+        reminderOffsets: { isEmpty: false },
+        date: {
+          gt: new Date(now.getTime() - DAY_MS - OVERDUE_REMINDER_WINDOW_MS),
+          lte: new Date(now.getTime() + MAX_REMINDER_OFFSET_MINUTES * MINUTE_MS),
+        },
+      },
+      include: { space: { include: { members: { include: { user: { include: { pushSubscriptions: true } } } } } } },
+    });
+
+    let sentCount = 0;
+
+    for (const entry of entries) {
+      const due = findDueReminder(entry, now);
+      if (!due || !entry.date) continue;
+
+      // Dreams are shared, so everyone in the space hears about them.
+      for (const { user } of entry.space.members) {
+        if (await deliverReminder(user, entry, entry.date, due)) sentCount += 1;
+      }
+    }
+
+    if (sentCount > 0) {
+      console.log(`⏰ Reminder pass sent ${sentCount} reminder(s)`);
+    }
+  } catch (error) {
+    console.error('Reminder pass failed', error);
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { entryFiltersToWhere, entryOrderBy, letterWhere, pageArgs, toPage } from './entries';
+
+describe('entryFiltersToWhere', () => {
+  it('keeps to the space when nothing else is asked', () => {
+    assert.deepEqual(entryFiltersToWhere('space-1', {}), { spaceId: 'space-1' });
+  });
+
+  it('combines every filter given', () => {
+    const from = new Date('2026-03-01T00:00:00.000Z');
+    const to = new Date('2026-03-31T23:59:59.999Z');
+
+    assert.deepEqual(
+      entryFiltersToWhere('space-1', { done: false, userId: 'user-1', tag: 'tag-1', from, to, letter: 'P' }),
+      {
+        spaceId: 'space-1',
+        done: false,
+        userId: 'user-1',
+        tags: { some: { id: 'tag-1' } },
+        date: { gte: from, lte: to },
+        title: { startsWith: 'P', mode: 'insensitive' },
+      }
+    );
+  });
+
+  it('leaves a missing end of the date range open', () => {
+    const from = new Date('2026-03-01T00:00:00.000Z');
+
+    assert.deepEqual(entryFiltersToWhere('space-1', { from }).date, { gte: from, lte: undefined });
+  });
+
+  it('keeps dated or undated dreams only', () => {
+    assert.deepEqual(entryFiltersToWhere('space-1', { dated: true }).AND, [{ date: { not: null } }]);
+    assert.deepEqual(entryFiltersToWhere('space-1', { dated: false }).AND, [{ date: null }]);
+  });
+});
+
+describe('letterWhere', () => {
+  it('puts every title without a Latin initial under #', () => {
+    const where = letterWhere('#');
+    const excluded = (where.NOT as { title: { startsWith: string } }[]).map((clause) => clause.title.startsWith);
+
+    assert.equal(excluded.length, 26);
+    assert.equal(excluded.join(''), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ');
+  });
+});
+
+describe('entryOrderBy', () => {
+  it('sorts titles A–Z and everything else newest first by default', () => {
+    assert.deepEqual(entryOrderBy({ sort: 'title' }), [{ title: 'asc' }, { id: 'asc' }]);
+    assert.deepEqual(entryOrderBy({ sort: 'createdAt' }), [{ createdAt: 'desc' }, { id: 'desc' }]);
+  });
+
+  it('puts dreams without a date or completion last', () => {
+    assert.deepEqual(entryOrderBy({ sort: 'date', order: 'asc' }), [
+      { date: { sort: 'asc', nulls: 'last' } },
+      { id: 'asc' },
+    ]);
+    assert.deepEqual(entryOrderBy({ sort: 'completedAt' })[0], { completedAt: { sort: 'desc', nulls: 'last' } });
+  });
+});
+
+describe('pages', () => {
+  const rows = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+
+  it('asks for one row more than a page, after the cursor', () => {
+    assert.deepEqual(pageArgs(2), { take: 3 });
+    assert.deepEqual(pageArgs(2, 'b'), { take: 3, cursor: { id: 'b' }, skip: 1 });
+  });
+
+  it('points the next cursor at the last row shown while more follow', () => {
+    assert.deepEqual(toPage(rows, 2), { items: [{ id: 'a' }, { id: 'b' }], nextCursor: 'b' });
+    assert.deepEqual(toPage(rows, 3), { items: rows, nextCursor: null });
+    assert.deepEqual(toPage([], 3), { items: [], nextCursor: null });
+  });
+});
@@ -0,0 +1,63 @@
+import type { Prisma } from '@prisma/client';
+import type { EntryFiltersQuery, EntryListQuery } from '@gomun/contract';
+
+// How the agenda's filters, sort orders and pages turn into Prisma queries.
+
+/** What every dream response carries. */
+export const ENTRY_INCLUDE = {
+  _count: { select: { occurrences: true } },
+  steps: { orderBy: { position: 'asc' } },
+  tags: { select: { id: true, name: true }, orderBy: { name: 'asc' } },
+  attachments: { orderBy: { createdAt: 'asc' } },
+  reflection: true,
+} satisfies Prisma.EntryInclude;
+
+export type EntryWithDetails = Prisma.EntryGetPayload<{ include: typeof ENTRY_INCLUDE }>;
+
+const LATIN_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+/** The agenda's letter buckets: a Latin initial in either case, or # for every title that has none. */
+export function letterWhere(letter: string): Prisma.EntryWhereInput {
+  if (letter === '#') {
+    return {
+      NOT: LATIN_LETTERS.map((latin) => ({ title: { startsWith: latin, mode: 'insensitive' as const } })),
+    };
+  }
+
+  return { title: { startsWith: letter, mode: 'insensitive' } };
+}
+
+export function entryFiltersToWhere(spaceId: string, filters: EntryFiltersQuery): Prisma.EntryWhereInput {
+  return {
+    spaceId,
+    ...(filters.done !== undefined ? { done: filters.done } : {}),
+    ...(filters.userId ? { userId: filters.userId } : {}),
+    ...(filters.tag ? { tags: { some: { id: filters.tag } } } : {}),
+    ...(filters.from || filters.to ? { date: { gte: filters.from, lte: filters.to } } : {}),
+    ...(filters.dated !== undefined ? { AND: [{ date: filters.dated ? { not: null } : null }] } : {}),
+    ...(filters.letter ? letterWhere(filters.letter) : {}),
+  };
+}
+
+/**
+ * Titles default to A–Z; every other sort defaults to newest first. Dreams without a date or a completion sort
+ * last either way, and the id breaks ties so a cursor always lands on the same row.
+ */
+export function entryOrderBy({ sort, order }: Pick<EntryListQuery, 'sort' | 'order'>) {
+  const direction = order ?? (sort === 'title' ? 'asc' : 'desc');
+
+  return [
+    sort === 'date' || sort === 'completedAt' ? { [sort]: { sort: direction, nulls: 'last' } } : { [sort]: direction },
+    { id: direction },
+  ] satisfies Prisma.EntryOrderByWithRelationInput[];
+}
+
+/** Asks for one row more than the page holds, so the answer tells whether another page follows. */
+export function pageArgs(limit: number, cursor?: string) {
+  return { take: limit + 1, ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}) };
+}
+
+export function toPage<T extends { id: string }>(rows: T[], limit: number) {
+  const items = rows.slice(0, limit);
+  return { items, nextCursor: rows.length > limit ? items[items.length - 1].id : null };
+}
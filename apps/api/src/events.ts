@@ -0,0 +1,26 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+import type { EventType } from '@gomun/contract';
+
+// The space's activity log behind the timeline.
+
+export type EventInput = {
+  type: EventType;
+  actorId: string | null;
+  payload: Record<string, unknown>;
+};
+
+/** Titles are copied into the payload so the timeline still reads well after a dream or coupon is erased. */
+export function recordEvents(db: Prisma.TransactionClient | PrismaClient, spaceId: string, events: EventInput[]) {
+  if (events.length === 0) {
+    return Promise.resolve({ count: 0 });
+  }
+
+  return db.event.createMany({
+    data: events.map((event) => ({
+      spaceId,
+      actorId: event.actorId,
+      type: event.type,
+      payload: event.payload as Prisma.InputJsonValue,
+    })),
+  });
+}
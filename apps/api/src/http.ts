@@ -0,0 +1,26 @@
+import type { Response } from 'express';
+import type { AuthUser, ValidationResult } from '@gomun/contract';
+
+// What a route reads from its request: the signed-in user and space that requireAuth left, and checked input.
+
+export function currentUser(res: Response): AuthUser {
+  return res.locals.user as AuthUser;
+}
+
+export function currentSpaceId(res: Response): string {
+  return res.locals.spaceId as string;
+}
+
+export function readQueryString(value: unknown) {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/** Validates input against its contract schema; on failure answers 400 with the field errors and returns null. */
+export function parseRequest<T>(res: Response, result: ValidationResult<T>): T | null {
+  if (!result.ok) {
+    res.status(400).json(result.error);
+    return null;
+  }
+
+  return result.data;
+}
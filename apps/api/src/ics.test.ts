@@ -0,0 +1,175 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Entry } from '@prisma/client';
+import { buildCalendar, icsImportKey, parseIcsEvents } from './ics';
+
+type CalendarEntry = Entry & { _count: { occurrences: number } };
+
+function entry(overrides: Partial<CalendarEntry> = {}): CalendarEntry {
+  return {
+    id: 'entry-1',
+    spaceId: 'space-1',
+    userId: 'user-1',
+    title: 'See the northern lights',
+    note: null,
+    date: new Date('2026-03-20T00:00:00Z'),
+    done: false,
+    completedById: null,
+    completedAt: null,
+    recurrence: null,
+    icalUid: null,
+    autoComplete: false,
+    reminderOffsets: [],
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    _count: { occurrences: 0 },
+    ...overrides,
+  };
+}
+
+/** The content lines of the only event in a calendar, unfolded. */
+function eventLines(calendar: string) {
+  const lines = calendar.replace(/\r\n /g, '').split('\r\n');
+  return lines.slice(lines.indexOf('BEGIN:VEVENT') + 1, lines.indexOf('END:VEVENT'));
+}
+
+describe('buildCalendar', () => {
+  it('writes midnight dates as all-day events', () => {
+    const lines = eventLines(buildCalendar('Us', [entry()]));
+    assert.ok(lines.includes('UID:entry-1@gomun'));
+    assert.ok(lines.includes('DTSTART;VALUE=DATE:20260320'));
+    assert.ok(lines.includes('DTEND;VALUE=DATE:20260321'));
+  });
+
+  it('writes other dates as UTC times', () => {
+    const lines = eventLines(buildCalendar('Us', [entry({ date: new Date('2026-03-20T09:30:00Z') })]));
+    assert.ok(lines.includes('DTSTART:20260320T093000Z'));
+    assert.ok(!lines.some((line) => line.startsWith('DTEND')));
+  });
+
+  it('leaves out undated dreams', () => {
+    assert.ok(!buildCalendar('Us', [entry({ date: null })]).includes('BEGIN:VEVENT'));
+  });
+
+  it('escapes text values', () => {
+    const lines = eventLines(buildCalendar('Us', [entry({ title: 'Paris, Rome; Berlin\\', note: 'Pack\nlight' })]));
+    assert.ok(lines.includes('SUMMARY:Paris\\, Rome\\; Berlin\\\\'));
+    assert.ok(lines.includes('DESCRIPTION:Pack\\nlight'));
+  });
+
+  it('ticks fulfilled dreams and drops their RRULE', () => {
+    const lines = eventLines(buildCalendar('Us', [entry({ done: true, recurrence: 'FREQ=WEEKLY' })]));
+    assert.ok(lines.includes('SUMMARY:✓ See the northern lights'));
+    assert.ok(lines.includes('STATUS:CONFIRMED'));
+    assert.ok(!lines.some((line) => line.startsWith('RRULE')));
+  });
+
+  it('counts only the occurrences still to come', () => {
+    const rrule = (recurrence: string, occurrences: number) =>
+      eventLines(buildCalendar('Us', [entry({ recurrence, _count: { occurrences } })])).find((line) =>
+        line.startsWith('RRULE:')
+      );
+
+    assert.equal(rrule('FREQ=WEEKLY;COUNT=5', 2), 'RRULE:FREQ=WEEKLY;COUNT=3');
+    assert.equal(rrule('FREQ=WEEKLY;COUNT=5', 7), 'RRULE:FREQ=WEEKLY;COUNT=1');
+    assert.equal(rrule('FREQ=WEEKLY;INTERVAL=2', 4), 'RRULE:FREQ=WEEKLY;INTERVAL=2');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const title = 'Écrire une lettre à chaque ville visitée 🏔️ '.repeat(6);
+    const calendar = buildCalendar('Us', [entry({ title })]);
+    const physicalLines = calendar.split('\r\n');
+
+    assert.ok(calendar.endsWith('\r\n'));
+    assert.ok(physicalLines.some((line) => line.startsWith(' ')));
+    for (const line of physicalLines) {
+      assert.ok(Buffer.byteLength(line) <= 75, `${Buffer.byteLength(line)} octets: ${line}`);
+      assert.equal(Buffer.from(line).toString(), line);
+    }
+    assert.ok(eventLines(calendar).includes(`SUMMARY:${title}`));
+  });
+
+  it('reads back what it writes', () => {
+    const title = 'Swim in, the; sea '.repeat(8);
+    const [event] = parseIcsEvents(buildCalendar('Us', [entry({ title, note: 'Bring\na towel' })]));
+    assert.equal(event.uid, 'entry-1@gomun');
+    assert.equal(event.summary, title);
+    assert.equal(event.description, 'Bring\na towel');
+    assert.deepEqual(event.start, new Date('2026-03-20T00:00:00Z'));
+    assert.equal(event.status, 'TENTATIVE');
+  });
+});
+
+describe('parseIcsEvents', () => {
+  it('unfolds continuation lines and unescapes text', () => {
+    const text = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:abc',
+      'SUMMARY:Climb\\, then',
+      ' rest',
+      'DESCRIPTION:One\\nTwo\\;',
+      '\tThree',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    assert.deepEqual(parseIcsEvents(text), [{ uid: 'abc', summary: 'Climb, thenrest', description: 'One\nTwo;Three' }]);
+  });
+
+  it('reads DATE and DATE-TIME starts, ignoring TZID', () => {
+    const text = [
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20260320',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;TZID=Europe/Paris:20260320T093000',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:tomorrow',
+      'END:VEVENT',
+    ].join('\n');
+
+    assert.deepEqual(
+      parseIcsEvents(text).map((event) => event.start),
+      [new Date('2026-03-20T00:00:00Z'), new Date('2026-03-20T09:30:00Z'), undefined]
+    );
+  });
+
+  it('ignores properties of alarms nested in an event', () => {
+    const text = [
+      'BEGIN:VEVENT',
+      'SUMMARY:Road trip',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'DESCRIPTION:Reminder',
+      'END:VALARM',
+      'DESCRIPTION:Pack the car',
+      'RRULE:FREQ=YEARLY',
+      'status:cancelled',
+      'END:VEVENT',
+    ].join('\r\n');
+
+    assert.deepEqual(parseIcsEvents(text), [
+      { summary: 'Road trip', description: 'Pack the car', rrule: 'FREQ=YEARLY', status: 'CANCELLED' },
+    ]);
+  });
+
+  it('ignores lines outside events and events that never end', () => {
+    const text = ['SUMMARY:Stray', 'BEGIN:VEVENT', 'SUMMARY:Half'].join('\r\n');
+    assert.deepEqual(parseIcsEvents(text), []);
+  });
+});
+
+describe('icsImportKey', () => {
+  it('matches titles regardless of case and padding on the same day', () => {
+    assert.equal(
+      icsImportKey('  Road Trip ', new Date('2026-03-20T09:30:00Z')),
+      icsImportKey('road trip', new Date('2026-03-20T00:00:00Z'))
+    );
+    assert.notEqual(
+      icsImportKey('road trip', new Date('2026-03-20T00:00:00Z')),
+      icsImportKey('road trip', new Date('2026-03-21T00:00:00Z'))
+    );
+  });
+});
@@ -0,0 +1,176 @@
+import type { Entry } from '@prisma/client';
+import { formatRecurrence, parseRecurrence } from './recurrence';
+import { DAY_MS } from './time';
+
+// The parts of iCalendar (RFC 5545) that calendar subscriptions and .ics imports need.
+
+export type IcsEvent = {
+  uid?: string;
+  summary?: string;
+  description?: string;
+  start?: Date;
+  rrule?: string;
+  status?: string;
+};
+
+const ICS_PRODID = '-//GoMun//Dreams//EN';
+export const ICS_UID_SUFFIX = '@gomun';
+
+function escapeIcsText(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeIcsText(value: string) {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+/** Folds a content line at 75 octets; continuation lines start with a space, per RFC 5545 section 3.1. */
+function foldIcsLine(line: string) {
+  const chunks: string[] = [];
+  let current = '';
+  let size = 0;
+
+  for (const char of line) {
+    const charSize = Buffer.byteLength(char);
+    if (size + charSize > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+function formatIcsDate(date: Date) {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatIcsTimestamp(date: Date) {
+  return `${date.toISOString().replace(/[-:]/g, '').slice(0, 15)}Z`;
+}
+
+/** Dates picked in the agenda are stored at UTC midnight, so those become all-day events. */
+function isAllDay(date: Date) {
+  return date.getUTCHours() === 0 && date.getUTCMinutes() === 0 && date.getUTCSeconds() === 0;
+}
+
+/**
+ * DTSTART is the dream's current date, which moves on as occurrences are fulfilled, so COUNT only covers the
+ * occurrences still to come.
+ */
+function remainingRecurrence(recurrence: string, completedOccurrences: number) {
+  const rule = parseRecurrence(recurrence);
+  if (!rule || rule.count === undefined) return recurrence;
+  return formatRecurrence({ ...rule, count: Math.max(rule.count - completedOccurrences, 1) });
+}
+
+export function buildCalendar(name: string, entries: (Entry & { _count: { occurrences: number } })[]) {
+  const stamp = formatIcsTimestamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+  ];
+
+  for (const entry of entries) {
+    if (!entry.date) continue;
+
+    lines.push('BEGIN:VEVENT', `UID:${entry.id}${ICS_UID_SUFFIX}`, `DTSTAMP:${stamp}`);
+
+    if (isAllDay(entry.date)) {
+      lines.push(
+        `DTSTART;VALUE=DATE:${formatIcsDate(entry.date)}`,
+        `DTEND;VALUE=DATE:${formatIcsDate(new Date(entry.date.getTime() + DAY_MS))}`
+      );
+    } else {
+      lines.push(`DTSTART:${formatIcsTimestamp(entry.date)}`);
+    }
+
+    // VEVENT has no "completed" status, so fulfilled dreams are confirmed and ticked in the title.
+    lines.push(
+      `SUMMARY:${escapeIcsText(entry.done ? `✓ ${entry.title}` : entry.title)}`,
+      `STATUS:${entry.done ? 'CONFIRMED' : 'TENTATIVE'}`
+    );
+
+    if (entry.note) lines.push(`DESCRIPTION:${escapeIcsText(entry.note)}`);
+    if (entry.recurrence && !entry.done) {
+      lines.push(`RRULE:${remainingRecurrence(entry.recurrence, entry._count.occurrences)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+}
+
+/** Reads DATE and DATE-TIME values; times with a TZID are taken as UTC since dreams are day-based. */
+function parseIcsDate(value: string) {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2}))?/.exec(value.trim());
+  if (!match) return undefined;
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  const date = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+export function parseIcsEvents(text: string) {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: IcsEvent | null = null;
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    const upper = line.trim().toUpperCase();
+
+    if (upper === 'BEGIN:VEVENT') {
+      current = {};
+      nestedDepth = 0;
+      continue;
+    }
+
+    if (upper === 'END:VEVENT') {
+      if (current) events.push(current);
+      current = null;
+      continue;
+    }
+
+    if (!current) continue;
+
+    // Alarms and other components nested in an event carry their own DESCRIPTION and friends.
+    if (upper.startsWith('BEGIN:')) {
+      nestedDepth += 1;
+      continue;
+    }
+
+    if (upper.startsWith('END:')) {
+      nestedDepth = Math.max(0, nestedDepth - 1);
+      continue;
+    }
+
+    const colon = line.indexOf(':');
+    if (nestedDepth > 0 || colon < 0) continue;
+
+    const name = line.slice(0, colon).split(';')[0].toUpperCase();
+    const value = line.slice(colon + 1);
+
+    if (name === 'UID') current.uid = value.trim();
+    else if (name === 'SUMMARY') current.summary = unescapeIcsText(value);
+    else if (name === 'DESCRIPTION') current.description = unescapeIcsText(value);
+    else if (name === 'DTSTART') current.start = parseIcsDate(value);
+    else if (name === 'RRULE') current.rrule = value;
+    else if (name === 'STATUS') current.status = value.trim().toUpperCase();
+  }
+
+  return events;
+}
+
+export function icsImportKey(title: string, date: Date) {
+  return `${title.trim().toLowerCase()}|${formatIcsDate(date)}`;
+}
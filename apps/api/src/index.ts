@@ -1,336 +1,2102 @@
 import 'dotenv/config';
+import crypto from 'crypto';
 import path from 'path';
 import express from 'express';
+import type { NextFunction, Request, Response } from 'express';
 import cors from 'cors';
-import { Prisma, PrismaClient } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import type { Coupon, Entry, EntryOccurrence, PrismaClient, Session, Step, User } from '@prisma/client';
+import {
+  buildOpenApiDocument,
+  createCouponBodySchema,
+  createEntryBodySchema,
+  createStepBodySchema,
+  entryDoneBodySchema,
+  entryFiltersQuerySchema,
+  entryListQuerySchema,
+  entryTagsBodySchema,
+  fieldError,
+  joinSpaceBodySchema,
+  loginBodySchema,
+  redeemCouponBodySchema,
+  respondCouponRequestBodySchema,
+  reviewCouponBodySchema,
+  signupBodySchema,
+  spaceBodySchema,
+  stepOrderBodySchema,
+  tagBodySchema,
+  updateCouponBodySchema,
+  updateEntryBodySchema,
+  updateStepBodySchema,
+  validate,
+} from '@gomun/contract';
+import type {
+  AuthUser,
+  Coupon as CouponResponse,
+  Entry as EntryResponse,
+  Memory as MemoryResponse,
+  Occurrence as OccurrenceResponse,
+  ReflectionFields,
+  Space as SpaceResponse,
+  Step as StepResponse,
+  TagWithCount as TagResponse,
+} from '@gomun/contract';
+import {
+  answerRequest,
+  CLEARED_REQUEST,
+  findAnswerRefusal,
+  findRequestRefusal,
+  findWithdrawRefusal,
+  needsApproval,
+  pickRecipient,
+  RECIPIENT_MESSAGE,
+} from './approval';
+import { hashPassword, hashSessionToken, verifyPassword } from './auth';
+import { prisma } from './db';
+import { REMINDER_SWEEP_INTERVAL_MS, runReminderSweep } from './delivery';
+import { ENTRY_INCLUDE, entryFiltersToWhere, entryOrderBy, pageArgs, toPage } from './entries';
+import type { EntryWithDetails } from './entries';
+import { recordEvents } from './events';
+import { currentSpaceId, currentUser, parseRequest, readQueryString } from './http';
+import { formatRecurrence, nextOccurrenceDate, parseRecurrence } from './recurrence';
+import type { RecurrenceRule } from './recurrence';
+import { findRedeemRefusal, isUsedUp } from './redemptions';
+import { activityRouter } from './routes/activity';
+import { attachmentsRouter } from './routes/attachments';
+import { backupRouter } from './routes/backup';
+import { calendarRouter } from './routes/calendar';
+import { memoriesRouter } from './routes/memories';
+import type { toMemory } from './routes/memories';
+import { searchRouter } from './routes/search';
+import { statsRouter } from './routes/stats';
+import { reminderRouter } from './routes/reminders';
+import { findSpaceWithMembers } from './spaces';
+import { entryFiltersToSql, LETTER_KEY_SQL } from './sql';
+import type { SpaceWithMembers } from './spaces';
+import { removeAttachmentFiles } from './storage';
+import { autoCompletedState, listsEveryStep } from './steps';
+import { broadcast, publish, publishCoupons, publishEntryResult, syncClients } from './sync';
+import type { SyncClient } from './sync';
+import { createTicketStore } from './tickets';
+import { MINUTE_MS } from './time';
+import {
+  collectConditionReferences,
+  parseUnlockCondition,
+  remapConditionReferences,
+  shouldUnlockCoupon,
+} from './unlock';
+import {
+  clearRestoredReviewFlags,
+  getUnlockContext,
+  reconcileCouponsAfterSetback,
+  runScheduledUnlocks,
+  UNLOCK_SWEEP_INTERVAL_MS,
+  unlockEligibleCoupons,
+} from './unlocking';
+import { isStaleVersion, sameVersion } from './versions';
+
+/** A contract type as the API hands it to res.json, before timestamps are turned into strings. */
+type Outgoing<T> = T extends string
+  ? T | Date
+  : T extends readonly (infer Item)[]
+    ? Outgoing<Item>[]
+    : T extends object
+      ? { [Key in keyof T]: Outgoing<T[Key]> }
+      : T;
+
+/** False, failing the checks below, when a record no longer has the shape the contract promises. */
+type Sends<Record, Contract> = Record extends Outgoing<Contract> ? true : false;
+
+type ContractCheck<Holds extends true> = Holds;
+
+// JSON and free-text columns are narrowed by the parsers that write them, so only the rest is compared.
+type CouponJsonColumns = 'unlockCondition' | 'relockPolicy' | 'reviewReason' | 'requestStatus';
+
+type TagWithCount = Prisma.TagGetPayload<{ include: { _count: { select: { entries: true } } } }>;
+
+// Responses are sent straight from Prisma, so these stop the build when a record drifts from the contract.
+type ContractChecks = [
+  ContractCheck<Sends<EntryWithDetails, EntryResponse>>,
+  ContractCheck<Sends<Step, StepResponse>>,
+  ContractCheck<Sends<TagWithCount, TagResponse>>,
+  ContractCheck<Sends<EntryOccurrence, OccurrenceResponse>>,
+  ContractCheck<Sends<Omit<Coupon, CouponJsonColumns>, Omit<CouponResponse, CouponJsonColumns>>>,
+  ContractCheck<Sends<ReturnType<typeof toSpaceResponse>, SpaceResponse>>,
+  ContractCheck<Sends<ReturnType<typeof toMemory>, MemoryResponse>>,
+];
 
-type UnlockCondition =
-  | { type: 'dreamCompleted'; value: string }
-  | { type: 'dreamCount'; value: number };
+const app = express();
+
+const staticRoot = path.join(__dirname, '..', 'public');
+const isDev = process.env.NODE_ENV === 'development';
+const SESSION_TTL_MS = 1000 * 60 * 60 * 24 * 30;
+const MAX_SPACE_MEMBERS = 2;
+const INVITE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const MAX_STEPS_PER_ENTRY = 100;
+const SYNC_HEARTBEAT_MS = 25_000;
+const SYNC_RETRY_MS = 5_000;
+const STREAM_TICKET_TTL_MS = 30_000;
+// Where prisma/legacy.sql puts the tables of a database from before accounts until they are imported.
+const LEGACY_SCHEMA = 'gomun_legacy';
+const LEGACY_IMPORT_TIMEOUT_MS = 5 * MINUTE_MS;
+
+app.use(cors());
+// Backups are far larger than any other request body, so the restore route reads its own once sign-in is checked.
+const jsonBody = express.json();
+app.use((req, res, next) => (req.path === '/api/import' ? next() : jsonBody(req, res, next)));
+
+if (!isDev) {
+  app.use(express.static(staticRoot));
+}
+
+app.get('/health', (_req, res) => res.status(200).send('ok'));
+
+const openApiDocument = buildOpenApiDocument();
+const swaggerUiRoot = path.dirname(require.resolve('swagger-ui-dist/package.json'));
+const DOCS_PAGE = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>GoMun API</title>
+    <link rel="stylesheet" href="/api/docs/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="docs"></div>
+    <script src="/api/docs/swagger-ui-bundle.js"></script>
+    <script>
+      SwaggerUIBundle({ url: '/api/openapi.json', dom_id: '#docs', persistAuthorization: true });
+    </script>
+  </body>
+</html>
+`;
+
+app.get('/api/openapi.json', (_req, res) => res.json(openApiDocument));
+
+// Swagger UI serves its own scripts and styles; the page around them points it at the document above.
+app.get('/api/docs', (_req, res) => res.type('html').send(DOCS_PAGE));
+app.use('/api/docs', express.static(swaggerUiRoot, { index: false }));
+
+function toAuthUser(user: AuthUser): AuthUser {
+  return { id: user.id, email: user.email, name: user.name };
+}
+
+async function createSession(userId: string) {
+  const token = crypto.randomBytes(32).toString('hex');
+  await prisma.session.create({
+    data: {
+      userId,
+      tokenHash: hashSessionToken(token),
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+    },
+  });
+  return token;
+}
+
+function generateInviteCode() {
+  return Array.from(crypto.randomBytes(8), (byte) => INVITE_ALPHABET[byte % INVITE_ALPHABET.length]).join('');
+}
+
+function defaultSpaceName(userName: string) {
+  return `${userName}'s space`;
+}
+
+async function createSoloSpace(db: Prisma.TransactionClient | PrismaClient, user: AuthUser) {
+  const space = await db.space.create({
+    data: {
+      name: defaultSpaceName(user.name),
+      inviteCode: generateInviteCode(),
+      members: { create: { userId: user.id, role: 'owner' } },
+    },
+  });
+  return space.id;
+}
+
+/**
+ * Signup and the legacy import give every account a space, so this only catches one that has none. Requests that
+ * arrive together race to make it; the unique member row lets one win, and the others read the winner's space.
+ */
+async function ensureSoloSpace(user: AuthUser) {
+  try {
+    return await prisma.$transaction((tx) => createSoloSpace(tx, user));
+  } catch (error) {
+    if ((error as { code?: string }).code !== 'P2002') throw error;
+    const membership = await prisma.spaceMember.findUniqueOrThrow({ where: { userId: user.id } });
+    return membership.spaceId;
+  }
+}
+
+function toSpaceResponse(space: SpaceWithMembers) {
+  return {
+    id: space.id,
+    name: space.name,
+    inviteCode: space.inviteCode,
+    createdAt: space.createdAt,
+    members: space.members.map((member) => ({
+      ...toAuthUser(member.user),
+      role: member.role,
+      joinedAt: member.joinedAt,
+    })),
+  };
+}
+
+function readBearerToken(req: Request) {
+  const header = req.headers.authorization;
+  if (typeof header !== 'string' || !header.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const token = header.slice('Bearer '.length).trim();
+  return token || null;
+}
+
+async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const token = readBearerToken(req);
+
+  if (!token) {
+    res.status(401).json({ error: 'Authentication required.' });
+    return;
+  }
+
+  try {
+    const session = await prisma.session.findUnique({
+      where: { tokenHash: hashSessionToken(token) },
+      include: { user: { include: { membership: true } } },
+    });
+
+    if (!session || session.expiresAt.getTime() <= Date.now()) {
+      res.status(401).json({ error: 'Session expired. Please sign in again.' });
+      return;
+    }
+
+    const user = toAuthUser(session.user);
+    res.locals.user = user;
+    res.locals.spaceId = session.user.membership?.spaceId ?? (await ensureSoloSpace(user));
+    next();
+  } catch {
+    res.status(500).json({ error: 'Unable to verify session.' });
+  }
+}
+
+app.post('/api/auth/signup', async (req, res) => {
+  const body = parseRequest(res, validate(signupBodySchema, req.body ?? {}));
+  if (!body) return;
+
+  const { email: normalizedEmail, password } = body;
+  const displayName = body.name ?? normalizedEmail.split('@')[0];
+
+  try {
+    const user = await prisma.user.create({
+      data: {
+        email: normalizedEmail,
+        name: displayName,
+        passwordHash: await hashPassword(password),
+        membership: {
+          create: {
+            role: 'owner',
+            space: { create: { name: defaultSpaceName(displayName), inviteCode: generateInviteCode() } },
+          },
+        },
+      },
+    });
+
+    const token = await createSession(user.id);
+    res.status(201).json({ token, user: toAuthUser(user) });
+  } catch (error) {
+    if ((error as { code?: string }).code === 'P2002') {
+      res.status(409).json({ error: 'An account with this email already exists.' });
+      return;
+    }
+
+    res.status(500).json({ error: 'Unable to create account.' });
+  }
+});
+
+app.post('/api/auth/login', async (req, res) => {
+  const body = parseRequest(res, validate(loginBodySchema, req.body ?? {}));
+  if (!body) return;
+
+  const { email, password } = body;
+
+  try {
+    const user = await prisma.user.findUnique({ where: { email } });
+
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      res.status(401).json({ error: 'Invalid email or password.' });
+      return;
+    }
+
+    const token = await createSession(user.id);
+    res.json({ token, user: toAuthUser(user) });
+  } catch {
+    res.status(500).json({ error: 'Unable to sign in.' });
+  }
+});
+
+app.post('/api/auth/logout', requireAuth, async (req, res) => {
+  const token = readBearerToken(req);
+
+  try {
+    await prisma.session.deleteMany({ where: { tokenHash: hashSessionToken(token ?? '') } });
+    res.status(204).send();
+  } catch {
+    res.status(500).json({ error: 'Unable to sign out.' });
+  }
+});
+
+app.get('/api/auth/me', requireAuth, (_req, res) => {
+  res.json({ user: currentUser(res) });
+});
+
+const streamTickets = createTicketStore<{ user: AuthUser; spaceId: string }>(STREAM_TICKET_TTL_MS);
+
+// The stream is opened with a ticket in the query string, so the session token never appears in a URL.
+function requireStreamTicket(req: Request, res: Response, next: NextFunction) {
+  const issued = streamTickets.redeem(readQueryString(req.query.ticket));
+
+  if (!issued) {
+    res.status(401).json({ error: 'Stream ticket expired. Ask for a new one.' });
+    return;
+  }
+
+  res.locals.user = issued.user;
+  res.locals.spaceId = issued.spaceId;
+  next();
+}
+
+app.post('/api/stream/ticket', requireAuth, (_req, res) => {
+  res.status(201).json({ ticket: streamTickets.issue({ user: currentUser(res), spaceId: currentSpaceId(res) }) });
+});
+app.use('/api/space', requireAuth);
+app.use('/api/entries', requireAuth);
+app.use('/api/coupons', requireAuth);
+app.use('/api/tags', requireAuth);
+app.use('/api/search', requireAuth);
+app.use('/api/activity', requireAuth);
+app.use('/api/memories', requireAuth);
+app.use('/api/stats', requireAuth);
+app.use('/api/calendar', requireAuth);
+app.use('/api/export', requireAuth);
+app.use('/api/import', requireAuth);
+app.use('/api/reminders', requireAuth);
+
+app.get('/api/stream', requireStreamTicket, (req, res) => {
+  const spaceId = currentSpaceId(res);
+  const client: SyncClient = { res, clientId: readQueryString(req.query.clientId) ?? null };
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write(`retry: ${SYNC_RETRY_MS}\n\n`);
+
+  const clients = syncClients.get(spaceId) ?? new Set<SyncClient>();
+  clients.add(client);
+  syncClients.set(spaceId, clients);
+
+  // Comment lines keep proxies from closing a quiet connection.
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), SYNC_HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    clients.delete(client);
+    if (clients.size === 0 && syncClients.get(spaceId) === clients) {
+      syncClients.delete(spaceId);
+    }
+  });
+});
+
+app.get('/api/space', async (_req, res) => {
+  try {
+    res.json(toSpaceResponse(await findSpaceWithMembers(prisma, currentSpaceId(res))));
+  } catch (error) {
+    if ((error as { code?: string }).code === 'P2025') {
+      res.status(404).json({ error: 'Space not found.' });
+      return;
+    }
+
+    res.status(500).json({ error: 'Unable to load space.' });
+  }
+});
+
+app.put('/api/space', async (req, res) => {
+  const body = parseRequest(res, validate(spaceBodySchema, req.body ?? {}));
+  if (!body) return;
+
+  try {
+    await prisma.space.update({ where: { id: currentSpaceId(res) }, data: { name: body.name } });
+    res.json(toSpaceResponse(await findSpaceWithMembers(prisma, currentSpaceId(res))));
+  } catch {
+    res.status(500).json({ error: 'Unable to update space.' });
+  }
+});
+
+app.post('/api/space/invite', async (_req, res) => {
+  try {
+    await prisma.space.update({
+      where: { id: currentSpaceId(res) },
+      data: { inviteCode: generateInviteCode() },
+    });
+    res.json(toSpaceResponse(await findSpaceWithMembers(prisma, currentSpaceId(res))));
+  } catch {
+    res.status(500).json({ error: 'Unable to create a new invite code.' });
+  }
+});
+
+app.post('/api/space/join', async (req, res) => {
+  const body = parseRequest(res, validate(joinSpaceBodySchema, req.body ?? {}));
+  const user = currentUser(res);
+  const previousSpaceId = currentSpaceId(res);
+
+  if (!body) return;
+
+  try {
+    const target = await prisma.space.findUnique({ where: { inviteCode: body.inviteCode } });
+
+    if (!target) {
+      res.status(404).json({ error: 'Invite code not found.' });
+      return;
+    }
+
+    if (target.id === previousSpaceId) {
+      res.status(400).json({ error: 'You are already a member of this space.' });
+      return;
+    }
+
+    const joined = await prisma.$transaction(async (tx) => {
+      // Locking the space makes joins to it take turns, so two people cannot both take its last place.
+      await tx.$queryRaw`SELECT 1 FROM "Space" WHERE "id" = ${target.id} FOR UPDATE`;
+      const members = await tx.spaceMember.count({ where: { spaceId: target.id } });
+
+      if (members >= MAX_SPACE_MEMBERS) {
+        return null;
+      }
+
+      const remainingMembers = await tx.spaceMember.count({
+        where: { spaceId: previousSpaceId, userId: { not: user.id } },
+      });
+
+      if (remainingMembers === 0) {
+        // Nobody else is left behind, so the solo space's dreams, tags and coupons come along.
+        await moveTagsToSpace(tx, previousSpaceId, target.id);
+        await tx.entry.updateMany({ where: { spaceId: previousSpaceId }, data: { spaceId: target.id } });
+        await tx.coupon.updateMany({ where: { spaceId: previousSpaceId }, data: { spaceId: target.id } });
+        await tx.event.updateMany({ where: { spaceId: previousSpaceId }, data: { spaceId: target.id } });
+        await tx.space.delete({ where: { id: previousSpaceId } });
+      } else {
+        await tx.spaceMember.delete({ where: { userId: user.id } });
+      }
+
+      await tx.spaceMember.create({ data: { spaceId: target.id, userId: user.id, role: 'member' } });
+      return findSpaceWithMembers(tx, target.id);
+    });
+
+    if (!joined) {
+      res.status(409).json({ error: 'This space is already full.' });
+      return;
+    }
+
+    // Both spaces changed members; the joining tab reloads from its own response.
+    publish(res, { type: 'reload' });
+    broadcast(target.id, { type: 'reload' }, readQueryString(req.get('X-Client-Id')) ?? null);
+    res.json(toSpaceResponse(joined));
+  } catch {
+    res.status(500).json({ error: 'Unable to join space.' });
+  }
+});
+
+app.post('/api/space/leave', async (_req, res) => {
+  const user = currentUser(res);
+  const spaceId = currentSpaceId(res);
+
+  try {
+    const otherMembers = await prisma.spaceMember.count({ where: { spaceId, userId: { not: user.id } } });
+
+    if (otherMembers === 0) {
+      res.status(400).json({ error: 'You are the only member of this space.' });
+      return;
+    }
+
+    const space = await prisma.$transaction(async (tx) => {
+      await tx.spaceMember.delete({ where: { userId: user.id } });
+      return findSpaceWithMembers(tx, await createSoloSpace(tx, user));
+    });
+
+    publish(res, { type: 'reload' });
+    res.json(toSpaceResponse(space));
+  } catch {
+    res.status(500).json({ error: 'Unable to leave space.' });
+  }
+});
+
+/**
+ * Moves a space's tags into another space. A tag whose name is already taken there is merged
+ * into the existing one, and coupon rules still in the old space are pointed at the surviving id.
+ */
+async function moveTagsToSpace(db: Prisma.TransactionClient, fromSpaceId: string, toSpaceId: string) {
+  const [moving, existing] = await Promise.all([
+    db.tag.findMany({ where: { spaceId: fromSpaceId }, include: { entries: { select: { id: true } } } }),
+    db.tag.findMany({ where: { spaceId: toSpaceId }, select: { id: true, name: true } }),
+  ]);
+  const existingByName = new Map(existing.map((tag) => [tag.name, tag.id]));
+  const mergedIds = new Map<string, string>();
+
+  for (const tag of moving) {
+    const targetId = existingByName.get(tag.name);
+    if (!targetId) continue;
+
+    await db.tag.update({ where: { id: targetId }, data: { entries: { connect: tag.entries } } });
+    await db.tag.delete({ where: { id: tag.id } });
+    mergedIds.set(tag.id, targetId);
+  }
+
+  await db.tag.updateMany({ where: { spaceId: fromSpaceId }, data: { spaceId: toSpaceId } });
+
+  if (mergedIds.size === 0) return;
+
+  const coupons = await db.coupon.findMany({ where: { spaceId: fromSpaceId } });
+  for (const coupon of coupons) {
+    const condition = parseUnlockCondition(coupon.unlockCondition);
+    if (!condition || !collectConditionReferences(condition).tags.some((tagId) => mergedIds.has(tagId))) continue;
+
+    await db.coupon.update({
+      where: { id: coupon.id },
+      data: { unlockCondition: remapConditionReferences(condition, new Map(), mergedIds) as Prisma.InputJsonValue },
+    });
+  }
+}
+
+async function completeOccurrence(
+  db: Prisma.TransactionClient,
+  entry: Entry,
+  rule: RecurrenceRule,
+  userId: string
+) {
+  const completedAt = new Date();
+  await db.entryOccurrence.create({
+    data: { entryId: entry.id, date: entry.date, completedById: userId, completedAt },
+  });
+
+  const completedOccurrences = await db.entryOccurrence.count({ where: { entryId: entry.id } });
+  const next = entry.date ? nextOccurrenceDate(rule, entry.date, completedOccurrences) : null;
+
+  if (next) {
+    // Each occurrence starts with a fresh checklist.
+    await db.step.updateMany({ where: { entryId: entry.id }, data: { done: false, completedAt: null } });
+  }
+
+  return db.entry.update({
+    where: { id: entry.id },
+    data: next ? { date: next } : { done: true, completedById: userId, completedAt },
+    include: ENTRY_INCLUDE,
+  });
+}
+
+/** Un-doing a finished series takes back its last occurrence and puts the dream back on that date. */
+async function reopenLastOccurrence(db: Prisma.TransactionClient, entry: Entry) {
+  const last = await db.entryOccurrence.findFirst({
+    where: { entryId: entry.id },
+    orderBy: { completedAt: 'desc' },
+  });
+
+  if (last) {
+    await db.entryOccurrence.delete({ where: { id: last.id } });
+  }
+
+  return db.entry.update({
+    where: { id: entry.id },
+    data: { done: false, completedById: null, completedAt: null, ...(last ? { date: last.date } : {}) },
+    include: ENTRY_INCLUDE,
+  });
+}
+
+/**
+ * Marks a dream done or not done and runs the coupon side effects that go with it:
+ * unlocking on completion, applying relock policies on a setback.
+ */
+async function setEntryDone(
+  tx: Prisma.TransactionClient,
+  spaceId: string,
+  current: Entry,
+  done: boolean,
+  userId: string
+) {
+  const before = await getUnlockContext(tx, spaceId);
+  const rule = parseRecurrence(current.recurrence);
+  const updatedEntry =
+    rule && done && !current.done
+      ? await completeOccurrence(tx, current, rule, userId)
+      : rule && !done && current.done
+        ? await reopenLastOccurrence(tx, current)
+        : await tx.entry.update({
+            where: { id: current.id },
+            data: {
+              done,
+              completedById: done ? userId : null,
+              completedAt: done ? current.completedAt ?? new Date() : null,
+            },
+            include: ENTRY_INCLUDE,
+          });
+
+  const after = { ...(await getUnlockContext(tx, spaceId)), now: before.now };
+
+  if (current.done !== done) {
+    await recordEvents(tx, spaceId, [
+      {
+        type: done ? 'entry.completed' : 'entry.reopened',
+        actorId: userId,
+        payload: {
+          entryId: current.id,
+          title: current.title,
+          ...(rule && !updatedEntry.done ? { nextDate: updatedEntry.date } : {}),
+        },
+      },
+    ]);
+  }
+
+  if (done === true) {
+    const unlockedCoupons = await unlockEligibleCoupons(tx, spaceId, after, userId);
+    const restoredCoupons = await clearRestoredReviewFlags(tx, spaceId, after);
+    return { entry: updatedEntry, unlockedCoupons, affectedCoupons: restoredCoupons };
+  }
+
+  const affectedCoupons = await reconcileCouponsAfterSetback(tx, spaceId, before, after, userId);
+  return { entry: updatedEntry, unlockedCoupons: [], affectedCoupons };
+}
+
+/**
+ * Keeps what was written about a completion. A recurring dream's reflection goes with its latest occurrence, the one
+ * just completed; a one-off dream has a single reflection, and fields left out keep what it already says.
+ */
+async function saveReflection(db: Prisma.TransactionClient, entry: Entry, input: ReflectionFields, authorId: string) {
+  const occurrence = parseRecurrence(entry.recurrence)
+    ? await db.entryOccurrence.findFirst({ where: { entryId: entry.id }, orderBy: { completedAt: 'desc' } })
+    : null;
+  const owner = occurrence ? { occurrenceId: occurrence.id } : { entryId: entry.id };
+  const fields = { ...input, authorId };
+
+  return db.reflection.upsert({ where: owner, create: { ...owner, ...fields }, update: fields });
+}
+
+/**
+ * Keeps an auto-completing dream in line with its checklist: done once every step is ticked,
+ * reopened when a step is unticked or added. Dreams without the flag or without steps are left alone.
+ */
+async function syncAutoCompletion(tx: Prisma.TransactionClient, spaceId: string, entryId: string, userId: string) {
+  const entry = await tx.entry.findUniqueOrThrow({ where: { id: entryId }, include: { steps: true } });
+  const { steps, ...current } = entry;
+  const done = autoCompletedState(current, steps);
+
+  if (done !== null) {
+    return setEntryDone(tx, spaceId, current, done, userId);
+  }
+
+  return {
+    entry: await tx.entry.findUniqueOrThrow({ where: { id: entryId }, include: ENTRY_INCLUDE }),
+    unlockedCoupons: [],
+    affectedCoupons: [],
+  };
+}
+
+async function sendEntryConflict(res: Response, id: string, spaceId: string) {
+  const current = await prisma.entry.findFirst({ where: { id, spaceId }, include: ENTRY_INCLUDE });
+
+  if (!current) {
+    res.status(404).json({ error: 'Entry not found.' });
+    return;
+  }
+
+  res.status(409).json({ error: 'This dream was changed somewhere else while you were editing it.', current });
+}
+
+async function sendCouponConflict(
+  res: Response,
+  id: string,
+  spaceId: string,
+  message = 'This coupon was changed somewhere else while you were editing it.'
+) {
+  const current = await prisma.coupon.findFirst({ where: { id, spaceId } });
+
+  if (!current) {
+    res.status(404).json({ error: 'Coupon not found.' });
+    return;
+  }
+
+  res.status(409).json({ error: message, current });
+}
+
+async function findCouponRecipient(spaceId: string, giverId: string, recipientId: string | null | undefined) {
+  const members = await prisma.spaceMember.findMany({ where: { spaceId }, select: { userId: true } });
+  return pickRecipient(members.map((member) => member.userId), giverId, recipientId);
+}
+
+type RedemptionChange = {
+  redeemed: boolean;
+  actorId: string;
+  /** Who used it, when that is not whoever made the change, as when a giver accepts a request. */
+  redeemedById?: string | null;
+};
+
+/**
+ * Uses a coupon once more, or takes back its latest use; a use also settles any open request. The update is guarded
+ * on the count read before, so two uses at once cannot both take the last one: the second fails with P2025.
+ */
+async function applyRedemption(
+  tx: Prisma.TransactionClient,
+  spaceId: string,
+  current: Coupon,
+  { redeemed, actorId, redeemedById = actorId }: RedemptionChange
+) {
+  if (redeemed) {
+    await tx.couponRedemption.create({ data: { couponId: current.id, redeemedById } });
+  } else {
+    const last = await tx.couponRedemption.findFirst({
+      where: { couponId: current.id },
+      orderBy: { redeemedAt: 'desc' },
+    });
+    if (last) await tx.couponRedemption.delete({ where: { id: last.id } });
+  }
+
+  const latest = await tx.couponRedemption.findFirst({
+    where: { couponId: current.id },
+    orderBy: { redeemedAt: 'desc' },
+  });
+  const redemptionCount = current.redemptionCount + (redeemed ? 1 : -1);
+
+  const coupon = await tx.coupon.update({
+    where: { id: current.id, redemptionCount: current.redemptionCount },
+    data: {
+      redemptionCount,
+      redeemed: isUsedUp(current.maxRedemptions, redemptionCount),
+      redeemedAt: latest?.redeemedAt ?? null,
+      redeemedById: latest?.redeemedById ?? null,
+      ...(redeemed ? CLEARED_REQUEST : {}),
+    },
+  });
+
+  await recordEvents(tx, spaceId, [
+    {
+      type: redeemed ? 'coupon.redeemed' : 'coupon.unredeemed',
+      actorId,
+      payload: { couponId: coupon.id, title: coupon.title },
+    },
+  ]);
+  return coupon;
+}
+
+app.get('/api/entries', async (req, res) => {
+  const query = parseRequest(res, validate(entryListQuerySchema, req.query));
+  if (!query) return;
+
+  try {
+    const rows = await prisma.entry.findMany({
+      where: entryFiltersToWhere(currentSpaceId(res), query),
+      orderBy: entryOrderBy(query),
+      include: ENTRY_INCLUDE,
+      ...pageArgs(query.limit, query.cursor),
+    });
+
+    res.json(toPage(rows, query.limit));
+  } catch {
+    res.status(500).json({ error: 'Unable to load entries.' });
+  }
+});
+
+app.get('/api/entries/letters', async (req, res) => {
+  const filters = parseRequest(res, validate(entryFiltersQuerySchema, req.query));
+  if (!filters) return;
+
+  try {
+    const rows = await prisma.$queryRaw<{ letter: string; count: number }[]>`
+      SELECT ${LETTER_KEY_SQL} AS "letter", count(*)::int AS "count"
+      FROM "Entry"
+      WHERE ${entryFiltersToSql(currentSpaceId(res), filters)}
+      GROUP BY 1
+      ORDER BY 1
+    `;
+
+    res.json(rows);
+  } catch {
+    res.status(500).json({ error: 'Unable to count entries.' });
+  }
+});
+
+app.get('/api/entries/options', async (_req, res) => {
+  try {
+    const rows = await prisma.entry.findMany({
+      where: { spaceId: currentSpaceId(res) },
+      select: { id: true, title: true, done: true, _count: { select: { occurrences: true } } },
+      orderBy: [{ title: 'asc' }, { id: 'asc' }],
+    });
+
+    // Recurring dreams count once per fulfilled occurrence, matching the dreamCount rule.
+    res.json(
+      rows.map(({ id, title, done, _count }) => ({ id, title, completions: _count.occurrences || (done ? 1 : 0) }))
+    );
+  } catch {
+    res.status(500).json({ error: 'Unable to load entries.' });
+  }
+});
+
+app.get('/api/entries/:id', async (req, res) => {
+  try {
+    const entry = await prisma.entry.findFirst({
+      where: { id: req.params.id, spaceId: currentSpaceId(res) },
+      include: ENTRY_INCLUDE,
+    });
+
+    if (!entry) {
+      res.status(404).json({ error: 'Entry not found.' });
+      return;
+    }
+
+    res.json(entry);
+  } catch {
+    res.status(500).json({ error: 'Unable to load entry.' });
+  }
+});
+
+app.post('/api/entries', async (req, res) => {
+  const body = parseRequest(res, validate(createEntryBodySchema, req.body ?? {}));
+  if (!body) return;
+
+  const { title, note, date, recurrence, autoComplete, reminderOffsets } = body;
+  const parsedTagIds = body.tagIds ?? [];
+  const parsedRecurrence = parseRecurrence(recurrence);
+
+  if (recurrence != null && recurrence !== '' && !parsedRecurrence) {
+    res.status(400).json(fieldError('recurrence', 'recurrence is not a supported RRULE.'));
+    return;
+  }
+
+  if (parsedRecurrence && !date) {
+    res.status(400).json(fieldError('date', 'A recurring dream needs a date.'));
+    return;
+  }
+
+  const spaceId = currentSpaceId(res);
+  const userId = currentUser(res).id;
+
+  try {
+    if (parsedTagIds.length > 0) {
+      const knownTags = await prisma.tag.count({ where: { spaceId, id: { in: parsedTagIds } } });
+
+      if (knownTags !== parsedTagIds.length) {
+        res.status(400).json(fieldError('tagIds', 'tagIds contains a tag that does not exist.'));
+        return;
+      }
+    }
+
+    const created = await prisma.$transaction(async (tx) => {
+      const entry = await tx.entry.create({
+        data: {
+          spaceId,
+          userId,
+          title,
+          note: note ?? null,
+          date: date ?? null,
+          recurrence: parsedRecurrence ? formatRecurrence(parsedRecurrence) : null,
+          autoComplete: autoComplete ?? false,
+          reminderOffsets: reminderOffsets ?? [],
+          tags: { connect: parsedTagIds.map((tagId) => ({ id: tagId })) },
+        },
+        include: ENTRY_INCLUDE,
+      });
+
+      await recordEvents(tx, spaceId, [
+        { type: 'entry.created', actorId: userId, payload: { entryId: entry.id, title: entry.title } },
+      ]);
+      return entry;
+    });
+    publish(res, { type: 'entries', entries: [created] });
+    res.status(201).json(created);
+  } catch (error) {
+    // A tag deleted after the check above leaves nothing to connect to.
+    if ((error as { code?: string }).code === 'P2025') {
+      res.status(400).json(fieldError('tagIds', 'tagIds contains a tag that does not exist.'));
+      return;
+    }
+
+    console.error('Creating a dream failed', error);
+    res.status(500).json({ error: 'Unable to create entry.' });
+  }
+});
+
+app.put('/api/entries/:id', async (req, res) => {
+  const { id } = req.params;
+
+  if (!id) {
+    res.status(400).json({ error: 'Entry id is required.' });
+    return;
+  }
+
+  const body = parseRequest(res, validate(updateEntryBodySchema, req.body ?? {}));
+  if (!body) return;
+
+  const { title, note, date, recurrence, autoComplete, reminderOffsets, updatedAt: expectedVersion } = body;
+  const parsedRecurrence = parseRecurrence(recurrence);
+
+  if (recurrence != null && recurrence !== '' && !parsedRecurrence) {
+    res.status(400).json(fieldError('recurrence', 'recurrence is not a supported RRULE.'));
+    return;
+  }
+
+  try {
+    const spaceId = currentSpaceId(res);
+    const current = await prisma.entry.findFirst({ where: { id, spaceId } });
+
+    if (!current) {
+      res.status(404).json({ error: 'Entry not found.' });
+      return;
+    }
+
+    if (isStaleVersion(current, expectedVersion)) {
+      await sendEntryConflict(res, id, spaceId);
+      return;
+    }
+
+    const nextDate = date === undefined ? current.date : date;
+    const nextRecurrence = recurrence === undefined ? current.recurrence : parsedRecurrence;
+
+    if (nextRecurrence && !nextDate) {
+      res.status(400).json(fieldError('date', 'A recurring dream needs a date.'));
+      return;
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const entry = await tx.entry.update({
+        where: sameVersion(id, current),
+        data: {
+          title,
+          // Leaving note, date or recurrence out keeps the current value; null or '' clears it.
+          ...(note !== undefined ? { note } : {}),
+          ...(date !== undefined ? { date } : {}),
+          ...(autoComplete !== undefined ? { autoComplete } : {}),
+          ...(reminderOffsets !== undefined ? { reminderOffsets } : {}),
+          ...(recurrence !== undefined
+            ? { recurrence: parsedRecurrence ? formatRecurrence(parsedRecurrence) : null }
+            : {}),
+        },
+        include: ENTRY_INCLUDE,
+      });
+
+      await recordEvents(tx, spaceId, [
+        {
+          type: 'entry.updated',
+          actorId: currentUser(res).id,
+          payload: {
+            entryId: entry.id,
+            title: entry.title,
+            ...(current.title !== entry.title ? { previousTitle: current.title } : {}),
+          },
+        },
+      ]);
+      return entry;
+    });
+
+    publish(res, { type: 'entries', entries: [updated] });
+    res.json(updated);
+  } catch (error) {
+    if ((error as { code?: string }).code === 'P2025') {
+      await sendEntryConflict(res, id, currentSpaceId(res));
+      return;
+    }
+
+    res.status(500).json({ error: 'Unable to update entry.' });
+  }
+});
+
+app.patch('/api/entries/:id/done', async (req, res) => {
+  const { id } = req.params;
+  const body = parseRequest(res, validate(entryDoneBodySchema, req.body ?? {}));
+  const userId = currentUser(res).id;
+  const spaceId = currentSpaceId(res);
+
+  if (!body) return;
+
+  const { done, reflection } = body;
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const current = await tx.entry.findFirst({ where: { id, spaceId } });
+      if (!current) return null;
+
+      const outcome = await setEntryDone(tx, spaceId, current, done, userId);
+      if (!reflection) return outcome;
+
+      await saveReflection(tx, current, reflection, userId);
+      return { ...outcome, entry: await tx.entry.findUniqueOrThrow({ where: { id }, include: ENTRY_INCLUDE }) };
+    });
+
+    if (!result) {
+      res.status(404).json({ error: 'Entry not found.' });
+      return;
+    }
+
+    publishEntryResult(res, result);
+    res.json(result);
+  } catch (error) {
+    if ((error as { code?: string }).code === 'P2025') {
+      res.status(404).json({ error: 'Entry not found.' });
+      return;
+    }
+
+    res.status(500).json({ error: 'Unable to update entry.' });
+  }
+});
+
+app.get('/api/entries/:id/occurrences', async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const entry = await prisma.entry.findFirst({ where: { id, spaceId: currentSpaceId(res) } });
+
+    if (!entry) {
+      res.status(404).json({ error: 'Entry not found.' });
+      return;
+    }
+
+    const occurrences = await prisma.entryOccurrence.findMany({
+      where: { entryId: id },
+      orderBy: { completedAt: 'desc' },
+    });
+
+    res.json(occurrences);
+  } catch {
+    res.status(500).json({ error: 'Unable to load occurrences.' });
+  }
+});
+
+app.get('/api/entries/:id/steps', async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const entry = await prisma.entry.findFirst({ where: { id, spaceId: currentSpaceId(res) } });
+
+    if (!entry) {
+      res.status(404).json({ error: 'Entry not found.' });
+      return;
+    }
+
+    const steps = await prisma.step.findMany({ where: { entryId: id }, orderBy: { position: 'asc' } });
+    res.json(steps);
+  } catch {
+    res.status(500).json({ error: 'Unable to load steps.' });
+  }
+});
+
+app.post('/api/entries/:id/steps', async (req, res) => {
+  const { id } = req.params;
+  const body = parseRequest(res, validate(createStepBodySchema, req.body ?? {}));
+  const spaceId = currentSpaceId(res);
+
+  if (!body) return;
+
+  try {
+    const entry = await prisma.entry.findFirst({
+      where: { id, spaceId },
+      include: { _count: { select: { steps: true } } },
+    });
+
+    if (!entry) {
+      res.status(404).json({ error: 'Entry not found.' });
+      return;
+    }
+
+    if (entry._count.steps >= MAX_STEPS_PER_ENTRY) {
+      res.status(400).json({ error: `A dream can have at most ${MAX_STEPS_PER_ENTRY} steps.` });
+      return;
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const last = await tx.step.findFirst({ where: { entryId: id }, orderBy: { position: 'desc' } });
+      const step = await tx.step.create({
+        data: { entryId: id, title: body.title, position: (last?.position ?? -1) + 1 },
+      });
+      return { step, ...(await syncAutoCompletion(tx, spaceId, id, currentUser(res).id)) };
+    });
+
+    publishEntryResult(res, result);
+    res.status(201).json(result);
+  } catch {
+    res.status(500).json({ error: 'Unable to create step.' });
+  }
+});
+
+app.put('/api/entries/:id/steps/order', async (req, res) => {
+  const { id } = req.params;
+  const body = parseRequest(res, validate(stepOrderBodySchema, req.body ?? {}));
+  if (!body) return;
+
+  const { stepIds } = body;
+
+  try {
+    const entry = await prisma.entry.findFirst({
+      where: { id, spaceId: currentSpaceId(res) },
+      include: { steps: { select: { id: true } } },
+    });
+
+    if (!entry) {
+      res.status(404).json({ error: 'Entry not found.' });
+      return;
+    }
+
+    if (!listsEveryStep(entry.steps.map((step) => step.id), stepIds)) {
+      res.status(400).json(fieldError('stepIds', 'stepIds must list every step of this dream exactly once.'));
+      return;
+    }
+
+    const steps = await prisma.$transaction(
+      stepIds.map((stepId, position) =>
+        prisma.step.update({ where: { id: stepId }, data: { position } })
+      )
+    );
+
+    publish(res, { type: 'steps', entryId: id, steps });
+    res.json(steps);
+  } catch {
+    res.status(500).json({ error: 'Unable to reorder steps.' });
+  }
+});
+
+app.put('/api/entries/:id/steps/:stepId', async (req, res) => {
+  const { id, stepId } = req.params;
+  const body = parseRequest(res, validate(updateStepBodySchema, req.body ?? {}));
+  const spaceId = currentSpaceId(res);
+
+  if (!body) return;
+
+  const { title, done } = body;
+
+  try {
+    const current = await prisma.step.findFirst({ where: { id: stepId, entryId: id, entry: { spaceId } } });
+
+    if (!current) {
+      res.status(404).json({ error: 'Step not found.' });
+      return;
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const step = await tx.step.update({
+        where: { id: stepId },
+        data: {
+          ...(title !== undefined ? { title } : {}),
+          ...(done !== undefined ? { done, completedAt: done ? current.completedAt ?? new Date() : null } : {}),
+        },
+      });
+      return { step, ...(await syncAutoCompletion(tx, spaceId, id, currentUser(res).id)) };
+    });
+
+    publishEntryResult(res, result);
+    res.json(result);
+  } catch (error) {
+    if ((error as { code?: string }).code === 'P2025') {
+      res.status(404).json({ error: 'Step not found.' });
+      return;
+    }
+
+    res.status(500).json({ error: 'Unable to update step.' });
+  }
+});
+
+app.delete('/api/entries/:id/steps/:stepId', async (req, res) => {
+  const { id, stepId } = req.params;
+  const spaceId = currentSpaceId(res);
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.step.deleteMany({ where: { id: stepId, entryId: id, entry: { spaceId } } });
+
+      if (count === 0) {
+        return null;
+      }
+
+      return { id: stepId, ...(await syncAutoCompletion(tx, spaceId, id, currentUser(res).id)) };
+    });
+
+    if (!result) {
+      res.status(404).json({ error: 'Step not found.' });
+      return;
+    }
+
+    publishEntryResult(res, result);
+    res.json(result);
+  } catch {
+    res.status(500).json({ error: 'Unable to delete step.' });
+  }
+});
+
+app.put('/api/entries/:id/tags', async (req, res) => {
+  const { id } = req.params;
+  const body = parseRequest(res, validate(entryTagsBodySchema, req.body ?? {}));
+  const spaceId = currentSpaceId(res);
+  const userId = currentUser(res).id;
+
+  if (!body) return;
+
+  const { tagIds } = body;
+
+  try {
+    const [entry, knownTags] = await Promise.all([
+      prisma.entry.findFirst({ where: { id, spaceId } }),
+      prisma.tag.count({ where: { spaceId, id: { in: tagIds } } }),
+    ]);
+
+    if (!entry) {
+      res.status(404).json({ error: 'Entry not found.' });
+      return;
+    }
+
+    if (knownTags !== tagIds.length) {
+      res.status(400).json(fieldError('tagIds', 'tagIds contains a tag that does not exist.'));
+      return;
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const before = await getUnlockContext(tx, spaceId);
+      const updated = await tx.entry.update({
+        where: { id },
+        data: { tags: { set: tagIds.map((tagId) => ({ id: tagId })) } },
+        include: ENTRY_INCLUDE,
+      });
+      const after = { ...(await getUnlockContext(tx, spaceId)), now: before.now };
+
+      // Retagging a fulfilled dream can satisfy one tag rule and break another in the same change.
+      const unlockedCoupons = await unlockEligibleCoupons(tx, spaceId, after, userId);
+      const restoredCoupons = await clearRestoredReviewFlags(tx, spaceId, after);
+      const setbackCoupons = await reconcileCouponsAfterSetback(tx, spaceId, before, after, userId, 'tagRemoved');
+      return { entry: updated, unlockedCoupons, affectedCoupons: [...restoredCoupons, ...setbackCoupons] };
+    });
+
+    publishEntryResult(res, result);
+    res.json(result);
+  } catch {
+    res.status(500).json({ error: 'Unable to update tags.' });
+  }
+});
+
+app.use(attachmentsRouter);
+
+app.delete('/api/entries/:id', async (req, res) => {
+  const { id } = req.params;
+
+  if (!id) {
+    res.status(400).json({ error: 'Entry id is required.' });
+    return;
+  }
+
+  const spaceId = currentSpaceId(res);
+  const userId = currentUser(res).id;
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const current = await tx.entry.findFirst({ where: { id, spaceId }, include: { attachments: true } });
+
+      if (!current) {
+        return null;
+      }
+
+      const before = await getUnlockContext(tx, spaceId);
+      await tx.entry.delete({ where: { id } });
+      await recordEvents(tx, spaceId, [
+        { type: 'entry.deleted', actorId: userId, payload: { entryId: id, title: current.title } },
+      ]);
+
+      const after = { ...(await getUnlockContext(tx, spaceId)), now: before.now };
+      const affectedCoupons = await reconcileCouponsAfterSetback(tx, spaceId, before, after, userId, 'dreamDeleted', {
+        kind: 'dream',
+        id,
+      });
+      return { id, affectedCoupons, attachments: current.attachments };
+    });
+
+    if (!result) {
+      res.status(404).json({ error: 'Entry not found.' });
+      return;
+    }
+
+    const { attachments, ...deleted } = result;
+    await removeAttachmentFiles(attachments);
+    publish(res, { type: 'entryDeleted', id });
+    publishCoupons(res, deleted.affectedCoupons);
+    res.json(deleted);
+  } catch {
+    res.status(500).json({ error: 'Unable to delete entry.' });
+  }
+});
 
-type UnlockContext = {
-  completedDreamId?: string;
-  completedDreamCount: number;
-};
+app.get('/api/tags', async (_req, res) => {
+  try {
+    const tags = await prisma.tag.findMany({
+      where: { spaceId: currentSpaceId(res) },
+      orderBy: { name: 'asc' },
+      include: { _count: { select: { entries: true } } },
+    });
+    res.json(tags);
+  } catch (error) {
+    console.error('Loading tags failed', error);
+    res.status(500).json({ error: 'Unable to load tags.' });
+  }
+});
 
-const app = express();
-const prisma = new PrismaClient();
+app.post('/api/tags', async (req, res) => {
+  const body = parseRequest(res, validate(tagBodySchema, req.body ?? {}));
+  if (!body) return;
 
-const staticRoot = path.join(__dirname, '..', 'public');
-const isDev = process.env.NODE_ENV === 'development';
+  const { name } = body;
 
-app.use(cors());
-app.use(express.json());
+  try {
+    const tag = await prisma.tag.create({
+      data: { spaceId: currentSpaceId(res), name },
+      include: { _count: { select: { entries: true } } },
+    });
+    publish(res, { type: 'tags', tags: [tag] });
+    res.status(201).json(tag);
+  } catch (error) {
+    if ((error as { code?: string }).code === 'P2002') {
+      res.status(409).json({ error: 'A tag with this name already exists.' });
+      return;
+    }
 
-if (!isDev) {
-  app.use(express.static(staticRoot));
-}
+    res.status(500).json({ error: 'Unable to create tag.' });
+  }
+});
 
-app.get('/health', (_req, res) => res.status(200).send('ok'));
+app.put('/api/tags/:id', async (req, res) => {
+  const { id } = req.params;
+  const body = parseRequest(res, validate(tagBodySchema, req.body ?? {}));
+  if (!body) return;
 
-function parseUnlockCondition(raw: unknown): UnlockCondition | null {
-  if (!raw || typeof raw !== 'object') {
-    return null;
-  }
+  const { name } = body;
 
-  const type = (raw as { type?: unknown }).type;
-  const value = (raw as { value?: unknown }).value;
+  try {
+    const current = await prisma.tag.findFirst({ where: { id, spaceId: currentSpaceId(res) } });
 
-  if (type === 'dreamCompleted' && typeof value === 'string' && value.trim()) {
-    return { type, value: value.trim() };
-  }
+    if (!current) {
+      res.status(404).json({ error: 'Tag not found.' });
+      return;
+    }
 
-  if (type === 'dreamCount' && typeof value === 'number' && Number.isFinite(value) && value > 0) {
-    return { type, value: Math.floor(value) };
-  }
+    const tag = await prisma.tag.update({
+      where: { id },
+      data: { name },
+      include: { _count: { select: { entries: true } } },
+    });
+    publish(res, { type: 'tags', tags: [tag] });
+    res.json(tag);
+  } catch (error) {
+    const code = (error as { code?: string }).code;
 
-  return null;
-}
+    if (code === 'P2002') {
+      res.status(409).json({ error: 'A tag with this name already exists.' });
+      return;
+    }
 
-function shouldUnlockCoupon(condition: UnlockCondition | null, context: UnlockContext) {
-  if (!condition) {
-    return true;
-  }
+    if (code === 'P2025') {
+      res.status(404).json({ error: 'Tag not found.' });
+      return;
+    }
 
-  if (condition.type === 'dreamCompleted') {
-    return condition.value === context.completedDreamId;
+    res.status(500).json({ error: 'Unable to update tag.' });
   }
+});
 
-  return context.completedDreamCount >= condition.value;
-}
+app.delete('/api/tags/:id', async (req, res) => {
+  const { id } = req.params;
+  const spaceId = currentSpaceId(res);
+  const userId = currentUser(res).id;
 
-async function getUnlockContext(
-  db: Prisma.TransactionClient | PrismaClient,
-  completedDreamId?: string
-): Promise<UnlockContext> {
-  const completedDreamCount = await db.entry.count({ where: { done: true } });
-  return { completedDreamId, completedDreamCount };
-}
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const current = await tx.tag.findFirst({ where: { id, spaceId } });
+
+      if (!current) {
+        return null;
+      }
+
+      const before = await getUnlockContext(tx, spaceId);
+      await tx.tag.delete({ where: { id } });
+      const after = { ...(await getUnlockContext(tx, spaceId)), now: before.now };
+      const affectedCoupons = await reconcileCouponsAfterSetback(tx, spaceId, before, after, userId, 'tagDeleted', {
+        kind: 'tag',
+        id,
+      });
+      return { id, affectedCoupons };
+    });
 
-async function unlockEligibleCoupons(
-  db: Prisma.TransactionClient | PrismaClient,
-  context: UnlockContext
-) {
-  const lockedCoupons = await db.coupon.findMany({
-    where: { unlocked: false },
-    orderBy: { createdAt: 'desc' },
-  });
+    if (!result) {
+      res.status(404).json({ error: 'Tag not found.' });
+      return;
+    }
 
-  const toUnlock = lockedCoupons.filter((coupon) =>
-    shouldUnlockCoupon(parseUnlockCondition(coupon.unlockCondition), context)
-  );
+    publish(res, { type: 'tagDeleted', id });
+    publishCoupons(res, result.affectedCoupons);
+    res.json(result);
+  } catch {
+    res.status(500).json({ error: 'Unable to delete tag.' });
+  }
+});
 
-  if (toUnlock.length === 0) {
-    return [];
+app.get('/api/coupons', async (_req, res) => {
+  try {
+    const data = await prisma.coupon.findMany({
+      where: { spaceId: currentSpaceId(res) },
+      orderBy: { createdAt: 'desc' },
+    });
+    res.json(data);
+  } catch (error) {
+    console.error('Loading coupons failed', error);
+    res.status(500).json({ error: 'Unable to load coupons.' });
   }
+});
 
-  const unlockedCoupons = await Promise.all(
-    toUnlock.map((coupon) =>
-      db.coupon.update({
-        where: { id: coupon.id },
-        data: { unlocked: true },
-      })
-    )
-  );
+app.post('/api/coupons', async (req, res) => {
+  const body = parseRequest(res, validate(createCouponBodySchema, req.body ?? {}));
+  const spaceId = currentSpaceId(res);
 
-  return unlockedCoupons;
-}
+  if (!body) return;
 
-app.get('/api/entries', async (_req, res) => {
-  const data = await prisma.entry.findMany({ orderBy: { createdAt: 'desc' } });
-  res.json(data);
-});
+  const {
+    title,
+    description,
+    unlockCondition: parsedCondition,
+    relockPolicy: parsedPolicy,
+    expiresAt,
+    maxRedemptions,
+  } = body;
+  const userId = currentUser(res).id;
 
-app.post('/api/entries', async (req, res) => {
-  const { title, note, date, userId } = req.body ?? {};
+  try {
+    const recipient = await findCouponRecipient(spaceId, userId, body.recipientId);
+    if (!recipient) {
+      res.status(400).json(fieldError('recipientId', RECIPIENT_MESSAGE));
+      return;
+    }
 
-  if (typeof title !== 'string' || !title.trim()) {
-    res.status(400).json({ error: 'Title is required.' });
-    return;
-  }
+    const context = await getUnlockContext(prisma, spaceId);
+    const unlocked = shouldUnlockCoupon(parsedCondition, context);
+    const created = await prisma.$transaction(async (tx) => {
+      const coupon = await tx.coupon.create({
+        data: {
+          spaceId,
+          userId,
+          title,
+          description,
+          unlockCondition: parsedCondition ? (parsedCondition as Prisma.InputJsonValue) : Prisma.JsonNull,
+          relockPolicy: parsedPolicy,
+          unlocked,
+          expiresAt,
+          maxRedemptions,
+          recipientId: recipient.recipientId,
+        },
+      });
 
-  const defaultUserId = process.env.DEFAULT_USER_ID ?? 'couple';
-  const resolvedUserId =
-    typeof userId === 'string' && userId.trim().length > 0 ? userId.trim() : defaultUserId;
+      const payload = { couponId: coupon.id, title: coupon.title };
+      await recordEvents(tx, spaceId, [
+        { type: 'coupon.created', actorId: userId, payload },
+        // A rule that already holds unlocks the coupon on the spot; a coupon without one is simply open.
+        ...(parsedCondition && unlocked ? [{ type: 'coupon.unlocked' as const, actorId: userId, payload }] : []),
+      ]);
+      return coupon;
+    });
 
-  const created = await prisma.entry.create({
-    data: {
-      userId: resolvedUserId,
-      title: title.trim(),
-      note: typeof note === 'string' && note.trim() ? note.trim() : null,
-      date: date ? new Date(date) : null,
-    },
-  });
-  res.status(201).json(created);
+    publishCoupons(res, [created], created.unlocked ? [created.id] : []);
+    res.status(201).json(created);
+  } catch {
+    res.status(500).json({ error: 'Unable to create coupon.' });
+  }
 });
 
-app.put('/api/entries/:id', async (req, res) => {
+app.put('/api/coupons/:id', async (req, res) => {
   const { id } = req.params;
-  const { title, note } = req.body ?? {};
+  const spaceId = currentSpaceId(res);
 
   if (!id) {
-    res.status(400).json({ error: 'Entry id is required.' });
+    res.status(400).json({ error: 'Coupon id is required.' });
     return;
   }
 
-  if (typeof title !== 'string' || !title.trim()) {
-    res.status(400).json({ error: 'Title is required.' });
-    return;
-  }
+  const body = parseRequest(res, validate(updateCouponBodySchema, req.body ?? {}));
+  if (!body) return;
+
+  const { title, description, relockPolicy, expiresAt, updatedAt: expectedVersion } = body;
 
   try {
-    const updated = await prisma.entry.update({
-      where: { id },
-      data: {
-        title: title.trim(),
-        note: typeof note === 'string' && note.trim() ? note.trim() : null,
-      },
+    const current = await prisma.coupon.findFirst({ where: { id, spaceId } });
+
+    if (!current) {
+      res.status(404).json({ error: 'Coupon not found.' });
+      return;
+    }
+
+    if (isStaleVersion(current, expectedVersion)) {
+      await sendCouponConflict(res, id, spaceId);
+      return;
+    }
+
+    const recipient =
+      body.recipientId === undefined
+        ? { recipientId: current.recipientId }
+        : await findCouponRecipient(spaceId, current.userId, body.recipientId);
+    if (!recipient) {
+      res.status(400).json(fieldError('recipientId', RECIPIENT_MESSAGE));
+      return;
+    }
+
+    // Fields left out of the body keep what the coupon has now.
+    const maxRedemptions = body.maxRedemptions === undefined ? current.maxRedemptions : body.maxRedemptions;
+    const condition =
+      body.unlockCondition === undefined ? parseUnlockCondition(current.unlockCondition) : body.unlockCondition;
+
+    if (maxRedemptions !== null && maxRedemptions < current.redemptionCount) {
+      res.status(400).json(
+        fieldError(
+          'maxRedemptions',
+          `This coupon has already been used ${current.redemptionCount} times, so it needs at least that many uses.`
+        )
+      );
+      return;
+    }
+
+    // A coupon that has been used stays unlocked whatever its rule says now.
+    const context = await getUnlockContext(prisma, spaceId);
+    const unlocked = current.redemptionCount > 0 ? true : shouldUnlockCoupon(condition, context);
+    const updated = await prisma.$transaction(async (tx) => {
+      const coupon = await tx.coupon.update({
+        where: sameVersion(id, current),
+        data: {
+          title,
+          description,
+          // A new rule answers whatever review the old one was waiting for.
+          ...(body.unlockCondition !== undefined
+            ? {
+                unlockCondition: condition ? (condition as Prisma.InputJsonValue) : Prisma.JsonNull,
+                needsReview: false,
+                reviewReason: null,
+              }
+            : {}),
+          relockPolicy,
+          unlocked,
+          expiresAt,
+          maxRedemptions,
+          redeemed: isUsedUp(maxRedemptions, current.redemptionCount),
+          recipientId: recipient.recipientId,
+          // A request was made to the old recipient's giver; it does not carry over to someone else.
+          ...(recipient.recipientId !== current.recipientId ? CLEARED_REQUEST : {}),
+        },
+      });
+
+      if (current.unlocked !== unlocked) {
+        await recordEvents(tx, spaceId, [
+          {
+            type: unlocked ? 'coupon.unlocked' : 'coupon.relocked',
+            actorId: currentUser(res).id,
+            payload: { couponId: coupon.id, title: coupon.title },
+          },
+        ]);
+      }
+      return coupon;
     });
 
+    publishCoupons(res, [updated], !current.unlocked && updated.unlocked ? [updated.id] : []);
     res.json(updated);
   } catch (error) {
     if ((error as { code?: string }).code === 'P2025') {
-      res.status(404).json({ error: 'Entry not found.' });
+      await sendCouponConflict(res, id, spaceId);
       return;
     }
 
-    res.status(500).json({ error: 'Unable to update entry.' });
+    res.status(500).json({ error: 'Unable to update coupon.' });
   }
 });
 
-app.patch('/api/entries/:id/done', async (req, res) => {
+app.patch('/api/coupons/:id/redeem', async (req, res) => {
   const { id } = req.params;
-  const { done } = req.body ?? {};
+  const body = parseRequest(res, validate(redeemCouponBodySchema, req.body ?? {}));
+  if (!body) return;
 
-  if (typeof done !== 'boolean') {
-    res.status(400).json({ error: 'done must be a boolean.' });
-    return;
-  }
+  const { redeemed } = body;
+  const spaceId = currentSpaceId(res);
 
   try {
-    const result = await prisma.$transaction(async (tx) => {
-      const updatedEntry = await tx.entry.update({
-        where: { id },
-        data: { done },
-      });
+    const userId = currentUser(res).id;
+    const current = await prisma.coupon.findFirst({ where: { id, spaceId } });
+
+    if (!current) {
+      res.status(404).json({ error: 'Coupon not found.' });
+      return;
+    }
 
-      const unlockedCoupons =
-        done === true ? await unlockEligibleCoupons(tx, await getUnlockContext(tx, updatedEntry.id)) : [];
+    if (redeemed) {
+      const refusal = findRedeemRefusal(current, new Date());
+      if (refusal) {
+        res.status(400).json(refusal);
+        return;
+      }
+
+      if (needsApproval(current, userId)) {
+        res.status(400).json({
+          reason: 'needsApproval',
+          error: 'This coupon is made out to you, so ask its giver to accept your request instead.',
+        });
+        return;
+      }
+    } else if (current.redemptionCount === 0) {
+      res.json(current);
+      return;
+    }
 
-      return { entry: updatedEntry, unlockedCoupons };
-    });
+    const updated = await prisma.$transaction((tx) =>
+      applyRedemption(tx, spaceId, current, { redeemed, actorId: userId })
+    );
 
-    res.json(result);
+    publishCoupons(res, [updated]);
+    res.json(updated);
   } catch (error) {
     if ((error as { code?: string }).code === 'P2025') {
-      res.status(404).json({ error: 'Entry not found.' });
+      await sendCouponConflict(res, id, spaceId, 'This coupon was just used somewhere else. Try again.');
       return;
     }
 
-    res.status(500).json({ error: 'Unable to update entry.' });
+    res.status(500).json({ error: 'Unable to update coupon.' });
   }
 });
 
-app.delete('/api/entries/:id', async (req, res) => {
+app.post('/api/coupons/:id/request', async (req, res) => {
   const { id } = req.params;
-
-  if (!id) {
-    res.status(400).json({ error: 'Entry id is required.' });
-    return;
-  }
+  const spaceId = currentSpaceId(res);
 
   try {
-    await prisma.entry.delete({ where: { id } });
-    res.status(204).send();
+    const userId = currentUser(res).id;
+    const current = await prisma.coupon.findFirst({ where: { id, spaceId } });
+
+    if (!current) {
+      res.status(404).json({ error: 'Coupon not found.' });
+      return;
+    }
+
+    const requestRefusal = findRequestRefusal(current, userId);
+    if (requestRefusal) {
+      res.status(400).json({ error: requestRefusal });
+      return;
+    }
+
+    const refusal = findRedeemRefusal(current, new Date());
+    if (refusal) {
+      res.status(400).json(refusal);
+      return;
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const coupon = await tx.coupon.update({
+        where: sameVersion(id, current),
+        data: { ...CLEARED_REQUEST, requestStatus: 'pending', requestedAt: new Date() },
+      });
+
+      await recordEvents(tx, spaceId, [
+        { type: 'coupon.requested', actorId: userId, payload: { couponId: coupon.id, title: coupon.title } },
+      ]);
+      return coupon;
+    });
+
+    publishCoupons(res, [updated]);
+    res.json(updated);
   } catch (error) {
     if ((error as { code?: string }).code === 'P2025') {
-      res.status(404).json({ error: 'Entry not found.' });
+      await sendCouponConflict(res, id, spaceId, 'This coupon was just changed somewhere else. Try again.');
       return;
     }
 
-    res.status(500).json({ error: 'Unable to delete entry.' });
+    res.status(500).json({ error: 'Unable to request coupon.' });
   }
 });
 
-app.get('/api/coupons', async (_req, res) => {
-  const data = await prisma.coupon.findMany({ orderBy: { createdAt: 'desc' } });
-  res.json(data);
-});
+app.patch('/api/coupons/:id/request', async (req, res) => {
+  const { id } = req.params;
+  const body = parseRequest(res, validate(respondCouponRequestBodySchema, req.body ?? {}));
+  if (!body) return;
 
-app.post('/api/coupons', async (req, res) => {
-  const { title, description, unlockCondition } = req.body ?? {};
+  const { action, scheduledFor } = body;
+  const spaceId = currentSpaceId(res);
 
-  if (typeof title !== 'string' || !title.trim()) {
-    res.status(400).json({ error: 'Title is required.' });
+  if (action === 'schedule' && !scheduledFor) {
+    res.status(400).json(fieldError('scheduledFor', 'Pick the day this coupon will be used.'));
     return;
   }
 
-  const parsedCondition = parseUnlockCondition(unlockCondition);
-  const context = await getUnlockContext(prisma);
-  const unlocked = shouldUnlockCoupon(parsedCondition, context);
-
   try {
-    const created = await prisma.coupon.create({
-      data: {
-        title: title.trim(),
-        description:
-          typeof description === 'string' && description.trim() ? description.trim() : null,
-        unlockCondition: parsedCondition ? (parsedCondition as Prisma.InputJsonValue) : Prisma.JsonNull,
-        unlocked,
-      },
-    });
+    const userId = currentUser(res).id;
+    const current = await prisma.coupon.findFirst({ where: { id, spaceId } });
 
-    res.status(201).json(created);
-  } catch {
-    res.status(500).json({ error: 'Unable to create coupon.' });
-  }
-});
+    if (!current) {
+      res.status(404).json({ error: 'Coupon not found.' });
+      return;
+    }
 
-app.put('/api/coupons/:id', async (req, res) => {
-  const { id } = req.params;
-  const { title, description, unlockCondition } = req.body ?? {};
+    const answerRefusal = findAnswerRefusal(current, userId);
+    if (answerRefusal) {
+      res.status(400).json({ error: answerRefusal });
+      return;
+    }
 
-  if (!id) {
-    res.status(400).json({ error: 'Coupon id is required.' });
-    return;
-  }
+    if (action === 'accept') {
+      const refusal = findRedeemRefusal(current, new Date());
+      if (refusal) {
+        res.status(400).json(refusal);
+        return;
+      }
+    }
 
-  if (typeof title !== 'string' || !title.trim()) {
-    res.status(400).json({ error: 'Title is required.' });
-    return;
+    const updated = await prisma.$transaction(async (tx) => {
+      if (action === 'accept') {
+        return applyRedemption(tx, spaceId, current, {
+          redeemed: true,
+          actorId: userId,
+          redeemedById: current.recipientId,
+        });
+      }
+
+      const coupon = await tx.coupon.update({
+        where: sameVersion(id, current),
+        data: answerRequest(action, scheduledFor ?? null, new Date()),
+      });
+
+      await recordEvents(tx, spaceId, [
+        {
+          type: action === 'decline' ? 'coupon.requestDeclined' : 'coupon.requestScheduled',
+          actorId: userId,
+          payload: {
+            couponId: coupon.id,
+            title: coupon.title,
+            ...(action === 'schedule' ? { scheduledFor } : {}),
+          },
+        },
+      ]);
+      return coupon;
+    });
+
+    publishCoupons(res, [updated]);
+    res.json(updated);
+  } catch (error) {
+    if ((error as { code?: string }).code === 'P2025') {
+      await sendCouponConflict(res, id, spaceId, 'This coupon was just changed somewhere else. Try again.');
+      return;
+    }
+
+    res.status(500).json({ error: 'Unable to answer the request.' });
   }
+});
 
-  const parsedCondition = parseUnlockCondition(unlockCondition);
-  const context = await getUnlockContext(prisma);
+app.delete('/api/coupons/:id/request', async (req, res) => {
+  const { id } = req.params;
+  const spaceId = currentSpaceId(res);
 
   try {
-    const current = await prisma.coupon.findUnique({ where: { id } });
+    const userId = currentUser(res).id;
+    const current = await prisma.coupon.findFirst({ where: { id, spaceId } });
 
     if (!current) {
       res.status(404).json({ error: 'Coupon not found.' });
       return;
     }
 
-    const unlocked = current.redeemed ? true : shouldUnlockCoupon(parsedCondition, context);
-    const updated = await prisma.coupon.update({
-      where: { id },
-      data: {
-        title: title.trim(),
-        description:
-          typeof description === 'string' && description.trim() ? description.trim() : null,
-        unlockCondition: parsedCondition ? (parsedCondition as Prisma.InputJsonValue) : Prisma.JsonNull,
-        unlocked,
-        redeemed: unlocked ? current.redeemed : false,
-        redeemedAt: unlocked ? current.redeemedAt : null,
-      },
+    const withdrawRefusal = findWithdrawRefusal(current, userId);
+    if (withdrawRefusal) {
+      res.status(400).json({ error: withdrawRefusal });
+      return;
+    }
+
+    if (!current.requestStatus) {
+      res.json(current);
+      return;
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const coupon = await tx.coupon.update({
+        where: sameVersion(id, current),
+        data: CLEARED_REQUEST,
+      });
+
+      // Clearing a declined request away is tidying up, not news for the timeline.
+      if (current.requestStatus !== 'declined') {
+        await recordEvents(tx, spaceId, [
+          {
+            type: 'coupon.requestCancelled',
+            actorId: userId,
+            payload: { couponId: coupon.id, title: coupon.title },
+          },
+        ]);
+      }
+      return coupon;
     });
 
+    publishCoupons(res, [updated]);
     res.json(updated);
-  } catch {
-    res.status(500).json({ error: 'Unable to update coupon.' });
+  } catch (error) {
+    if ((error as { code?: string }).code === 'P2025') {
+      await sendCouponConflict(res, id, spaceId, 'This coupon was just changed somewhere else. Try again.');
+      return;
+    }
+
+    res.status(500).json({ error: 'Unable to withdraw the request.' });
   }
 });
 
-app.patch('/api/coupons/:id/redeem', async (req, res) => {
+app.patch('/api/coupons/:id/review', async (req, res) => {
   const { id } = req.params;
-  const { redeemed } = req.body ?? {};
+  const body = parseRequest(res, validate(reviewCouponBodySchema, req.body ?? {}));
+  if (!body) return;
 
-  if (typeof redeemed !== 'boolean') {
-    res.status(400).json({ error: 'redeemed must be a boolean.' });
-    return;
-  }
+  const { action } = body;
 
   try {
-    const current = await prisma.coupon.findUnique({ where: { id } });
+    const spaceId = currentSpaceId(res);
+    const current = await prisma.coupon.findFirst({ where: { id, spaceId } });
 
     if (!current) {
       res.status(404).json({ error: 'Coupon not found.' });
       return;
     }
 
-    if (!current.unlocked && redeemed) {
-      res.status(400).json({ error: 'Coupon must be unlocked before redemption.' });
+    if (action === 'relock' && current.redemptionCount > 0) {
+      res.status(400).json({ error: 'A coupon that has been used cannot be locked again.' });
       return;
     }
 
-    const updated = await prisma.coupon.update({
-      where: { id },
-      data: {
-        redeemed,
-        redeemedAt: redeemed ? new Date() : null,
-      },
+    const updated = await prisma.$transaction(async (tx) => {
+      const coupon = await tx.coupon.update({
+        where: { id },
+        data: {
+          needsReview: false,
+          reviewReason: null,
+          ...(action === 'relock' ? { unlocked: false } : {}),
+        },
+      });
+
+      if (action === 'relock' && current.unlocked) {
+        await recordEvents(tx, spaceId, [
+          {
+            type: 'coupon.relocked',
+            actorId: currentUser(res).id,
+            payload: { couponId: coupon.id, title: coupon.title, reason: current.reviewReason },
+          },
+        ]);
+      }
+      return coupon;
     });
 
+    publishCoupons(res, [updated]);
     res.json(updated);
   } catch {
     res.status(500).json({ error: 'Unable to update coupon.' });
   }
 });
 
+app.use(activityRouter);
+app.use(memoriesRouter);
+app.use(statsRouter);
+app.use(searchRouter);
+app.use(calendarRouter);
+app.use(reminderRouter);
+app.use(backupRouter);
+
 app.get('*', (req, res, next) => {
   if (req.path.startsWith('/api') || req.path === '/health' || isDev) return next();
   res.sendFile(path.join(staticRoot, 'index.html'));
 });
 
+type LegacyUser = Pick<User, 'id' | 'email' | 'name' | 'passwordHash' | 'createdAt'>;
+type LegacySession = Pick<Session, 'id' | 'tokenHash' | 'userId' | 'createdAt' | 'expiresAt'>;
+/** Dreams are from before accounts when `userId` names no account, such as the old shared "couple". */
+type LegacyEntry = Pick<Entry, 'id' | 'userId' | 'title' | 'note' | 'date' | 'done' | 'createdAt'>;
+/** Coupons only gained an owner with accounts. */
+type LegacyCoupon = Pick<
+  Coupon,
+  'id' | 'title' | 'description' | 'createdAt' | 'unlocked' | 'redeemed' | 'redeemedAt' | 'unlockCondition'
+> & { userId?: string };
+
+async function readLegacyTable<Row>(db: Prisma.TransactionClient, table: 'User' | 'Session' | 'Entry' | 'Coupon') {
+  const [{ present }] = await db.$queryRaw<{ present: boolean }[]>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.tables WHERE table_schema = ${LEGACY_SCHEMA} AND table_name = ${table}
+    ) AS "present"
+  `;
+  return present ? db.$queryRaw<Row[]>`SELECT * FROM ${Prisma.raw(`${LEGACY_SCHEMA}."${table}"`)}` : [];
+}
+
+/**
+ * The account that receives dreams and coupons from before accounts: LEGACY_OWNER_EMAIL, created with
+ * LEGACY_OWNER_PASSWORD when it does not exist yet. A new account needs that password, so the import stops without it.
+ */
+async function findOrCreateLegacyOwner(db: Prisma.TransactionClient) {
+  const email = (process.env.LEGACY_OWNER_EMAIL || 'owner@gomun.local').trim().toLowerCase();
+  const existing = await db.user.findUnique({ where: { email }, include: { membership: true } });
+
+  if (existing) {
+    const spaceId = existing.membership?.spaceId ?? (await createSoloSpace(db, toAuthUser(existing)));
+    return { user: existing, spaceId };
+  }
+
+  const password = process.env.LEGACY_OWNER_PASSWORD;
+  if (!password) {
+    throw new Error(
+      `Dreams and coupons from before accounts need an owner: set LEGACY_OWNER_PASSWORD to create ${email}, ` +
+        'or LEGACY_OWNER_EMAIL to an account that exists.'
+    );
+  }
+
+  const user = await db.user.create({
+    data: { email, name: email.split('@')[0], passwordHash: await hashPassword(password) },
+  });
+
+  return { user, spaceId: await createSoloSpace(db, toAuthUser(user)) };
+}
+
+/**
+ * Brings back what prisma/legacy.sql set aside, keeping every id. Accounts from before spaces return with a space
+ * of their own and keep their dreams and coupons there; anything without an account goes to the owner account.
+ * Failures are thrown: the old data stays in its schema and the server does not start without it.
+ */
+async function importLegacyData() {
+  const [{ pending }] = await prisma.$queryRaw<{ pending: boolean }[]>`
+    SELECT EXISTS (SELECT 1 FROM information_schema.schemata WHERE schema_name = ${LEGACY_SCHEMA}) AS "pending"
+  `;
+  if (!pending) return;
+
+  const imported = await prisma.$transaction(
+    async (tx) => {
+      const users = await readLegacyTable<LegacyUser>(tx, 'User');
+      const sessions = await readLegacyTable<LegacySession>(tx, 'Session');
+      const entries = await readLegacyTable<LegacyEntry>(tx, 'Entry');
+      const coupons = await readLegacyTable<LegacyCoupon>(tx, 'Coupon');
+
+      const spaceByUser = new Map<string, string>();
+      for (const legacy of users) {
+        const user = await tx.user.create({
+          data: {
+            id: legacy.id,
+            email: legacy.email,
+            name: legacy.name,
+            passwordHash: legacy.passwordHash,
+            createdAt: legacy.createdAt,
+          },
+        });
+        spaceByUser.set(user.id, await createSoloSpace(tx, toAuthUser(user)));
+      }
+
+      await tx.session.createMany({
+        data: sessions
+          .filter((session) => spaceByUser.has(session.userId))
+          .map((session) => ({
+            id: session.id,
+            tokenHash: session.tokenHash,
+            userId: session.userId,
+            createdAt: session.createdAt,
+            expiresAt: session.expiresAt,
+          })),
+      });
+
+      const hasAccount = (row: { userId?: string }) => !!row.userId && spaceByUser.has(row.userId);
+      const owner = [...entries, ...coupons].every(hasAccount) ? null : await findOrCreateLegacyOwner(tx);
+      const placeOf = (row: { userId?: string }) => {
+        const spaceId = row.userId && spaceByUser.get(row.userId);
+        if (row.userId && spaceId) return { userId: row.userId, spaceId };
+
+        // The owner was made above, since this row has no account of its own.
+        const { user, spaceId: ownerSpaceId } = owner as NonNullable<typeof owner>;
+        return { userId: user.id, spaceId: ownerSpaceId };
+      };
+
+      for (const entry of entries) {
+        await tx.entry.create({
+          data: {
+            id: entry.id,
+            ...placeOf(entry),
+            title: entry.title,
+            note: entry.note,
+            date: entry.date,
+            done: entry.done,
+            createdAt: entry.createdAt,
+          },
+        });
+      }
+
+      for (const coupon of coupons) {
+        await tx.coupon.create({
+          data: {
+            id: coupon.id,
+            ...placeOf(coupon),
+            title: coupon.title,
+            description: coupon.description,
+            createdAt: coupon.createdAt,
+            unlocked: coupon.unlocked,
+            redeemed: coupon.redeemed,
+            redeemedAt: coupon.redeemedAt,
+            unlockCondition: (coupon.unlockCondition ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+          },
+        });
+      }
+
+      await tx.$executeRaw`DROP SCHEMA ${Prisma.raw(LEGACY_SCHEMA)} CASCADE`;
+
+      return { users: users.length, entries: entries.length, coupons: coupons.length, owner };
+    },
+    { timeout: LEGACY_IMPORT_TIMEOUT_MS }
+  );
+
+  const { users, entries, coupons, owner } = imported;
+  console.log(`📦 Imported ${users} account(s), ${entries} dream(s) and ${coupons} coupon(s) from before spaces`);
+  if (owner) {
+    console.log(`📦 Dreams and coupons that had no account now belong to ${owner.user.email}`);
+  }
+}
+
+/** Coupons redeemed before every use had a row of its own get one, so their count matches their history. */
+async function backfillCouponRedemptions() {
+  try {
+    const legacy = await prisma.coupon.findMany({ where: { redeemed: true, redemptionCount: 0 } });
+
+    for (const coupon of legacy) {
+      await prisma.$transaction([
+        prisma.couponRedemption.create({
+          data: {
+            couponId: coupon.id,
+            redeemedById: coupon.redeemedById,
+            redeemedAt: coupon.redeemedAt ?? coupon.updatedAt,
+          },
+        }),
+        prisma.coupon.update({ where: { id: coupon.id }, data: { redemptionCount: 1 } }),
+      ]);
+    }
+
+    if (legacy.length > 0) {
+      console.log(`🎟️ Recorded the earlier use of ${legacy.length} coupon(s)`);
+    }
+  } catch (error) {
+    console.error('Coupon redemption backfill failed', error);
+  }
+}
+
 const port = Number(process.env.PORT) || 8080;
-app.listen(port, '0.0.0.0', () => console.log(`🚀 GoMun API running on port ${port}`));
+
+async function start() {
+  // Old data is imported before the first request, so nobody signs in to an account that is still missing it.
+  // Imported coupons that were redeemed get their redemption row from the backfill, so it runs second.
+  await importLegacyData();
+  await backfillCouponRedemptions();
+
+  app.listen(port, '0.0.0.0', () => {
+    console.log(`🚀 GoMun API running on port ${port}`);
+    runScheduledUnlocks();
+    setInterval(runScheduledUnlocks, UNLOCK_SWEEP_INTERVAL_MS);
+    runReminderSweep();
+    setInterval(runReminderSweep, REMINDER_SWEEP_INTERVAL_MS);
+  });
+}
+
+start().catch((error) => {
+  console.error('Importing data from an earlier version failed; the API did not start', error);
+  process.exit(1);
+});
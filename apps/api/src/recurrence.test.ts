@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatRecurrence, nextOccurrenceDate, parseRecurrence } from './recurrence';
+import type { RecurrenceRule } from './recurrence';
+
+function next(rule: string, from: string, completedOccurrences = 0) {
+  const parsed = parseRecurrence(rule);
+  assert.ok(parsed, `${rule} should parse`);
+  return nextOccurrenceDate(parsed, new Date(from), completedOccurrences)?.toISOString() ?? null;
+}
+
+describe('parseRecurrence', () => {
+  it('reads a lower-case rule with an RRULE prefix', () => {
+    assert.deepEqual(parseRecurrence('rrule:freq=weekly;interval=2;byday=we,mo,we'), {
+      freq: 'WEEKLY',
+      interval: 2,
+      byDay: [0, 2],
+    });
+  });
+
+  it('reads UNTIL as a date or a UTC timestamp', () => {
+    assert.deepEqual(parseRecurrence('FREQ=DAILY;UNTIL=20260320')?.until, new Date('2026-03-20T23:59:59Z'));
+    assert.deepEqual(parseRecurrence('FREQ=DAILY;UNTIL=20260320T080000Z')?.until, new Date('2026-03-20T08:00:00Z'));
+  });
+
+  it('rejects rules it cannot follow', () => {
+    const rejected = [
+      undefined,
+      '',
+      'FREQ=HOURLY',
+      'FREQ=DAILY;FREQ=WEEKLY',
+      'FREQ=DAILY;INTERVAL=0',
+      'FREQ=DAILY;INTERVAL=367',
+      'FREQ=DAILY;COUNT=1.5',
+      'FREQ=DAILY;BYDAY=MO',
+      'FREQ=WEEKLY;BYDAY=XX',
+      'FREQ=DAILY;UNTIL=2026-03-20',
+      'FREQ=DAILY;COUNT=3;UNTIL=20260320',
+      'FREQ=MONTHLY;BYMONTHDAY=1',
+    ];
+
+    for (const raw of rejected) {
+      assert.equal(parseRecurrence(raw), null, String(raw));
+    }
+  });
+});
+
+describe('formatRecurrence', () => {
+  it('writes only the parts that differ from the defaults', () => {
+    assert.equal(formatRecurrence({ freq: 'DAILY', interval: 1 }), 'FREQ=DAILY');
+  });
+
+  it('round-trips a parsed rule', () => {
+    const weekly = parseRecurrence('byday=we,mo;freq=weekly;count=4;interval=2') as RecurrenceRule;
+    const daily = parseRecurrence('FREQ=DAILY;UNTIL=20260320') as RecurrenceRule;
+    assert.equal(formatRecurrence(weekly), 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=4');
+    assert.equal(formatRecurrence(daily), 'FREQ=DAILY;UNTIL=20260320T235959Z');
+  });
+});
+
+describe('nextOccurrenceDate', () => {
+  it('steps daily by the interval and keeps the time of day', () => {
+    assert.equal(next('FREQ=DAILY', '2026-03-31T18:30:00Z'), '2026-04-01T18:30:00.000Z');
+    assert.equal(next('FREQ=DAILY;INTERVAL=3', '2026-02-27T09:00:00Z'), '2026-03-02T09:00:00.000Z');
+  });
+
+  it('steps weekly from the same weekday', () => {
+    assert.equal(next('FREQ=WEEKLY', '2026-03-18T09:00:00Z'), '2026-03-25T09:00:00.000Z');
+    assert.equal(next('FREQ=WEEKLY;INTERVAL=2', '2026-03-18T09:00:00Z'), '2026-04-01T09:00:00.000Z');
+  });
+
+  it('moves to the next listed weekday and wraps to the first one', () => {
+    // 2026-03-16 is a Monday.
+    assert.equal(next('FREQ=WEEKLY;BYDAY=MO,WE', '2026-03-16T09:00:00Z'), '2026-03-18T09:00:00.000Z');
+    assert.equal(next('FREQ=WEEKLY;BYDAY=MO,WE', '2026-03-18T09:00:00Z'), '2026-03-23T09:00:00.000Z');
+    assert.equal(next('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE', '2026-03-18T09:00:00Z'), '2026-03-30T09:00:00.000Z');
+    assert.equal(next('FREQ=WEEKLY;BYDAY=MO', '2026-03-22T09:00:00Z'), '2026-03-23T09:00:00.000Z');
+  });
+
+  it('skips months without the day of the month', () => {
+    assert.equal(next('FREQ=MONTHLY', '2026-01-15T09:00:00Z'), '2026-02-15T09:00:00.000Z');
+    assert.equal(next('FREQ=MONTHLY', '2026-01-31T09:00:00Z'), '2026-03-31T09:00:00.000Z');
+    assert.equal(next('FREQ=MONTHLY', '2026-03-31T09:00:00Z'), '2026-05-31T09:00:00.000Z');
+    assert.equal(next('FREQ=MONTHLY;INTERVAL=2', '2025-12-31T09:00:00Z'), '2026-08-31T09:00:00.000Z');
+  });
+
+  it('skips years without February 29th', () => {
+    assert.equal(next('FREQ=YEARLY', '2026-06-01T09:00:00Z'), '2027-06-01T09:00:00.000Z');
+    assert.equal(next('FREQ=YEARLY', '2024-02-29T09:00:00Z'), '2028-02-29T09:00:00.000Z');
+  });
+
+  it('ends after COUNT occurrences', () => {
+    assert.equal(next('FREQ=DAILY;COUNT=3', '2026-03-01T09:00:00Z', 2), '2026-03-02T09:00:00.000Z');
+    assert.equal(next('FREQ=DAILY;COUNT=3', '2026-03-01T09:00:00Z', 3), null);
+  });
+
+  it('ends after UNTIL', () => {
+    assert.equal(next('FREQ=DAILY;UNTIL=20260320', '2026-03-19T09:00:00Z'), '2026-03-20T09:00:00.000Z');
+    assert.equal(next('FREQ=DAILY;UNTIL=20260320', '2026-03-20T09:00:00Z'), null);
+    assert.equal(next('FREQ=DAILY;UNTIL=20260320T080000Z', '2026-03-19T09:00:00Z'), null);
+  });
+});
@@ -0,0 +1,124 @@
+// RRULE parsing and the date maths that moves a recurring dream on to its next occurrence.
+
+type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+/** The subset of RFC 5545 RRULE parts GoMun understands. `byDay` holds weekday indexes with Monday as 0. */
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: number[];
+};
+
+const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const RRULE_WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const MAX_RECURRENCE_INTERVAL = 366;
+
+function parseRruleUntil(raw: string) {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(raw);
+  if (!match) return null;
+
+  const [, year, month, day, hour = '23', minute = '59', second = '59'] = match;
+  const until = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+  return Number.isNaN(until.getTime()) ? null : until;
+}
+
+export function parseRecurrence(raw: unknown): RecurrenceRule | null {
+  if (typeof raw !== 'string' || !raw.trim()) {
+    return null;
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of raw.trim().toUpperCase().replace(/^RRULE:/, '').split(';')) {
+    const [key, value] = part.split('=');
+    if (!key || !value || parts.has(key)) return null;
+    parts.set(key, value);
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency;
+  if (!RECURRENCE_FREQUENCIES.includes(freq)) return null;
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [key, value] of parts) {
+    if (key === 'FREQ') continue;
+
+    if (key === 'INTERVAL' || key === 'COUNT') {
+      const parsed = Number(value);
+      if (!Number.isInteger(parsed) || parsed < 1 || (key === 'INTERVAL' && parsed > MAX_RECURRENCE_INTERVAL)) {
+        return null;
+      }
+      rule[key === 'INTERVAL' ? 'interval' : 'count'] = parsed;
+    } else if (key === 'UNTIL') {
+      const until = parseRruleUntil(value);
+      if (!until) return null;
+      rule.until = until;
+    } else if (key === 'BYDAY' && freq === 'WEEKLY') {
+      const days = value.split(',').map((day) => RRULE_WEEKDAYS.indexOf(day));
+      if (days.some((day) => day < 0)) return null;
+      rule.byDay = Array.from(new Set(days)).sort((first, second) => first - second);
+    } else {
+      return null;
+    }
+  }
+
+  // RFC 5545 does not allow both end conditions on the same rule.
+  return rule.count !== undefined && rule.until ? null : rule;
+}
+
+export function formatRecurrence(rule: RecurrenceRule) {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map((day) => RRULE_WEEKDAYS[day]).join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  return parts.join(';');
+}
+
+function shiftUtc(from: Date, { days = 0, months = 0 }: { days?: number; months?: number }) {
+  return new Date(
+    Date.UTC(
+      from.getUTCFullYear(),
+      from.getUTCMonth() + months,
+      from.getUTCDate() + days,
+      from.getUTCHours(),
+      from.getUTCMinutes(),
+      from.getUTCSeconds(),
+      from.getUTCMilliseconds()
+    )
+  );
+}
+
+/**
+ * Works out the occurrence after `from`, or null once the series is over.
+ * Months and years that lack the day of `from` (the 31st, February 29th) are skipped, as RFC 5545 does.
+ */
+export function nextOccurrenceDate(rule: RecurrenceRule, from: Date, completedOccurrences: number) {
+  if (rule.count !== undefined && completedOccurrences >= rule.count) {
+    return null;
+  }
+
+  let next: Date | null = null;
+
+  if (rule.freq === 'DAILY') {
+    next = shiftUtc(from, { days: rule.interval });
+  } else if (rule.freq === 'WEEKLY') {
+    const weekday = (from.getUTCDay() + 6) % 7;
+    const laterThisWeek = rule.byDay?.find((day) => day > weekday);
+    next =
+      laterThisWeek !== undefined
+        ? shiftUtc(from, { days: laterThisWeek - weekday })
+        : shiftUtc(from, { days: 7 * rule.interval - weekday + (rule.byDay?.[0] ?? weekday) });
+  } else {
+    const monthStep = rule.freq === 'YEARLY' ? 12 * rule.interval : rule.interval;
+    for (let step = 1; step <= 12 && !next; step += 1) {
+      const candidate = shiftUtc(from, { months: monthStep * step });
+      if (candidate.getUTCDate() === from.getUTCDate()) {
+        next = candidate;
+      }
+    }
+  }
+
+  return next && (!rule.until || next <= rule.until) ? next : null;
+}
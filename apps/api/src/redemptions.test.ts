@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Coupon } from '@prisma/client';
+import { findRedeemRefusal, isUsedUp } from './redemptions';
+
+const now = new Date('2026-03-20T09:00:00.000Z');
+const coupon = {
+  unlocked: true,
+  expiresAt: null,
+  maxRedemptions: 1,
+  redemptionCount: 0,
+} as Coupon;
+
+describe('isUsedUp', () => {
+  it('holds once every use is spent, and never without a limit', () => {
+    assert.equal(isUsedUp(3, 2), false);
+    assert.equal(isUsedUp(3, 3), true);
+    assert.equal(isUsedUp(null, 40), false);
+  });
+});
+
+describe('findRedeemRefusal', () => {
+  it('lets an unlocked coupon with uses left be used', () => {
+    assert.equal(findRedeemRefusal(coupon, now), null);
+    assert.equal(findRedeemRefusal({ ...coupon, expiresAt: new Date('2026-03-21T00:00:00.000Z') }, now), null);
+  });
+
+  it('says why a coupon cannot be used', () => {
+    const expired = { ...coupon, expiresAt: new Date('2026-03-19T00:00:00.000Z') };
+
+    assert.equal(findRedeemRefusal({ ...coupon, unlocked: false }, now)?.reason, 'locked');
+    assert.deepEqual(findRedeemRefusal(expired, now), {
+      reason: 'expired',
+      error: 'This coupon expired on 2026-03-19.',
+    });
+    assert.equal(
+      findRedeemRefusal({ ...coupon, redemptionCount: 1 }, now)?.error,
+      'This coupon has already been used.'
+    );
+    assert.equal(
+      findRedeemRefusal({ ...coupon, maxRedemptions: 3, redemptionCount: 3 }, now)?.error,
+      'This coupon has been used all 3 times.'
+    );
+  });
+});
@@ -0,0 +1,32 @@
+import type { Coupon } from '@prisma/client';
+import type { RedeemErrorBody } from '@gomun/contract';
+
+// When a coupon can be used: unlocked, not expired, and with uses left.
+
+/** A coupon is used up once every one of its uses is spent; one without a limit never is. */
+export function isUsedUp(maxRedemptions: number | null, redemptionCount: number) {
+  return maxRedemptions !== null && redemptionCount >= maxRedemptions;
+}
+
+/** Why a coupon cannot be used right now, or null when it can. */
+export function findRedeemRefusal(coupon: Coupon, now: Date): RedeemErrorBody | null {
+  if (!coupon.unlocked) {
+    return { reason: 'locked', error: 'Coupon must be unlocked before redemption.' };
+  }
+
+  if (coupon.expiresAt && coupon.expiresAt < now) {
+    return { reason: 'expired', error: `This coupon expired on ${coupon.expiresAt.toISOString().slice(0, 10)}.` };
+  }
+
+  if (isUsedUp(coupon.maxRedemptions, coupon.redemptionCount)) {
+    return {
+      reason: 'usedUp',
+      error:
+        coupon.maxRedemptions === 1
+          ? 'This coupon has already been used.'
+          : `This coupon has been used all ${coupon.maxRedemptions} times.`,
+    };
+  }
+
+  return null;
+}
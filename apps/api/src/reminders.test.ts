@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findDueReminder } from './reminders';
+
+const DAY_BEFORE = 24 * 60;
+const HOUR_BEFORE = 60;
+const DREAM_DATE = new Date('2026-03-20T00:00:00Z');
+
+function due(now: string, reminderOffsets = [DAY_BEFORE, HOUR_BEFORE], date: Date | null = DREAM_DATE) {
+  return findDueReminder({ date, reminderOffsets }, new Date(now));
+}
+
+describe('findDueReminder', () => {
+  it('owes nothing to undated dreams', () => {
+    assert.equal(due('2026-03-19T00:00:00Z', [DAY_BEFORE], null), null);
+  });
+
+  it('owes nothing before the first offset is reached', () => {
+    assert.equal(due('2026-03-18T23:59:59Z'), null);
+  });
+
+  it('owes the latest offset already reached', () => {
+    assert.deepEqual(due('2026-03-19T00:00:00Z'), { kind: 'upcoming', offsetMinutes: DAY_BEFORE });
+    assert.deepEqual(due('2026-03-19T22:59:59Z'), { kind: 'upcoming', offsetMinutes: DAY_BEFORE });
+    assert.deepEqual(due('2026-03-19T23:00:00Z'), { kind: 'upcoming', offsetMinutes: HOUR_BEFORE });
+  });
+
+  it('keeps the dream upcoming for the whole of its day', () => {
+    assert.deepEqual(due('2026-03-20T23:59:59Z'), { kind: 'upcoming', offsetMinutes: HOUR_BEFORE });
+    assert.deepEqual(due('2026-03-20T12:00:00Z', [0]), { kind: 'upcoming', offsetMinutes: 0 });
+    assert.equal(due('2026-03-20T12:00:00Z', []), null);
+  });
+
+  it('turns overdue once the day has passed, with or without offsets', () => {
+    assert.deepEqual(due('2026-03-21T00:00:00Z'), { kind: 'overdue', offsetMinutes: 0 });
+    assert.deepEqual(due('2026-03-21T00:00:00Z', []), { kind: 'overdue', offsetMinutes: 0 });
+  });
+
+  it('stops owing an overdue reminder after the window', () => {
+    assert.deepEqual(due('2026-03-23T23:59:59Z'), { kind: 'overdue', offsetMinutes: 0 });
+    assert.equal(due('2026-03-24T00:00:00Z'), null);
+  });
+});
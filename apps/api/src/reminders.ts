@@ -0,0 +1,26 @@
+import type { Entry } from '@prisma/client';
+import type { ReminderKind } from '@gomun/contract';
+import { DAY_MS, MINUTE_MS } from './time';
+
+// When a dream is owed a reminder; sending it is up to the scheduler.
+
+export type DueReminder = { kind: ReminderKind; offsetMinutes: number };
+
+// Dreams that went overdue longer ago than this get no reminder, so turning reminders on does not dig up old ones.
+export const OVERDUE_REMINDER_WINDOW_MS = 3 * DAY_MS;
+
+/**
+ * The reminder a dream is owed at `now`. Dates are calendar days, so a dream is overdue once its whole day has
+ * passed; before that, the latest offset already reached is the one due.
+ */
+export function findDueReminder(entry: Pick<Entry, 'date' | 'reminderOffsets'>, now: Date): DueReminder | null {
+  if (!entry.date) return null;
+
+  const untilDate = entry.date.getTime() - now.getTime();
+  if (untilDate <= -DAY_MS) {
+    return untilDate > -DAY_MS - OVERDUE_REMINDER_WINDOW_MS ? { kind: 'overdue', offsetMinutes: 0 } : null;
+  }
+
+  const reached = entry.reminderOffsets.filter((offset) => offset * MINUTE_MS >= untilDate);
+  return reached.length > 0 ? { kind: 'upcoming', offsetMinutes: Math.min(...reached) } : null;
+}
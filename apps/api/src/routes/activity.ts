@@ -0,0 +1,28 @@
+import express from 'express';
+import { activityQuerySchema, validate } from '@gomun/contract';
+import { prisma } from '../db';
+import { pageArgs, toPage } from '../entries';
+import { currentSpaceId, parseRequest } from '../http';
+
+// The timeline: the space's activity log, newest first, a page at a time.
+
+export const activityRouter = express.Router();
+
+activityRouter.get('/api/activity', async (req, res) => {
+  const query = parseRequest(res, validate(activityQuerySchema, req.query));
+  if (!query) return;
+
+  const { limit, cursor } = query;
+
+  try {
+    const rows = await prisma.event.findMany({
+      where: { spaceId: currentSpaceId(res) },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...pageArgs(limit, cursor),
+    });
+
+    res.json(toPage(rows, limit));
+  } catch {
+    res.status(500).json({ error: 'Unable to load activity.' });
+  }
+});
@@ -0,0 +1,219 @@
+import crypto from 'crypto';
+import express from 'express';
+import type { Request, Response } from 'express';
+import multer from 'multer';
+import sharp from 'sharp';
+import {
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_ENTRY,
+  MAX_FILES_PER_UPLOAD,
+} from '@gomun/contract';
+import { prisma } from '../db';
+import { ENTRY_INCLUDE } from '../entries';
+import { currentSpaceId, currentUser } from '../http';
+import { attachmentKey, attachmentStorage, removeAttachmentFiles, thumbnailKey } from '../storage';
+import { publish } from '../sync';
+
+// Photos and files on a dream: uploads with their thumbnails, downloads, and removal.
+
+const THUMBNAIL_SIZE = 320;
+
+export const attachmentsRouter = express.Router();
+
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: MAX_FILES_PER_UPLOAD },
+  // Browsers send file names as UTF-8 without saying so.
+  defParamCharset: 'utf8',
+  fileFilter: (_req, file, accept) => {
+    if ((ATTACHMENT_TYPES as readonly string[]).includes(file.mimetype)) {
+      accept(null, true);
+    } else {
+      accept(new Error(`${file.originalname} is not a photo or a PDF.`));
+    }
+  },
+}).array('files', MAX_FILES_PER_UPLOAD);
+
+const UPLOAD_ERROR_MESSAGES: Partial<Record<multer.ErrorCode, string>> = {
+  LIMIT_FILE_SIZE: `Each file can be at most ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB.`,
+  LIMIT_FILE_COUNT: `Attach at most ${MAX_FILES_PER_UPLOAD} files at once.`,
+  LIMIT_UNEXPECTED_FILE: 'Send the files in the "files" field.',
+};
+
+/** Reads a multipart upload, answering 400 itself when the files are refused. */
+function receiveAttachments(req: Request, res: Response) {
+  return new Promise<Express.Multer.File[] | null>((resolve) => {
+    attachmentUpload(req, res, (error: unknown) => {
+      if (error) {
+        const known = error instanceof multer.MulterError ? UPLOAD_ERROR_MESSAGES[error.code] : undefined;
+        const message = known ?? (error instanceof Error ? error.message : 'Unable to read the upload.');
+        res.status(400).json({ error: message });
+        resolve(null);
+        return;
+      }
+
+      resolve((req.files as Express.Multer.File[] | undefined) ?? []);
+    });
+  });
+}
+
+/** A square WebP preview, turned the way the camera held it. Rejects when the photo cannot be read. */
+function makeThumbnail(file: Express.Multer.File) {
+  return sharp(file.buffer)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' })
+    .webp({ quality: 75 })
+    .toBuffer();
+}
+
+/** Opens in the browser rather than downloading, under the name it was uploaded with. */
+function inlineDisposition(fileName: string) {
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16)}`);
+  return `inline; filename*=UTF-8''${encoded}`;
+}
+
+async function sendAttachmentFile(req: Request, res: Response, thumbnail: boolean) {
+  const { id, attachmentId } = req.params;
+
+  try {
+    const attachment = await prisma.attachment.findFirst({
+      where: { id: attachmentId, entryId: id, entry: { spaceId: currentSpaceId(res) } },
+    });
+
+    if (!attachment || (thumbnail && !attachment.hasThumbnail)) {
+      res.status(404).json({ error: 'Attachment not found.' });
+      return;
+    }
+
+    const stream = await attachmentStorage.get(thumbnail ? thumbnailKey(attachment.id) : attachmentKey(attachment.id));
+    res.type(thumbnail ? 'image/webp' : attachment.contentType);
+    res.set('X-Content-Type-Options', 'nosniff');
+    res.set('Cache-Control', 'private, max-age=31536000, immutable');
+    if (!thumbnail) res.set('Content-Disposition', inlineDisposition(attachment.fileName));
+    stream.on('error', () => res.destroy());
+    stream.pipe(res);
+  } catch {
+    res.status(500).json({ error: 'Unable to load the file.' });
+  }
+}
+
+attachmentsRouter.post('/api/entries/:id/attachments', async (req, res) => {
+  const { id } = req.params;
+  const spaceId = currentSpaceId(res);
+  const userId = currentUser(res).id;
+  const uploads: { id: string; file: Express.Multer.File; thumbnail: Buffer | null }[] = [];
+
+  try {
+    const entry = await prisma.entry.findFirst({
+      where: { id, spaceId },
+      include: { _count: { select: { attachments: true } } },
+    });
+
+    if (!entry) {
+      res.status(404).json({ error: 'Entry not found.' });
+      return;
+    }
+
+    const files = await receiveAttachments(req, res);
+    if (!files) return;
+
+    if (files.length === 0) {
+      res.status(400).json({ error: 'Choose at least one file to attach.' });
+      return;
+    }
+
+    if (entry._count.attachments + files.length > MAX_ATTACHMENTS_PER_ENTRY) {
+      res.status(400).json({ error: `A dream can have at most ${MAX_ATTACHMENTS_PER_ENTRY} attachments.` });
+      return;
+    }
+
+    for (const file of files) {
+      let thumbnail: Buffer | null = null;
+
+      if (file.mimetype.startsWith('image/')) {
+        try {
+          thumbnail = await makeThumbnail(file);
+        } catch {
+          res.status(400).json({ error: `${file.originalname} is not a photo that can be opened.` });
+          return;
+        }
+      }
+
+      uploads.push({ id: crypto.randomUUID(), file, thumbnail });
+    }
+
+    // Files are stored before their rows, so a row never points at a file that is not there yet.
+    for (const upload of uploads) {
+      await attachmentStorage.put(attachmentKey(upload.id), upload.file.buffer, upload.file.mimetype);
+      if (upload.thumbnail) await attachmentStorage.put(thumbnailKey(upload.id), upload.thumbnail, 'image/webp');
+    }
+
+    const [, updated] = await prisma.$transaction([
+      prisma.attachment.createMany({
+        data: uploads.map((upload) => ({
+          id: upload.id,
+          entryId: id,
+          uploadedById: userId,
+          fileName: upload.file.originalname,
+          contentType: upload.file.mimetype,
+          size: upload.file.size,
+          hasThumbnail: upload.thumbnail !== null,
+        })),
+      }),
+      prisma.entry.findUniqueOrThrow({ where: { id }, include: ENTRY_INCLUDE }),
+    ]);
+
+    publish(res, { type: 'entries', entries: [updated] });
+    res.status(201).json(updated);
+  } catch (error) {
+    await removeAttachmentFiles(uploads.map((upload) => ({ id: upload.id, hasThumbnail: upload.thumbnail !== null })));
+
+    // The dream was deleted while its files were being stored.
+    const code = (error as { code?: string }).code;
+    if (code === 'P2003' || code === 'P2025') {
+      res.status(404).json({ error: 'Entry not found.' });
+      return;
+    }
+
+    res.status(500).json({ error: 'Unable to attach the files.' });
+  }
+});
+
+attachmentsRouter.get('/api/entries/:id/attachments/:attachmentId', (req, res) => sendAttachmentFile(req, res, false));
+
+attachmentsRouter.get('/api/entries/:id/attachments/:attachmentId/thumbnail', (req, res) =>
+  sendAttachmentFile(req, res, true)
+);
+
+attachmentsRouter.delete('/api/entries/:id/attachments/:attachmentId', async (req, res) => {
+  const { id, attachmentId } = req.params;
+  const spaceId = currentSpaceId(res);
+
+  try {
+    const attachment = await prisma.attachment.findFirst({
+      where: { id: attachmentId, entryId: id, entry: { spaceId } },
+    });
+
+    if (!attachment) {
+      res.status(404).json({ error: 'Attachment not found.' });
+      return;
+    }
+
+    const [, updated] = await prisma.$transaction([
+      prisma.attachment.delete({ where: { id: attachmentId } }),
+      prisma.entry.findUniqueOrThrow({ where: { id }, include: ENTRY_INCLUDE }),
+    ]);
+
+    await removeAttachmentFiles([attachment]);
+    publish(res, { type: 'entries', entries: [updated] });
+    res.json(updated);
+  } catch (error) {
+    if ((error as { code?: string }).code === 'P2025') {
+      res.status(404).json({ error: 'Attachment not found.' });
+      return;
+    }
+
+    res.status(500).json({ error: 'Unable to remove the attachment.' });
+  }
+});
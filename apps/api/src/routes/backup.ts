@@ -0,0 +1,462 @@
+import express from 'express';
+import { Prisma } from '@prisma/client';
+import type { Reflection } from '@prisma/client';
+import { exportQuerySchema, importQuerySchema, validate } from '@gomun/contract';
+import { CLEARED_REQUEST } from '../approval';
+import { BACKUP_FORMAT, BACKUP_VERSION, parseBackup } from '../backup';
+import type { BackupReflection } from '../backup';
+import { prisma } from '../db';
+import { recordEvents } from '../events';
+import { currentSpaceId, currentUser, parseRequest } from '../http';
+import { isUsedUp } from '../redemptions';
+import { findSpaceWithMembers } from '../spaces';
+import { removeAttachmentFiles } from '../storage';
+import { publish } from '../sync';
+import { collectConditionReferences, remapConditionReferences } from '../unlock';
+
+// Backups of a space as JSON, or CSV for spreadsheets, and restoring a JSON backup by merging or replacing.
+
+const MAX_BACKUP_SIZE = '10mb';
+const MAX_BACKUP_PROBLEMS = 20;
+
+export const backupRouter = express.Router();
+
+function csvCell(value: unknown) {
+  if (value === null || value === undefined) return '';
+  let text =
+    value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Spreadsheet apps run cells that start with these characters as formulas.
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: unknown[][]) {
+  return `${rows.map((row) => row.map(csvCell).join(',')).join('\r\n')}\r\n`;
+}
+
+backupRouter.get('/api/export', async (req, res) => {
+  const query = parseRequest(res, validate(exportQuerySchema, req.query));
+  const spaceId = currentSpaceId(res);
+
+  if (!query) return;
+
+  const { format } = query;
+
+  try {
+    const [space, entries, coupons, tags] = await Promise.all([
+      findSpaceWithMembers(prisma, spaceId),
+      prisma.entry.findMany({
+        where: { spaceId },
+        orderBy: { createdAt: 'asc' },
+        include: {
+          steps: { orderBy: { position: 'asc' } },
+          occurrences: { orderBy: { completedAt: 'asc' }, include: { reflection: true } },
+          tags: { orderBy: { name: 'asc' } },
+          reflection: true,
+          attachments: { orderBy: { createdAt: 'asc' } },
+        },
+      }),
+      prisma.coupon.findMany({
+        where: { spaceId },
+        orderBy: { createdAt: 'asc' },
+        include: { redemptions: { orderBy: { redeemedAt: 'asc' } } },
+      }),
+      prisma.tag.findMany({ where: { spaceId }, orderBy: { name: 'asc' } }),
+    ]);
+
+    // People are written as e-mail addresses: ids mean nothing in another database.
+    const emails = new Map(space.members.map((member) => [member.userId, member.user.email]));
+    const email = (userId?: string | null) => (userId ? emails.get(userId) ?? null : null);
+    const toBackupReflection = (reflection: Reflection | null) =>
+      reflection && {
+        completedOn: reflection.completedOn,
+        note: reflection.note,
+        rating: reflection.rating,
+        companions: reflection.companions,
+        author: email(reflection.authorId),
+      };
+    const stamp = new Date().toISOString().slice(0, 10);
+
+    if (format === 'csv') {
+      // One sheet for both kinds; columns that do not apply to a row stay empty.
+      const rows: unknown[][] = [
+        [
+          'kind',
+          'id',
+          'title',
+          'details',
+          'date',
+          'done',
+          'completedAt',
+          'completedBy',
+          'recurrence',
+          'tags',
+          'unlockCondition',
+          'unlocked',
+          'redeemed',
+          'redeemedAt',
+          'redeemedBy',
+          'expiresAt',
+          'maxRedemptions',
+          'redemptionCount',
+          'recipient',
+          'requestStatus',
+          'scheduledFor',
+          'needsReview',
+          'attachments',
+          'createdBy',
+          'createdAt',
+        ],
+        ...entries.map((entry) => [
+          'entry',
+          entry.id,
+          entry.title,
+          entry.note,
+          entry.date,
+          entry.done,
+          entry.completedAt,
+          email(entry.completedById),
+          entry.recurrence,
+          entry.tags.map((tag) => tag.name).join('; '),
+          null,
+          null,
+          null,
+          null,
+          null,
+          null,
+          null,
+          null,
+          null,
+          null,
+          null,
+          null,
+          entry.attachments.map((attachment) => attachment.fileName).join('; '),
+          email(entry.userId),
+          entry.createdAt,
+        ]),
+        ...coupons.map((coupon) => [
+          'coupon',
+          coupon.id,
+          coupon.title,
+          coupon.description,
+          null,
+          null,
+          null,
+          null,
+          null,
+          null,
+          coupon.unlockCondition,
+          coupon.unlocked,
+          coupon.redeemed,
+          coupon.redeemedAt,
+          email(coupon.redeemedById),
+          coupon.expiresAt,
+          coupon.maxRedemptions,
+          coupon.redemptionCount,
+          email(coupon.recipientId),
+          coupon.requestStatus,
+          coupon.scheduledFor,
+          coupon.needsReview,
+          null,
+          email(coupon.userId),
+          coupon.createdAt,
+        ]),
+      ];
+
+      res.setHeader('Content-Disposition', `attachment; filename="gomun-backup-${stamp}.csv"`);
+      res.type('text/csv; charset=utf-8').send(toCsv(rows));
+      return;
+    }
+
+    res.setHeader('Content-Disposition', `attachment; filename="gomun-backup-${stamp}.json"`);
+    res.json({
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      space: { name: space.name },
+      tags: tags.map((tag) => ({ id: tag.id, name: tag.name })),
+      entries: entries.map((entry) => ({
+        id: entry.id,
+        title: entry.title,
+        note: entry.note,
+        date: entry.date,
+        done: entry.done,
+        completedAt: entry.completedAt,
+        completedBy: email(entry.completedById),
+        createdBy: email(entry.userId),
+        recurrence: entry.recurrence,
+        autoComplete: entry.autoComplete,
+        reminderOffsets: entry.reminderOffsets,
+        createdAt: entry.createdAt,
+        tags: entry.tags.map((tag) => tag.id),
+        steps: entry.steps.map((step) => ({ title: step.title, done: step.done, completedAt: step.completedAt })),
+        occurrences: entry.occurrences.map((occurrence) => ({
+          date: occurrence.date,
+          completedAt: occurrence.completedAt,
+          completedBy: email(occurrence.completedById),
+          reflection: toBackupReflection(occurrence.reflection),
+        })),
+        reflection: toBackupReflection(entry.reflection),
+        attachments: entry.attachments.map((attachment) => ({
+          fileName: attachment.fileName,
+          contentType: attachment.contentType,
+          size: attachment.size,
+          createdAt: attachment.createdAt,
+        })),
+      })),
+      coupons: coupons.map((coupon) => ({
+        id: coupon.id,
+        title: coupon.title,
+        description: coupon.description,
+        createdAt: coupon.createdAt,
+        createdBy: email(coupon.userId),
+        unlockCondition: coupon.unlockCondition,
+        relockPolicy: coupon.relockPolicy,
+        unlocked: coupon.unlocked,
+        redeemed: coupon.redeemed,
+        redeemedAt: coupon.redeemedAt,
+        redeemedBy: email(coupon.redeemedById),
+        expiresAt: coupon.expiresAt,
+        maxRedemptions: coupon.maxRedemptions,
+        recipient: email(coupon.recipientId),
+        redemptions: coupon.redemptions.map((redemption) => ({
+          redeemedAt: redemption.redeemedAt,
+          redeemedBy: email(redemption.redeemedById),
+        })),
+        requestStatus: coupon.requestStatus,
+        requestedAt: coupon.requestedAt,
+        respondedAt: coupon.respondedAt,
+        scheduledFor: coupon.scheduledFor,
+        needsReview: coupon.needsReview,
+        reviewReason: coupon.reviewReason,
+      })),
+    });
+  } catch {
+    res.status(500).json({ error: 'Unable to export.' });
+  }
+});
+
+backupRouter.post('/api/import', express.json({ limit: MAX_BACKUP_SIZE }), async (req, res) => {
+  const query = parseRequest(res, validate(importQuerySchema, req.query));
+  const spaceId = currentSpaceId(res);
+  const user = currentUser(res);
+
+  if (!query) return;
+
+  const { mode, discardAttachments } = query;
+
+  const backup = parseBackup(req.body);
+
+  try {
+    const [space, existingEntries, existingCoupons, existingTags, attachmentCount] = await Promise.all([
+      findSpaceWithMembers(prisma, spaceId),
+      prisma.entry.findMany({ where: { spaceId }, select: { id: true } }),
+      prisma.coupon.findMany({ where: { spaceId }, select: { id: true } }),
+      prisma.tag.findMany({ where: { spaceId }, select: { id: true } }),
+      prisma.attachment.count({ where: { entry: { spaceId } } }),
+    ]);
+
+    // In merge mode a rule may still point at a dream or tag that is only in the space, not in the file.
+    const knownDreams = new Set([
+      ...backup.entries.map((entry) => entry.id),
+      ...(mode === 'merge' ? existingEntries.map((entry) => entry.id) : []),
+    ]);
+    const knownTags = new Set([
+      ...backup.tags.map((tag) => tag.id),
+      ...(mode === 'merge' ? existingTags.map((tag) => tag.id) : []),
+    ]);
+
+    backup.coupons.forEach((coupon, index) => {
+      const references = coupon.unlockCondition
+        ? collectConditionReferences(coupon.unlockCondition)
+        : { dreams: [], tags: [] };
+
+      for (const dreamId of references.dreams) {
+        if (!knownDreams.has(dreamId)) {
+          backup.problems.push(`coupons[${index}].unlockCondition points at dream "${dreamId}", which does not exist.`);
+        }
+      }
+
+      for (const tagId of references.tags) {
+        if (!knownTags.has(tagId)) {
+          backup.problems.push(`coupons[${index}].unlockCondition points at tag "${tagId}", which does not exist.`);
+        }
+      }
+    });
+
+    if (backup.problems.length > 0) {
+      res.status(400).json({
+        error: 'The backup is not valid.',
+        details: backup.problems.slice(0, MAX_BACKUP_PROBLEMS),
+      });
+      return;
+    }
+
+    // Backups do not carry files, so a replace would erase every photo and file along with the dreams they are on.
+    if (mode === 'replace' && attachmentCount > 0 && !discardAttachments) {
+      res.status(409).json({
+        error:
+          `Replacing would erase ${attachmentCount} attachment${attachmentCount === 1 ? '' : 's'}: backups do not ` +
+          'hold photos or files. Merge instead, or confirm that they may go.',
+      });
+      return;
+    }
+
+    const members = new Map(space.members.map((member) => [member.user.email.toLowerCase(), member.userId]));
+    const member = (email: string | null) => (email ? members.get(email.toLowerCase()) ?? null : null);
+    const toReflectionData = ({ author, ...reflection }: BackupReflection) => ({
+      ...reflection,
+      authorId: member(author),
+    });
+    const entriesInSpace = new Set(mode === 'merge' ? existingEntries.map((entry) => entry.id) : []);
+    const couponsInSpace = new Set(mode === 'merge' ? existingCoupons.map((coupon) => coupon.id) : []);
+    // Only reached once the caller agreed to lose them; their stored files go after the import commits.
+    let removedAttachments: { id: string; hasThumbnail: boolean }[] = [];
+
+    const summary = await prisma.$transaction(
+      async (tx) => {
+        if (mode === 'replace') {
+          removedAttachments = await tx.attachment.findMany({
+            where: { entry: { spaceId } },
+            select: { id: true, hasThumbnail: true },
+          });
+          await tx.coupon.deleteMany({ where: { spaceId } });
+          await tx.entry.deleteMany({ where: { spaceId } });
+          await tx.tag.deleteMany({ where: { spaceId } });
+        }
+
+        // Tags are matched by name, so a merge reuses the space's own tag instead of adding a twin.
+        const tagIds = new Map<string, string>();
+        for (const tag of backup.tags) {
+          const saved = await tx.tag.upsert({
+            where: { spaceId_name: { spaceId, name: tag.name } },
+            create: { spaceId, name: tag.name },
+            update: {},
+          });
+          tagIds.set(tag.id, saved.id);
+        }
+
+        const dreamIds = new Map<string, string>();
+        const counts = { entriesCreated: 0, entriesUpdated: 0, couponsCreated: 0, couponsUpdated: 0 };
+
+        for (const entry of backup.entries) {
+          const data = {
+            title: entry.title,
+            note: entry.note,
+            date: entry.date,
+            done: entry.done,
+            completedAt: entry.done ? entry.completedAt ?? new Date() : null,
+            completedById: entry.done ? member(entry.completedBy) : null,
+            recurrence: entry.recurrence,
+            autoComplete: entry.autoComplete,
+            reminderOffsets: entry.reminderOffsets,
+          };
+          const entryTagIds = entry.tags.map((tagId) => ({ id: tagIds.get(tagId) as string }));
+          const children = {
+            steps: { create: entry.steps },
+            occurrences: {
+              create: entry.occurrences.map((occurrence) => ({
+                date: occurrence.date,
+                completedAt: occurrence.completedAt,
+                completedById: member(occurrence.completedBy),
+                ...(occurrence.reflection ? { reflection: { create: toReflectionData(occurrence.reflection) } } : {}),
+              })),
+            },
+            ...(entry.reflection ? { reflection: { create: toReflectionData(entry.reflection) } } : {}),
+          };
+
+          // Ids from the file are only reused for rows this space already owns; everything else gets a fresh id.
+          if (entriesInSpace.has(entry.id)) {
+            await tx.step.deleteMany({ where: { entryId: entry.id } });
+            await tx.entryOccurrence.deleteMany({ where: { entryId: entry.id } });
+            await tx.reflection.deleteMany({ where: { entryId: entry.id } });
+            await tx.entry.update({
+              where: { id: entry.id },
+              data: { ...data, ...children, tags: { set: entryTagIds } },
+            });
+            dreamIds.set(entry.id, entry.id);
+            counts.entriesUpdated += 1;
+          } else {
+            const created = await tx.entry.create({
+              data: {
+                ...data,
+                ...children,
+                tags: { connect: entryTagIds },
+                spaceId,
+                userId: member(entry.createdBy) ?? user.id,
+                ...(entry.createdAt ? { createdAt: entry.createdAt } : {}),
+              },
+            });
+            dreamIds.set(entry.id, created.id);
+            counts.entriesCreated += 1;
+          }
+        }
+
+        for (const coupon of backup.coupons) {
+          const { redemptions, request } = coupon;
+          const latest = redemptions.length > 0 ? redemptions[redemptions.length - 1] : null;
+          const recipientId = member(coupon.recipient);
+          const data = {
+            title: coupon.title,
+            description: coupon.description,
+            unlockCondition: coupon.unlockCondition
+              ? (remapConditionReferences(coupon.unlockCondition, dreamIds, tagIds) as Prisma.InputJsonValue)
+              : Prisma.JsonNull,
+            relockPolicy: coupon.relockPolicy,
+            unlocked: coupon.unlocked,
+            expiresAt: coupon.expiresAt,
+            maxRedemptions: coupon.maxRedemptions,
+            redemptionCount: coupon.redemptions.length,
+            redeemed: isUsedUp(coupon.maxRedemptions, coupon.redemptions.length),
+            redeemedAt: latest?.redeemedAt ?? null,
+            redeemedById: latest ? member(latest.redeemedBy) : null,
+            needsReview: coupon.reviewReason !== null,
+            reviewReason: coupon.reviewReason,
+            recipientId,
+            // A request is the recipient's, so it is dropped when they are not in this space.
+            ...(request && recipientId
+              ? {
+                  requestStatus: request.status,
+                  requestedAt: request.requestedAt ?? new Date(),
+                  respondedAt: request.respondedAt,
+                  scheduledFor: request.scheduledFor,
+                }
+              : CLEARED_REQUEST),
+            redemptions: {
+              create: coupon.redemptions.map((redemption) => ({
+                redeemedAt: redemption.redeemedAt,
+                redeemedById: member(redemption.redeemedBy),
+              })),
+            },
+          };
+
+          if (couponsInSpace.has(coupon.id)) {
+            await tx.couponRedemption.deleteMany({ where: { couponId: coupon.id } });
+            await tx.coupon.update({ where: { id: coupon.id }, data });
+            counts.couponsUpdated += 1;
+          } else {
+            await tx.coupon.create({
+              data: {
+                ...data,
+                spaceId,
+                userId: member(coupon.createdBy) ?? user.id,
+                ...(coupon.createdAt ? { createdAt: coupon.createdAt } : {}),
+              },
+            });
+            counts.couponsCreated += 1;
+          }
+        }
+
+        await recordEvents(tx, spaceId, [{ type: 'backup.imported', actorId: user.id, payload: { mode, ...counts } }]);
+        return counts;
+      },
+      { timeout: 60_000 }
+    );
+
+    await removeAttachmentFiles(removedAttachments);
+    publish(res, { type: 'reload' });
+    res.json({ mode, ...summary });
+  } catch {
+    res.status(500).json({ error: 'Unable to import the backup.' });
+  }
+});
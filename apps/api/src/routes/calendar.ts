@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import express from 'express';
+import type { Prisma } from '@prisma/client';
+import { hashSessionToken } from '../auth';
+import { prisma } from '../db';
+import { ENTRY_INCLUDE } from '../entries';
+import type { EntryWithDetails } from '../entries';
+import { recordEvents } from '../events';
+import { currentSpaceId, currentUser, readQueryString } from '../http';
+import { buildCalendar, ICS_UID_SUFFIX, icsImportKey, parseIcsEvents } from '../ics';
+import { formatRecurrence, parseRecurrence } from '../recurrence';
+import { publish } from '../sync';
+
+// The calendar feed other apps subscribe to, the private link that opens it, and .ics files imported as dreams.
+
+const MAX_ICS_IMPORT_SIZE = '1mb';
+const MAX_ICS_IMPORT_EVENTS = 500;
+
+export const calendarRouter = express.Router();
+
+calendarRouter.get('/api/calendar.ics', async (req, res) => {
+  const token = readQueryString(req.query.token);
+
+  if (!token) {
+    res.status(401).json({ error: 'Calendar token is required.' });
+    return;
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { calendarTokenHash: hashSessionToken(token) },
+      include: { membership: { include: { space: true } } },
+    });
+
+    if (!user?.membership) {
+      res.status(401).json({ error: 'Calendar link is no longer valid.' });
+      return;
+    }
+
+    const entries = await prisma.entry.findMany({
+      where: { spaceId: user.membership.spaceId, date: { not: null } },
+      orderBy: { date: 'asc' },
+      include: { _count: { select: { occurrences: true } } },
+    });
+
+    res.setHeader('Content-Disposition', 'inline; filename="gomun.ics"');
+    res.type('text/calendar; charset=utf-8').send(buildCalendar(user.membership.space.name, entries));
+  } catch {
+    res.status(500).json({ error: 'Unable to build calendar.' });
+  }
+});
+
+calendarRouter.post('/api/calendar/token', async (_req, res) => {
+  const token = crypto.randomBytes(24).toString('base64url');
+
+  try {
+    await prisma.user.update({
+      where: { id: currentUser(res).id },
+      data: { calendarTokenHash: hashSessionToken(token) },
+    });
+
+    res.status(201).json({ token });
+  } catch {
+    res.status(500).json({ error: 'Unable to create calendar link.' });
+  }
+});
+
+calendarRouter.delete('/api/calendar/token', async (_req, res) => {
+  try {
+    await prisma.user.update({ where: { id: currentUser(res).id }, data: { calendarTokenHash: null } });
+    res.status(204).send();
+  } catch {
+    res.status(500).json({ error: 'Unable to revoke calendar link.' });
+  }
+});
+
+calendarRouter.post(
+  '/api/calendar/import',
+  express.text({ type: ['text/calendar', 'text/plain'], limit: MAX_ICS_IMPORT_SIZE }),
+  async (req, res) => {
+    if (typeof req.body !== 'string' || !/BEGIN:VCALENDAR/i.test(req.body)) {
+      res.status(400).json({ error: 'Upload an .ics file as text/calendar.' });
+      return;
+    }
+
+    const events = parseIcsEvents(req.body).filter(
+      (event) => event.summary?.trim() && event.start && event.status !== 'CANCELLED'
+    );
+
+    if (events.length > MAX_ICS_IMPORT_EVENTS) {
+      res.status(400).json({ error: `A calendar can import at most ${MAX_ICS_IMPORT_EVENTS} events at once.` });
+      return;
+    }
+
+    const spaceId = currentSpaceId(res);
+    const userId = currentUser(res).id;
+
+    try {
+      const existing = await prisma.entry.findMany({
+        where: { spaceId },
+        select: { id: true, title: true, date: true, icalUid: true },
+      });
+
+      // Events exported by this space's own feed carry the entry id in their UID.
+      const seenUids = new Set<string>();
+      const seenKeys = new Set<string>();
+      for (const entry of existing) {
+        seenUids.add(`${entry.id}${ICS_UID_SUFFIX}`);
+        if (entry.icalUid) seenUids.add(entry.icalUid);
+        if (entry.date) seenKeys.add(icsImportKey(entry.title, entry.date));
+      }
+
+      const toCreate: Prisma.EntryUncheckedCreateInput[] = [];
+      for (const event of events) {
+        // Our own feed ticks fulfilled dreams in the title; the tick is not part of the name.
+        const title = (event.summary as string).replace(/^✓\s*/, '').trim();
+        const date = event.start as Date;
+        const key = icsImportKey(title, date);
+
+        if (!title || (event.uid && seenUids.has(event.uid)) || seenKeys.has(key)) continue;
+
+        if (event.uid) seenUids.add(event.uid);
+        seenKeys.add(key);
+
+        const rule = parseRecurrence(event.rrule);
+        toCreate.push({
+          spaceId,
+          userId,
+          title,
+          note: event.description?.trim() || null,
+          date,
+          recurrence: rule ? formatRecurrence(rule) : null,
+          icalUid: event.uid || null,
+        });
+      }
+
+      const created = await prisma.$transaction(async (tx) => {
+        const rows: EntryWithDetails[] = [];
+        for (const data of toCreate) {
+          rows.push(await tx.entry.create({ data, include: ENTRY_INCLUDE }));
+        }
+
+        await recordEvents(
+          tx,
+          spaceId,
+          rows.map((entry) => ({
+            type: 'entry.created',
+            actorId: userId,
+            payload: { entryId: entry.id, title: entry.title, source: 'ics' },
+          }))
+        );
+        return rows;
+      });
+
+      publish(res, { type: 'entries', entries: created });
+      res.status(201).json({ created, skipped: events.length - created.length });
+    } catch {
+      res.status(500).json({ error: 'Unable to import calendar.' });
+    }
+  }
+);
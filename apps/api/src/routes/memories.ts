@@ -0,0 +1,75 @@
+import express from 'express';
+import type { Prisma, Reflection } from '@prisma/client';
+import { memoryBookQuerySchema, validate } from '@gomun/contract';
+import { prisma } from '../db';
+import { currentSpaceId, parseRequest } from '../http';
+
+// The memory book: every time a dream came true, with its reflection, tags and attachments, in the order it happened.
+
+const MEMORY_ENTRY_INCLUDE = {
+  tags: { select: { id: true, name: true }, orderBy: { name: 'asc' } },
+  attachments: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.EntryInclude;
+
+export const memoriesRouter = express.Router();
+
+export function toMemory(
+  id: string,
+  entry: Prisma.EntryGetPayload<{ include: typeof MEMORY_ENTRY_INCLUDE }>,
+  completion: { completedAt: Date; completedById: string | null; reflection: Reflection | null }
+) {
+  return {
+    id,
+    entryId: entry.id,
+    title: entry.title,
+    completedAt: completion.completedAt,
+    completedById: completion.completedById,
+    reflection: completion.reflection,
+    tags: entry.tags,
+    attachments: entry.attachments,
+  };
+}
+
+/** A memory belongs to the day it happened, which the reflection may set apart from the day it was ticked off. */
+function memoryDate(memory: ReturnType<typeof toMemory>) {
+  return memory.reflection?.completedOn ?? memory.completedAt;
+}
+
+memoriesRouter.get('/api/memories', async (req, res) => {
+  const query = parseRequest(res, validate(memoryBookQuerySchema, req.query));
+  const spaceId = currentSpaceId(res);
+
+  if (!query) return;
+
+  try {
+    const [entries, occurrences] = await Promise.all([
+      prisma.entry.findMany({
+        where: { spaceId, done: true, completedAt: { not: null } },
+        include: { ...MEMORY_ENTRY_INCLUDE, reflection: true },
+      }),
+      prisma.entryOccurrence.findMany({
+        where: { entry: { spaceId } },
+        include: { reflection: true, entry: { include: MEMORY_ENTRY_INCLUDE } },
+      }),
+    ]);
+
+    // The last completion of a recurring dream also marks the dream done, at the same moment; its occurrence
+    // already tells that story.
+    const occurrenceKeys = new Set(occurrences.map((item) => `${item.entryId}:${item.completedAt.getTime()}`));
+    const all = [
+      ...occurrences.map((occurrence) => toMemory(occurrence.id, occurrence.entry, occurrence)),
+      ...entries
+        .filter((entry) => !occurrenceKeys.has(`${entry.id}:${entry.completedAt?.getTime()}`))
+        .map((entry) => toMemory(entry.id, entry, { ...entry, completedAt: entry.completedAt as Date })),
+    ];
+
+    const years = Array.from(new Set(all.map((memory) => memoryDate(memory).getUTCFullYear()))).sort((a, b) => b - a);
+    const memories = all
+      .filter((memory) => query.year === undefined || memoryDate(memory).getUTCFullYear() === query.year)
+      .sort((a, b) => memoryDate(a).getTime() - memoryDate(b).getTime());
+
+    res.json({ years, memories });
+  } catch {
+    res.status(500).json({ error: 'Unable to load the memory book.' });
+  }
+});
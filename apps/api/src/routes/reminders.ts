@@ -0,0 +1,90 @@
+import express from 'express';
+import {
+  fieldError,
+  pushSubscriptionBodySchema,
+  pushUnsubscribeBodySchema,
+  REMINDER_CHANNELS,
+  reminderSettingsBodySchema,
+  validate,
+} from '@gomun/contract';
+import type { ReminderChannel } from '@gomun/contract';
+import { prisma } from '../db';
+import { isReminderChannelAvailable, vapidPublicKey } from '../delivery';
+import { currentUser, parseRequest } from '../http';
+
+// Who gets reminders on which channel, and the browsers push reminders go to.
+
+const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = { email: 'Email', push: 'Push' };
+
+export const reminderRouter = express.Router();
+
+function toReminderSettings(user: { emailReminders: boolean; pushReminders: boolean }) {
+  return {
+    email: user.emailReminders,
+    push: user.pushReminders,
+    available: { email: isReminderChannelAvailable('email'), push: isReminderChannelAvailable('push') },
+    vapidPublicKey,
+  };
+}
+
+reminderRouter.get('/api/reminders/settings', async (_req, res) => {
+  try {
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: currentUser(res).id } });
+    res.json(toReminderSettings(user));
+  } catch {
+    res.status(500).json({ error: 'Unable to load reminder settings.' });
+  }
+});
+
+reminderRouter.put('/api/reminders/settings', async (req, res) => {
+  const body = parseRequest(res, validate(reminderSettingsBodySchema, req.body ?? {}));
+  if (!body) return;
+
+  const unavailable = REMINDER_CHANNELS.find((channel) => body[channel] && !isReminderChannelAvailable(channel));
+  if (unavailable) {
+    const message = `${REMINDER_CHANNEL_LABELS[unavailable]} reminders are not set up on this server.`;
+    res.status(400).json(fieldError(unavailable, message));
+    return;
+  }
+
+  try {
+    const user = await prisma.user.update({
+      where: { id: currentUser(res).id },
+      data: { emailReminders: body.email, pushReminders: body.push },
+    });
+    res.json(toReminderSettings(user));
+  } catch {
+    res.status(500).json({ error: 'Unable to save reminder settings.' });
+  }
+});
+
+reminderRouter.post('/api/reminders/push-subscriptions', async (req, res) => {
+  const body = parseRequest(res, validate(pushSubscriptionBodySchema, req.body ?? {}));
+  if (!body) return;
+
+  const data = { userId: currentUser(res).id, p256dh: body.keys.p256dh, auth: body.keys.auth };
+
+  try {
+    // A browser keeps its endpoint when someone else signs in on it, so the subscription follows the latest user.
+    await prisma.pushSubscription.upsert({
+      where: { endpoint: body.endpoint },
+      create: { endpoint: body.endpoint, ...data },
+      update: data,
+    });
+    res.status(204).send();
+  } catch {
+    res.status(500).json({ error: 'Unable to save the push subscription.' });
+  }
+});
+
+reminderRouter.delete('/api/reminders/push-subscriptions', async (req, res) => {
+  const body = parseRequest(res, validate(pushUnsubscribeBodySchema, req.body ?? {}));
+  if (!body) return;
+
+  try {
+    await prisma.pushSubscription.deleteMany({ where: { endpoint: body.endpoint, userId: currentUser(res).id } });
+    res.status(204).send();
+  } catch {
+    res.status(500).json({ error: 'Unable to remove the push subscription.' });
+  }
+});
@@ -0,0 +1,87 @@
+import express from 'express';
+import { Prisma } from '@prisma/client';
+import { searchQuerySchema, validate } from '@gomun/contract';
+import type { SearchResult } from '@gomun/contract';
+import { prisma } from '../db';
+import { currentSpaceId, parseRequest } from '../http';
+import { buildPrefixTsQuery } from '../search';
+import { entryTaggedSql } from '../sql';
+
+// Full-text search over the space's dreams and coupons, ranked, with the matches marked.
+
+// Private-use characters mark highlights so clients can render them without trusting HTML.
+const HIGHLIGHT_START = '\uE000';
+const HIGHLIGHT_STOP = '\uE001';
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=24, MinWords=8, MaxFragments=2`;
+const TITLE_HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`;
+
+export const searchRouter = express.Router();
+
+searchRouter.get('/api/search', async (req, res) => {
+  const query = parseRequest(res, validate(searchQuerySchema, req.query));
+  if (!query) return;
+
+  const { q, tag: tagId, limit } = query;
+
+  const tsQuery = buildPrefixTsQuery(q);
+  if (!tsQuery) {
+    res.json({ query: q, results: [] });
+    return;
+  }
+
+  const spaceId = currentSpaceId(res);
+  // Coupons carry no tags, so narrowing by tag leaves only dreams.
+  const entryTagFilter = tagId ? Prisma.sql`AND ${entryTaggedSql(Prisma.sql`e."id"`, tagId)}` : Prisma.empty;
+  const couponTagFilter = tagId ? Prisma.sql`AND FALSE` : Prisma.empty;
+
+  try {
+    const results = await prisma.$queryRaw<SearchResult[]>`
+      WITH query AS (SELECT to_tsquery('simple', ${tsQuery}) AS q)
+      SELECT * FROM (
+        SELECT
+          'entry' AS "kind",
+          e."id",
+          e."title",
+          ts_headline('simple', e."title", query.q, ${TITLE_HEADLINE_OPTIONS}) AS "titleHighlight",
+          ts_headline('simple', coalesce(e."note", ''), query.q, ${HEADLINE_OPTIONS}) AS "snippet",
+          ts_rank(
+            setweight(to_tsvector('simple', e."title"), 'A') ||
+              setweight(to_tsvector('simple', coalesce(e."note", '')), 'B'),
+            query.q
+          )::float8 AS "rank"
+        FROM "Entry" e, query
+        WHERE e."spaceId" = ${spaceId}
+          ${entryTagFilter}
+          AND (
+            setweight(to_tsvector('simple', e."title"), 'A') ||
+              setweight(to_tsvector('simple', coalesce(e."note", '')), 'B')
+          ) @@ query.q
+        UNION ALL
+        SELECT
+          'coupon' AS "kind",
+          c."id",
+          c."title",
+          ts_headline('simple', c."title", query.q, ${TITLE_HEADLINE_OPTIONS}) AS "titleHighlight",
+          ts_headline('simple', coalesce(c."description", ''), query.q, ${HEADLINE_OPTIONS}) AS "snippet",
+          ts_rank(
+            setweight(to_tsvector('simple', c."title"), 'A') ||
+              setweight(to_tsvector('simple', coalesce(c."description", '')), 'B'),
+            query.q
+          )::float8 AS "rank"
+        FROM "Coupon" c, query
+        WHERE c."spaceId" = ${spaceId}
+          ${couponTagFilter}
+          AND (
+            setweight(to_tsvector('simple', c."title"), 'A') ||
+              setweight(to_tsvector('simple', coalesce(c."description", '')), 'B')
+          ) @@ query.q
+      ) AS hits
+      ORDER BY "rank" DESC, "title" ASC
+      LIMIT ${limit}
+    `;
+
+    res.json({ query: q, results });
+  } catch {
+    res.status(500).json({ error: 'Unable to search.' });
+  }
+});
@@ -0,0 +1,99 @@
+import express from 'express';
+import { Prisma } from '@prisma/client';
+import type { LetterStats, MemberCompletions, MonthlyCompletions, Stats as StatsResponse } from '@gomun/contract';
+import { prisma } from '../db';
+import { currentSpaceId } from '../http';
+import { LETTER_KEY_SQL } from '../sql';
+
+// The dashboard's numbers, counted in SQL so a long history never has to be loaded to add it up.
+
+export const statsRouter = express.Router();
+
+/**
+ * Every time a dream in the space came true, counted the way the memory book lists them: each occurrence of a
+ * recurring dream, and each done dream whose completion is not already one of its occurrences.
+ */
+function completionsSql(spaceId: string) {
+  return Prisma.sql`
+    SELECT o."completedAt", o."completedById"
+    FROM "EntryOccurrence" o
+    JOIN "Entry" e ON e."id" = o."entryId"
+    WHERE e."spaceId" = ${spaceId}
+    UNION ALL
+    SELECT e."completedAt", e."completedById"
+    FROM "Entry" e
+    WHERE e."spaceId" = ${spaceId}
+      AND e."done"
+      AND e."completedAt" IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM "EntryOccurrence" o WHERE o."entryId" = e."id" AND o."completedAt" = e."completedAt"
+      )
+  `;
+}
+
+statsRouter.get('/api/stats', async (_req, res) => {
+  const spaceId = currentSpaceId(res);
+
+  try {
+    const [[entries], completionsByMonth, completionsByMember, letters, [coupons]] = await Promise.all([
+      prisma.$queryRaw<(StatsResponse['entries'] & Pick<StatsResponse, 'averageDaysToComplete'>)[]>`
+        SELECT
+          count(*) FILTER (WHERE NOT "done")::int AS "open",
+          count(*) FILTER (WHERE "done")::int AS "done",
+          (avg(extract(epoch FROM "completedAt" - "createdAt"))
+            FILTER (WHERE "done" AND "recurrence" IS NULL AND "completedAt" IS NOT NULL) / 86400
+          )::float8 AS "averageDaysToComplete"
+        FROM "Entry"
+        WHERE "spaceId" = ${spaceId}
+      `,
+      prisma.$queryRaw<MonthlyCompletions[]>`
+        SELECT to_char("completedAt", 'YYYY-MM') AS "month", count(*)::int AS "count"
+        FROM (${completionsSql(spaceId)}) completions
+        GROUP BY 1
+        ORDER BY 1
+      `,
+      prisma.$queryRaw<MemberCompletions[]>`
+        SELECT "completedById" AS "userId", count(*)::int AS "count"
+        FROM (${completionsSql(spaceId)}) completions
+        GROUP BY 1
+        ORDER BY 2 DESC
+      `,
+      prisma.$queryRaw<LetterStats[]>`
+        SELECT
+          ${LETTER_KEY_SQL} AS "letter",
+          count(*) FILTER (WHERE NOT "done")::int AS "open",
+          count(*) FILTER (WHERE "done")::int AS "done"
+        FROM "Entry"
+        WHERE "spaceId" = ${spaceId}
+        GROUP BY 1
+        ORDER BY 1
+      `,
+      // A coupon is only ever used once it is unlocked, so the redeem rate is a share of the unlocked ones.
+      prisma.$queryRaw<StatsResponse['coupons'][]>`
+        SELECT
+          count(*)::int AS "total",
+          count(*) FILTER (WHERE "unlocked")::int AS "unlocked",
+          count(*) FILTER (WHERE "redemptionCount" > 0)::int AS "redeemed",
+          count(*) FILTER (WHERE "unlocked")::float8 / nullif(count(*), 0) AS "unlockRate",
+          count(*) FILTER (WHERE "redemptionCount" > 0)::float8
+            / nullif(count(*) FILTER (WHERE "unlocked"), 0) AS "redeemRate"
+        FROM "Coupon"
+        WHERE "spaceId" = ${spaceId}
+      `,
+    ]);
+
+    const { averageDaysToComplete, ...counts } = entries;
+    const stats: StatsResponse = {
+      entries: counts,
+      completionsByMonth,
+      completionsByMember,
+      letters,
+      averageDaysToComplete,
+      coupons,
+    };
+
+    res.json(stats);
+  } catch {
+    res.status(500).json({ error: 'Unable to load the statistics.' });
+  }
+});
@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildPrefixTsQuery } from './search';
+
+describe('buildPrefixTsQuery', () => {
+  it('matches every word as a prefix', () => {
+    assert.equal(buildPrefixTsQuery('  Paris   Trip '), 'paris:* & trip:*');
+  });
+
+  it('splits words where the tsvector splits them', () => {
+    assert.equal(buildPrefixTsQuery("don't"), 'don:* & t:*');
+    assert.equal(buildPrefixTsQuery('road-trip_2026'), 'road:* & trip:* & 2026:*');
+  });
+
+  it('keeps letters outside the Latin alphabet', () => {
+    assert.equal(buildPrefixTsQuery('Crème brûlée 東京'), 'crème:* & brûlée:* & 東京:*');
+  });
+
+  it('leaves out tsquery syntax', () => {
+    assert.equal(buildPrefixTsQuery("a & !b | (c:*) <-> 'd'"), 'a:* & b:* & c:* & d:*');
+    assert.equal(buildPrefixTsQuery('&|!:*'), '');
+  });
+
+  it('stops after ten words', () => {
+    const words = 'one two three four five six seven eight nine ten eleven';
+    assert.equal(buildPrefixTsQuery(words).split(' & ').length, 10);
+  });
+});
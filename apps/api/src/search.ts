@@ -0,0 +1,18 @@
+// Turning what someone typed into the search box into a Postgres tsquery.
+
+const MAX_SEARCH_TERMS = 10;
+
+/**
+ * Every word becomes a prefix match, and all of them have to match. Words are split wherever the 'simple'
+ * parser splits them when it builds the tsvector, so "don't" looks for "don" and "t", like the text it searches.
+ * Returns an empty string when nothing searchable is left.
+ */
+export function buildPrefixTsQuery(raw: string) {
+  const terms = raw
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, MAX_SEARCH_TERMS);
+
+  return terms.map((term) => `${term}:*`).join(' & ');
+}
@@ -0,0 +1,14 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+// A space read with the people in it, oldest member first.
+
+export type SpaceWithMembers = Prisma.SpaceGetPayload<{
+  include: { members: { include: { user: true } } };
+}>;
+
+export function findSpaceWithMembers(db: Prisma.TransactionClient | PrismaClient, spaceId: string) {
+  return db.space.findUniqueOrThrow({
+    where: { id: spaceId },
+    include: { members: { include: { user: true }, orderBy: { joinedAt: 'asc' } } },
+  });
+}
@@ -0,0 +1,29 @@
+import { Prisma } from '@prisma/client';
+import type { EntryFiltersQuery } from '@gomun/contract';
+
+// Raw SQL pieces for the queries Prisma cannot build itself: the agenda's filters and its letter buckets.
+
+// The web app's letterKey in SQL: a title's Latin initial, or # for anything else. Titles are stored trimmed.
+export const LETTER_KEY_SQL = Prisma.sql`
+  CASE WHEN upper(left("title", 1)) ~ '^[A-Z]$' THEN upper(left("title", 1)) ELSE '#' END
+`;
+
+/** Prisma keeps the implicit Entry–Tag link in "_EntryToTag", with the entry in "A" and the tag in "B". */
+export function entryTaggedSql(entryId: Prisma.Sql, tagId: string) {
+  return Prisma.sql`EXISTS (SELECT 1 FROM "_EntryToTag" et WHERE et."A" = ${entryId} AND et."B" = ${tagId})`;
+}
+
+export function entryFiltersToSql(spaceId: string, filters: EntryFiltersQuery) {
+  const conditions = [Prisma.sql`"spaceId" = ${spaceId}`];
+
+  if (filters.done !== undefined) conditions.push(Prisma.sql`"done" = ${filters.done}`);
+  if (filters.userId) conditions.push(Prisma.sql`"userId" = ${filters.userId}`);
+  if (filters.tag) conditions.push(entryTaggedSql(Prisma.sql`"Entry"."id"`, filters.tag));
+  if (filters.from) conditions.push(Prisma.sql`"date" >= ${filters.from}`);
+  if (filters.to) conditions.push(Prisma.sql`"date" <= ${filters.to}`);
+  if (filters.dated !== undefined) {
+    conditions.push(filters.dated ? Prisma.sql`"date" IS NOT NULL` : Prisma.sql`"date" IS NULL`);
+  }
+
+  return Prisma.join(conditions, ' AND ');
+}
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { autoCompletedState, listsEveryStep } from './steps';
+
+describe('listsEveryStep', () => {
+  const known = ['step-a', 'step-b', 'step-c'];
+
+  it('accepts every step in any order', () => {
+    assert.equal(listsEveryStep(known, ['step-c', 'step-a', 'step-b']), true);
+    assert.equal(listsEveryStep([], []), true);
+  });
+
+  it('rejects missing, repeated and unknown steps', () => {
+    assert.equal(listsEveryStep(known, ['step-a', 'step-b']), false);
+    assert.equal(listsEveryStep(known, ['step-a', 'step-b', 'step-b']), false);
+    assert.equal(listsEveryStep(known, ['step-a', 'step-b', 'step-c', 'step-a']), false);
+    assert.equal(listsEveryStep(known, ['step-a', 'step-b', 'step-d']), false);
+  });
+});
+
+describe('autoCompletedState', () => {
+  const ticked = { done: true };
+  const open = { done: false };
+
+  it('completes the dream once every step is ticked', () => {
+    assert.equal(autoCompletedState({ autoComplete: true, done: false }, [ticked, ticked]), true);
+  });
+
+  it('reopens the dream when a step is unticked or added', () => {
+    assert.equal(autoCompletedState({ autoComplete: true, done: true }, [ticked, open]), false);
+  });
+
+  it('leaves a dream that already matches its steps alone', () => {
+    assert.equal(autoCompletedState({ autoComplete: true, done: true }, [ticked]), null);
+    assert.equal(autoCompletedState({ autoComplete: true, done: false }, [open]), null);
+  });
+
+  it('leaves dreams without the flag or without steps alone', () => {
+    assert.equal(autoCompletedState({ autoComplete: false, done: false }, [ticked]), null);
+    assert.equal(autoCompletedState({ autoComplete: true, done: true }, []), null);
+  });
+});
@@ -0,0 +1,21 @@
+// Checklist rules for a dream's steps: what a new order must list, and when the dream follows its steps.
+
+/** A new order has to name every step of the dream exactly once. */
+export function listsEveryStep(knownIds: string[], stepIds: string[]) {
+  const known = new Set(knownIds);
+  return (
+    stepIds.length === known.size &&
+    new Set(stepIds).size === known.size &&
+    stepIds.every((stepId) => known.has(stepId))
+  );
+}
+
+/** The done state an auto-completing dream should move to, or null when it stays as it is. */
+export function autoCompletedState(entry: { autoComplete: boolean; done: boolean }, steps: { done: boolean }[]) {
+  if (!entry.autoComplete || steps.length === 0) {
+    return null;
+  }
+
+  const allStepsDone = steps.every((step) => step.done);
+  return allStepsDone === entry.done ? null : allStepsDone;
+}
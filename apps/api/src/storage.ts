@@ -0,0 +1,86 @@
+import fs from 'fs';
+import path from 'path';
+import type { Readable } from 'stream';
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+
+// Where attachment files are kept: a folder next to the API, or an S3-compatible bucket.
+
+/** Where attachment files are kept. Keys are made from attachment ids, so the database never stores a path. */
+export type AttachmentStorage = {
+  put: (key: string, body: Buffer, contentType: string) => Promise<void>;
+  /** Rejects when there is no file under the key. */
+  get: (key: string) => Promise<Readable>;
+  remove: (key: string) => Promise<void>;
+};
+
+function createLocalStorage(root: string): AttachmentStorage {
+  return {
+    async put(key, body) {
+      const file = path.join(root, key);
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(file, body);
+    },
+    async get(key) {
+      // Opened first so a missing file fails here rather than halfway through the response.
+      const handle = await fs.promises.open(path.join(root, key));
+      return handle.createReadStream();
+    },
+    async remove(key) {
+      await fs.promises.rm(path.join(root, key), { force: true });
+    },
+  };
+}
+
+function createS3Storage(): AttachmentStorage {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) throw new Error('S3_BUCKET is required when ATTACHMENT_STORAGE is s3.');
+
+  const client = new S3Client({
+    region: process.env.S3_REGION ?? 'us-east-1',
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    // MinIO and most self-hosted stores want the bucket in the path rather than the host name.
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    credentials: process.env.S3_ACCESS_KEY_ID
+      ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY ?? '' }
+      : undefined,
+  });
+
+  return {
+    async put(key, body, contentType) {
+      await client.send(new PutObjectCommand({ Bucket: bucket, Key: key, Body: body, ContentType: contentType }));
+    },
+    async get(key) {
+      const object = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+      return object.Body as Readable;
+    },
+    async remove(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+  };
+}
+
+// Files go to a folder next to the API unless an S3-compatible bucket, such as MinIO, is configured.
+export const attachmentStorage =
+  process.env.ATTACHMENT_STORAGE === 's3'
+    ? createS3Storage()
+    : createLocalStorage(process.env.ATTACHMENT_DIR ?? path.join(__dirname, '..', 'uploads'));
+
+export function attachmentKey(id: string) {
+  return `attachments/${id}`;
+}
+
+export function thumbnailKey(id: string) {
+  return `attachments/${id}.thumbnail.webp`;
+}
+
+/** Removing files is best effort: the rows are already gone, so a leftover file is only wasted space. */
+export async function removeAttachmentFiles(attachments: { id: string; hasThumbnail: boolean }[]) {
+  const keys = attachments.flatMap(({ id, hasThumbnail }) =>
+    hasThumbnail ? [attachmentKey(id), thumbnailKey(id)] : [attachmentKey(id)]
+  );
+  const results = await Promise.allSettled(keys.map((key) => attachmentStorage.remove(key)));
+
+  for (const result of results) {
+    if (result.status === 'rejected') console.error('Unable to remove an attachment file', result.reason);
+  }
+}
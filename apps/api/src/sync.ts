@@ -0,0 +1,56 @@
+import type { Response } from 'express';
+import type { Coupon, Step, Tag } from '@prisma/client';
+import type { EntryWithDetails } from './entries';
+import { currentSpaceId, readQueryString } from './http';
+
+// Live sync: changes are pushed to the other devices in a space over their open event streams.
+
+export type SyncClient = {
+  res: Response;
+  clientId: string | null;
+};
+
+/** Changes pushed to the other devices in a space; each one mirrors the response its own request got. */
+export type SyncMessage =
+  | { type: 'entries'; entries: EntryWithDetails[] }
+  | { type: 'entryDeleted'; id: string }
+  | { type: 'steps'; entryId: string; steps: Step[] }
+  | { type: 'coupons'; coupons: Coupon[]; unlockedIds: string[] }
+  | { type: 'tags'; tags: Tag[] }
+  | { type: 'tagDeleted'; id: string }
+  | { type: 'reload' };
+
+// Open event streams per space. They live in this process, so several instances would need a shared bus.
+export const syncClients = new Map<string, Set<SyncClient>>();
+
+/** Sends a change to every stream in the space except the tab that made it, which already has the response. */
+export function broadcast(spaceId: string, message: SyncMessage, originClientId: string | null = null) {
+  const frame = `event: sync\ndata: ${JSON.stringify(message)}\n\n`;
+
+  for (const client of syncClients.get(spaceId) ?? []) {
+    if (originClientId && client.clientId === originClientId) continue;
+    client.res.write(frame);
+  }
+}
+
+export function publish(res: Response, message: SyncMessage) {
+  broadcast(currentSpaceId(res), message, readQueryString(res.req.get('X-Client-Id')) ?? null);
+}
+
+export function publishCoupons(res: Response, coupons: Coupon[], unlockedIds: string[] = []) {
+  if (coupons.length > 0) {
+    publish(res, { type: 'coupons', coupons, unlockedIds });
+  }
+}
+
+export function publishEntryResult(
+  res: Response,
+  result: { entry: EntryWithDetails; unlockedCoupons: Coupon[]; affectedCoupons: Coupon[] }
+) {
+  publish(res, { type: 'entries', entries: [result.entry] });
+  publishCoupons(
+    res,
+    [...result.unlockedCoupons, ...result.affectedCoupons],
+    result.unlockedCoupons.map((coupon) => coupon.id)
+  );
+}
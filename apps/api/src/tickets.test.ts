@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTicketStore } from './tickets';
+
+describe('createTicketStore', () => {
+  const issuedAt = Date.parse('2026-03-20T09:00:00Z');
+
+  it('hands back the holder of a fresh ticket', () => {
+    const tickets = createTicketStore<string>(30_000);
+    const ticket = tickets.issue('user-1', issuedAt);
+
+    assert.match(ticket, /^[0-9a-f]{64}$/);
+    assert.equal(tickets.redeem(ticket, issuedAt + 29_999), 'user-1');
+  });
+
+  it('accepts a ticket only once', () => {
+    const tickets = createTicketStore<string>(30_000);
+    const ticket = tickets.issue('user-1', issuedAt);
+
+    assert.equal(tickets.redeem(ticket, issuedAt), 'user-1');
+    assert.equal(tickets.redeem(ticket, issuedAt), null);
+  });
+
+  it('turns away expired, unknown and missing tickets', () => {
+    const tickets = createTicketStore<string>(30_000);
+    const ticket = tickets.issue('user-1', issuedAt);
+
+    assert.equal(tickets.redeem(ticket, issuedAt + 30_000), null);
+    assert.equal(tickets.redeem('0'.repeat(64), issuedAt), null);
+    assert.equal(tickets.redeem(undefined, issuedAt), null);
+  });
+
+  it('keeps tickets of different holders apart', () => {
+    const tickets = createTicketStore<string>(30_000);
+    const first = tickets.issue('user-1', issuedAt);
+    const second = tickets.issue('user-2', issuedAt);
+
+    assert.notEqual(first, second);
+    assert.equal(tickets.redeem(second, issuedAt), 'user-2');
+    assert.equal(tickets.redeem(first, issuedAt), 'user-1');
+  });
+
+  it('forgets expired tickets when issuing new ones', () => {
+    const tickets = createTicketStore<string>(30_000);
+    const stale = tickets.issue('user-1', issuedAt);
+    tickets.issue('user-2', issuedAt + 60_000);
+
+    assert.equal(tickets.redeem(stale, issuedAt), null);
+  });
+});
@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+
+// Short-lived, single-use tickets. The event stream is opened with one because EventSource cannot send headers,
+// and a ticket that works once, for a few seconds, is harmless in the URLs proxies and access logs keep.
+
+export type TicketStore<Holder> = {
+  issue(holder: Holder, now?: number): string;
+  /** Hands back who the ticket was issued to, once; null when it is unknown, used or expired. */
+  redeem(ticket: string | undefined, now?: number): Holder | null;
+};
+
+export function createTicketStore<Holder>(ttlMs: number): TicketStore<Holder> {
+  // Kept by hash, like session tokens, and only in this process.
+  const tickets = new Map<string, { holder: Holder; expiresAt: number }>();
+  const keyOf = (ticket: string) => crypto.createHash('sha256').update(ticket).digest('hex');
+
+  return {
+    issue(holder, now = Date.now()) {
+      for (const [key, issued] of tickets) {
+        if (issued.expiresAt <= now) tickets.delete(key);
+      }
+
+      const ticket = crypto.randomBytes(32).toString('hex');
+      tickets.set(keyOf(ticket), { holder, expiresAt: now + ttlMs });
+      return ticket;
+    },
+    redeem(ticket, now = Date.now()) {
+      if (!ticket) return null;
+
+      const key = keyOf(ticket);
+      const issued = tickets.get(key);
+      tickets.delete(key);
+      return issued && issued.expiresAt > now ? issued.holder : null;
+    },
+  };
+}
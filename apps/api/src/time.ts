@@ -0,0 +1,4 @@
+// Durations in milliseconds, shared by the date maths in the other modules.
+
+export const DAY_MS = 1000 * 60 * 60 * 24;
+export const MINUTE_MS = 1000 * 60;
@@ -0,0 +1,176 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { UnlockCondition } from '@gomun/contract';
+import {
+  collectConditionReferences,
+  conditionReferences,
+  longestCompletionStreak,
+  parseUnlockCondition,
+  remapConditionReferences,
+  shouldUnlockCoupon,
+} from './unlock';
+import type { UnlockContext } from './unlock';
+
+function context(overrides: Partial<UnlockContext> = {}): UnlockContext {
+  return {
+    completedDreamIds: new Set(['dream-a']),
+    completedDreamCount: 3,
+    completedTagCounts: new Map([['tag-trips', 2]]),
+    completionTimes: [],
+    now: new Date('2026-03-15T12:00:00Z'),
+    ...overrides,
+  };
+}
+
+const times = (...isoTimes: string[]) => isoTimes.map((time) => new Date(time));
+
+const doneDream: UnlockCondition = { type: 'dreamCompleted', value: 'dream-a' };
+const openDream: UnlockCondition = { type: 'dreamCompleted', value: 'dream-b' };
+
+describe('shouldUnlockCoupon', () => {
+  it('unlocks a coupon without a rule', () => {
+    assert.equal(shouldUnlockCoupon(null, context()), true);
+  });
+
+  it('checks single dreams, dream counts and tag counts', () => {
+    assert.equal(shouldUnlockCoupon(doneDream, context()), true);
+    assert.equal(shouldUnlockCoupon(openDream, context()), false);
+    assert.equal(shouldUnlockCoupon({ type: 'dreamCount', value: 3 }, context()), true);
+    assert.equal(shouldUnlockCoupon({ type: 'dreamCount', value: 4 }, context()), false);
+    assert.equal(shouldUnlockCoupon({ type: 'tagCount', value: 2, tagId: 'tag-trips' }, context()), true);
+    assert.equal(shouldUnlockCoupon({ type: 'tagCount', value: 1, tagId: 'tag-food' }, context()), false);
+  });
+
+  it('needs every branch of an all group', () => {
+    const enough: UnlockCondition = { type: 'dreamCount', value: 2 };
+    assert.equal(shouldUnlockCoupon({ type: 'all', conditions: [doneDream, enough] }, context()), true);
+    assert.equal(shouldUnlockCoupon({ type: 'all', conditions: [doneDream, openDream] }, context()), false);
+  });
+
+  it('needs one branch of an any group', () => {
+    assert.equal(shouldUnlockCoupon({ type: 'any', conditions: [openDream, doneDream] }, context()), true);
+    assert.equal(shouldUnlockCoupon({ type: 'any', conditions: [openDream] }, context()), false);
+  });
+
+  it('inverts a not rule', () => {
+    assert.equal(shouldUnlockCoupon({ type: 'not', condition: openDream }, context()), true);
+    assert.equal(shouldUnlockCoupon({ type: 'not', condition: doneDream }, context()), false);
+  });
+
+  it('evaluates nested groups', () => {
+    const condition: UnlockCondition = {
+      type: 'all',
+      conditions: [
+        { type: 'any', conditions: [openDream, { type: 'tagCount', value: 2, tagId: 'tag-trips' }] },
+        { type: 'not', condition: { type: 'dreamCount', value: 5 } },
+      ],
+    };
+
+    assert.equal(shouldUnlockCoupon(condition, context()), true);
+    assert.equal(shouldUnlockCoupon(condition, context({ completedDreamCount: 5 })), false);
+    assert.equal(shouldUnlockCoupon(condition, context({ completedTagCounts: new Map() })), false);
+  });
+
+  it('unlocks a date rule from midnight UTC of that day', () => {
+    const condition: UnlockCondition = { type: 'date', value: '2026-03-15' };
+    assert.equal(shouldUnlockCoupon(condition, context({ now: new Date('2026-03-14T23:59:59Z') })), false);
+    assert.equal(shouldUnlockCoupon(condition, context({ now: new Date('2026-03-15T00:00:00Z') })), true);
+  });
+
+  it('counts only completions inside the window', () => {
+    const condition: UnlockCondition = { type: 'dreamCountWithin', value: 2, days: 7 };
+    const completionTimes = times('2026-03-08T12:00:00Z', '2026-03-08T11:59:59Z', '2026-03-14T09:00:00Z');
+    assert.equal(shouldUnlockCoupon(condition, context({ completionTimes })), true);
+    assert.equal(shouldUnlockCoupon(condition, context({ completionTimes: completionTimes.slice(1) })), false);
+  });
+
+  it('compares a streak rule with the longest streak', () => {
+    const completionTimes = times('2026-03-01T10:00:00Z', '2026-03-02T10:00:00Z', '2026-03-03T10:00:00Z');
+    assert.equal(shouldUnlockCoupon({ type: 'streak', value: 3, period: 'day' }, context({ completionTimes })), true);
+    assert.equal(shouldUnlockCoupon({ type: 'streak', value: 4, period: 'day' }, context({ completionTimes })), false);
+  });
+});
+
+describe('longestCompletionStreak', () => {
+  it('is zero without completions', () => {
+    assert.equal(longestCompletionStreak([], 'day'), 0);
+  });
+
+  it('counts several completions on one day once', () => {
+    const completionTimes = times('2026-03-01T08:00:00Z', '2026-03-01T20:00:00Z', '2026-03-02T08:00:00Z');
+    assert.equal(longestCompletionStreak(completionTimes, 'day'), 2);
+  });
+
+  it('keeps the longest run when a gap breaks it', () => {
+    const completionTimes = times(
+      '2026-03-10T08:00:00Z',
+      '2026-03-01T08:00:00Z',
+      '2026-03-02T08:00:00Z',
+      '2026-03-03T08:00:00Z',
+      '2026-03-11T08:00:00Z'
+    );
+    assert.equal(longestCompletionStreak(completionTimes, 'day'), 3);
+  });
+
+  it('splits days at midnight UTC', () => {
+    assert.equal(longestCompletionStreak(times('2026-03-01T23:59:59Z', '2026-03-02T00:00:00Z'), 'day'), 2);
+  });
+
+  it('starts weeks on Monday', () => {
+    // 2026-03-15 is a Sunday, so the Monday before it is in the same week and the Monday after it is not.
+    assert.equal(longestCompletionStreak(times('2026-03-09T08:00:00Z', '2026-03-15T20:00:00Z'), 'week'), 1);
+    assert.equal(longestCompletionStreak(times('2026-03-15T20:00:00Z', '2026-03-16T08:00:00Z'), 'week'), 2);
+  });
+
+  it('runs months across a year boundary', () => {
+    const completionTimes = times('2025-11-20T08:00:00Z', '2025-12-31T08:00:00Z', '2026-01-01T08:00:00Z');
+    assert.equal(longestCompletionStreak(completionTimes, 'month'), 3);
+    assert.equal(longestCompletionStreak(times('2026-01-31T08:00:00Z', '2026-03-01T08:00:00Z'), 'month'), 1);
+  });
+});
+
+describe('parseUnlockCondition', () => {
+  it('keeps a stored composite rule', () => {
+    const condition = { type: 'any', conditions: [doneDream, { type: 'not', condition: openDream }] };
+    assert.deepEqual(parseUnlockCondition(condition), condition);
+  });
+
+  it('rejects unknown rule types and empty groups', () => {
+    assert.equal(parseUnlockCondition({ type: 'moonPhase', value: 'full' }), null);
+    assert.equal(parseUnlockCondition({ type: 'all', conditions: [] }), null);
+  });
+
+  it('rejects rules nested deeper than the limit', () => {
+    let condition: UnlockCondition = doneDream;
+    for (let depth = 0; depth < 5; depth += 1) {
+      condition = { type: 'not', condition };
+    }
+
+    assert.equal(parseUnlockCondition(condition), null);
+  });
+});
+
+describe('condition references', () => {
+  const tripsTag: UnlockCondition = { type: 'tagCount', value: 2, tagId: 'tag-trips' };
+  const nested: UnlockCondition = { type: 'all', conditions: [doneDream, { type: 'not', condition: tripsTag }] };
+
+  it('finds a removed dream or tag however deep the rule names it', () => {
+    assert.equal(conditionReferences(nested, { kind: 'tag', id: 'tag-trips' }), true);
+    assert.equal(conditionReferences(nested, { kind: 'dream', id: 'dream-a' }), true);
+    assert.equal(conditionReferences(nested, { kind: 'dream', id: 'tag-trips' }), false);
+  });
+
+  it('lists every dream and tag a rule names', () => {
+    assert.deepEqual(collectConditionReferences(nested), { dreams: ['dream-a'], tags: ['tag-trips'] });
+  });
+
+  it('points a rule at new ids and keeps the ones it was not given', () => {
+    const remapped = remapConditionReferences(
+      { type: 'any', conditions: [nested, openDream] },
+      new Map([['dream-a', 'dream-new']]),
+      new Map([['tag-trips', 'tag-merged']])
+    );
+
+    assert.deepEqual(collectConditionReferences(remapped), { dreams: ['dream-new', 'dream-b'], tags: ['tag-merged'] });
+  });
+});
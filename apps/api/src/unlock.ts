@@ -0,0 +1,153 @@
+import { RELOCK_POLICIES, unlockConditionSchema } from '@gomun/contract';
+import type { RelockPolicy, StreakPeriod, UnlockCondition } from '@gomun/contract';
+import { DAY_MS } from './time';
+
+// Coupon unlock rules, checked against what the space has fulfilled so far.
+
+export type UnlockContext = {
+  completedDreamIds: Set<string>;
+  completedDreamCount: number;
+  completedTagCounts: Map<string, number>;
+  completionTimes: Date[];
+  now: Date;
+};
+
+/** A dream or tag that was deleted while coupon rules may still point at it. */
+export type RemovedReference = { kind: 'dream' | 'tag'; id: string };
+
+export type ConditionReferences = { dreams: string[]; tags: string[] };
+
+/** Stored rules and backup files go through the same schema as rules sent by the editor. */
+export function parseUnlockCondition(raw: unknown): UnlockCondition | null {
+  const result = unlockConditionSchema.safeParse(raw);
+  return result.success ? result.data : null;
+}
+
+export function shouldUnlockCoupon(condition: UnlockCondition | null, context: UnlockContext): boolean {
+  if (!condition) {
+    return true;
+  }
+
+  switch (condition.type) {
+    case 'dreamCompleted':
+      return context.completedDreamIds.has(condition.value);
+    case 'dreamCount':
+      return context.completedDreamCount >= condition.value;
+    case 'all':
+      return condition.conditions.every((child) => shouldUnlockCoupon(child, context));
+    case 'any':
+      return condition.conditions.some((child) => shouldUnlockCoupon(child, context));
+    case 'not':
+      return !shouldUnlockCoupon(condition.condition, context);
+    case 'date':
+      return context.now.getTime() >= Date.parse(`${condition.value}T00:00:00Z`);
+    case 'dreamCountWithin': {
+      const windowStart = context.now.getTime() - condition.days * DAY_MS;
+      const recent = context.completionTimes.filter((time) => time.getTime() >= windowStart);
+      return recent.length >= condition.value;
+    }
+    case 'streak':
+      return longestCompletionStreak(context.completionTimes, condition.period) >= condition.value;
+    case 'tagCount':
+      return (context.completedTagCounts.get(condition.tagId) ?? 0) >= condition.value;
+  }
+}
+
+function streakPeriodIndex(time: Date, period: StreakPeriod) {
+  const dayIndex = Math.floor(time.getTime() / DAY_MS);
+
+  if (period === 'day') {
+    return dayIndex;
+  }
+
+  if (period === 'week') {
+    // 1970-01-01 was a Thursday; shifting by three days makes weeks start on Monday.
+    return Math.floor((dayIndex + 3) / 7);
+  }
+
+  return time.getUTCFullYear() * 12 + time.getUTCMonth();
+}
+
+export function longestCompletionStreak(completionTimes: Date[], period: StreakPeriod) {
+  const periods = Array.from(new Set(completionTimes.map((time) => streakPeriodIndex(time, period)))).sort(
+    (first, second) => first - second
+  );
+
+  let longest = 0;
+  let current = 0;
+
+  periods.forEach((index, position) => {
+    current = position > 0 && periods[position - 1] === index - 1 ? current + 1 : 1;
+    longest = Math.max(longest, current);
+  });
+
+  return longest;
+}
+
+export function parseRelockPolicy(raw: unknown): RelockPolicy | null {
+  return RELOCK_POLICIES.includes(raw as RelockPolicy) ? (raw as RelockPolicy) : null;
+}
+
+/** True when the rule, or one nested in it, names the removed dream or tag. */
+export function conditionReferences(condition: UnlockCondition, removed: RemovedReference): boolean {
+  switch (condition.type) {
+    case 'dreamCompleted':
+      return removed.kind === 'dream' && condition.value === removed.id;
+    case 'tagCount':
+      return removed.kind === 'tag' && condition.tagId === removed.id;
+    case 'all':
+    case 'any':
+      return condition.conditions.some((child) => conditionReferences(child, removed));
+    case 'not':
+      return conditionReferences(condition.condition, removed);
+    default:
+      return false;
+  }
+}
+
+/** Every dream and tag id the rule names, nested rules included. */
+export function collectConditionReferences(
+  condition: UnlockCondition,
+  into: ConditionReferences = { dreams: [], tags: [] }
+) {
+  switch (condition.type) {
+    case 'dreamCompleted':
+      into.dreams.push(condition.value);
+      break;
+    case 'tagCount':
+      into.tags.push(condition.tagId);
+      break;
+    case 'all':
+    case 'any':
+      condition.conditions.forEach((child) => collectConditionReferences(child, into));
+      break;
+    case 'not':
+      collectConditionReferences(condition.condition, into);
+      break;
+  }
+  return into;
+}
+
+/** The rule with its dream and tag ids swapped for new ones; ids missing from the maps are kept. */
+export function remapConditionReferences(
+  condition: UnlockCondition,
+  dreamIds: Map<string, string>,
+  tagIds: Map<string, string> = new Map()
+): UnlockCondition {
+  switch (condition.type) {
+    case 'dreamCompleted':
+      return { ...condition, value: dreamIds.get(condition.value) ?? condition.value };
+    case 'tagCount':
+      return { ...condition, tagId: tagIds.get(condition.tagId) ?? condition.tagId };
+    case 'all':
+    case 'any':
+      return {
+        ...condition,
+        conditions: condition.conditions.map((child) => remapConditionReferences(child, dreamIds, tagIds)),
+      };
+    case 'not':
+      return { ...condition, condition: remapConditionReferences(condition.condition, dreamIds, tagIds) };
+    default:
+      return condition;
+  }
+}
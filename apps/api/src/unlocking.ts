@@ -0,0 +1,200 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+import type { ReviewReason } from '@gomun/contract';
+import { prisma } from './db';
+import { recordEvents } from './events';
+import type { EventInput } from './events';
+import { broadcast } from './sync';
+import { conditionReferences, parseRelockPolicy, parseUnlockCondition, shouldUnlockCoupon } from './unlock';
+import type { RemovedReference, UnlockContext } from './unlock';
+
+// Unlock rules applied to a space's coupons: reading what the space has done, then unlocking, relocking or
+// flagging coupons for review as that changes.
+
+export const UNLOCK_SWEEP_INTERVAL_MS = (Number(process.env.UNLOCK_SWEEP_INTERVAL_MINUTES) || 60) * 60 * 1000;
+
+export async function getUnlockContext(
+  db: Prisma.TransactionClient | PrismaClient,
+  spaceId: string
+): Promise<UnlockContext> {
+  // A recurring dream counts once per completed occurrence, so done dreams with a history are counted there.
+  const [completedDreams, occurrences] = await Promise.all([
+    db.entry.findMany({
+      where: { spaceId, done: true, occurrences: { none: {} } },
+      select: { id: true, completedAt: true, tags: { select: { id: true } } },
+    }),
+    db.entryOccurrence.findMany({
+      where: { entry: { spaceId } },
+      select: { entryId: true, completedAt: true, entry: { select: { tags: { select: { id: true } } } } },
+    }),
+  ]);
+  const completedDreamIds = new Set([
+    ...completedDreams.map((entry) => entry.id),
+    ...occurrences.map((occurrence) => occurrence.entryId),
+  ]);
+  const completionTimes = [
+    ...completedDreams.map((entry) => entry.completedAt),
+    ...occurrences.map((occurrence) => occurrence.completedAt),
+  ].filter((time): time is Date => time instanceof Date);
+
+  // Tags are read as they are now, so tagging a dream later also counts its past completions.
+  const completedTagCounts = new Map<string, number>();
+  for (const { tags } of [...completedDreams, ...occurrences.map((occurrence) => occurrence.entry)]) {
+    for (const tag of tags) {
+      completedTagCounts.set(tag.id, (completedTagCounts.get(tag.id) ?? 0) + 1);
+    }
+  }
+
+  return {
+    completedDreamIds,
+    completedDreamCount: completedDreams.length + occurrences.length,
+    completedTagCounts,
+    completionTimes,
+    now: new Date(),
+  };
+}
+
+/**
+ * Applies each coupon's relock policy after a dream is un-done, untagged or deleted, or a tag is deleted.
+ * Only coupons whose rule held before the change and fails after it are touched,
+ * plus locked coupons left pointing at a deleted dream or tag, which could otherwise never unlock.
+ */
+export async function reconcileCouponsAfterSetback(
+  db: Prisma.TransactionClient,
+  spaceId: string,
+  before: UnlockContext,
+  after: UnlockContext,
+  actorId: string,
+  reason: ReviewReason = 'dreamUndone',
+  removed?: RemovedReference
+) {
+  const coupons = await db.coupon.findMany({ where: { spaceId } });
+  const updates: Promise<unknown>[] = [];
+  const affectedIds: string[] = [];
+  const events: EventInput[] = [];
+
+  for (const coupon of coupons) {
+    const condition = parseUnlockCondition(coupon.unlockCondition);
+    if (!condition) continue;
+
+    if (!coupon.unlocked) {
+      if (removed && conditionReferences(condition, removed) && !coupon.needsReview) {
+        affectedIds.push(coupon.id);
+        updates.push(
+          db.coupon.update({ where: { id: coupon.id }, data: { needsReview: true, reviewReason: reason } })
+        );
+      }
+      continue;
+    }
+
+    const regressed = shouldUnlockCoupon(condition, before) && !shouldUnlockCoupon(condition, after);
+    const policy = parseRelockPolicy(coupon.relockPolicy) ?? 'keep';
+    if (!regressed || policy === 'keep') continue;
+
+    affectedIds.push(coupon.id);
+
+    // A used coupon cannot be taken back, so a relock becomes a review flag instead.
+    if (policy === 'relock' && coupon.redemptionCount === 0) {
+      events.push({ type: 'coupon.relocked', actorId, payload: { couponId: coupon.id, title: coupon.title, reason } });
+      updates.push(
+        db.coupon.update({
+          where: { id: coupon.id },
+          data: { unlocked: false, needsReview: false, reviewReason: null },
+        })
+      );
+    } else {
+      updates.push(
+        db.coupon.update({ where: { id: coupon.id }, data: { needsReview: true, reviewReason: reason } })
+      );
+    }
+  }
+
+  await Promise.all([...updates, recordEvents(db, spaceId, events)]);
+  return affectedIds.length > 0 ? db.coupon.findMany({ where: { id: { in: affectedIds } } }) : [];
+}
+
+/** Clears "dream undone" and "tag removed" flags once the rule behind them holds again. */
+export async function clearRestoredReviewFlags(db: Prisma.TransactionClient, spaceId: string, context: UnlockContext) {
+  const flagged = await db.coupon.findMany({
+    where: { spaceId, unlocked: true, needsReview: true, reviewReason: { in: ['dreamUndone', 'tagRemoved'] } },
+  });
+
+  const restored = flagged.filter((coupon) =>
+    shouldUnlockCoupon(parseUnlockCondition(coupon.unlockCondition), context)
+  );
+
+  return Promise.all(
+    restored.map((coupon) =>
+      db.coupon.update({ where: { id: coupon.id }, data: { needsReview: false, reviewReason: null } })
+    )
+  );
+}
+
+export async function unlockEligibleCoupons(
+  db: Prisma.TransactionClient | PrismaClient,
+  spaceId: string,
+  context: UnlockContext,
+  actorId: string | null = null
+) {
+  const lockedCoupons = await db.coupon.findMany({
+    where: { spaceId, unlocked: false },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const toUnlock = lockedCoupons.filter((coupon) =>
+    shouldUnlockCoupon(parseUnlockCondition(coupon.unlockCondition), context)
+  );
+
+  if (toUnlock.length === 0) {
+    return [];
+  }
+
+  const unlockedCoupons = await Promise.all(
+    toUnlock.map((coupon) =>
+      db.coupon.update({
+        where: { id: coupon.id },
+        data: { unlocked: true },
+      })
+    )
+  );
+
+  await recordEvents(
+    db,
+    spaceId,
+    unlockedCoupons.map((coupon) => ({
+      type: 'coupon.unlocked',
+      actorId,
+      payload: { couponId: coupon.id, title: coupon.title },
+    }))
+  );
+
+  return unlockedCoupons;
+}
+
+export async function runScheduledUnlocks() {
+  try {
+    const spaces = await prisma.coupon.findMany({
+      where: { unlocked: false },
+      distinct: ['spaceId'],
+      select: { spaceId: true },
+    });
+
+    let unlockedCount = 0;
+
+    for (const { spaceId } of spaces) {
+      const unlocked = await prisma.$transaction(async (tx) =>
+        unlockEligibleCoupons(tx, spaceId, await getUnlockContext(tx, spaceId))
+      );
+      unlockedCount += unlocked.length;
+
+      if (unlocked.length > 0) {
+        broadcast(spaceId, { type: 'coupons', coupons: unlocked, unlockedIds: unlocked.map((coupon) => coupon.id) });
+      }
+    }
+
+    if (unlockedCount > 0) {
+      console.log(`🔓 Scheduled pass unlocked ${unlockedCount} coupon(s)`);
+    }
+  } catch (error) {
+    console.error('Scheduled unlock pass failed', error);
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { updateCouponBodySchema, updateEntryBodySchema, validate } from '@gomun/contract';
+import { isStaleVersion, sameVersion } from './versions';
+
+const saved = { updatedAt: new Date('2026-03-20T09:00:00.123Z') };
+
+describe('isStaleVersion', () => {
+  it('lets an edit through when it started from the saved version', () => {
+    assert.equal(isStaleVersion(saved, new Date('2026-03-20T09:00:00.123Z')), false);
+  });
+
+  it('turns away an edit that started from an older or a different version', () => {
+    assert.equal(isStaleVersion(saved, new Date('2026-03-20T09:00:00.122Z')), true);
+    assert.equal(isStaleVersion(saved, new Date('2026-03-20T09:00:01.123Z')), true);
+  });
+});
+
+describe('sameVersion', () => {
+  it('writes only to the version that was checked', () => {
+    assert.deepEqual(sameVersion('entry-1', saved), { id: 'entry-1', updatedAt: saved.updatedAt });
+  });
+});
+
+describe('edit bodies', () => {
+  it('require the version the edit started from', () => {
+    const entry = validate(updateEntryBodySchema, { title: 'Paris' });
+    const coupon = validate(updateCouponBodySchema, { title: 'Breakfast in bed', updatedAt: 'yesterday' });
+
+    assert.equal(entry.ok, false);
+    assert.equal(!entry.ok && entry.error.fields.updatedAt, 'updatedAt is required.');
+    assert.equal(coupon.ok, false);
+    assert.equal(!coupon.ok && coupon.error.fields.updatedAt, 'updatedAt is required.');
+  });
+
+  it('read the version as the exact instant the server sent', () => {
+    const entry = validate(updateEntryBodySchema, { title: 'Paris', updatedAt: '2026-03-20T09:00:00.123Z' });
+
+    assert.equal(entry.ok, true);
+    assert.equal(entry.ok && isStaleVersion(saved, entry.data.updatedAt), false);
+  });
+});
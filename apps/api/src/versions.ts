@@ -0,0 +1,17 @@
+// Optimistic concurrency for dreams and coupons: an edit names the version it started from, and `updatedAt` is
+// that version.
+
+type Versioned = { updatedAt: Date };
+
+/** True when the row was saved again after the client loaded it, so writing would overwrite that change. */
+export function isStaleVersion(current: Versioned, expectedVersion: Date) {
+  return current.updatedAt.getTime() !== expectedVersion.getTime();
+}
+
+/**
+ * Where-clause for the write that follows the check. It matches on the version as well, so a write that raced
+ * past the check finds no row and fails with P2025 instead of overwriting.
+ */
+export function sameVersion(id: string, current: Versioned) {
+  return { id, updatedAt: current.updatedAt };
+}
@@ -0,0 +1,91 @@
+// Keeps the app shell available offline. Data is not cached here: the app keeps its own copy of dreams and
+// coupons in IndexedDB and queues changes until the server can be reached again.
+
+// Written by the build (see vite.config.ts): the hashed scripts and styles of this deploy and a version for them.
+importScripts('/sw-assets.js');
+
+const SHELL_CACHE = `gomun-shell-${self.BUILD_VERSION}`;
+// Every page is the same single-page app, so they are all cached and served under this one key.
+const SHELL_PAGE = '/';
+const SHELL_FILES = [SHELL_PAGE, '/manifest.webmanifest', '/GoMun.png', ...self.BUILD_ASSETS];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_FILES)));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== SHELL_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) {
+    return;
+  }
+
+  // Pages always try the network first so a new deploy is picked up, falling back to the cached shell.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(SHELL_CACHE).then((cache) => cache.put(SHELL_PAGE, copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match(SHELL_PAGE))
+    );
+    return;
+  }
+
+  // Built assets carry a content hash, so a cached copy is always safe to serve.
+  event.respondWith(
+    caches.match(request).then(
+      (cached) =>
+        cached ??
+        fetch(request).then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy));
+          }
+          return response;
+        })
+    )
+  );
+});
+
+// Reminders sent by the API's scheduler. The payload is the reminder's title, body, tag and the page to open.
+self.addEventListener('push', (event) => {
+  const reminder = event.data ? event.data.json() : { title: 'GoMun', body: '' };
+
+  event.waitUntil(
+    self.registration.showNotification(reminder.title, {
+      body: reminder.body,
+      tag: reminder.tag,
+      icon: '/GoMun.png',
+      data: { url: reminder.url ?? '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url ?? '/', self.location.origin).href;
+
+  // Brings an open GoMun tab forward instead of opening another one.
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => client.url.startsWith(self.location.origin));
+      return open ? open.focus() : self.clients.openWindow(url);
+    })
+  );
+});
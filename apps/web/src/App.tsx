@@ -1,142 +1,222 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { FormEvent } from 'react';
+import { ApiError, api, createApiClient } from '@gomun/contract/client';
+import type { ApiRequest } from '@gomun/contract/client';
+import { MAX_COUPON_REDEMPTIONS } from '@gomun/contract/limits';
+import type {
+  AuthSession,
+  Coupon,
+  Entry as AgendaEntry,
+  EntryDoneBody,
+  EntryMutationResult,
+  EntryOption,
+  ReflectionBody,
+  RelockPolicy,
+  Space,
+  Step as EntryStep,
+  SyncMessage,
+  Tag,
+  UnlockCondition as CouponUnlockCondition,
+} from '@gomun/contract';
 import './App.css';
+import {
+  clearOfflineData,
+  createTempId,
+  enqueueMutation,
+  isTempId,
+  listMutations,
+  loadSnapshot,
+  replayMutations,
+  saveSnapshot,
+} from './offline';
+import type { QueuedMutation, RejectedMutation } from './offline';
+import { letterKey } from './agenda';
+import type { CouponRequestAction } from './coupons';
+import { formatDate } from './format';
+import { API_BASE, loadStoredSession, storeSession } from './session';
+import { conditionToDraft, createUnlockRuleDraft, describeUnlockCondition, draftToCondition } from './unlockRules';
+import { AttachmentsEditor } from './components/Attachments';
+import { RecurrenceEditor } from './components/RecurrenceEditor';
+import { ReflectionModal } from './components/Reflection';
+import { ReminderPicker } from './components/ReminderPicker';
+import { SettingsModal } from './components/SettingsModal';
+import { SpaceModal } from './components/SpaceModal';
+import { StepsEditor } from './components/StepsEditor';
+import { TagPicker } from './components/TagPicker';
+import { UnlockRuleEditor } from './components/UnlockRuleEditor';
+import { AgendaView } from './views/AgendaView';
+import { AuthView } from './views/AuthView';
+import { CalendarView } from './views/CalendarView';
+import { CouponsView } from './views/CouponsView';
+import { MemoryBookView } from './views/MemoryBookView';
+import { SearchView } from './views/SearchView';
+import { StatsView } from './views/StatsView';
+import { TimelineView } from './views/TimelineView';
 import logoSrc from '/GoMun.png';
 
-type AgendaEntry = {
-  id: string;
-  title: string;
-  note?: string | null;
-  date?: string | null;
-  done: boolean;
-  createdAt: string;
-  userId: string;
+type OfflineData = {
+  // Only the dreams this device has opened; the agenda works from these while offline.
+  entries: AgendaEntry[];
+  entryOptions: EntryOption[];
+  coupons: Coupon[];
+  tags: Tag[];
+  space: Space | null;
 };
 
-type CouponUnlockCondition =
-  | { type: 'dreamCompleted'; value: string }
-  | { type: 'dreamCount'; value: number };
-
-type Coupon = {
+type UnlockToast = {
   id: string;
-  title: string;
-  description?: string | null;
-  createdAt: string;
-  unlocked: boolean;
-  redeemed: boolean;
-  redeemedAt?: string | null;
-  unlockCondition?: CouponUnlockCondition | null;
+  message: string;
 };
 
-type AgendaSection = {
-  letter: string;
-  visible: AgendaEntry[];
-  totalPages: number;
-  currentPage: number;
+// Identifies this tab to the server so changes it makes are not echoed back over its own stream.
+const CLIENT_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+const EMPTY_ENTRY_FORM = {
+  title: '',
+  note: '',
+  date: '',
+  recurrence: '',
+  autoComplete: false,
+  reminderOffsets: [] as number[],
+  tagIds: [] as string[],
 };
+const QUEUE_RETRY_MS = 30_000;
+const STREAM_RETRY_MS = 5_000;
+
+// A 409 from an edit carries the copy the server holds now.
+function readConflict<T>(error: unknown): T | null {
+  if (!(error instanceof ApiError) || error.status !== 409) return null;
+  const body = error.body as { current?: T } | null;
+  return body?.current ?? null;
+}
 
-type UnlockToast = {
-  id: string;
-  message: string;
-};
+function readInviteCodeFromUrl() {
+  return new URLSearchParams(window.location.search).get('invite')?.trim() ?? '';
+}
 
-const API_BASE = import.meta.env.VITE_API_URL ?? 'http://localhost:8080';
-const DEFAULT_USER_ID = (import.meta.env.VITE_DEFAULT_USER_ID ?? 'couple').trim() || 'couple';
-const ITEMS_PER_PAGE = 15;
+function clearInviteCodeFromUrl() {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has('invite')) return;
+  url.searchParams.delete('invite');
+  window.history.replaceState(null, '', url.toString());
+}
 
-const isLatinLetter = (char: string) => /^[A-Z]$/.test(char);
+// Recurring dreams count once per fulfilled occurrence, matching the server's dreamCount rule.
+function toEntryOption(entry: AgendaEntry): EntryOption {
+  const completions = entry._count?.occurrences ? entry._count.occurrences : entry.done ? 1 : 0;
+  return { id: entry.id, title: entry.title, completions };
+}
 
-const letterKey = (title: string | null | undefined) => {
-  const initial = title?.trim().charAt(0).toUpperCase() ?? '';
-  return isLatinLetter(initial) ? initial : '#';
-};
+function upsertById<T extends { id: string }>(items: T[], updates: T[]) {
+  const fresh = updates.filter((update) => !items.some((item) => item.id === update.id));
+  return [...fresh, ...items.map((item) => updates.find((update) => update.id === item.id) ?? item)];
+}
 
-function formatDate(value?: string | null) {
-  if (!value) return '';
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) return '';
-  return date.toLocaleDateString(undefined, {
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric',
-  });
+function buildUnlockToast(unlockedCoupons: Coupon[]): UnlockToast | null {
+  if (unlockedCoupons.length === 0) return null;
+
+  return {
+    id: `${Date.now()}-${unlockedCoupons[0].id}`,
+    message:
+      unlockedCoupons.length === 1
+        ? `You unlocked a new coupon: ${unlockedCoupons[0].title}`
+        : `You unlocked ${unlockedCoupons.length} new coupons.`,
+  };
 }
 
-function describeUnlockCondition(
-  condition: CouponUnlockCondition | null | undefined,
-  entriesById: Map<string, AgendaEntry>
-) {
-  if (!condition) {
-    return 'Available as soon as it is written.';
-  }
+function sortTags(tags: Tag[]) {
+  return [...tags].sort((first, second) => first.name.localeCompare(second.name));
+}
 
-  if (condition.type === 'dreamCompleted') {
-    const targetDream = entriesById.get(condition.value);
-    return targetDream
-      ? `Unlock by fulfilling "${targetDream.title}".`
-      : 'Unlock by fulfilling a specific dream.';
-  }
+function renameEntryTags(entries: AgendaEntry[], updates: Tag[]) {
+  return entries.map((entry) =>
+    entry.tags?.some((tag) => updates.some((update) => update.id === tag.id))
+      ? { ...entry, tags: sortTags(entry.tags.map((tag) => updates.find((update) => update.id === tag.id) ?? tag)) }
+      : entry
+  );
+}
 
-  return `Unlock after ${condition.value} dreams come true.`;
+function removeEntryTag(entries: AgendaEntry[], tagId: string) {
+  return entries.map((entry) =>
+    entry.tags?.some((tag) => tag.id === tagId) ? { ...entry, tags: entry.tags.filter((tag) => tag.id !== tagId) } : entry
+  );
 }
 
-function getCouponFormState(coupon?: Coupon | null) {
-  if (!coupon) {
-    return {
-      title: '',
-      description: '',
-      unlockMode: 'manual' as const,
-      dreamId: '',
-      dreamCount: '3',
-    };
-  }
+function getEntryFormState(entry: AgendaEntry) {
+  return {
+    title: entry.title,
+    note: entry.note ?? '',
+    date: entry.date ? entry.date.slice(0, 10) : '',
+    recurrence: entry.recurrence ?? '',
+    autoComplete: entry.autoComplete ?? false,
+    reminderOffsets: entry.reminderOffsets ?? [],
+    tagIds: entry.tags?.map((tag) => tag.id) ?? [],
+  };
+}
 
-  if (coupon.unlockCondition?.type === 'dreamCompleted') {
-    return {
-      title: coupon.title,
-      description: coupon.description ?? '',
-      unlockMode: 'dreamCompleted' as const,
-      dreamId: coupon.unlockCondition.value,
-      dreamCount: '3',
-    };
-  }
+/** A new coupon is made out to `defaultRecipientId`; an empty recipient means anyone may use it. */
+function getCouponFormState(coupon?: Coupon | null, defaultRecipientId = '') {
+  // An empty uses field means no limit; a new coupon is good for one use.
+  const limits = {
+    expiresAt: coupon?.expiresAt ? coupon.expiresAt.slice(0, 10) : '',
+    maxRedemptions: coupon ? (coupon.maxRedemptions === null ? '' : String(coupon.maxRedemptions)) : '1',
+    recipientId: coupon ? (coupon.recipientId ?? '') : defaultRecipientId,
+  };
 
-  if (coupon.unlockCondition?.type === 'dreamCount') {
+  if (!coupon?.unlockCondition) {
     return {
-      title: coupon.title,
-      description: coupon.description ?? '',
-      unlockMode: 'dreamCount' as const,
-      dreamId: '',
-      dreamCount: String(coupon.unlockCondition.value),
+      title: coupon?.title ?? '',
+      description: coupon?.description ?? '',
+      unlockMode: 'manual' as 'manual' | 'rule',
+      rule: createUnlockRuleDraft(),
+      relockPolicy: coupon?.relockPolicy ?? ('keep' as RelockPolicy),
+      ...limits,
     };
   }
 
   return {
     title: coupon.title,
     description: coupon.description ?? '',
-    unlockMode: 'manual' as const,
-    dreamId: '',
-    dreamCount: '3',
+    unlockMode: 'rule' as 'manual' | 'rule',
+    rule: conditionToDraft(coupon.unlockCondition),
+    relockPolicy: coupon.relockPolicy,
+    ...limits,
   };
 }
 
 function App() {
+  const [session, setSession] = useState<AuthSession | null>(loadStoredSession);
+  // Dreams the views have loaded so far, kept current as they change; never the whole library.
   const [entries, setEntries] = useState<AgendaEntry[]>([]);
+  // Every dream by title alone, for coupon rules and the count of dreams come true.
+  const [entryOptions, setEntryOptions] = useState<EntryOption[]>([]);
   const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [space, setSpace] = useState<Space | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [pendingInviteCode, setPendingInviteCode] = useState(readInviteCodeFromUrl);
+  const [isSpaceOpen, setIsSpaceOpen] = useState(() => Boolean(readInviteCodeFromUrl()));
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // The dream being marked come true, or whose memory is being edited, while the reflection dialog is open.
+  const [reflectingEntry, setReflectingEntry] = useState<AgendaEntry | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeView, setActiveView] = useState<'agenda' | 'search' | 'coupons'>('agenda');
+  const [activeView, setActiveView] = useState<
+    'agenda' | 'search' | 'coupons' | 'calendar' | 'timeline' | 'memories' | 'stats'
+  >('agenda');
   const [isEntryFormOpen, setIsEntryFormOpen] = useState(false);
   const [isCouponFormOpen, setIsCouponFormOpen] = useState(false);
   const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
   const [editingCouponId, setEditingCouponId] = useState<string | null>(null);
-  const [pageByLetter, setPageByLetter] = useState<Record<string, number>>({});
-  const [entryFormState, setEntryFormState] = useState({
-    title: '',
-    note: '',
-    userId: DEFAULT_USER_ID,
-  });
-  const [couponFormState, setCouponFormState] = useState(getCouponFormState());
+  // The updatedAt each edit started from; the server refuses the save if the record has moved on since.
+  const [entryBaseVersion, setEntryBaseVersion] = useState<string | null>(null);
+  const [couponBaseVersion, setCouponBaseVersion] = useState<string | null>(null);
+  const [entryConflict, setEntryConflict] = useState<AgendaEntry | null>(null);
+  const [couponConflict, setCouponConflict] = useState<Coupon | null>(null);
+  const [agendaLetter, setAgendaLetter] = useState<string | null>(null);
+  const [agendaVersion, setAgendaVersion] = useState(0);
+  const [entryFormState, setEntryFormState] = useState(EMPTY_ENTRY_FORM);
+  const [couponFormState, setCouponFormState] = useState(getCouponFormState);
   const [submittingEntry, setSubmittingEntry] = useState(false);
   const [submittingCoupon, setSubmittingCoupon] = useState(false);
   const [entryFormError, setEntryFormError] = useState<string | null>(null);
@@ -144,8 +224,43 @@ function App() {
   const [deletingIds, setDeletingIds] = useState<Set<string>>(new Set());
   const [redeemingIds, setRedeemingIds] = useState<Set<string>>(new Set());
   const [unlockToast, setUnlockToast] = useState<UnlockToast | null>(null);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [rejectedChanges, setRejectedChanges] = useState<RejectedMutation[]>([]);
+  const replayingRef = useRef(false);
+
+  const updateSession = useCallback((next: AuthSession | null) => {
+    storeSession(next);
+    setSession(next);
+
+    if (!next) {
+      setEntries([]);
+      setEntryOptions([]);
+      setCoupons([]);
+      setTags([]);
+      setSpace(null);
+      setCachedAt(null);
+      setPendingChanges(0);
+      setRejectedChanges([]);
+    }
+  }, []);
+
+  const client = useMemo(
+    () =>
+      createApiClient({
+        baseUrl: API_BASE,
+        headers: { 'X-Client-Id': CLIENT_ID },
+        getToken: () => session?.token,
+        onUnauthorized: () => updateSession(null),
+      }),
+    [session, updateSession]
+  );
 
   useEffect(() => {
+    if (!session) return;
+
+    const userId = session.user.id;
     let isMounted = true;
 
     async function loadData() {
@@ -153,30 +268,37 @@ function App() {
       setError(null);
 
       try {
-        const [entriesResponse, couponsResponse] = await Promise.all([
-          fetch(`${API_BASE}/api/entries`),
-          fetch(`${API_BASE}/api/coupons`),
-        ]);
-
-        if (!entriesResponse.ok) {
-          throw new Error(`Unable to load dreams (${entriesResponse.status})`);
-        }
-
-        if (!couponsResponse.ok) {
-          throw new Error(`Unable to load coupons (${couponsResponse.status})`);
-        }
-
-        const [entriesData, couponsData]: [AgendaEntry[], Coupon[]] = await Promise.all([
-          entriesResponse.json(),
-          couponsResponse.json(),
+        const [optionsData, couponsData, tagsData, spaceData] = await Promise.all([
+          client.listEntryOptions(),
+          client.listCoupons(),
+          client.listTags(),
+          client.getSpace(),
         ]);
 
         if (isMounted) {
-          setEntries(entriesData);
+          // Drop loaded dreams that were erased, or belong to another space, since they were fetched.
+          const knownIds = new Set(optionsData.map((option) => option.id));
+          setEntries((prev) => prev.filter((entry) => knownIds.has(entry.id)));
+          setEntryOptions(optionsData);
           setCoupons(couponsData);
+          setTags(tagsData);
+          setSpace(spaceData);
+          setCachedAt(null);
         }
       } catch (err) {
-        if (isMounted) {
+        // Without the server, fall back to whatever this device saved the last time it was online.
+        const snapshot = await loadSnapshot<OfflineData>(userId).catch(() => null);
+
+        if (!isMounted) return;
+
+        if (snapshot) {
+          setEntries(snapshot.entries);
+          setEntryOptions(snapshot.entryOptions ?? []);
+          setCoupons(snapshot.coupons);
+          setTags(snapshot.tags);
+          setSpace(snapshot.space);
+          setCachedAt(snapshot.savedAt);
+        } else {
           setError(err instanceof Error ? err.message : 'Unexpected error');
         }
       } finally {
@@ -190,115 +312,262 @@ function App() {
     return () => {
       isMounted = false;
     };
-  }, []);
+  }, [session, client, reloadKey]);
 
+  // The first list comes with the rest of the data above; every change to a dream refreshes it.
   useEffect(() => {
-    if (!unlockToast) return;
+    if (!session || agendaVersion === 0) return;
 
-    const timeoutId = window.setTimeout(() => {
-      setUnlockToast(null);
-    }, 3400);
+    let isMounted = true;
 
-    return () => window.clearTimeout(timeoutId);
-  }, [unlockToast]);
+    client
+      .listEntryOptions()
+      .then((options) => {
+        if (isMounted) setEntryOptions(options);
+      })
+      .catch(() => {
+        // Offline, the titles already known stay in place.
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [session, client, agendaVersion]);
+
+  const rememberEntries = useCallback((loaded: AgendaEntry[]) => {
+    setEntries((prev) => upsertById(prev, loaded));
+  }, []);
+
+  useEffect(() => {
+    const updateStatus = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateStatus);
+    window.addEventListener('offline', updateStatus);
+
+    return () => {
+      window.removeEventListener('online', updateStatus);
+      window.removeEventListener('offline', updateStatus);
+    };
+  }, []);
 
+  // Keep a copy of the latest data on this device so the app can open without a connection.
   useEffect(() => {
-    const totals: Record<string, number> = {};
-    for (const entry of entries) {
-      const key = letterKey(entry.title);
-      totals[key] = (totals[key] ?? 0) + 1;
+    if (!session || loading || error) return;
+
+    const data: OfflineData = { entries, entryOptions, coupons, tags, space };
+    saveSnapshot(session.user.id, data).catch(() => {
+      // Storage can be unavailable (private browsing); the app simply will not work offline then.
+    });
+  }, [session, loading, error, entries, entryOptions, coupons, tags, space]);
+
+  const replayQueuedChanges = useCallback(async () => {
+    if (!session || replayingRef.current || !navigator.onLine) return;
+
+    replayingRef.current = true;
+
+    try {
+      const result = await replayMutations(session.user.id, (mutation) =>
+        client.request({ method: mutation.method, path: mutation.path, body: mutation.body, response: 'json' })
+      );
+
+      setPendingChanges(result.pending);
+
+      if (result.rejected.length > 0) {
+        setRejectedChanges((prev) => [...prev, ...result.rejected]);
+      }
+
+      // The server's answers (ids, unlocked coupons, rolled-over dates) replace the local guesses.
+      if (result.replayed > 0 || result.rejected.length > 0) {
+        setReloadKey((prev) => prev + 1);
+      }
+    } catch {
+      // IndexedDB is unavailable, so nothing could have been queued.
+    } finally {
+      replayingRef.current = false;
     }
+  }, [session, client]);
+
+  useEffect(() => {
+    if (!session) return;
+
+    listMutations(session.user.id)
+      .then((mutations) => setPendingChanges(mutations.length))
+      .catch(() => setPendingChanges(0));
+  }, [session]);
+
+  useEffect(() => {
+    if (!isOnline) return;
+
+    replayQueuedChanges();
+    if (pendingChanges === 0) return;
+
+    // The browser can report being online while the server is still unreachable, so keep retrying.
+    const intervalId = window.setInterval(replayQueuedChanges, QUEUE_RETRY_MS);
+    return () => window.clearInterval(intervalId);
+  }, [isOnline, pendingChanges, replayQueuedChanges]);
+
+  const spaceId = space?.id;
 
-    setPageByLetter((prev) => {
-      const next: Record<string, number> = {};
-      let changed = false;
-
-      for (const [key, count] of Object.entries(totals)) {
-        const totalPages = Math.max(1, Math.ceil(count / ITEMS_PER_PAGE));
-        const current = prev[key] ?? 1;
-        const safe = Math.min(Math.max(current, 1), totalPages);
-        next[key] = safe;
-        if (safe !== current) {
-          changed = true;
+  useEffect(() => {
+    if (!session || !spaceId) return;
+
+    let source: EventSource | null = null;
+    let retryId: number | undefined;
+    let stopped = false;
+
+    const handleSync = (event: MessageEvent<string>) => {
+      const message: SyncMessage = JSON.parse(event.data);
+
+      switch (message.type) {
+        case 'entries':
+          setEntries((prev) => upsertById(prev, message.entries));
+          setAgendaVersion((prev) => prev + 1);
+          break;
+        case 'entryDeleted':
+          setEntries((prev) => prev.filter((entry) => entry.id !== message.id));
+          setEntryOptions((prev) => prev.filter((option) => option.id !== message.id));
+          setAgendaVersion((prev) => prev + 1);
+          break;
+        case 'steps':
+          setEntries((prev) =>
+            prev.map((entry) => (entry.id === message.entryId ? { ...entry, steps: message.steps } : entry))
+          );
+          break;
+        case 'coupons': {
+          setCoupons((prev) => upsertById(prev, message.coupons));
+          const toast = buildUnlockToast(message.coupons.filter((coupon) => message.unlockedIds.includes(coupon.id)));
+          if (toast) setUnlockToast(toast);
+          break;
         }
+        case 'tags':
+          setTags((prev) => sortTags(upsertById(prev, message.tags)));
+          setEntries((prev) => renameEntryTags(prev, message.tags));
+          break;
+        case 'tagDeleted':
+          setTags((prev) => prev.filter((tag) => tag.id !== message.id));
+          setEntries((prev) => removeEntryTag(prev, message.id));
+          setAgendaVersion((prev) => prev + 1);
+          break;
+        case 'reload':
+          setReloadKey((prev) => prev + 1);
+          break;
       }
+    };
 
-      if (!changed && Object.keys(prev).length === Object.keys(next).length) {
-        const identical = Object.keys(next).every((key) => prev[key] === next[key]);
-        if (identical) {
-          return prev;
-        }
+    // A ticket opens one stream, so a dropped stream is not left to the browser's reconnect: it opens a new one.
+    const connect = async () => {
+      try {
+        const { ticket } = await client.createStreamTicket();
+        if (stopped) return;
+
+        const params = new URLSearchParams({ ticket, clientId: CLIENT_ID });
+        const opened = new EventSource(`${API_BASE}/api/stream?${params}`);
+        source = opened;
+        opened.addEventListener('sync', handleSync);
+        opened.addEventListener('error', () => {
+          opened.close();
+          if (!stopped) retryId = window.setTimeout(connect, STREAM_RETRY_MS);
+        });
+      } catch {
+        if (!stopped) retryId = window.setTimeout(connect, STREAM_RETRY_MS);
       }
+    };
 
-      return next;
-    });
-  }, [entries]);
+    connect();
 
-  const groupedSections = useMemo<AgendaSection[]>(() => {
-    const bucket = new Map<string, AgendaEntry[]>();
+    return () => {
+      stopped = true;
+      window.clearTimeout(retryId);
+      source?.close();
+    };
+  }, [session, spaceId, client]);
 
-    for (const entry of entries) {
-      const key = letterKey(entry.title);
-      const group = bucket.get(key) ?? [];
-      group.push(entry);
-      bucket.set(key, group);
-    }
+  useEffect(() => {
+    if (!unlockToast) return;
 
-    return Array.from(bucket.entries())
-      .sort(([a], [b]) => a.localeCompare(b, undefined, { sensitivity: 'base' }))
-      .map(([letter, items]) => {
-        const orderedItems = [...items].sort((first, second) =>
-          first.title.localeCompare(second.title, undefined, { sensitivity: 'base' })
-        );
-        const totalPages = Math.max(1, Math.ceil(orderedItems.length / ITEMS_PER_PAGE));
-        const currentPage = Math.min(Math.max(pageByLetter[letter] ?? 1, 1), totalPages);
-        const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
-        const visible = orderedItems.slice(startIndex, startIndex + ITEMS_PER_PAGE);
-
-        return {
-          letter,
-          visible,
-          totalPages,
-          currentPage,
-        };
-      });
-  }, [entries, pageByLetter]);
+    const timeoutId = window.setTimeout(() => {
+      setUnlockToast(null);
+    }, 3400);
+
+    return () => window.clearTimeout(timeoutId);
+  }, [unlockToast]);
 
   const entriesById = useMemo(() => new Map(entries.map((entry) => [entry.id, entry])), [entries]);
-  const completedDreams = useMemo(() => entries.filter((entry) => entry.done).length, [entries]);
+  const couponsById = useMemo(() => new Map(coupons.map((coupon) => [coupon.id, coupon])), [coupons]);
+  const tagsById = useMemo(() => new Map(tags.map((tag) => [tag.id, tag])), [tags]);
+  // Coupon rules can only point at dreams the server already knows about. Loaded dreams carry the latest titles
+  // and completions, so renames and ticks show before the list is fetched again.
+  const dreamOptions = useMemo(
+    () =>
+      entryOptions
+        .map((option) => {
+          const loaded = entriesById.get(option.id);
+          return loaded ? toEntryOption(loaded) : option;
+        })
+        .sort((first, second) => first.title.localeCompare(second.title, undefined, { sensitivity: 'base' })),
+    [entryOptions, entriesById]
+  );
+  const dreamsById = useMemo(() => new Map(dreamOptions.map((dream) => [dream.id, dream])), [dreamOptions]);
+  const membersById = useMemo(
+    () => new Map((space?.members ?? []).map((member) => [member.id, member])),
+    [space]
+  );
+  const partner = space?.members.find((member) => member.id !== session?.user.id) ?? null;
+  const completedDreams = useMemo(
+    () => dreamOptions.reduce((total, dream) => total + dream.completions, 0),
+    [dreamOptions]
+  );
   const isEditingEntry = editingEntryId !== null;
   const isEditingCoupon = editingCouponId !== null;
+  // A coupon can be made out to anyone in the space but the person who gives it.
+  const couponGiverId = (editingCouponId && couponsById.get(editingCouponId)?.userId) || session?.user.id;
 
   const openNewEntry = () => {
     setActiveView('agenda');
     setEditingEntryId(null);
-    setEntryFormState({ title: '', note: '', userId: DEFAULT_USER_ID });
+    setEntryFormState(EMPTY_ENTRY_FORM);
     setEntryFormError(null);
     setIsEntryFormOpen(true);
   };
 
   const openEditEntry = (entry: AgendaEntry) => {
     setEditingEntryId(entry.id);
-    setEntryFormState({
-      title: entry.title,
-      note: entry.note ?? '',
-      userId: entry.userId ?? DEFAULT_USER_ID,
-    });
+    setEntryBaseVersion(entry.updatedAt);
+    setEntryConflict(null);
+    setEntryFormState(getEntryFormState(entry));
     setEntryFormError(null);
     setIsEntryFormOpen(true);
   };
 
+  // Search hits carry only a title and snippet, so a dream not loaded yet is fetched before its form opens.
+  const openEntryById = async (id: string) => {
+    const loaded = entriesById.get(id);
+    if (loaded) {
+      openEditEntry(loaded);
+      return;
+    }
+
+    try {
+      const entry = await client.getEntry({ id });
+      rememberEntries([entry]);
+      openEditEntry(entry);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Unable to open dream');
+    }
+  };
+
   const openCouponForm = () => {
     setActiveView('coupons');
     setEditingCouponId(null);
     setCouponFormError(null);
-    setCouponFormState(getCouponFormState());
+    setCouponFormState(getCouponFormState(null, partner?.id));
     setIsCouponFormOpen(true);
   };
 
   const openEditCoupon = (coupon: Coupon) => {
     setActiveView('coupons');
     setEditingCouponId(coupon.id);
+    setCouponBaseVersion(coupon.updatedAt);
+    setCouponConflict(null);
     setCouponFormError(null);
     setCouponFormState(getCouponFormState(coupon));
     setIsCouponFormOpen(true);
@@ -307,8 +576,9 @@ function App() {
   const closeEntryForm = () => {
     setIsEntryFormOpen(false);
     setEntryFormError(null);
-    setEntryFormState({ title: '', note: '', userId: DEFAULT_USER_ID });
+    setEntryFormState(EMPTY_ENTRY_FORM);
     setEditingEntryId(null);
+    setEntryConflict(null);
   };
 
   const closeCouponForm = () => {
@@ -316,20 +586,55 @@ function App() {
     setEditingCouponId(null);
     setCouponFormError(null);
     setCouponFormState(getCouponFormState());
+    setCouponConflict(null);
+  };
+
+  // The conflict panel's other choice: drop this draft and continue from the copy that was saved elsewhere.
+  const loadEntryConflict = () => {
+    if (!entryConflict) return;
+    setEntryFormState(getEntryFormState(entryConflict));
+    setEntryConflict(null);
+  };
+
+  const loadCouponConflict = () => {
+    if (!couponConflict) return;
+    setCouponFormState(getCouponFormState(couponConflict));
+    setCouponConflict(null);
   };
 
   const showUnlockToast = (unlockedCoupons: Coupon[]) => {
-    if (unlockedCoupons.length === 0) return;
+    const toast = buildUnlockToast(unlockedCoupons);
+    if (toast) setUnlockToast(toast);
+  };
 
-    const message =
-      unlockedCoupons.length === 1
-        ? `You unlocked a new coupon: ${unlockedCoupons[0].title}`
-        : `You unlocked ${unlockedCoupons.length} new coupons.`;
+  // Offline, or while earlier offline changes still wait, a change joins the queue rather than going straight to
+  // the server, so the server sees every change in the order it was made. Resolves to null once queued.
+  const sendOrQueue = async <T,>(request: ApiRequest<T>, change: Pick<QueuedMutation, 'label' | 'tempId'>) => {
+    // Only changes wait in the queue; a read needs the server now.
+    if (request.method === 'GET') return client.send(request);
+
+    if (navigator.onLine && pendingChanges === 0) {
+      try {
+        return await client.send(request);
+      } catch (err) {
+        if (!(err instanceof TypeError)) throw err;
+      }
+    }
+
+    if (!session) {
+      throw new Error('Sign in again to save this change.');
+    }
 
-    setUnlockToast({
-      id: `${Date.now()}-${unlockedCoupons[0].id}`,
-      message,
+    await enqueueMutation({
+      method: request.method,
+      path: request.path,
+      body: request.body,
+      ...change,
+      userId: session.user.id,
+      queuedAt: new Date().toISOString(),
     });
+    setPendingChanges((prev) => prev + 1);
+    return null;
   };
 
   const handleSubmitEntry = async (event: FormEvent<HTMLFormElement>) => {
@@ -342,48 +647,94 @@ function App() {
       return;
     }
 
-    const payload: { title: string; note?: string; userId?: string } = {
+    if (entryFormState.recurrence && !entryFormState.date) {
+      setEntryFormError('A repeating dream needs a first date.');
+      return;
+    }
+
+    const fields = {
       title: trimmedTitle,
+      note: entryFormState.note.trim() || null,
+      date: entryFormState.date || null,
+      recurrence: entryFormState.recurrence || null,
+      autoComplete: entryFormState.autoComplete,
+      reminderOffsets: [...entryFormState.reminderOffsets].sort((a, b) => b - a),
     };
 
-    if (entryFormState.note.trim()) {
-      payload.note = entryFormState.note.trim();
-    }
+    // Editing tags can unlock or flag coupons, so existing dreams change them through their own endpoint.
+    const request = editingEntryId
+      ? api.updateEntry({ id: editingEntryId }, { ...fields, updatedAt: entryBaseVersion ?? '' })
+      : api.createEntry({ ...fields, tagIds: entryFormState.tagIds });
 
-    if (!isEditingEntry) {
-      const trimmedUserId = entryFormState.userId.trim();
-      payload.userId = trimmedUserId || DEFAULT_USER_ID;
-    }
+    const existing = editingEntryId ? entriesById.get(editingEntryId) : undefined;
+    const currentTagIds = existing?.tags?.map((tag) => tag.id) ?? [];
+    const tagsChanged =
+      currentTagIds.length !== entryFormState.tagIds.length ||
+      entryFormState.tagIds.some((tagId) => !currentTagIds.includes(tagId));
+    const selectedTags = entryFormState.tagIds.flatMap((tagId) => tagsById.get(tagId) ?? []);
+    const tempId = createTempId();
 
     setSubmittingEntry(true);
 
     try {
-      const endpoint = isEditingEntry
-        ? `${API_BASE}/api/entries/${editingEntryId}`
-        : `${API_BASE}/api/entries`;
-
-      const response = await fetch(endpoint, {
-        method: isEditingEntry ? 'PUT' : 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
+      const response = await sendOrQueue(request, {
+        label: isEditingEntry ? `Edit "${trimmedTitle}"` : `Add "${trimmedTitle}"`,
+        tempId: isEditingEntry ? undefined : tempId,
       });
 
-      if (!response.ok) {
-        throw new Error(`Unable to save dream (${response.status})`);
+      let saved: AgendaEntry = response
+        ? response
+        : ({
+            ...(existing ?? {
+              id: tempId,
+              spaceId: space?.id ?? '',
+              done: false,
+              completedById: null,
+              completedAt: null,
+              icalUid: null,
+              createdAt: new Date().toISOString(),
+              updatedAt: new Date().toISOString(),
+              userId: session?.user.id ?? '',
+              steps: [],
+              attachments: [],
+              reflection: null,
+              _count: { occurrences: 0 },
+            }),
+            ...fields,
+            tags: selectedTags,
+          } satisfies AgendaEntry);
+
+      if (isEditingEntry && tagsChanged) {
+        const result = await sendOrQueue(api.setEntryTags({ id: saved.id }, { tagIds: entryFormState.tagIds }), {
+          label: `Retag "${trimmedTitle}"`,
+        });
+
+        if (!result) {
+          saved = { ...saved, tags: selectedTags };
+        } else {
+          applyCouponUpdates([...result.unlockedCoupons, ...result.affectedCoupons]);
+          showUnlockToast(result.unlockedCoupons);
+          saved = result.entry;
+        }
       }
 
-      const saved: AgendaEntry = await response.json();
       setEntries((prev) =>
         isEditingEntry ? prev.map((entry) => (entry.id === saved.id ? saved : entry)) : [saved, ...prev]
       );
 
-      if (!isEditingEntry) {
-        const key = letterKey(saved.title);
-        setPageByLetter((prev) => ({ ...prev, [key]: 1 }));
-      }
+      setAgendaLetter(letterKey(saved.title));
+      setAgendaVersion((prev) => prev + 1);
 
       closeEntryForm();
     } catch (err) {
+      const conflict = readConflict<AgendaEntry>(err);
+      if (conflict) {
+        setEntries((prev) => prev.map((entry) => (entry.id === conflict.id ? conflict : entry)));
+        setEntryBaseVersion(conflict.updatedAt);
+        setEntryConflict(conflict);
+        return;
+      }
+
       setEntryFormError(err instanceof Error ? err.message : 'Unable to save dream');
     } finally {
       setSubmittingEntry(false);
@@ -400,56 +751,75 @@ function App() {
       return;
     }
 
+    const maxRedemptions = couponFormState.maxRedemptions.trim() ? Number(couponFormState.maxRedemptions) : null;
+    if (
+      maxRedemptions !== null &&
+      (!Number.isInteger(maxRedemptions) || maxRedemptions < 1 || maxRedemptions > MAX_COUPON_REDEMPTIONS)
+    ) {
+      setCouponFormError(`Uses must be a whole number from 1 to ${MAX_COUPON_REDEMPTIONS}, or empty for no limit.`);
+      return;
+    }
+
     let unlockCondition: CouponUnlockCondition | null = null;
 
-    if (couponFormState.unlockMode === 'dreamCompleted') {
-      if (!couponFormState.dreamId) {
-        setCouponFormError('Pick the dream that should unlock this coupon.');
+    if (couponFormState.unlockMode === 'rule') {
+      try {
+        unlockCondition = draftToCondition(couponFormState.rule);
+      } catch (err) {
+        setCouponFormError(err instanceof Error ? err.message : 'This unlock rule is incomplete.');
         return;
       }
-
-      unlockCondition = {
-        type: 'dreamCompleted',
-        value: couponFormState.dreamId,
-      };
     }
 
-    if (couponFormState.unlockMode === 'dreamCount') {
-      const dreamCount = Number(couponFormState.dreamCount);
-
-      if (!Number.isInteger(dreamCount) || dreamCount <= 0) {
-        setCouponFormError('Use a valid number of completed dreams.');
-        return;
-      }
+    const fields = {
+      title: trimmedTitle,
+      description: couponFormState.description.trim() || null,
+      unlockCondition,
+      relockPolicy: couponFormState.relockPolicy,
+      expiresAt: couponFormState.expiresAt || null,
+      maxRedemptions,
+      recipientId: couponFormState.recipientId || null,
+    };
 
-      unlockCondition = {
-        type: 'dreamCount',
-        value: dreamCount,
-      };
-    }
+    const request = editingCouponId
+      ? api.updateCoupon({ id: editingCouponId }, { ...fields, updatedAt: couponBaseVersion ?? '' })
+      : api.createCoupon(fields);
+    const existing = editingCouponId ? couponsById.get(editingCouponId) : undefined;
+    const tempId = createTempId();
 
     setSubmittingCoupon(true);
 
     try {
-      const endpoint = isEditingCoupon
-        ? `${API_BASE}/api/coupons/${editingCouponId}`
-        : `${API_BASE}/api/coupons`;
-
-      const response = await fetch(endpoint, {
-        method: isEditingCoupon ? 'PUT' : 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          title: trimmedTitle,
-          description: couponFormState.description.trim() || undefined,
-          unlockCondition,
-        }),
+      const response = await sendOrQueue(request, {
+        label: isEditingCoupon ? `Edit the coupon "${trimmedTitle}"` : `Add the coupon "${trimmedTitle}"`,
+        tempId: isEditingCoupon ? undefined : tempId,
       });
 
-      if (!response.ok) {
-        throw new Error(`Unable to save coupon (${response.status})`);
-      }
+      // Whether a rule is met yet is the server's call; until it answers, only a coupon without one shows unlocked.
+      const saved: Coupon = response
+        ? response
+        : ({
+            ...(existing ?? {
+              id: tempId,
+              spaceId: space?.id ?? '',
+              userId: session?.user.id ?? '',
+              createdAt: new Date().toISOString(),
+              updatedAt: new Date().toISOString(),
+              unlocked: unlockCondition === null,
+              redeemed: false,
+              redeemedAt: null,
+              redeemedById: null,
+              redemptionCount: 0,
+              requestStatus: null,
+              requestedAt: null,
+              respondedAt: null,
+              scheduledFor: null,
+              needsReview: false,
+              reviewReason: null,
+            }),
+            ...fields,
+          } satisfies Coupon);
 
-      const saved: Coupon = await response.json();
       setCoupons((prev) =>
         isEditingCoupon ? prev.map((coupon) => (coupon.id === saved.id ? saved : coupon)) : [saved, ...prev]
       );
@@ -460,12 +830,107 @@ function App() {
 
       closeCouponForm();
     } catch (err) {
+      const conflict = readConflict<Coupon>(err);
+      if (conflict) {
+        setCoupons((prev) => prev.map((coupon) => (coupon.id === conflict.id ? conflict : coupon)));
+        setCouponBaseVersion(conflict.updatedAt);
+        setCouponConflict(conflict);
+        return;
+      }
+
       setCouponFormError(err instanceof Error ? err.message : 'Unable to save coupon');
     } finally {
       setSubmittingCoupon(false);
     }
   };
 
+  const applyCouponUpdates = (updated: Coupon[]) => {
+    if (updated.length === 0) return;
+    setCoupons((prev) => prev.map((coupon) => updated.find((item) => item.id === coupon.id) ?? coupon));
+  };
+
+  const applyEntryResult = (data: EntryMutationResult) => {
+    setEntries((prev) => prev.map((item) => (item.id === data.entry.id ? data.entry : item)));
+    setAgendaVersion((prev) => prev + 1);
+    applyCouponUpdates([...data.unlockedCoupons, ...data.affectedCoupons]);
+    showUnlockToast(data.unlockedCoupons);
+  };
+
+  const handleToggleStep = async (entry: AgendaEntry, step: EntryStep) => {
+    const patchStep = (done: boolean) =>
+      setEntries((prev) =>
+        prev.map((item) =>
+          item.id === entry.id
+            ? {
+                ...item,
+                steps: item.steps?.map((candidate) => (candidate.id === step.id ? { ...candidate, done } : candidate)),
+              }
+            : item
+        )
+      );
+
+    patchStep(!step.done);
+
+    try {
+      const result = await sendOrQueue(api.updateStep({ id: entry.id, stepId: step.id }, { done: !step.done }), {
+        label: `${step.done ? 'Untick' : 'Tick'} "${step.title}" on "${entry.title}"`,
+      });
+
+      // The dream coming true with its last step, and any coupons that unlocks, arrive once the change syncs.
+      if (!result) return;
+
+      applyEntryResult(result);
+    } catch (err) {
+      patchStep(step.done);
+      alert(err instanceof Error ? err.message : 'Unable to update step');
+    }
+  };
+
+  const handleAddStep = async (entryId: string, title: string) => {
+    applyEntryResult(await client.createStep({ id: entryId }, { title }));
+  };
+
+  const handleDeleteStep = async (entryId: string, stepId: string) => {
+    applyEntryResult(await client.deleteStep({ id: entryId, stepId }));
+  };
+
+  const handleReorderSteps = async (entryId: string, stepIds: string[]) => {
+    const steps = await client.reorderSteps({ id: entryId }, { stepIds });
+    setEntries((prev) => prev.map((item) => (item.id === entryId ? { ...item, steps } : item)));
+  };
+
+  const handleUploadAttachments = async (entryId: string, files: File[]) => {
+    const body = new FormData();
+    for (const file of files) body.append('files', file);
+    const updated = await client.uploadAttachments({ id: entryId }, body);
+    setEntries((prev) => prev.map((item) => (item.id === entryId ? updated : item)));
+  };
+
+  const handleDeleteAttachment = async (entryId: string, attachmentId: string) => {
+    const updated = await client.deleteAttachment({ id: entryId, attachmentId });
+    setEntries((prev) => prev.map((item) => (item.id === entryId ? updated : item)));
+  };
+
+  const handleCreateTag = async (name: string) => {
+    const created = await client.createTag({ name });
+    setTags((prev) => sortTags([...prev, created]));
+    return created;
+  };
+
+  const handleRenameTag = async (tag: Tag, name: string) => {
+    const renamed = await client.renameTag({ id: tag.id }, { name });
+    setTags((prev) => sortTags(prev.map((item) => (item.id === renamed.id ? renamed : item))));
+    setEntries((prev) => renameEntryTags(prev, [renamed]));
+  };
+
+  const handleDeleteTag = async (tag: Tag) => {
+    const data = await client.deleteTag({ id: tag.id });
+    setTags((prev) => prev.filter((item) => item.id !== data.id));
+    setEntries((prev) => removeEntryTag(prev, data.id));
+    applyCouponUpdates(data.affectedCoupons);
+    setAgendaVersion((prev) => prev + 1);
+  };
+
   const handleDeleteEntry = async (entry: AgendaEntry) => {
     const confirmation = window.confirm(`Erase "${entry.title}" from your dreams?`);
     if (!confirmation) return;
@@ -477,15 +942,19 @@ function App() {
     });
 
     try {
-      const response = await fetch(`${API_BASE}/api/entries/${entry.id}`, {
-        method: 'DELETE',
-      });
+      const data = await sendOrQueue(api.deleteEntry({ id: entry.id }), { label: `Erase "${entry.title}"` });
 
-      if (!response.ok) {
-        throw new Error(`Unable to delete entry (${response.status})`);
+      if (!data) {
+        setEntries((prev) => prev.filter((item) => item.id !== entry.id));
+        setEntryOptions((prev) => prev.filter((option) => option.id !== entry.id));
+        setAgendaVersion((prev) => prev + 1);
+        return;
       }
 
-      setEntries((prev) => prev.filter((item) => item.id !== entry.id));
+      setEntries((prev) => prev.filter((item) => item.id !== data.id));
+      setEntryOptions((prev) => prev.filter((option) => option.id !== data.id));
+      applyCouponUpdates(data.affectedCoupons);
+      setAgendaVersion((prev) => prev + 1);
     } catch (err) {
       alert(err instanceof Error ? err.message : 'Unable to delete entry');
     } finally {
@@ -497,39 +966,72 @@ function App() {
     }
   };
 
-  const handleToggleDone = async (entry: AgendaEntry) => {
-    const nextDone = !entry.done;
-    setEntries((prev) => prev.map((item) => (item.id === entry.id ? { ...item, done: nextDone } : item)));
+  const handleMoveEntry = async (entry: AgendaEntry, date: string | null) => {
+    if ((entry.date?.slice(0, 10) ?? null) === date) return;
+
+    setEntries((prev) => prev.map((item) => (item.id === entry.id ? { ...item, date } : item)));
 
     try {
-      const response = await fetch(`${API_BASE}/api/entries/${entry.id}/done`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ done: nextDone }),
-      });
+      const saved = await sendOrQueue(
+        api.updateEntry({ id: entry.id }, { title: entry.title, date, updatedAt: entry.updatedAt }),
+        { label: `Move "${entry.title}"` }
+      );
+
+      if (!saved) return;
 
-      if (!response.ok) {
-        throw new Error(`Unable to update entry (${response.status})`);
+      setEntries((prev) => prev.map((item) => (item.id === saved.id ? saved : item)));
+      setAgendaVersion((prev) => prev + 1);
+    } catch (err) {
+      const conflict = readConflict<AgendaEntry>(err);
+      if (conflict) {
+        setEntries((prev) => prev.map((item) => (item.id === conflict.id ? conflict : item)));
+        alert('This dream was changed somewhere else, so it stayed where it was. Try moving it again.');
+        return;
       }
 
-      const data: { entry: AgendaEntry; unlockedCoupons: Coupon[] } = await response.json();
+      setEntries((prev) => prev.map((item) => (item.id === entry.id ? { ...item, date: entry.date } : item)));
+      alert(err instanceof Error ? err.message : 'Unable to move dream');
+    }
+  };
 
-      setEntries((prev) => prev.map((item) => (item.id === data.entry.id ? data.entry : item)));
-      if (data.unlockedCoupons.length > 0) {
-        setCoupons((prev) =>
-          prev.map((coupon) => data.unlockedCoupons.find((item) => item.id === coupon.id) ?? coupon)
-        );
-        showUnlockToast(data.unlockedCoupons);
-      }
+  /** Ticking a dream opens the reflection dialog first; it is marked done from there, with or without one. */
+  const handleToggleDone = (entry: AgendaEntry) => {
+    if (entry.done) {
+      handleSetDone(entry, { done: false });
+    } else {
+      setReflectingEntry(entry);
+    }
+  };
+
+  const handleSaveReflection = (entry: AgendaEntry, reflection: ReflectionBody | null) => {
+    setReflectingEntry(null);
+    handleSetDone(entry, reflection ? { done: true, reflection } : { done: true });
+  };
+
+  const handleSetDone = async (entry: AgendaEntry, body: EntryDoneBody) => {
+    const nextDone = body.done;
+    setEntries((prev) => prev.map((item) => (item.id === entry.id ? { ...item, done: nextDone } : item)));
+
+    try {
+      const result = await sendOrQueue(api.setEntryDone({ id: entry.id }, body), {
+        label: !nextDone
+          ? `Reopen "${entry.title}"`
+          : entry.done
+            ? `Save the memory of "${entry.title}"`
+            : `Mark "${entry.title}" as come true`,
+      });
+
+      // Unlocked coupons arrive with the server's answer once the change syncs.
+      if (!result) return;
+
+      applyEntryResult(result);
     } catch (err) {
       setEntries((prev) => prev.map((item) => (item.id === entry.id ? { ...item, done: entry.done } : item)));
       alert(err instanceof Error ? err.message : 'Unable to update entry');
     }
   };
 
-  const handleRedeemCoupon = async (coupon: Coupon) => {
-    const nextRedeemed = !coupon.redeemed;
-
+  const handleRedeemCoupon = async (coupon: Coupon, redeemed: boolean) => {
     setRedeemingIds((prev) => {
       const next = new Set(prev);
       next.add(coupon.id);
@@ -537,19 +1039,40 @@ function App() {
     });
 
     try {
-      const response = await fetch(`${API_BASE}/api/coupons/${coupon.id}/redeem`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ redeemed: nextRedeemed }),
+      const updated = await sendOrQueue(api.redeemCoupon({ id: coupon.id }, { redeemed }), {
+        label: redeemed ? `Redeem "${coupon.title}"` : `Take back a use of "${coupon.title}"`,
       });
 
-      if (!response.ok) {
-        throw new Error(`Unable to update coupon (${response.status})`);
+      if (!updated) {
+        // Until the server answers, an undone use only drops the count; who used it before is not known here.
+        const redemptionCount = Math.max(coupon.redemptionCount + (redeemed ? 1 : -1), 0);
+        setCoupons((prev) =>
+          prev.map((item) =>
+            item.id === coupon.id
+              ? {
+                  ...item,
+                  redemptionCount,
+                  redeemed: item.maxRedemptions !== null && redemptionCount >= item.maxRedemptions,
+                  redeemedAt: redeemed ? new Date().toISOString() : redemptionCount > 0 ? item.redeemedAt : null,
+                  redeemedById: redeemed
+                    ? (session?.user.id ?? null)
+                    : redemptionCount > 0
+                      ? item.redeemedById
+                      : null,
+                }
+              : item
+          )
+        );
+        return;
       }
 
-      const updated: Coupon = await response.json();
       setCoupons((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
     } catch (err) {
+      // Used on another device at the same moment: show the coupon as it is now.
+      const conflict = readConflict<Coupon>(err);
+      if (conflict) {
+        setCoupons((prev) => prev.map((item) => (item.id === conflict.id ? conflict : item)));
+      }
       alert(err instanceof Error ? err.message : 'Unable to update coupon');
     } finally {
       setRedeemingIds((prev) => {
@@ -560,10 +1083,106 @@ function App() {
     }
   };
 
-  const handlePageChange = (letter: string, page: number) => {
-    setPageByLetter((prev) => ({ ...prev, [letter]: page }));
+  const handleCouponRequest = async (coupon: Coupon, action: CouponRequestAction, scheduledFor?: string) => {
+    setRedeemingIds((prev) => {
+      const next = new Set(prev);
+      next.add(coupon.id);
+      return next;
+    });
+
+    try {
+      const updated = await client.send(
+        action === 'request'
+          ? api.requestCoupon({ id: coupon.id })
+          : action === 'cancel'
+            ? api.cancelCouponRequest({ id: coupon.id })
+            : api.respondToCouponRequest({ id: coupon.id }, { action, scheduledFor })
+      );
+      setCoupons((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+    } catch (err) {
+      const conflict = readConflict<Coupon>(err);
+      if (conflict) {
+        setCoupons((prev) => prev.map((item) => (item.id === conflict.id ? conflict : item)));
+      }
+      alert(err instanceof Error ? err.message : 'Unable to update the request');
+    } finally {
+      setRedeemingIds((prev) => {
+        const next = new Set(prev);
+        next.delete(coupon.id);
+        return next;
+      });
+    }
+  };
+
+  const handleReviewCoupon = async (coupon: Coupon, action: 'keep' | 'relock') => {
+    setRedeemingIds((prev) => {
+      const next = new Set(prev);
+      next.add(coupon.id);
+      return next;
+    });
+
+    try {
+      const updated = await client.reviewCoupon({ id: coupon.id }, { action });
+      setCoupons((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Unable to review coupon');
+    } finally {
+      setRedeemingIds((prev) => {
+        const next = new Set(prev);
+        next.delete(coupon.id);
+        return next;
+      });
+    }
+  };
+
+  const closeSpacePanel = () => {
+    setIsSpaceOpen(false);
+    setPendingInviteCode('');
+    clearInviteCodeFromUrl();
+  };
+
+  const handleSpaceChange = (nextSpace: Space, membershipChanged: boolean) => {
+    setSpace(nextSpace);
+
+    if (membershipChanged) {
+      setPendingInviteCode('');
+      clearInviteCodeFromUrl();
+      setReloadKey((prev) => prev + 1);
+    }
+  };
+
+  const handleSignOut = async () => {
+    if (
+      pendingChanges > 0 &&
+      !window.confirm(
+        pendingChanges === 1
+          ? 'One change made offline has not synced yet. Sign out and discard it?'
+          : `${pendingChanges} changes made offline have not synced yet. Sign out and discard them?`
+      )
+    ) {
+      return;
+    }
+
+    if (session) {
+      await clearOfflineData(session.user.id).catch(() => {
+        // Nothing was stored on this device.
+      });
+    }
+
+    try {
+      await client.logout();
+    } catch {
+      // The local session is cleared either way.
+    }
+
+    setActiveView('agenda');
+    updateSession(null);
   };
 
+  if (!session) {
+    return <AuthView onAuthenticated={updateSession} />;
+  }
+
   return (
     <div className="agenda-shell">
       <header className="agenda-header">
@@ -595,8 +1214,49 @@ function App() {
             >
               Coupons
             </button>
+            <button
+              type="button"
+              className={`nav-link${activeView === 'calendar' ? ' active' : ''}`}
+              onClick={() => setActiveView('calendar')}
+            >
+              Calendar
+            </button>
+            <button
+              type="button"
+              className={`nav-link${activeView === 'timeline' ? ' active' : ''}`}
+              onClick={() => setActiveView('timeline')}
+            >
+              Timeline
+            </button>
+            <button
+              type="button"
+              className={`nav-link${activeView === 'memories' ? ' active' : ''}`}
+              onClick={() => setActiveView('memories')}
+            >
+              Memory Book
+            </button>
+            <button
+              type="button"
+              className={`nav-link${activeView === 'stats' ? ' active' : ''}`}
+              onClick={() => setActiveView('stats')}
+            >
+              Dashboard
+            </button>
           </nav>
 
+          <div className="session-bar">
+            <span>Signed in as {session.user.name}</span>
+            <button type="button" className="ghost-link" onClick={() => setIsSettingsOpen(true)}>
+              Settings
+            </button>
+            <button type="button" className="ghost-link" onClick={() => setIsSpaceOpen(true)}>
+              {space ? space.name : 'Our space'}
+            </button>
+            <button type="button" className="ghost-link" onClick={handleSignOut}>
+              Sign out
+            </button>
+          </div>
+
           <div className="header-action-row">
             <button className="new-entry-button" type="button" onClick={openNewEntry}>
               + New Dream
@@ -608,42 +1268,142 @@ function App() {
         </div>
       </header>
 
+      {(!isOnline || pendingChanges > 0 || cachedAt) && (
+        <p className="offline-banner" role="status">
+          {!isOnline
+            ? "You're offline. Changes are kept on this device and sync when you reconnect."
+            : cachedAt
+              ? `The server can't be reached, so this is what the device saved on ${formatDate(cachedAt)}.`
+              : 'Syncing changes made offline...'}
+          {pendingChanges > 0 && ` ${pendingChanges === 1 ? 'One change is' : `${pendingChanges} changes are`} waiting.`}
+        </p>
+      )}
+
+      {rejectedChanges.length > 0 && (
+        <div className="sync-problems" role="alert">
+          <p>Some changes made offline could not be saved:</p>
+          <ul>
+            {rejectedChanges.map((change, index) => (
+              <li key={`${change.label}-${index}`}>
+                <strong>{change.label}</strong> — {change.error}
+              </li>
+            ))}
+          </ul>
+          <button type="button" className="ghost-link" onClick={() => setRejectedChanges([])}>
+            Dismiss
+          </button>
+        </div>
+      )}
+
       {activeView === 'agenda' && (
         <AgendaView
-          sections={groupedSections}
+          client={client}
+          offline={!isOnline || cachedAt !== null}
+          refreshKey={agendaVersion + reloadKey}
+          activeLetter={agendaLetter}
+          onLetterChange={setAgendaLetter}
+          entriesById={entriesById}
+          onEntriesLoaded={rememberEntries}
+          members={space?.members ?? []}
+          tags={tags}
           loading={loading}
           error={error}
           deletingIds={deletingIds}
+          membersById={membersById}
           onEdit={openEditEntry}
           onDelete={handleDeleteEntry}
           onToggleDone={handleToggleDone}
-          onPageChange={handlePageChange}
+          onToggleStep={handleToggleStep}
+          onReflect={setReflectingEntry}
         />
       )}
 
       {activeView === 'search' && (
         <SearchView
-          entries={entries}
+          client={client}
+          couponsById={couponsById}
+          tags={tags}
           loading={loading}
           error={error}
-          deletingIds={deletingIds}
-          onEdit={openEditEntry}
-          onDelete={handleDeleteEntry}
-          onToggleDone={handleToggleDone}
+          onEdit={openEntryById}
+          onEditCoupon={openEditCoupon}
         />
       )}
 
       {activeView === 'coupons' && (
         <CouponsView
           coupons={coupons}
-          entriesById={entriesById}
+          dreamsById={dreamsById}
+          tagsById={tagsById}
+          membersById={membersById}
           completedDreams={completedDreams}
           loading={loading}
           error={error}
           redeemingIds={redeemingIds}
           onCreateCoupon={openCouponForm}
           onEditCoupon={openEditCoupon}
+          currentUserId={session?.user.id ?? null}
           onRedeemCoupon={handleRedeemCoupon}
+          onCouponRequest={handleCouponRequest}
+          onReviewCoupon={handleReviewCoupon}
+        />
+      )}
+
+      {activeView === 'calendar' && (
+        <CalendarView
+          client={client}
+          offline={!isOnline || cachedAt !== null}
+          refreshKey={agendaVersion + reloadKey}
+          entriesById={entriesById}
+          onEntriesLoaded={rememberEntries}
+          loading={loading}
+          error={error}
+          onEdit={openEditEntry}
+          onMoveEntry={handleMoveEntry}
+        />
+      )}
+
+      {activeView === 'timeline' && (
+        <TimelineView client={client} refreshKey={reloadKey} membersById={membersById} />
+      )}
+
+      {activeView === 'memories' && (
+        <MemoryBookView client={client} refreshKey={agendaVersion + reloadKey} membersById={membersById} />
+      )}
+
+      {activeView === 'stats' && (
+        <StatsView client={client} refreshKey={agendaVersion + reloadKey} membersById={membersById} />
+      )}
+
+      {reflectingEntry && (
+        <ReflectionModal
+          entry={reflectingEntry}
+          members={space?.members ?? []}
+          onSave={(reflection) => handleSaveReflection(reflectingEntry, reflection)}
+          onClose={() => setReflectingEntry(null)}
+        />
+      )}
+
+      {isSpaceOpen && space && (
+        <SpaceModal
+          space={space}
+          currentUserId={session.user.id}
+          initialInviteCode={pendingInviteCode}
+          client={client}
+          onSpaceChange={handleSpaceChange}
+          onClose={closeSpacePanel}
+        />
+      )}
+
+      {isSettingsOpen && (
+        <SettingsModal
+          client={client}
+          tags={tags}
+          offline={!isOnline}
+          onRenameTag={handleRenameTag}
+          onDeleteTag={handleDeleteTag}
+          onDataImported={() => setReloadKey((prev) => prev + 1)}
+          onClose={() => setIsSettingsOpen(false)}
         />
       )}
 
@@ -685,21 +1445,6 @@ function App() {
                 />
               </label>
 
-              {!isEditingEntry && (
-                <label className="form-field">
-                  <span>Dreamer</span>
-                  <input
-                    type="text"
-                    name="userId"
-                    value={entryFormState.userId}
-                    onChange={(event) =>
-                      setEntryFormState((prev) => ({ ...prev, userId: event.target.value }))
-                    }
-                    placeholder="couple"
-                  />
-                </label>
-              )}
-
               <label className="form-field">
                 <span>Note</span>
                 <textarea
@@ -713,6 +1458,89 @@ function App() {
                 />
               </label>
 
+              <label className="form-field">
+                <span>Date</span>
+                <input
+                  type="date"
+                  name="date"
+                  value={entryFormState.date}
+                  onChange={(event) => setEntryFormState((prev) => ({ ...prev, date: event.target.value }))}
+                />
+              </label>
+
+              <TagPicker
+                tags={tags}
+                selectedIds={entryFormState.tagIds}
+                offline={!isOnline}
+                onChange={(tagIds) => setEntryFormState((prev) => ({ ...prev, tagIds }))}
+                onCreate={handleCreateTag}
+              />
+
+              <RecurrenceEditor
+                rule={entryFormState.recurrence}
+                onChange={(recurrence) => setEntryFormState((prev) => ({ ...prev, recurrence }))}
+              />
+
+              {entryFormState.date && (
+                <ReminderPicker
+                  offsets={entryFormState.reminderOffsets}
+                  onChange={(reminderOffsets) => setEntryFormState((prev) => ({ ...prev, reminderOffsets }))}
+                />
+              )}
+
+              <label className="form-checkbox">
+                <input
+                  type="checkbox"
+                  name="autoComplete"
+                  checked={entryFormState.autoComplete}
+                  onChange={(event) =>
+                    setEntryFormState((prev) => ({ ...prev, autoComplete: event.target.checked }))
+                  }
+                />
+                <span>Mark the dream as come true once every step is done</span>
+              </label>
+
+              {editingEntryId && isTempId(editingEntryId) ? (
+                <p className="form-hint">Steps can be added once this dream has synced.</p>
+              ) : editingEntryId ? (
+                <StepsEditor
+                  steps={entriesById.get(editingEntryId)?.steps ?? []}
+                  offline={!isOnline}
+                  onAdd={(title) => handleAddStep(editingEntryId, title)}
+                  onDelete={(stepId) => handleDeleteStep(editingEntryId, stepId)}
+                  onReorder={(stepIds) => handleReorderSteps(editingEntryId, stepIds)}
+                />
+              ) : (
+                <p className="form-hint">Save the dream first, then open it again to add its steps.</p>
+              )}
+
+              {editingEntryId && !isTempId(editingEntryId) && (
+                <AttachmentsEditor
+                  client={client}
+                  attachments={entriesById.get(editingEntryId)?.attachments ?? []}
+                  offline={!isOnline}
+                  onUpload={(files) => handleUploadAttachments(editingEntryId, files)}
+                  onDelete={(attachmentId) => handleDeleteAttachment(editingEntryId, attachmentId)}
+                />
+              )}
+
+              {entryConflict && (
+                <div className="edit-conflict" role="alert">
+                  <p>This dream was changed somewhere else while you were editing it. The saved version reads:</p>
+                  <dl>
+                    <dt>Dream</dt>
+                    <dd>{entryConflict.title}</dd>
+                    <dt>Note</dt>
+                    <dd>{entryConflict.note || 'No note'}</dd>
+                    <dt>Date</dt>
+                    <dd>{formatDate(entryConflict.date) || 'No date'}</dd>
+                  </dl>
+                  <button type="button" className="ghost-button" onClick={loadEntryConflict} disabled={submittingEntry}>
+                    Load the saved version
+                  </button>
+                </div>
+              )}
+
               {entryFormError && <p className="form-error">{entryFormError}</p>}
 
               <footer className="form-actions">
@@ -724,9 +1552,11 @@ function App() {
                     ? isEditingEntry
                       ? 'Updating...'
                       : 'Saving...'
-                    : isEditingEntry
-                      ? 'Update Dream'
-                      : 'Save Dream'}
+                    : entryConflict
+                      ? 'Overwrite with Mine'
+                      : isEditingEntry
+                        ? 'Update Dream'
+                        : 'Save Dream'}
                 </button>
               </footer>
             </form>
@@ -778,6 +1608,51 @@ function App() {
                 />
               </label>
 
+              <label className="form-field">
+                <span>Valid until</span>
+                <input
+                  type="date"
+                  name="expiresAt"
+                  value={couponFormState.expiresAt}
+                  onChange={(event) => setCouponFormState((prev) => ({ ...prev, expiresAt: event.target.value }))}
+                />
+              </label>
+
+              <label className="form-field">
+                <span>Uses</span>
+                <input
+                  type="number"
+                  name="maxRedemptions"
+                  min={1}
+                  max={MAX_COUPON_REDEMPTIONS}
+                  value={couponFormState.maxRedemptions}
+                  onChange={(event) =>
+                    setCouponFormState((prev) => ({ ...prev, maxRedemptions: event.target.value }))
+                  }
+                  placeholder="No limit"
+                />
+              </label>
+
+              {(space?.members.length ?? 0) > 1 && (
+                <label className="form-field">
+                  <span>For</span>
+                  <select
+                    name="recipientId"
+                    value={couponFormState.recipientId}
+                    onChange={(event) => setCouponFormState((prev) => ({ ...prev, recipientId: event.target.value }))}
+                  >
+                    <option value="">Either of us, no asking needed</option>
+                    {space?.members
+                      .filter((member) => member.id !== couponGiverId)
+                      .map((member) => (
+                        <option key={member.id} value={member.id}>
+                          {member.name}, who asks before using it
+                        </option>
+                      ))}
+                  </select>
+                </label>
+              )}
+
               <label className="form-field">
                 <span>Unlock Rule</span>
                 <select
@@ -786,55 +1661,64 @@ function App() {
                   onChange={(event) =>
                     setCouponFormState((prev) => ({
                       ...prev,
-                      unlockMode: event.target.value as 'manual' | 'dreamCompleted' | 'dreamCount',
+                      unlockMode: event.target.value as 'manual' | 'rule',
                     }))
                   }
                 >
                   <option value="manual">No condition</option>
-                  <option value="dreamCompleted">Specific dream</option>
-                  <option value="dreamCount">Completed dream count</option>
+                  <option value="rule">When a rule comes true</option>
                 </select>
               </label>
 
-              {couponFormState.unlockMode === 'dreamCompleted' && (
+              {couponFormState.unlockMode === 'rule' && (
+                <UnlockRuleEditor
+                  rule={couponFormState.rule}
+                  dreams={dreamOptions}
+                  tags={tags}
+                  depth={1}
+                  onChange={(rule) => setCouponFormState((prev) => ({ ...prev, rule }))}
+                />
+              )}
+
+              {couponFormState.unlockMode === 'rule' && (
                 <label className="form-field">
-                  <span>Dream to unlock it</span>
+                  <span>If the rule stops holding</span>
                   <select
-                    name="dreamId"
-                    value={couponFormState.dreamId}
+                    name="relockPolicy"
+                    value={couponFormState.relockPolicy}
                     onChange={(event) =>
-                      setCouponFormState((prev) => ({ ...prev, dreamId: event.target.value }))
+                      setCouponFormState((prev) => ({
+                        ...prev,
+                        relockPolicy: event.target.value as RelockPolicy,
+                      }))
                     }
                   >
-                    <option value="">Choose a dream</option>
-                    {entries
-                      .slice()
-                      .sort((first, second) =>
-                        first.title.localeCompare(second.title, undefined, { sensitivity: 'base' })
-                      )
-                      .map((entry) => (
-                        <option key={entry.id} value={entry.id}>
-                          {entry.title}
-                        </option>
-                      ))}
+                    <option value="keep">Keep it unlocked</option>
+                    <option value="relock">Lock it again</option>
+                    <option value="flag">Flag it for review</option>
                   </select>
                 </label>
               )}
 
-              {couponFormState.unlockMode === 'dreamCount' && (
-                <label className="form-field">
-                  <span>Completed dreams required</span>
-                  <input
-                    type="number"
-                    min="1"
-                    step="1"
-                    name="dreamCount"
-                    value={couponFormState.dreamCount}
-                    onChange={(event) =>
-                      setCouponFormState((prev) => ({ ...prev, dreamCount: event.target.value }))
-                    }
-                  />
-                </label>
+              {couponConflict && (
+                <div className="edit-conflict" role="alert">
+                  <p>This coupon was changed somewhere else while you were editing it. The saved version reads:</p>
+                  <dl>
+                    <dt>Coupon</dt>
+                    <dd>{couponConflict.title}</dd>
+                    <dt>Description</dt>
+                    <dd>{couponConflict.description || 'No description'}</dd>
+                    <dt>Unlocks</dt>
+                    <dd>{describeUnlockCondition(couponConflict.unlockCondition, dreamsById, tagsById)}</dd>
+                    <dt>Uses</dt>
+                    <dd>{couponConflict.maxRedemptions ?? 'No limit'}</dd>
+                    <dt>Valid until</dt>
+                    <dd>{formatDate(couponConflict.expiresAt) || 'No end date'}</dd>
+                  </dl>
+                  <button type="button" className="ghost-button" onClick={loadCouponConflict} disabled={submittingCoupon}>
+                    Load the saved version
+                  </button>
+                </div>
               )}
 
               {couponFormError && <p className="form-error">{couponFormError}</p>}
@@ -844,7 +1728,13 @@ function App() {
                   Cancel
                 </button>
                 <button type="submit" disabled={submittingCoupon}>
-                  {submittingCoupon ? 'Writing...' : isEditingCoupon ? 'Update Coupon' : 'Save Coupon'}
+                  {submittingCoupon
+                    ? 'Writing...'
+                    : couponConflict
+                      ? 'Overwrite with Mine'
+                      : isEditingCoupon
+                        ? 'Update Coupon'
+                        : 'Save Coupon'}
                 </button>
               </footer>
             </form>
@@ -855,446 +1745,4 @@ function App() {
   );
 }
 
-type AgendaViewProps = {
-  sections: AgendaSection[];
-  loading: boolean;
-  error: string | null;
-  deletingIds: Set<string>;
-  onEdit: (entry: AgendaEntry) => void;
-  onDelete: (entry: AgendaEntry) => void;
-  onToggleDone: (entry: AgendaEntry) => void;
-  onPageChange: (letter: string, page: number) => void;
-};
-
-function AgendaView({
-  sections,
-  loading,
-  error,
-  deletingIds,
-  onEdit,
-  onDelete,
-  onToggleDone,
-  onPageChange,
-}: AgendaViewProps) {
-  if (loading) {
-    return <p className="agenda-status">Gathering your dreams...</p>;
-  }
-
-  if (error) {
-    return <p className="agenda-status error">{error}</p>;
-  }
-
-  if (sections.length === 0) {
-    return <p className="agenda-status">Write the first dream and start the story.</p>;
-  }
-
-  return (
-    <div className="book-section book-wrapper">
-      {sections.map(({ letter, visible, totalPages, currentPage }) => (
-        <section key={letter} className="book-section">
-          <header className="section-header">
-            <span className="section-letter">{letter}</span>
-          </header>
-
-          <ul className="entries-list">
-            {visible.map((entry) => (
-              <EntryCard
-                key={entry.id}
-                entry={entry}
-                isDeleting={deletingIds.has(entry.id)}
-                onEdit={onEdit}
-                onDelete={onDelete}
-                onToggleDone={onToggleDone}
-              />
-            ))}
-          </ul>
-
-          {totalPages > 1 && (
-            <nav className="letter-pagination" aria-label={`Pages for letter ${letter}`}>
-              <button
-                type="button"
-                className="pagination-button"
-                onClick={() => onPageChange(letter, currentPage - 1)}
-                disabled={currentPage === 1}
-              >
-                Previous
-              </button>
-              <div className="pagination-pages">
-                {Array.from({ length: totalPages }, (_, index) => index + 1).map((pageNumber) => (
-                  <button
-                    key={pageNumber}
-                    type="button"
-                    className={`pagination-button${pageNumber === currentPage ? ' active' : ''}`}
-                    onClick={() => onPageChange(letter, pageNumber)}
-                    aria-current={pageNumber === currentPage ? 'page' : undefined}
-                  >
-                    {pageNumber}
-                  </button>
-                ))}
-              </div>
-              <button
-                type="button"
-                className="pagination-button"
-                onClick={() => onPageChange(letter, currentPage + 1)}
-                disabled={currentPage === totalPages}
-              >
-                Next
-              </button>
-            </nav>
-          )}
-        </section>
-      ))}
-    </div>
-  );
-}
-
-type SearchViewProps = {
-  entries: AgendaEntry[];
-  loading: boolean;
-  error: string | null;
-  deletingIds: Set<string>;
-  onEdit: (entry: AgendaEntry) => void;
-  onDelete: (entry: AgendaEntry) => void;
-  onToggleDone: (entry: AgendaEntry) => void;
-};
-
-function SearchView({ entries, loading, error, deletingIds, onEdit, onDelete, onToggleDone }: SearchViewProps) {
-  const [query, setQuery] = useState('');
-
-  const normalizedQuery = query.trim().toLowerCase();
-  const filtered = useMemo(() => {
-    if (!normalizedQuery) {
-      return entries;
-    }
-
-    return entries.filter((entry) => {
-      const haystack = [
-        entry.title,
-        entry.note ?? '',
-        entry.userId ?? '',
-        formatDate(entry.date),
-        formatDate(entry.createdAt),
-      ]
-        .join(' ')
-        .toLowerCase();
-
-      return haystack.includes(normalizedQuery);
-    });
-  }, [entries, normalizedQuery]);
-
-  const sections = useMemo<AgendaSection[]>(() => {
-    const bucket = new Map<string, AgendaEntry[]>();
-
-    for (const entry of filtered) {
-      const key = letterKey(entry.title);
-      const list = bucket.get(key) ?? [];
-      list.push(entry);
-      bucket.set(key, list);
-    }
-
-    return Array.from(bucket.entries())
-      .sort(([a], [b]) => a.localeCompare(b, undefined, { sensitivity: 'base' }))
-      .map(([letter, items]) => ({
-        letter,
-        visible: [...items].sort((first, second) =>
-          first.title.localeCompare(second.title, undefined, { sensitivity: 'base' })
-        ),
-        totalPages: 1,
-        currentPage: 1,
-      }));
-  }, [filtered]);
-
-  return (
-    <div className="book-wrapper search-wrapper">
-      <div className="search-lead">
-        <div className="search-controls">
-          <input
-            type="search"
-            className="search-input"
-            value={query}
-            onChange={(event) => setQuery(event.target.value)}
-            placeholder="Search dreams by title, note, user, or date..."
-            aria-label="Search dreams"
-          />
-          {query && (
-            <button type="button" className="search-clear" onClick={() => setQuery('')}>
-              Clear
-            </button>
-          )}
-        </div>
-
-        {loading && <p className="search-status">Reading your dream catalog...</p>}
-        {!loading && error && <p className="search-status agenda-status error">{error}</p>}
-        {!loading && !error && (
-          <p className="search-summary">
-            {normalizedQuery
-              ? `Found ${filtered.length} dreams for "${query.trim()}".`
-              : `Browsing all ${entries.length} dreams.`}
-          </p>
-        )}
-      </div>
-
-      {!loading && !error && sections.length === 0 && (
-        <p className="search-status">No dreams match this search.</p>
-      )}
-
-      {!loading &&
-        !error &&
-        sections.map(({ letter, visible }) => (
-          <section key={letter} className="book-section">
-            <header className="section-header">
-              <span className="section-letter">{letter}</span>
-            </header>
-
-            <ul className="entries-list search-results">
-              {visible.map((entry) => (
-                <EntryCard
-                  key={entry.id}
-                  entry={entry}
-                  isDeleting={deletingIds.has(entry.id)}
-                  onEdit={onEdit}
-                  onDelete={onDelete}
-                  onToggleDone={onToggleDone}
-                />
-              ))}
-            </ul>
-          </section>
-        ))}
-    </div>
-  );
-}
-
-type CouponsViewProps = {
-  coupons: Coupon[];
-  entriesById: Map<string, AgendaEntry>;
-  completedDreams: number;
-  loading: boolean;
-  error: string | null;
-  redeemingIds: Set<string>;
-  onCreateCoupon: () => void;
-  onEditCoupon: (coupon: Coupon) => void;
-  onRedeemCoupon: (coupon: Coupon) => void;
-};
-
-function CouponsView({
-  coupons,
-  entriesById,
-  completedDreams,
-  loading,
-  error,
-  redeemingIds,
-  onCreateCoupon,
-  onEditCoupon,
-  onRedeemCoupon,
-}: CouponsViewProps) {
-  const redeemedCoupons = coupons.filter((coupon) => coupon.redeemed);
-  const unlockedCoupons = coupons.filter((coupon) => coupon.unlocked && !coupon.redeemed);
-  const lockedCoupons = coupons.filter((coupon) => !coupon.unlocked);
-
-  if (loading) {
-    return <p className="agenda-status">Folding your coupons into place...</p>;
-  }
-
-  if (error) {
-    return <p className="agenda-status error">{error}</p>;
-  }
-
-  return (
-    <div className="book-wrapper coupons-wrapper">
-      <div className="coupons-lead">
-        <div>
-          <p className="coupon-kicker">Collected promises</p>
-          <h2 className="coupons-title">Coupons for the dreams that already moved the story forward.</h2>
-        </div>
-        <div className="coupons-summary">
-          <span>{completedDreams} dreams fulfilled</span>
-          <span>{unlockedCoupons.length} available coupons</span>
-        </div>
-        <button type="button" className="new-entry-button secondary-button" onClick={onCreateCoupon}>
-          + Create Coupon
-        </button>
-      </div>
-
-      {coupons.length === 0 && (
-        <p className="agenda-status">There are no coupons yet. Create the first one from here.</p>
-      )}
-
-      {unlockedCoupons.length > 0 && (
-        <CouponShelf
-          title="Available"
-          tone="available"
-          coupons={unlockedCoupons}
-          entriesById={entriesById}
-          redeemingIds={redeemingIds}
-          onEditCoupon={onEditCoupon}
-          onRedeemCoupon={onRedeemCoupon}
-        />
-      )}
-
-      {lockedCoupons.length > 0 && (
-        <CouponShelf
-          title="Locked"
-          tone="locked"
-          coupons={lockedCoupons}
-          entriesById={entriesById}
-          redeemingIds={redeemingIds}
-          onEditCoupon={onEditCoupon}
-          onRedeemCoupon={onRedeemCoupon}
-        />
-      )}
-
-      {redeemedCoupons.length > 0 && (
-        <CouponShelf
-          title="Redeemed"
-          tone="redeemed"
-          coupons={redeemedCoupons}
-          entriesById={entriesById}
-          redeemingIds={redeemingIds}
-          onEditCoupon={onEditCoupon}
-          onRedeemCoupon={onRedeemCoupon}
-        />
-      )}
-    </div>
-  );
-}
-
-type CouponShelfProps = {
-  title: string;
-  tone: 'available' | 'locked' | 'redeemed';
-  coupons: Coupon[];
-  entriesById: Map<string, AgendaEntry>;
-  redeemingIds: Set<string>;
-  onEditCoupon: (coupon: Coupon) => void;
-  onRedeemCoupon: (coupon: Coupon) => void;
-};
-
-function CouponShelf({
-  title,
-  tone,
-  coupons,
-  entriesById,
-  redeemingIds,
-  onEditCoupon,
-  onRedeemCoupon,
-}: CouponShelfProps) {
-  return (
-    <section className="coupon-shelf">
-      <header className="coupon-shelf-header">
-        <h3>{title}</h3>
-        <span>{coupons.length}</span>
-      </header>
-
-      <div className="coupon-grid">
-        {coupons.map((coupon) => (
-          <CouponCard
-            key={coupon.id}
-            coupon={coupon}
-            tone={tone}
-            unlockCopy={describeUnlockCondition(coupon.unlockCondition, entriesById)}
-            isRedeeming={redeemingIds.has(coupon.id)}
-            onEditCoupon={onEditCoupon}
-            onRedeemCoupon={onRedeemCoupon}
-          />
-        ))}
-      </div>
-    </section>
-  );
-}
-
-type EntryCardProps = {
-  entry: AgendaEntry;
-  isDeleting: boolean;
-  onEdit: (entry: AgendaEntry) => void;
-  onDelete: (entry: AgendaEntry) => void;
-  onToggleDone: (entry: AgendaEntry) => void;
-};
-
-function EntryCard({ entry, isDeleting, onEdit, onDelete, onToggleDone }: EntryCardProps) {
-  return (
-    <li className={`entry-card${entry.done ? ' entry-card-done' : ''}`}>
-      <div className="entry-actions">
-        <label className="entry-done-toggle">
-          <input type="checkbox" checked={entry.done} onChange={() => onToggleDone(entry)} />
-          <span>{entry.done ? '🌼 Dream come true' : '✨ Still a dream'}</span>
-        </label>
-        <button type="button" className="entry-edit-button" onClick={() => onEdit(entry)}>
-          Edit
-        </button>
-        <button
-          type="button"
-          className="entry-delete-button"
-          onClick={() => onDelete(entry)}
-          disabled={isDeleting}
-        >
-          {isDeleting ? 'Deleting...' : 'Delete'}
-        </button>
-      </div>
-
-      <strong className="entry-title">{entry.title}</strong>
-      {entry.note && <p className="entry-note">{entry.note}</p>}
-
-      <div className="entry-meta">
-        <span>{formatDate(entry.createdAt)}</span>
-      </div>
-    </li>
-  );
-}
-
-type CouponCardProps = {
-  coupon: Coupon;
-  tone: 'available' | 'locked' | 'redeemed';
-  unlockCopy: string;
-  isRedeeming: boolean;
-  onEditCoupon: (coupon: Coupon) => void;
-  onRedeemCoupon: (coupon: Coupon) => void;
-};
-
-function CouponCard({ coupon, tone, unlockCopy, isRedeeming, onEditCoupon, onRedeemCoupon }: CouponCardProps) {
-  const statusLabel =
-    tone === 'locked' ? 'Locked' : tone === 'redeemed' ? 'Redeemed' : 'Unlocked';
-
-  return (
-    <article className={`coupon-card coupon-card-${tone}`}>
-      <div className="coupon-perforation" aria-hidden="true" />
-      <div className="coupon-card-top">
-        <span className={`coupon-status coupon-status-${tone}`}>{statusLabel}</span>
-        <span className="coupon-date">{formatDate(coupon.createdAt)}</span>
-      </div>
-
-      <div className="coupon-copy">
-        <h4>{coupon.title}</h4>
-        {coupon.description ? <p>{coupon.description}</p> : <p>{unlockCopy}</p>}
-      </div>
-
-      <div className="coupon-footer">
-        <button type="button" className="entry-edit-button" onClick={() => onEditCoupon(coupon)}>
-          Edit
-        </button>
-
-       
-
-        {tone === 'available' && (
-          <>
-            <p className="coupon-hint">{unlockCopy}</p>
-            <button type="button" className="coupon-action" onClick={() => onRedeemCoupon(coupon)} disabled={isRedeeming}>
-              {isRedeeming ? 'Saving...' : 'Redeem'}
-            </button>
-          </>
-        )}
-
-        {tone === 'redeemed' && (
-          <>
-            <p className="coupon-hint">
-              Used on {formatDate(coupon.redeemedAt) || 'a special day'}.
-            </p>
-            <button type="button" className="coupon-action secondary" onClick={() => onRedeemCoupon(coupon)} disabled={isRedeeming}>
-              {isRedeeming ? 'Saving...' : 'Mark unused'}
-            </button>
-          </>
-        )}
-      </div>
-    </article>
-  );
-}
-
 export default App;
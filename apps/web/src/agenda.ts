@@ -0,0 +1,96 @@
+import type { ApiClient } from '@gomun/contract/client';
+import type { Entry as AgendaEntry, EntrySortField, LetterCount, SortOrder } from '@gomun/contract';
+
+// The agenda's filters and sort, both as the API query and applied to the dreams kept on this device.
+
+type AgendaSortKey = 'title-asc' | 'title-desc' | 'createdAt-desc' | 'createdAt-asc' | 'date-asc' | 'date-desc';
+
+export type AgendaFilters = {
+  done: 'all' | 'open' | 'done';
+  userId: string;
+  tagId: string;
+  from: string;
+  to: string;
+  sort: AgendaSortKey;
+};
+
+type EntryQuery = NonNullable<Parameters<ApiClient['listEntries']>[0]>;
+
+export const AGENDA_LETTERS = ['#', ...'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('')];
+export const AGENDA_SORT_OPTIONS: Record<AgendaSortKey, { label: string; sort: EntrySortField; order: SortOrder }> = {
+  'title-asc': { label: 'Title A–Z', sort: 'title', order: 'asc' },
+  'title-desc': { label: 'Title Z–A', sort: 'title', order: 'desc' },
+  'createdAt-desc': { label: 'Newest first', sort: 'createdAt', order: 'desc' },
+  'createdAt-asc': { label: 'Oldest first', sort: 'createdAt', order: 'asc' },
+  'date-asc': { label: 'Soonest date', sort: 'date', order: 'asc' },
+  'date-desc': { label: 'Latest date', sort: 'date', order: 'desc' },
+};
+export const DEFAULT_AGENDA_FILTERS: AgendaFilters = {
+  done: 'all',
+  userId: '',
+  tagId: '',
+  from: '',
+  to: '',
+  sort: 'title-asc',
+};
+
+const isLatinLetter = (char: string) => /^[A-Z]$/.test(char);
+
+export const letterKey = (title: string | null | undefined) => {
+  const initial = title?.trim().charAt(0).toUpperCase() ?? '';
+  return isLatinLetter(initial) ? initial : '#';
+};
+
+export function buildEntryQuery(filters: AgendaFilters): EntryQuery {
+  const { sort, order } = AGENDA_SORT_OPTIONS[filters.sort];
+
+  return {
+    done: filters.done === 'all' ? undefined : filters.done === 'done' ? 'true' : 'false',
+    userId: filters.userId || undefined,
+    tag: filters.tagId || undefined,
+    from: filters.from || undefined,
+    to: filters.to || undefined,
+    sort,
+    order,
+  };
+}
+
+// Mirrors the server's agenda filters and sort so the library still opens from the copy kept on this device.
+export function buildLocalAgenda(entries: AgendaEntry[], filters: AgendaFilters) {
+  const { sort, order } = AGENDA_SORT_OPTIONS[filters.sort];
+  const direction = order === 'asc' ? 1 : -1;
+
+  const matching = entries.filter((entry) => {
+    const day = entry.date?.slice(0, 10) ?? null;
+    if (filters.done !== 'all' && entry.done !== (filters.done === 'done')) return false;
+    if (filters.userId && entry.userId !== filters.userId) return false;
+    if (filters.tagId && !entry.tags?.some((tag) => tag.id === filters.tagId)) return false;
+    if (filters.from && (!day || day < filters.from)) return false;
+    if (filters.to && (!day || day > filters.to)) return false;
+    return true;
+  });
+
+  matching.sort((first, second) => {
+    if (sort === 'title') {
+      return direction * first.title.localeCompare(second.title, undefined, { sensitivity: 'base' });
+    }
+
+    const firstValue = sort === 'date' ? first.date : first.createdAt;
+    const secondValue = sort === 'date' ? second.date : second.createdAt;
+    if (!firstValue || !secondValue) return firstValue ? -1 : secondValue ? 1 : 0;
+    return direction * firstValue.localeCompare(secondValue);
+  });
+
+  const byLetter = new Map<string, AgendaEntry[]>();
+  for (const entry of matching) {
+    const letter = letterKey(entry.title);
+    byLetter.set(letter, [...(byLetter.get(letter) ?? []), entry]);
+  }
+
+  const counts: LetterCount[] = AGENDA_LETTERS.flatMap((letter) => {
+    const count = byLetter.get(letter)?.length ?? 0;
+    return count > 0 ? [{ letter, count }] : [];
+  });
+
+  return { counts, byLetter };
+}
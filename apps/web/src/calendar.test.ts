@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { addMonths, groupByDay, monthGrid, toDayKey } from './calendar';
+
+const dream = (title: string, date: string | null) => ({ title, date });
+
+describe('toDayKey', () => {
+  it('keys a day by its local calendar date, padded', () => {
+    assert.equal(toDayKey(new Date(2026, 2, 5)), '2026-03-05');
+    assert.equal(toDayKey(new Date(2026, 11, 31, 23, 59)), '2026-12-31');
+  });
+});
+
+describe('addMonths', () => {
+  it('moves to the first of the month, across year ends', () => {
+    assert.equal(toDayKey(addMonths(new Date(2026, 0, 1), -1)), '2025-12-01');
+    assert.equal(toDayKey(addMonths(new Date(2026, 11, 1), 1)), '2027-01-01');
+  });
+});
+
+describe('monthGrid', () => {
+  it('starts on the Monday on or before the first and runs six weeks', () => {
+    // March 2026 starts on a Sunday, so the grid opens with six days of February.
+    const days = monthGrid(new Date(2026, 2, 1)).map(toDayKey);
+
+    assert.equal(days.length, 42);
+    assert.equal(days[0], '2026-02-23');
+    assert.equal(days[6], '2026-03-01');
+    assert.equal(days[41], '2026-04-05');
+  });
+
+  it('opens on the first itself when the month starts on a Monday', () => {
+    const days = monthGrid(new Date(2026, 5, 1)).map(toDayKey);
+
+    assert.equal(days[0], '2026-06-01');
+    assert.equal(days[41], '2026-07-12');
+  });
+});
+
+describe('groupByDay', () => {
+  it('files dated dreams under their day, by title regardless of case, and leaves undated ones out', () => {
+    const grouped = groupByDay([
+      dream('paris', '2026-03-20T00:00:00.000Z'),
+      dream('Aurora', '2026-03-20T00:00:00.000Z'),
+      dream('Kyoto', '2026-03-21T00:00:00.000Z'),
+      dream('Someday', null),
+    ]);
+
+    assert.deepEqual([...grouped.keys()], ['2026-03-20', '2026-03-21']);
+    assert.deepEqual(grouped.get('2026-03-20')?.map((entry) => entry.title), ['Aurora', 'paris']);
+  });
+});
@@ -0,0 +1,40 @@
+import type { Entry } from '@gomun/contract';
+
+// Month arithmetic for the calendar view. Days are keyed by their local calendar date, the way dreams store them.
+
+type DatedByTitle = Pick<Entry, 'title' | 'date'>;
+
+export function toDayKey(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** The first of the month `count` months away; Date rolls the year over on its own. */
+export function addMonths(month: Date, count: number) {
+  return new Date(month.getFullYear(), month.getMonth() + count, 1);
+}
+
+/** Six Monday-first weeks, which always cover the whole month. */
+export function monthGrid(month: Date) {
+  const offset = (month.getDay() + 6) % 7;
+  return Array.from({ length: 42 }, (_, index) => new Date(month.getFullYear(), month.getMonth(), index - offset + 1));
+}
+
+export function byTitle(first: DatedByTitle, second: DatedByTitle) {
+  return first.title.localeCompare(second.title, undefined, { sensitivity: 'base' });
+}
+
+/** Dated dreams by day key, each day in title order; undated ones are left out. */
+export function groupByDay<T extends DatedByTitle>(entries: T[]) {
+  const grouped = new Map<string, T[]>();
+  for (const entry of entries) {
+    if (!entry.date) continue;
+    const key = entry.date.slice(0, 10);
+    grouped.set(key, [...(grouped.get(key) ?? []), entry]);
+  }
+  for (const group of grouped.values()) {
+    group.sort(byTitle);
+  }
+  return grouped;
+}
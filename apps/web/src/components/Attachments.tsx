@@ -0,0 +1,264 @@
+import { useEffect, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import type { ApiClient } from '@gomun/contract/client';
+import { MAX_ATTACHMENTS_PER_ENTRY } from '@gomun/contract/limits';
+import type { Attachment } from '@gomun/contract';
+import { formatDate } from '../format';
+
+/**
+ * Files are behind the session token, so they are fetched like any other call and shown through an object URL.
+ * Returns null until the file has arrived.
+ */
+function useAttachmentUrl(client: ApiClient, attachment: Attachment, thumbnail: boolean) {
+  const { entryId, id } = attachment;
+  const key = `${entryId}/${id}/${thumbnail}`;
+  const [loaded, setLoaded] = useState<{ key: string; url: string } | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    const params = { id: entryId, attachmentId: id };
+
+    (thumbnail ? client.getAttachmentThumbnail(params) : client.getAttachment(params))
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setLoaded({ key, url: objectUrl });
+      })
+      .catch(() => {
+        // A file that cannot be loaded keeps its placeholder.
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [client, entryId, id, key, thumbnail]);
+
+  return loaded?.key === key ? loaded.url : null;
+}
+
+function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+type AttachmentThumbnailProps = {
+  client: ApiClient;
+  attachment: Attachment;
+};
+
+export function AttachmentThumbnail({ client, attachment }: AttachmentThumbnailProps) {
+  if (!attachment.hasThumbnail) {
+    return (
+      <span className="attachment-thumbnail attachment-file" aria-label={attachment.fileName}>
+        {attachment.contentType === 'application/pdf' ? 'PDF' : 'File'}
+      </span>
+    );
+  }
+
+  return <AttachmentImage client={client} attachment={attachment} thumbnail className="attachment-thumbnail" />;
+}
+
+type AttachmentImageProps = {
+  client: ApiClient;
+  attachment: Attachment;
+  thumbnail: boolean;
+  className: string;
+};
+
+function AttachmentImage({ client, attachment, thumbnail, className }: AttachmentImageProps) {
+  const url = useAttachmentUrl(client, attachment, thumbnail);
+
+  return url ? (
+    <img className={className} src={url} alt={attachment.fileName} />
+  ) : (
+    <span className={`${className} attachment-loading`} aria-label={attachment.fileName} />
+  );
+}
+
+type AttachmentsEditorProps = {
+  client: ApiClient;
+  attachments: Attachment[];
+  offline: boolean;
+  onUpload: (files: File[]) => Promise<void>;
+  onDelete: (attachmentId: string) => Promise<void>;
+};
+
+export function AttachmentsEditor({ client, attachments, offline, onUpload, onDelete }: AttachmentsEditorProps) {
+  const [busy, setBusy] = useState(false);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const openIndex = attachments.findIndex((attachment) => attachment.id === openId);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setAttachmentError(null);
+    try {
+      await action();
+    } catch (err) {
+      setAttachmentError(err instanceof Error ? err.message : 'Unable to update attachments');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFiles = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Cleared so that choosing the same file again still fires a change.
+    event.target.value = '';
+    if (files.length > 0) run(() => onUpload(files));
+  };
+
+  const handleDelete = (attachment: Attachment) => {
+    if (!window.confirm(`Remove ${attachment.fileName}?`)) return;
+    run(async () => {
+      await onDelete(attachment.id);
+      if (openId === attachment.id) setOpenId(null);
+    });
+  };
+
+  const full = attachments.length >= MAX_ATTACHMENTS_PER_ENTRY;
+
+  return (
+    <div className="form-field attachments-editor">
+      <span>Photos and files</span>
+      {attachments.length > 0 && (
+        <ul className="attachments-editor-list">
+          {attachments.map((attachment) => (
+            <li key={attachment.id}>
+              <button
+                type="button"
+                className="attachment-open"
+                onClick={() => setOpenId(attachment.id)}
+                title={attachment.fileName}
+              >
+                <AttachmentThumbnail client={client} attachment={attachment} />
+              </button>
+              <button
+                type="button"
+                className="ghost-link"
+                onClick={() => handleDelete(attachment)}
+                disabled={busy || offline}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <label className="calendar-import">
+        <span>{busy ? 'Working...' : 'Add photos or PDFs'}</span>
+        <input
+          type="file"
+          multiple
+          accept="image/jpeg,image/png,image/webp,image/gif,application/pdf"
+          onChange={handleFiles}
+          disabled={busy || offline || full}
+        />
+      </label>
+      {offline && <p className="form-hint">Photos and files can be added once you are back online.</p>}
+      {full && <p className="form-hint">A dream can keep up to {MAX_ATTACHMENTS_PER_ENTRY} photos and files.</p>}
+      {attachmentError && <p className="form-error">{attachmentError}</p>}
+
+      {openIndex >= 0 && (
+        <AttachmentLightbox
+          client={client}
+          attachments={attachments}
+          index={openIndex}
+          onIndexChange={(index) => setOpenId(attachments[index].id)}
+          onClose={() => setOpenId(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+type AttachmentLightboxProps = {
+  client: ApiClient;
+  attachments: Attachment[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+};
+
+function AttachmentLightbox({ client, attachments, index, onIndexChange, onClose }: AttachmentLightboxProps) {
+  const attachment = attachments[index];
+  const url = useAttachmentUrl(client, attachment, false);
+  const count = attachments.length;
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      } else if (event.key === 'ArrowLeft' && count > 1) {
+        onIndexChange((index - 1 + count) % count);
+      } else if (event.key === 'ArrowRight' && count > 1) {
+        onIndexChange((index + 1) % count);
+      }
+    };
+
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [count, index, onClose, onIndexChange]);
+
+  return (
+    <div
+      className="attachment-lightbox"
+      role="dialog"
+      aria-modal="true"
+      aria-label={attachment.fileName}
+      onClick={onClose}
+    >
+      <figure onClick={(event) => event.stopPropagation()}>
+        {!url ? (
+          <p className="attachment-lightbox-status">Opening {attachment.fileName}...</p>
+        ) : attachment.contentType === 'application/pdf' ? (
+          <iframe src={url} title={attachment.fileName} />
+        ) : (
+          <img src={url} alt={attachment.fileName} />
+        )}
+        <figcaption>
+          <span>
+            {attachment.fileName} · {formatFileSize(attachment.size)} · {formatDate(attachment.createdAt)}
+          </span>
+          {url && (
+            <a className="ghost-link" href={url} download={attachment.fileName}>
+              Download
+            </a>
+          )}
+        </figcaption>
+      </figure>
+      {count > 1 && (
+        <>
+          <button
+            type="button"
+            className="attachment-lightbox-nav attachment-lightbox-prev"
+            onClick={(event) => {
+              event.stopPropagation();
+              onIndexChange((index - 1 + count) % count);
+            }}
+            aria-label="Previous"
+          >
+            ‹
+          </button>
+          <button
+            type="button"
+            className="attachment-lightbox-nav attachment-lightbox-next"
+            onClick={(event) => {
+              event.stopPropagation();
+              onIndexChange((index + 1) % count);
+            }}
+            aria-label="Next"
+          >
+            ›
+          </button>
+        </>
+      )}
+      <button type="button" className="modal-close attachment-lightbox-close" onClick={onClose} aria-label="Close">
+        ×
+      </button>
+    </div>
+  );
+}
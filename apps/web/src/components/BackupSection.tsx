@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { ApiError, api, readResponse } from '@gomun/contract/client';
+import type { ApiClient } from '@gomun/contract/client';
+import type { Backup, BackupErrorBody, ImportMode, ImportSummary } from '@gomun/contract';
+
+type BackupSectionProps = {
+  client: ApiClient;
+  onImported: () => void;
+};
+
+export function BackupSection({ client, onImported }: BackupSectionProps) {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [busyAction, setBusyAction] = useState<'json' | 'csv' | 'import' | null>(null);
+  const [backupMessage, setBackupMessage] = useState<string | null>(null);
+  const [backupErrors, setBackupErrors] = useState<string[]>([]);
+
+  const handleExport = async (format: 'json' | 'csv') => {
+    setBusyAction(format);
+    setBackupErrors([]);
+    setBackupMessage(null);
+
+    try {
+      // Sent raw so the file name can be read from the headers.
+      const request = api.exportBackup({ format });
+      const response = await client.request(request);
+      const file = await readResponse(response, request);
+
+      const fileName =
+        /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') ?? '')?.[1] ?? `gomun-backup.${format}`;
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setBackupErrors([err instanceof Error ? err.message : 'Unable to export']);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    if (
+      mode === 'replace' &&
+      !window.confirm('Replace every dream and coupon in this space with the backup? This cannot be undone.')
+    ) {
+      return;
+    }
+
+    setBusyAction('import');
+    setBackupErrors([]);
+    setBackupMessage(null);
+
+    try {
+      let backup: Backup;
+      try {
+        backup = JSON.parse(await file.text());
+      } catch {
+        throw new Error('This file is not a JSON backup. CSV exports are for spreadsheets and cannot be restored.');
+      }
+
+      // The server checks the file, so whatever it holds is sent as it is.
+      let summary: ImportSummary;
+      try {
+        summary = await client.importBackup(backup, { mode });
+      } catch (err) {
+        // Photos and files are not in backups, so replacing only erases them once that is confirmed.
+        if (!(err instanceof ApiError && err.status === 409)) throw err;
+        if (!window.confirm(`${err.message}\n\nReplace anyway and erase them?`)) return;
+        summary = await client.importBackup(backup, { mode, discardAttachments: 'true' });
+      }
+      setBackupMessage(
+        `Restored ${summary.entriesCreated + summary.entriesUpdated} dreams and ` +
+          `${summary.couponsCreated + summary.couponsUpdated} coupons ` +
+          `(${summary.entriesUpdated + summary.couponsUpdated} updated in place).`
+      );
+      onImported();
+    } catch (err) {
+      const details = err instanceof ApiError ? (err.body as Partial<BackupErrorBody> | null)?.details : undefined;
+      setBackupErrors([err instanceof Error ? err.message : 'Unable to import', ...(details ?? [])]);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  return (
+    <div className="form-field backup-section">
+      <span>Backup</span>
+      <div className="space-row">
+        <button
+          type="button"
+          className="entry-edit-button"
+          onClick={() => handleExport('json')}
+          disabled={busyAction !== null}
+        >
+          {busyAction === 'json' ? 'Exporting...' : 'Download backup (JSON)'}
+        </button>
+        <button
+          type="button"
+          className="entry-edit-button"
+          onClick={() => handleExport('csv')}
+          disabled={busyAction !== null}
+        >
+          {busyAction === 'csv' ? 'Exporting...' : 'Download CSV'}
+        </button>
+      </div>
+
+      <div className="backup-restore">
+        <select value={mode} onChange={(event) => setMode(event.target.value as ImportMode)} aria-label="Restore mode">
+          <option value="merge">Merge with what is here</option>
+          <option value="replace">Replace everything</option>
+        </select>
+        <label className="calendar-import">
+          <span>{busyAction === 'import' ? 'Restoring...' : 'Restore a JSON backup'}</span>
+          <input
+            type="file"
+            accept=".json,application/json"
+            disabled={busyAction !== null}
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = '';
+              if (file) handleImport(file);
+            }}
+          />
+        </label>
+      </div>
+
+      {backupMessage && <p className="form-hint">{backupMessage}</p>}
+      {backupErrors.length > 0 && (
+        <ul className="form-error backup-errors">
+          {backupErrors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
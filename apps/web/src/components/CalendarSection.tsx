@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import type { ApiClient } from '@gomun/contract/client';
+import { API_BASE } from '../session';
+
+type CalendarSectionProps = {
+  client: ApiClient;
+  onImported: () => void;
+};
+
+export function CalendarSection({ client, onImported }: CalendarSectionProps) {
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [busyAction, setBusyAction] = useState<'link' | 'revoke' | 'import' | null>(null);
+  const [calendarMessage, setCalendarMessage] = useState<string | null>(null);
+  const [calendarError, setCalendarError] = useState<string | null>(null);
+
+  const run = async (action: NonNullable<typeof busyAction>, task: () => Promise<void>) => {
+    setBusyAction(action);
+    setCalendarError(null);
+    setCalendarMessage(null);
+
+    try {
+      await task();
+    } catch (err) {
+      setCalendarError(err instanceof Error ? err.message : 'Unable to update the calendar');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleCreateLink = () =>
+    run('link', async () => {
+      const { token } = await client.createCalendarToken();
+      const url = new URL(`${API_BASE}/api/calendar.ics`, window.location.origin);
+      url.searchParams.set('token', token);
+      setFeedUrl(url.toString());
+    });
+
+  const handleRevokeLink = () =>
+    run('revoke', async () => {
+      await client.revokeCalendarToken();
+      setFeedUrl(null);
+      setCalendarMessage('Calendar link turned off. Apps subscribed to it will stop updating.');
+    });
+
+  const handleImport = (file: File) =>
+    run('import', async () => {
+      const { created, skipped } = await client.importCalendar(await file.text());
+      setCalendarMessage(
+        `Imported ${created.length} dream${created.length === 1 ? '' : 's'}` +
+          (skipped > 0 ? `, skipped ${skipped} already in the agenda.` : '.')
+      );
+      if (created.length > 0) {
+        onImported();
+      }
+    });
+
+  return (
+    <div className="form-field calendar-section">
+      <span>Calendar</span>
+      {feedUrl ? (
+        <>
+          <input type="text" value={feedUrl} readOnly onFocus={(event) => event.target.select()} />
+          <div className="space-row">
+            <a className="entry-edit-button" href={feedUrl.replace(/^https?:/, 'webcal:')}>
+              Subscribe
+            </a>
+            <button type="button" className="entry-edit-button" onClick={handleRevokeLink} disabled={busyAction !== null}>
+              {busyAction === 'revoke' ? 'Turning off...' : 'Turn off link'}
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="space-row">
+          <button type="button" className="entry-edit-button" onClick={handleCreateLink} disabled={busyAction !== null}>
+            {busyAction === 'link' ? 'Creating...' : 'Get a subscription link'}
+          </button>
+        </div>
+      )}
+      <p className="form-hint">
+        Dated dreams show up in any calendar app. A new link replaces the previous one.
+      </p>
+
+      <label className="calendar-import">
+        <span>{busyAction === 'import' ? 'Importing...' : 'Import an .ics file'}</span>
+        <input
+          type="file"
+          accept=".ics,text/calendar"
+          disabled={busyAction !== null}
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = '';
+            if (file) handleImport(file);
+          }}
+        />
+      </label>
+
+      {calendarMessage && <p className="form-hint">{calendarMessage}</p>}
+      {calendarError && <p className="form-error">{calendarError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import type { Coupon, SpaceMember } from '@gomun/contract';
+import type { CouponRequestAction, CouponTone } from '../coupons';
+import { formatDate, memberName } from '../format';
+
+type CouponCardProps = {
+  coupon: Coupon;
+  tone: CouponTone;
+  unlockCopy: string;
+  isOrphaned: boolean;
+  membersById: Map<string, SpaceMember>;
+  isRedeeming: boolean;
+  onEditCoupon: (coupon: Coupon) => void;
+  currentUserId: string | null;
+  onRedeemCoupon: (coupon: Coupon, redeemed: boolean) => void;
+  onCouponRequest: (coupon: Coupon, action: CouponRequestAction, scheduledFor?: string) => void;
+  onReviewCoupon: (coupon: Coupon, action: 'keep' | 'relock') => void;
+};
+
+export function CouponCard({
+  coupon,
+  tone,
+  unlockCopy,
+  isOrphaned,
+  membersById,
+  isRedeeming,
+  onEditCoupon,
+  currentUserId,
+  onRedeemCoupon,
+  onCouponRequest,
+  onReviewCoupon,
+}: CouponCardProps) {
+  const statusLabel = { available: 'Unlocked', locked: 'Locked', expired: 'Expired', redeemed: 'Redeemed' }[tone];
+  const undoLabel = coupon.maxRedemptions === 1 ? 'Mark unused' : 'Undo last use';
+  const [scheduleDate, setScheduleDate] = useState('');
+  // A coupon made out to the other person is used by asking; its giver accepts, declines or plans a day.
+  const isMadeOut = coupon.recipientId !== null && coupon.recipientId !== coupon.userId;
+  const isGiver = isMadeOut && coupon.userId === currentUserId;
+  const isRecipient = isMadeOut && coupon.recipientId === currentUserId;
+  const hasOpenRequest = coupon.requestStatus === 'pending' || coupon.requestStatus === 'scheduled';
+  const giverName = memberName(membersById, coupon.userId);
+  const recipientName = memberName(membersById, coupon.recipientId);
+  const requestCopy =
+    coupon.requestStatus === 'pending'
+      ? isGiver
+        ? `${recipientName} asked to use this on ${formatDate(coupon.requestedAt)}.`
+        : `Waiting for ${giverName} to answer.`
+      : coupon.requestStatus === 'scheduled'
+        ? `Planned for ${formatDate(coupon.scheduledFor)}.`
+        : isRecipient
+          ? `${giverName} declined on ${formatDate(coupon.respondedAt)}.`
+          : `Declined on ${formatDate(coupon.respondedAt)}.`;
+  const reviewCopy =
+    coupon.reviewReason === 'dreamDeleted'
+      ? 'A dream this coupon depends on was erased.'
+      : coupon.reviewReason === 'tagDeleted'
+        ? 'A tag this coupon depends on was deleted.'
+        : coupon.reviewReason === 'tagRemoved'
+          ? 'A dream this coupon counted no longer carries its tag.'
+          : 'A dream this coupon depends on is no longer fulfilled.';
+
+  return (
+    <article className={`coupon-card coupon-card-${tone}`}>
+      <div className="coupon-perforation" aria-hidden="true" />
+      <div className="coupon-card-top">
+        <span className={`coupon-status coupon-status-${tone}`}>{statusLabel}</span>
+        <span className="coupon-date">{formatDate(coupon.createdAt)}</span>
+      </div>
+
+      <div className="coupon-copy">
+        <h4>{coupon.title}</h4>
+        {coupon.description ? <p>{coupon.description}</p> : <p>{unlockCopy}</p>}
+        <span className="coupon-author">
+          From {giverName}
+          {isMadeOut && ` to ${recipientName}`}
+        </span>
+        {(coupon.maxRedemptions !== 1 || coupon.expiresAt) && (
+          <span className="coupon-limits">
+            {coupon.maxRedemptions === null
+              ? `Used ${coupon.redemptionCount} time${coupon.redemptionCount === 1 ? '' : 's'}, no limit`
+              : `Used ${coupon.redemptionCount} of ${coupon.maxRedemptions}`}
+            {coupon.expiresAt && ` · valid until ${formatDate(coupon.expiresAt)}`}
+          </span>
+        )}
+        {isOrphaned && !coupon.needsReview && (
+          <span className="coupon-orphaned">Its rule points at a dream or tag that no longer exists.</span>
+        )}
+      </div>
+
+      {coupon.needsReview && (
+        <div className="coupon-review">
+          <p>{reviewCopy}</p>
+          <div className="coupon-review-actions">
+            <button type="button" className="coupon-action secondary" onClick={() => onReviewCoupon(coupon, 'keep')} disabled={isRedeeming}>
+              {coupon.unlocked ? 'Keep unlocked' : 'Dismiss'}
+            </button>
+            {coupon.unlocked && coupon.redemptionCount === 0 && (
+              <button type="button" className="coupon-action" onClick={() => onReviewCoupon(coupon, 'relock')} disabled={isRedeeming}>
+                Lock again
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {isMadeOut && coupon.requestStatus && (
+        <div className={`coupon-request coupon-request-${coupon.requestStatus}`}>
+          <p>{requestCopy}</p>
+          {isGiver && hasOpenRequest && (
+            <div className="coupon-review-actions">
+              <button
+                type="button"
+                className="coupon-action"
+                onClick={() => onCouponRequest(coupon, 'accept')}
+                disabled={isRedeeming}
+              >
+                {coupon.requestStatus === 'scheduled' ? 'Mark used' : 'Accept'}
+              </button>
+              <button
+                type="button"
+                className="coupon-action secondary"
+                onClick={() => onCouponRequest(coupon, 'decline')}
+                disabled={isRedeeming}
+              >
+                Decline
+              </button>
+              <input
+                type="date"
+                aria-label="Day to use it"
+                value={scheduleDate}
+                onChange={(event) => setScheduleDate(event.target.value)}
+              />
+              <button
+                type="button"
+                className="coupon-action secondary"
+                onClick={() => onCouponRequest(coupon, 'schedule', scheduleDate)}
+                disabled={isRedeeming || !scheduleDate}
+              >
+                {coupon.requestStatus === 'scheduled' ? 'Move' : 'Schedule'}
+              </button>
+            </div>
+          )}
+          {isRecipient && (
+            <div className="coupon-review-actions">
+              <button
+                type="button"
+                className="coupon-action secondary"
+                onClick={() => onCouponRequest(coupon, 'cancel')}
+                disabled={isRedeeming}
+              >
+                {hasOpenRequest ? 'Withdraw request' : 'Dismiss'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="coupon-footer">
+        <button type="button" className="entry-edit-button" onClick={() => onEditCoupon(coupon)}>
+          Edit
+        </button>
+
+       
+
+        {tone === 'available' && (
+          <>
+            <p className="coupon-hint">{unlockCopy}</p>
+            {coupon.redemptionCount > 0 && (
+              <button
+                type="button"
+                className="coupon-action secondary"
+                onClick={() => onRedeemCoupon(coupon, false)}
+                disabled={isRedeeming}
+              >
+                {undoLabel}
+              </button>
+            )}
+            {isRecipient ? (
+              !hasOpenRequest && (
+                <button
+                  type="button"
+                  className="coupon-action"
+                  onClick={() => onCouponRequest(coupon, 'request')}
+                  disabled={isRedeeming}
+                >
+                  {isRedeeming ? 'Saving...' : coupon.requestStatus === 'declined' ? 'Ask again' : 'Ask to redeem'}
+                </button>
+              )
+            ) : (
+              !hasOpenRequest && (
+                <button
+                  type="button"
+                  className="coupon-action"
+                  onClick={() => onRedeemCoupon(coupon, true)}
+                  disabled={isRedeeming}
+                >
+                  {isRedeeming ? 'Saving...' : 'Redeem'}
+                </button>
+              )
+            )}
+          </>
+        )}
+
+        {tone === 'expired' && (
+          <p className="coupon-hint">
+            Expired on {formatDate(coupon.expiresAt)}. Edit it to give it more time.
+          </p>
+        )}
+
+        {tone === 'redeemed' && (
+          <>
+            <p className="coupon-hint">
+              {coupon.maxRedemptions === 1 ? 'Used' : 'Last used'}
+              {coupon.redeemedById ? ` by ${memberName(membersById, coupon.redeemedById)}` : ''} on{' '}
+              {formatDate(coupon.redeemedAt) || 'a special day'}.
+            </p>
+            <button
+              type="button"
+              className="coupon-action secondary"
+              onClick={() => onRedeemCoupon(coupon, false)}
+              disabled={isRedeeming}
+            >
+              {isRedeeming ? 'Saving...' : undoLabel}
+            </button>
+          </>
+        )}
+      </div>
+    </article>
+  );
+}
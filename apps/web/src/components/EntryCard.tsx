@@ -0,0 +1,133 @@
+import type { ApiClient } from '@gomun/contract/client';
+import type { Entry as AgendaEntry, SpaceMember, Step as EntryStep } from '@gomun/contract';
+import { formatCalendarDate, formatDate, memberName } from '../format';
+import { describeRecurrence } from '../recurrence';
+import { AttachmentThumbnail } from './Attachments';
+import { ReflectionSummary } from './Reflection';
+
+// Cards show the first few attachments; the rest are counted and open in the edit dialog.
+const CARD_ATTACHMENT_LIMIT = 4;
+
+type EntryCardProps = {
+  client: ApiClient;
+  entry: AgendaEntry;
+  isDeleting: boolean;
+  membersById: Map<string, SpaceMember>;
+  onEdit: (entry: AgendaEntry) => void;
+  onDelete: (entry: AgendaEntry) => void;
+  onToggleDone: (entry: AgendaEntry) => void;
+  onToggleStep: (entry: AgendaEntry, step: EntryStep) => void;
+  onReflect: (entry: AgendaEntry) => void;
+};
+
+export function EntryCard({
+  client,
+  entry,
+  isDeleting,
+  membersById,
+  onEdit,
+  onDelete,
+  onToggleDone,
+  onToggleStep,
+  onReflect,
+}: EntryCardProps) {
+  const steps = entry.steps ?? [];
+  const doneSteps = steps.filter((step) => step.done).length;
+  const attachments = entry.attachments ?? [];
+  const hiddenAttachments = attachments.length - CARD_ATTACHMENT_LIMIT;
+
+  return (
+    <li className={`entry-card${entry.done ? ' entry-card-done' : ''}`}>
+      <div className="entry-actions">
+        <label className="entry-done-toggle">
+          <input type="checkbox" checked={entry.done} onChange={() => onToggleDone(entry)} />
+          <span>{entry.done ? '🌼 Dream come true' : '✨ Still a dream'}</span>
+        </label>
+        <button type="button" className="entry-edit-button" onClick={() => onEdit(entry)}>
+          Edit
+        </button>
+        <button
+          type="button"
+          className="entry-delete-button"
+          onClick={() => onDelete(entry)}
+          disabled={isDeleting}
+        >
+          {isDeleting ? 'Deleting...' : 'Delete'}
+        </button>
+      </div>
+
+      <strong className="entry-title">{entry.title}</strong>
+      {entry.note && <p className="entry-note">{entry.note}</p>}
+
+      {!!entry.tags?.length && (
+        <ul className="entry-tags" aria-label="Tags">
+          {entry.tags.map((tag) => (
+            <li key={tag.id} className="tag-chip">
+              {tag.name}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {attachments.length > 0 && (
+        <ul className="entry-attachments" aria-label="Attachments">
+          {attachments.slice(0, CARD_ATTACHMENT_LIMIT).map((attachment) => (
+            <li key={attachment.id}>
+              <button type="button" onClick={() => onEdit(entry)} title={attachment.fileName}>
+                <AttachmentThumbnail client={client} attachment={attachment} />
+              </button>
+            </li>
+          ))}
+          {hiddenAttachments > 0 && <li className="entry-attachments-more">+{hiddenAttachments}</li>}
+        </ul>
+      )}
+
+      {steps.length > 0 && (
+        <details className="entry-steps">
+          <summary>
+            <span className="entry-progress" aria-hidden="true">
+              <span style={{ width: `${(doneSteps / steps.length) * 100}%` }} />
+            </span>
+            <span>
+              {doneSteps}/{steps.length} steps
+            </span>
+          </summary>
+          <ul className="entry-step-list">
+            {steps.map((step) => (
+              <li key={step.id}>
+                <label className={step.done ? 'entry-step-done' : undefined}>
+                  <input type="checkbox" checked={step.done} onChange={() => onToggleStep(entry, step)} />
+                  <span>{step.title}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {entry.done && !entry.recurrence && (
+        <div className="entry-reflection">
+          {entry.reflection && <ReflectionSummary reflection={entry.reflection} />}
+          <button type="button" className="ghost-link" onClick={() => onReflect(entry)}>
+            {entry.reflection ? 'Edit the memory' : 'Write down the memory'}
+          </button>
+        </div>
+      )}
+
+      <div className="entry-meta">
+        <span>{formatDate(entry.createdAt)}</span>
+        {entry.date && <span>{entry.recurrence && !entry.done ? 'Next on' : 'On'} {formatCalendarDate(entry.date.slice(0, 10))}</span>}
+        {entry.recurrence && <span>{describeRecurrence(entry.recurrence)}</span>}
+        {!!entry._count?.occurrences && (
+          <span>
+            Fulfilled {entry._count.occurrences} time{entry._count.occurrences === 1 ? '' : 's'}
+          </span>
+        )}
+        <span>By {memberName(membersById, entry.userId)}</span>
+        {entry.done && entry.completedById && (
+          <span>Fulfilled by {memberName(membersById, entry.completedById)}</span>
+        )}
+      </div>
+    </li>
+  );
+}
@@ -0,0 +1,77 @@
+import { RECURRENCE_UNITS, readRecurrencePart, writeRecurrencePart } from '../recurrence';
+import type { RecurrenceFrequency } from '../recurrence';
+
+type RecurrenceEditorProps = {
+  rule: string;
+  onChange: (rule: string) => void;
+};
+
+export function RecurrenceEditor({ rule, onChange }: RecurrenceEditorProps) {
+  const freq = readRecurrencePart(rule, 'FREQ') as RecurrenceFrequency | '';
+
+  const handleFrequencyChange = (next: RecurrenceFrequency | '') => {
+    if (!next) {
+      onChange('');
+      return;
+    }
+
+    const updated = writeRecurrencePart(rule, 'FREQ', next);
+    // Weekdays only make sense for weekly rules.
+    onChange(next === 'WEEKLY' ? updated : writeRecurrencePart(updated, 'BYDAY', ''));
+  };
+
+  return (
+    <div className="recurrence-editor">
+      <label className="form-field">
+        <span>Repeats</span>
+        <select
+          name="recurrence"
+          value={freq}
+          onChange={(event) => handleFrequencyChange(event.target.value as RecurrenceFrequency | '')}
+        >
+          <option value="">Only once</option>
+          {(Object.keys(RECURRENCE_UNITS) as RecurrenceFrequency[]).map((option) => (
+            <option key={option} value={option}>
+              {RECURRENCE_UNITS[option].adverb.charAt(0).toUpperCase() + RECURRENCE_UNITS[option].adverb.slice(1)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {freq && (
+        <>
+          <label className="form-field">
+            <span>Every</span>
+            <div className="recurrence-inline">
+              <input
+                type="number"
+                min={1}
+                value={readRecurrencePart(rule, 'INTERVAL') || '1'}
+                onChange={(event) =>
+                  onChange(
+                    writeRecurrencePart(rule, 'INTERVAL', event.target.value === '1' ? '' : event.target.value)
+                  )
+                }
+              />
+              <span>{RECURRENCE_UNITS[freq].unit}(s)</span>
+            </div>
+          </label>
+
+          <label className="form-field">
+            <span>Stop after</span>
+            <div className="recurrence-inline">
+              <input
+                type="number"
+                min={1}
+                value={readRecurrencePart(rule, 'COUNT')}
+                placeholder="Never"
+                onChange={(event) => onChange(writeRecurrencePart(rule, 'COUNT', event.target.value))}
+              />
+              <span>times</span>
+            </div>
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { MAX_REFLECTION_COMPANIONS, MAX_REFLECTION_RATING } from '@gomun/contract/limits';
+import type { Entry as AgendaEntry, Memory, ReflectionBody, SpaceMember } from '@gomun/contract';
+import { toDayKey } from '../calendar';
+
+function describeRating(rating: number) {
+  return '★'.repeat(rating) + '☆'.repeat(MAX_REFLECTION_RATING - rating);
+}
+
+export function ReflectionSummary({ reflection }: { reflection: NonNullable<Memory['reflection']> }) {
+  return (
+    <div className="reflection-summary">
+      {reflection.rating !== null && (
+        <span className="reflection-stars" aria-label={`${reflection.rating} out of ${MAX_REFLECTION_RATING}`}>
+          {describeRating(reflection.rating)}
+        </span>
+      )}
+      {reflection.note && <blockquote>{reflection.note}</blockquote>}
+      {reflection.companions.length > 0 && <span>With {reflection.companions.join(', ')}</span>}
+    </div>
+  );
+}
+
+type ReflectionModalProps = {
+  entry: AgendaEntry;
+  members: SpaceMember[];
+  onSave: (reflection: ReflectionBody | null) => void;
+  onClose: () => void;
+};
+
+export function ReflectionModal({ entry, members, onSave, onClose }: ReflectionModalProps) {
+  // Only a one-off dream that is already done has a memory to start from.
+  const saved = entry.done ? entry.reflection : null;
+  const memberNames = members.map((member) => member.name);
+  const [completedOn, setCompletedOn] = useState(() => saved?.completedOn?.slice(0, 10) ?? toDayKey(new Date()));
+  const [note, setNote] = useState(saved?.note ?? '');
+  const [rating, setRating] = useState<number | null>(saved?.rating ?? null);
+  const [companions, setCompanions] = useState<string[]>(
+    () => saved?.companions.filter((name) => memberNames.includes(name)) ?? []
+  );
+  const [others, setOthers] = useState(
+    () => saved?.companions.filter((name) => !memberNames.includes(name)).join(', ') ?? ''
+  );
+  const [reflectionError, setReflectionError] = useState<string | null>(null);
+
+  const toggleCompanion = (name: string) =>
+    setCompanions((prev) => (prev.includes(name) ? prev.filter((item) => item !== name) : [...prev, name]));
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const names = Array.from(
+      new Set([...companions, ...others.split(',').map((name) => name.trim()).filter(Boolean)])
+    );
+
+    if (names.length > MAX_REFLECTION_COMPANIONS) {
+      setReflectionError(`Name at most ${MAX_REFLECTION_COMPANIONS} people.`);
+      return;
+    }
+
+    onSave({ completedOn: completedOn || null, note, rating, companions: names });
+  };
+
+  return (
+    <div className="entry-modal-backdrop" role="presentation" onClick={onClose}>
+      <div
+        className="entry-modal"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="reflection-modal-title"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <header className="entry-modal-header">
+          <h2 id="reflection-modal-title">{saved ? 'The Memory' : 'It Came True'}</h2>
+          <button className="modal-close" type="button" onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </header>
+
+        <form className="entry-form" onSubmit={handleSubmit}>
+          <p className="form-hint">
+            {entry.title}: how was it? Everything here is optional and goes into the Memory Book.
+          </p>
+
+          <label className="form-field">
+            <span>When it happened</span>
+            <input type="date" value={completedOn} onChange={(event) => setCompletedOn(event.target.value)} />
+          </label>
+
+          <div className="form-field">
+            <span>Rating</span>
+            <div className="reflection-rating" role="group" aria-label="Rating">
+              {Array.from({ length: MAX_REFLECTION_RATING }, (_, index) => index + 1).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  className={rating !== null && value <= rating ? 'active' : undefined}
+                  aria-pressed={rating === value}
+                  aria-label={`${value} out of ${MAX_REFLECTION_RATING}`}
+                  onClick={() => setRating(rating === value ? null : value)}
+                >
+                  ★
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="form-field">
+            <span>Reflection</span>
+            <textarea
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              placeholder="What we will want to remember about it."
+              rows={4}
+            />
+          </label>
+
+          <div className="form-field">
+            <span>Who was there</span>
+            {memberNames.length > 0 && (
+              <div className="tag-picker-options">
+                {memberNames.map((name) => (
+                  <button
+                    key={name}
+                    type="button"
+                    className={`tag-chip tag-chip-toggle${companions.includes(name) ? ' active' : ''}`}
+                    aria-pressed={companions.includes(name)}
+                    onClick={() => toggleCompanion(name)}
+                  >
+                    {name}
+                  </button>
+                ))}
+              </div>
+            )}
+            <input
+              type="text"
+              value={others}
+              onChange={(event) => setOthers(event.target.value)}
+              placeholder="Anyone else, separated by commas"
+            />
+          </div>
+
+          {reflectionError && <p className="form-error">{reflectionError}</p>}
+
+          <footer className="form-actions">
+            {!entry.done && (
+              <button type="button" className="ghost-button" onClick={() => onSave(null)}>
+                Just mark it done
+              </button>
+            )}
+            <button type="submit">Save memory</button>
+          </footer>
+        </form>
+      </div>
+    </div>
+  );
+}
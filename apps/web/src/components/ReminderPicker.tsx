@@ -0,0 +1,58 @@
+import { MAX_REMINDER_OFFSETS } from '@gomun/contract/limits';
+
+// Offsets in minutes; the dream form offers these, and anything else set through the API is shown alongside.
+const REMINDER_OFFSET_PRESETS = [0, 60 * 24, 60 * 24 * 3, 60 * 24 * 7, 60 * 24 * 14];
+
+function describeReminderOffset(minutes: number) {
+  if (minutes === 0) return 'On the day';
+
+  const units: [string, number][] = [
+    ['week', 60 * 24 * 7],
+    ['day', 60 * 24],
+    ['hour', 60],
+    ['minute', 1],
+  ];
+  const [unit, size] = units.find(([, length]) => minutes % length === 0) ?? ['minute', 1];
+  const count = minutes / size;
+  return `${count} ${unit}${count === 1 ? '' : 's'} before`;
+}
+
+type ReminderPickerProps = {
+  offsets: number[];
+  onChange: (offsets: number[]) => void;
+};
+
+export function ReminderPicker({ offsets, onChange }: ReminderPickerProps) {
+  const options = Array.from(new Set([...REMINDER_OFFSET_PRESETS, ...offsets])).sort((a, b) => a - b);
+  const isFull = offsets.length >= MAX_REMINDER_OFFSETS;
+
+  const toggle = (minutes: number) => {
+    onChange(offsets.includes(minutes) ? offsets.filter((offset) => offset !== minutes) : [...offsets, minutes]);
+  };
+
+  return (
+    <div className="form-field">
+      <span>Remind us</span>
+      <div className="tag-picker-options">
+        {options.map((minutes) => {
+          const selected = offsets.includes(minutes);
+          return (
+            <button
+              key={minutes}
+              type="button"
+              className={`tag-chip tag-chip-toggle${selected ? ' active' : ''}`}
+              aria-pressed={selected}
+              onClick={() => toggle(minutes)}
+              disabled={!selected && isFull}
+            >
+              {describeReminderOffset(minutes)}
+            </button>
+          );
+        })}
+      </div>
+      {offsets.length > 0 && (
+        <p className="form-hint">If it is still open the day after, everyone gets one more reminder that it is overdue.</p>
+      )}
+    </div>
+  );
+}
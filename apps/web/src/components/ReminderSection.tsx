@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import type { ApiClient } from '@gomun/contract/client';
+import type { PushSubscriptionBody, ReminderChannel, ReminderSettings } from '@gomun/contract';
+
+type ReminderSectionProps = {
+  client: ApiClient;
+};
+
+/** Subscribes this browser through the service worker, which only runs in a production build. */
+async function subscribeToPush(vapidPublicKey: string): Promise<PushSubscriptionBody> {
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (!registration || !('PushManager' in window)) {
+    throw new Error('Push notifications need the installed app in a browser that supports them.');
+  }
+
+  if ((await Notification.requestPermission()) !== 'granted') {
+    throw new Error('Notifications are blocked for GoMun. Allow them in the browser settings, then try again.');
+  }
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: vapidPublicKey }));
+  const { endpoint = '', keys = {} } = subscription.toJSON();
+  return { endpoint, keys: { p256dh: keys.p256dh ?? '', auth: keys.auth ?? '' } };
+}
+
+async function unsubscribeFromPush(client: ApiClient) {
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  await client.unsubscribePush({ endpoint: subscription.endpoint });
+  await subscription.unsubscribe();
+}
+
+export function ReminderSection({ client }: ReminderSectionProps) {
+  const [settings, setSettings] = useState<ReminderSettings | null>(null);
+  const [busyChannel, setBusyChannel] = useState<ReminderChannel | null>(null);
+  const [reminderError, setReminderError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    async function loadSettings() {
+      try {
+        const loaded = await client.getReminderSettings();
+        if (isMounted) setSettings(loaded);
+      } catch (err) {
+        if (isMounted) setReminderError(err instanceof Error ? err.message : 'Unable to load reminder settings');
+      }
+    }
+
+    loadSettings();
+    return () => {
+      isMounted = false;
+    };
+  }, [client]);
+
+  const handleToggle = async (channel: ReminderChannel, enabled: boolean) => {
+    if (!settings) return;
+
+    setBusyChannel(channel);
+    setReminderError(null);
+
+    try {
+      if (channel === 'push' && enabled && settings.vapidPublicKey) {
+        await client.subscribePush(await subscribeToPush(settings.vapidPublicKey));
+      } else if (channel === 'push' && !enabled) {
+        await unsubscribeFromPush(client);
+      }
+
+      setSettings(await client.updateReminderSettings({ [channel]: enabled }));
+    } catch (err) {
+      setReminderError(err instanceof Error ? err.message : 'Unable to save reminder settings');
+    } finally {
+      setBusyChannel(null);
+    }
+  };
+
+  const channels: { channel: ReminderChannel; label: string }[] = [
+    { channel: 'email', label: 'Email me when a dream is coming up or overdue' },
+    { channel: 'push', label: 'Send push notifications to this device' },
+  ];
+
+  return (
+    <div className="form-field reminder-section">
+      <span>Reminders</span>
+      {settings &&
+        channels.map(({ channel, label }) => (
+          <label key={channel} className="form-checkbox">
+            <input
+              type="checkbox"
+              checked={settings[channel]}
+              disabled={busyChannel !== null || !settings.available[channel]}
+              onChange={(event) => handleToggle(channel, event.target.checked)}
+            />
+            <span>
+              {label}
+              {!settings.available[channel] && ' (not set up on this server)'}
+            </span>
+          </label>
+        ))}
+      <p className="form-hint">Pick when to be reminded in each dated dream. Reminders go to everyone in the space.</p>
+      {reminderError && <p className="form-error">{reminderError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import type { ApiClient } from '@gomun/contract/client';
+import type { Tag } from '@gomun/contract';
+import { BackupSection } from './BackupSection';
+import { CalendarSection } from './CalendarSection';
+import { ReminderSection } from './ReminderSection';
+import { TagsSection } from './TagsSection';
+
+type SettingsModalProps = {
+  client: ApiClient;
+  tags: Tag[];
+  offline: boolean;
+  onRenameTag: (tag: Tag, name: string) => Promise<void>;
+  onDeleteTag: (tag: Tag) => Promise<void>;
+  onDataImported: () => void;
+  onClose: () => void;
+};
+
+export function SettingsModal({
+  client,
+  tags,
+  offline,
+  onRenameTag,
+  onDeleteTag,
+  onDataImported,
+  onClose,
+}: SettingsModalProps) {
+  return (
+    <div className="entry-modal-backdrop" role="presentation" onClick={onClose}>
+      <div
+        className="entry-modal"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="settings-modal-title"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <header className="entry-modal-header">
+          <h2 id="settings-modal-title">Settings</h2>
+          <button className="modal-close" type="button" onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </header>
+
+        <div className="entry-form">
+          <TagsSection
+            client={client}
+            tags={tags}
+            offline={offline}
+            onRename={onRenameTag}
+            onDelete={onDeleteTag}
+          />
+          <ReminderSection client={client} />
+          <BackupSection client={client} onImported={onDataImported} />
+          <CalendarSection client={client} onImported={onDataImported} />
+
+          <footer className="form-actions">
+            <button type="button" onClick={onClose}>
+              Done
+            </button>
+          </footer>
+        </div>
+      </div>
+    </div>
+  );
+}
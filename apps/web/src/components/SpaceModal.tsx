@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { api } from '@gomun/contract/client';
+import type { ApiClient, ApiRequest } from '@gomun/contract/client';
+import type { Space } from '@gomun/contract';
+
+function buildInviteLink(inviteCode: string) {
+  return `${window.location.origin}/?invite=${encodeURIComponent(inviteCode)}`;
+}
+
+type SpaceModalProps = {
+  space: Space;
+  currentUserId: string;
+  initialInviteCode: string;
+  client: ApiClient;
+  onSpaceChange: (space: Space, membershipChanged: boolean) => void;
+  onClose: () => void;
+};
+
+export function SpaceModal({
+  space,
+  currentUserId,
+  initialInviteCode,
+  client,
+  onSpaceChange,
+  onClose,
+}: SpaceModalProps) {
+  const [name, setName] = useState(space.name);
+  const [joinCode, setJoinCode] = useState(initialInviteCode);
+  const [busyAction, setBusyAction] = useState<'rename' | 'invite' | 'join' | 'leave' | null>(null);
+  const [panelError, setPanelError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const inviteLink = buildInviteLink(space.inviteCode);
+  const hasPartner = space.members.length > 1;
+
+  const runAction = async (
+    action: NonNullable<typeof busyAction>,
+    request: ApiRequest<Space>,
+    membershipChanged: boolean
+  ) => {
+    setBusyAction(action);
+    setPanelError(null);
+
+    try {
+      const updated = await client.send(request);
+      setName(updated.name);
+      onSpaceChange(updated, membershipChanged);
+      return true;
+    } catch (err) {
+      setPanelError(err instanceof Error ? err.message : 'Unable to update space');
+      return false;
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleRename = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!name.trim()) {
+      setPanelError('Every space needs a name.');
+      return;
+    }
+
+    runAction('rename', api.updateSpace({ name: name.trim() }), false);
+  };
+
+  const handleJoin = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!joinCode.trim()) {
+      setPanelError('Enter the invite code you received.');
+      return;
+    }
+
+    const joined = await runAction('join', api.joinSpace({ inviteCode: joinCode.trim() }), true);
+
+    if (joined) {
+      setJoinCode('');
+    }
+  };
+
+  const handleLeave = () => {
+    const confirmation = window.confirm(`Leave "${space.name}"? Shared dreams stay with your partner.`);
+    if (!confirmation) return;
+
+    runAction('leave', api.leaveSpace(), true);
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setPanelError('Copy the link by hand: the clipboard is not available.');
+    }
+  };
+
+  return (
+    <div className="entry-modal-backdrop" role="presentation" onClick={onClose}>
+      <div
+        className="entry-modal"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="space-modal-title"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <header className="entry-modal-header">
+          <h2 id="space-modal-title">Our Space</h2>
+          <button className="modal-close" type="button" onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </header>
+
+        <div className="entry-form">
+          <form className="space-row" onSubmit={handleRename}>
+            <label className="form-field">
+              <span>Name</span>
+              <input type="text" value={name} onChange={(event) => setName(event.target.value)} />
+            </label>
+            <button type="submit" className="entry-edit-button" disabled={busyAction !== null}>
+              {busyAction === 'rename' ? 'Saving...' : 'Rename'}
+            </button>
+          </form>
+
+          <div className="form-field">
+            <span>Members</span>
+            <ul className="space-members">
+              {space.members.map((member) => (
+                <li key={member.id}>
+                  <strong>{member.id === currentUserId ? `${member.name} (you)` : member.name}</strong>
+                  <small>{member.email}</small>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {!hasPartner && (
+            <div className="form-field">
+              <span>Invite your partner</span>
+              <code className="space-invite-code">{space.inviteCode}</code>
+              <div className="space-row">
+                <button type="button" className="entry-edit-button" onClick={handleCopyLink}>
+                  {copied ? 'Copied' : 'Copy invite link'}
+                </button>
+                <button
+                  type="button"
+                  className="entry-edit-button"
+                  onClick={() => runAction('invite', api.rotateInviteCode(), false)}
+                  disabled={busyAction !== null}
+                >
+                  {busyAction === 'invite' ? 'Creating...' : 'New code'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {!hasPartner && (
+            <form className="space-row" onSubmit={handleJoin}>
+              <label className="form-field">
+                <span>Join a space</span>
+                <input
+                  type="text"
+                  value={joinCode}
+                  onChange={(event) => setJoinCode(event.target.value.toUpperCase())}
+                  placeholder="Invite code"
+                />
+              </label>
+              <button type="submit" className="entry-edit-button" disabled={busyAction !== null}>
+                {busyAction === 'join' ? 'Joining...' : 'Join'}
+              </button>
+            </form>
+          )}
+
+          {panelError && <p className="form-error">{panelError}</p>}
+
+          <footer className="form-actions">
+            {hasPartner && (
+              <button type="button" className="ghost-button" onClick={handleLeave} disabled={busyAction !== null}>
+                {busyAction === 'leave' ? 'Leaving...' : 'Leave space'}
+              </button>
+            )}
+            <button type="button" onClick={onClose}>
+              Done
+            </button>
+          </footer>
+        </div>
+      </div>
+    </div>
+  );
+}
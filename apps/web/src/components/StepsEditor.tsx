@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import type { Step as EntryStep } from '@gomun/contract';
+
+type StepsEditorProps = {
+  steps: EntryStep[];
+  offline: boolean;
+  onAdd: (title: string) => Promise<void>;
+  onDelete: (stepId: string) => Promise<void>;
+  onReorder: (stepIds: string[]) => Promise<void>;
+};
+
+export function StepsEditor({ steps, offline, onAdd, onDelete, onReorder }: StepsEditorProps) {
+  const [draft, setDraft] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [stepError, setStepError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setStepError(null);
+    try {
+      await action();
+    } catch (err) {
+      setStepError(err instanceof Error ? err.message : 'Unable to update steps');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = () => {
+    const title = draft.trim();
+    if (!title) return;
+    run(async () => {
+      await onAdd(title);
+      setDraft('');
+    });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const ids = steps.map((step) => step.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    run(() => onReorder(ids));
+  };
+
+  return (
+    <div className="form-field steps-editor">
+      <span>Steps</span>
+      {steps.length > 0 && (
+        <ol className="steps-editor-list">
+          {steps.map((step, index) => (
+            <li key={step.id} className={step.done ? 'entry-step-done' : undefined}>
+              <span>{step.title}</span>
+              <button
+                type="button"
+                className="ghost-link"
+                onClick={() => moveStep(index, -1)}
+                disabled={busy || offline || index === 0}
+                aria-label="Move up"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                className="ghost-link"
+                onClick={() => moveStep(index, 1)}
+                disabled={busy || offline || index === steps.length - 1}
+                aria-label="Move down"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                className="ghost-link"
+                onClick={() => run(() => onDelete(step.id))}
+                disabled={busy || offline}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+      <div className="steps-editor-add">
+        <input
+          type="text"
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              event.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder="Book the flights"
+          disabled={offline}
+        />
+        <button type="button" className="ghost-button" onClick={handleAdd} disabled={busy || offline || !draft.trim()}>
+          Add step
+        </button>
+      </div>
+      {offline && <p className="form-hint">Steps can be added, removed or reordered once you are back online.</p>}
+      {stepError && <p className="form-error">{stepError}</p>}
+    </div>
+  );
+}
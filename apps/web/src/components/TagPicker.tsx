@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { MAX_TAGS_PER_ENTRY } from '@gomun/contract/limits';
+import type { Tag } from '@gomun/contract';
+
+type TagPickerProps = {
+  tags: Tag[];
+  selectedIds: string[];
+  offline: boolean;
+  onChange: (tagIds: string[]) => void;
+  onCreate: (name: string) => Promise<Tag>;
+};
+
+export function TagPicker({ tags, selectedIds, offline, onChange, onCreate }: TagPickerProps) {
+  const [draft, setDraft] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [tagError, setTagError] = useState<string | null>(null);
+  const isFull = selectedIds.length >= MAX_TAGS_PER_ENTRY;
+
+  const toggle = (tagId: string) => {
+    onChange(selectedIds.includes(tagId) ? selectedIds.filter((id) => id !== tagId) : [...selectedIds, tagId]);
+  };
+
+  const handleAdd = async () => {
+    const name = draft.trim().replace(/\s+/g, ' ').toLowerCase();
+    if (!name) return;
+
+    const existing = tags.find((tag) => tag.name === name);
+    if (existing) {
+      if (!selectedIds.includes(existing.id)) toggle(existing.id);
+      setDraft('');
+      return;
+    }
+
+    setBusy(true);
+    setTagError(null);
+    try {
+      const created = await onCreate(name);
+      onChange([...selectedIds, created.id]);
+      setDraft('');
+    } catch (err) {
+      setTagError(err instanceof Error ? err.message : 'Unable to create tag');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="form-field tag-picker">
+      <span>Tags</span>
+      {tags.length > 0 && (
+        <div className="tag-picker-options">
+          {tags.map((tag) => {
+            const selected = selectedIds.includes(tag.id);
+            return (
+              <button
+                key={tag.id}
+                type="button"
+                className={`tag-chip tag-chip-toggle${selected ? ' active' : ''}`}
+                aria-pressed={selected}
+                onClick={() => toggle(tag.id)}
+                disabled={!selected && isFull}
+              >
+                {tag.name}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      <div className="steps-editor-add">
+        <input
+          type="text"
+          value={draft}
+          maxLength={32}
+          onChange={(event) => setDraft(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              event.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder="travel"
+          aria-label="New tag"
+          disabled={offline}
+        />
+        <button
+          type="button"
+          className="ghost-button"
+          onClick={handleAdd}
+          disabled={busy || offline || !draft.trim() || isFull}
+        >
+          Add tag
+        </button>
+      </div>
+      {offline && <p className="form-hint">New tags can be made once you are back online.</p>}
+      {tagError && <p className="form-error">{tagError}</p>}
+    </div>
+  );
+}
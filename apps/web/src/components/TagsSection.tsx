@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import type { ApiClient } from '@gomun/contract/client';
+import type { Tag } from '@gomun/contract';
+
+type TagsSectionProps = {
+  client: ApiClient;
+  tags: Tag[];
+  offline: boolean;
+  onRename: (tag: Tag, name: string) => Promise<void>;
+  onDelete: (tag: Tag) => Promise<void>;
+};
+
+export function TagsSection({ client, tags, offline, onRename, onDelete }: TagsSectionProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [tagError, setTagError] = useState<string | null>(null);
+
+  const [usage, setUsage] = useState<Map<string, number>>(new Map());
+
+  // The server counts every dream a tag is on; this device only holds the dreams it has opened.
+  useEffect(() => {
+    let isMounted = true;
+
+    client
+      .listTags()
+      .then((counted) => {
+        if (isMounted) setUsage(new Map(counted.map((tag) => [tag.id, tag._count.entries])));
+      })
+      .catch(() => {
+        // Offline the counts stay at what was last known.
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [client, tags]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setTagError(null);
+    try {
+      await action();
+    } catch (err) {
+      setTagError(err instanceof Error ? err.message : 'Unable to update tags');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRename = (tag: Tag) => {
+    const name = draft.trim();
+    if (!name || name === tag.name) {
+      setEditingId(null);
+      return;
+    }
+    run(async () => {
+      await onRename(tag, name);
+      setEditingId(null);
+    });
+  };
+
+  const handleDelete = (tag: Tag) => {
+    const count = usage.get(tag.id) ?? 0;
+    const question =
+      count > 0
+        ? `Delete the tag "${tag.name}"? It will be taken off ${count} dream${count === 1 ? '' : 's'}.`
+        : `Delete the tag "${tag.name}"?`;
+    if (!window.confirm(question)) return;
+    run(() => onDelete(tag));
+  };
+
+  return (
+    <div className="form-field tags-section">
+      <span>Tags</span>
+      {tags.length === 0 ? (
+        <p className="form-hint">Tags you add to dreams show up here, ready to rename or delete.</p>
+      ) : (
+        <ul className="tags-section-list">
+          {tags.map((tag) => (
+            <li key={tag.id}>
+              {editingId === tag.id ? (
+                <input
+                  type="text"
+                  value={draft}
+                  maxLength={32}
+                  autoFocus
+                  onChange={(event) => setDraft(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter') {
+                      event.preventDefault();
+                      handleRename(tag);
+                    } else if (event.key === 'Escape') {
+                      setEditingId(null);
+                    }
+                  }}
+                  aria-label={`Rename ${tag.name}`}
+                />
+              ) : (
+                <span className="tag-chip">{tag.name}</span>
+              )}
+              <span className="tags-section-count">{usage.get(tag.id) ?? 0} dreams</span>
+              {editingId === tag.id ? (
+                <button
+                  type="button"
+                  className="ghost-link"
+                  onClick={() => handleRename(tag)}
+                  disabled={busy || offline}
+                >
+                  Save
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  className="ghost-link"
+                  onClick={() => {
+                    setEditingId(tag.id);
+                    setDraft(tag.name);
+                  }}
+                  disabled={busy || offline}
+                >
+                  Rename
+                </button>
+              )}
+              <button
+                type="button"
+                className="ghost-link"
+                onClick={() => handleDelete(tag)}
+                disabled={busy || offline}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {offline && tags.length > 0 && (
+        <p className="form-hint">Tags can be renamed or deleted once you are back online.</p>
+      )}
+      {tagError && <p className="form-error">{tagError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { MAX_UNLOCK_BRANCHES, MAX_UNLOCK_DEPTH } from '@gomun/contract/limits';
+import type { EntryOption, StreakPeriod, Tag } from '@gomun/contract';
+import { STREAK_PERIOD_LABELS, createUnlockRuleDraft } from '../unlockRules';
+import type { UnlockRuleDraft, UnlockRuleType } from '../unlockRules';
+
+type UnlockRuleEditorProps = {
+  rule: UnlockRuleDraft;
+  dreams: EntryOption[];
+  tags: Tag[];
+  depth: number;
+  onChange: (rule: UnlockRuleDraft) => void;
+  onRemove?: () => void;
+};
+
+export function UnlockRuleEditor({ rule, dreams, tags, depth, onChange, onRemove }: UnlockRuleEditorProps) {
+  const canNest = depth < MAX_UNLOCK_DEPTH;
+  const isGroup = rule.type === 'all' || rule.type === 'any';
+
+  const changeType = (type: UnlockRuleType) => {
+    let children = rule.children;
+
+    if ((type === 'all' || type === 'any') && children.length === 0) {
+      children = [createUnlockRuleDraft()];
+    }
+
+    if (type === 'not') {
+      children = children.length > 0 ? children.slice(0, 1) : [createUnlockRuleDraft()];
+    }
+
+    onChange({ ...rule, type, children });
+  };
+
+  const updateChild = (index: number, child: UnlockRuleDraft) => {
+    onChange({ ...rule, children: rule.children.map((item, itemIndex) => (itemIndex === index ? child : item)) });
+  };
+
+  const removeChild = (index: number) => {
+    onChange({ ...rule, children: rule.children.filter((_, itemIndex) => itemIndex !== index) });
+  };
+
+  return (
+    <div className="unlock-rule">
+      <div className="unlock-rule-row">
+        <label className="form-field">
+          <span>{depth === 1 ? 'Condition' : 'Rule'}</span>
+          <select value={rule.type} onChange={(event) => changeType(event.target.value as UnlockRuleType)}>
+            <option value="dreamCompleted">Specific dream</option>
+            <option value="dreamCount">Completed dream count</option>
+            <option value="dreamCountWithin">Dreams within a window</option>
+            <option value="tagCount">Dreams with a tag</option>
+            <option value="streak">Completion streak</option>
+            <option value="date">On a date</option>
+            {(canNest || rule.type === 'all') && <option value="all">All of these</option>}
+            {(canNest || rule.type === 'any') && <option value="any">Any of these</option>}
+            {(canNest || rule.type === 'not') && <option value="not">Not this</option>}
+          </select>
+        </label>
+        {onRemove && (
+          <button type="button" className="modal-close" onClick={onRemove} aria-label="Remove rule">
+            ×
+          </button>
+        )}
+      </div>
+
+      {rule.type === 'dreamCompleted' && (
+        <label className="form-field">
+          <span>Dream to unlock it</span>
+          <select value={rule.dreamId} onChange={(event) => onChange({ ...rule, dreamId: event.target.value })}>
+            <option value="">Choose a dream</option>
+            {dreams.map((dream) => (
+              <option key={dream.id} value={dream.id}>
+                {dream.title}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {rule.type === 'dreamCount' && (
+        <label className="form-field">
+          <span>Completed dreams required</span>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={rule.dreamCount}
+            onChange={(event) => onChange({ ...rule, dreamCount: event.target.value })}
+          />
+        </label>
+      )}
+
+      {rule.type === 'tagCount' && (
+        <div className="unlock-rule-row">
+          <label className="form-field">
+            <span>Dreams</span>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={rule.dreamCount}
+              onChange={(event) => onChange({ ...rule, dreamCount: event.target.value })}
+            />
+          </label>
+          <label className="form-field">
+            <span>Tagged</span>
+            <select value={rule.tagId} onChange={(event) => onChange({ ...rule, tagId: event.target.value })}>
+              <option value="">Choose a tag</option>
+              {tags.map((tag) => (
+                <option key={tag.id} value={tag.id}>
+                  {tag.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {rule.type === 'date' && (
+        <label className="form-field">
+          <span>Unlock on</span>
+          <input type="date" value={rule.date} onChange={(event) => onChange({ ...rule, date: event.target.value })} />
+        </label>
+      )}
+
+      {rule.type === 'dreamCountWithin' && (
+        <div className="unlock-rule-row">
+          <label className="form-field">
+            <span>Dreams</span>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={rule.dreamCount}
+              onChange={(event) => onChange({ ...rule, dreamCount: event.target.value })}
+            />
+          </label>
+          <label className="form-field">
+            <span>Within days</span>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={rule.windowDays}
+              onChange={(event) => onChange({ ...rule, windowDays: event.target.value })}
+            />
+          </label>
+        </div>
+      )}
+
+      {rule.type === 'streak' && (
+        <div className="unlock-rule-row">
+          <label className="form-field">
+            <span>In a row</span>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={rule.streakLength}
+              onChange={(event) => onChange({ ...rule, streakLength: event.target.value })}
+            />
+          </label>
+          <label className="form-field">
+            <span>Every</span>
+            <select
+              value={rule.streakPeriod}
+              onChange={(event) => onChange({ ...rule, streakPeriod: event.target.value as StreakPeriod })}
+            >
+              {(Object.keys(STREAK_PERIOD_LABELS) as StreakPeriod[]).map((period) => (
+                <option key={period} value={period}>
+                  {STREAK_PERIOD_LABELS[period]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {(isGroup || rule.type === 'not') && (
+        <div className="unlock-rule-children">
+          {rule.children.map((child, index) => (
+            <UnlockRuleEditor
+              key={child.id}
+              rule={child}
+              dreams={dreams}
+              tags={tags}
+              depth={depth + 1}
+              onChange={(next) => updateChild(index, next)}
+              onRemove={isGroup && rule.children.length > 1 ? () => removeChild(index) : undefined}
+            />
+          ))}
+
+          {isGroup && rule.children.length < MAX_UNLOCK_BRANCHES && (
+            <button
+              type="button"
+              className="entry-edit-button"
+              onClick={() => onChange({ ...rule, children: [...rule.children, createUnlockRuleDraft()] })}
+            >
+              + Add rule
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
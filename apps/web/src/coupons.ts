@@ -0,0 +1,36 @@
+import type { Coupon, RequestResponse } from '@gomun/contract';
+
+// How a coupon is shown: which shelf it sits on and how many uses it has left.
+
+export type CouponTone = 'available' | 'locked' | 'expired' | 'redeemed';
+
+/** What the recipient (request, cancel) or the giver (accept, decline, schedule) does with a redemption request. */
+export type CouponRequestAction = 'request' | 'cancel' | RequestResponse;
+
+export function couponTone(coupon: Coupon, now = Date.now()): CouponTone {
+  if (coupon.redeemed) return 'redeemed';
+  if (coupon.expiresAt && new Date(coupon.expiresAt).getTime() < now) return 'expired';
+  return coupon.unlocked ? 'available' : 'locked';
+}
+
+/** Null for a coupon without a limit. */
+function usesLeft(coupon: Coupon) {
+  return coupon.maxRedemptions === null ? null : Math.max(coupon.maxRedemptions - coupon.redemptionCount, 0);
+}
+
+export function describeUsesLeft(left: number | null) {
+  if (left === null) return 'no limit';
+  return left === 1 ? '1 use left' : `${left} uses left`;
+}
+
+/** Coupons grouped by how many uses they have left: those without a limit first, then the most left. */
+export function groupByUsesLeft(coupons: Coupon[]) {
+  const groups = new Map<number | null, Coupon[]>();
+
+  for (const coupon of coupons) {
+    const left = usesLeft(coupon);
+    groups.set(left, [...(groups.get(left) ?? []), coupon]);
+  }
+
+  return [...groups.entries()].sort(([a], [b]) => (a === null ? -1 : b === null ? 1 : b - a));
+}
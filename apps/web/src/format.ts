@@ -0,0 +1,23 @@
+import type { SpaceMember } from '@gomun/contract';
+
+// How dates and people are shown across the app.
+
+export function formatDate(value?: string | null) {
+  if (!value) return '';
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return '';
+  return date.toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export function formatCalendarDate(value: string) {
+  return formatDate(`${value}T00:00:00`) || value;
+}
+
+export function memberName(membersById: Map<string, SpaceMember>, userId?: string | null) {
+  if (!userId) return '';
+  return membersById.get(userId)?.name ?? 'a former member';
+}
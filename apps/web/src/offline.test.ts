@@ -0,0 +1,164 @@
+import 'fake-indexeddb/auto';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTempId, enqueueMutation, listMutations, replayMutations } from './offline';
+import type { QueuedMutation } from './offline';
+
+const VERSION = '2026-03-20T09:00:00.000Z';
+const SAVED_VERSION = '2026-03-20T09:05:00.000Z';
+
+let userSequence = 0;
+
+// Every test queues for a user of its own, so the database they share never mixes their changes.
+function nextUser() {
+  userSequence += 1;
+  return `user-${userSequence}`;
+}
+
+async function queue(userId: string, mutation: Omit<QueuedMutation, 'userId' | 'queuedAt'>) {
+  await enqueueMutation({ ...mutation, userId, queuedAt: new Date().toISOString() });
+}
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/** A server that answers each call in turn and remembers what it was sent. */
+function createServer(...answers: (() => Response)[]) {
+  const sent: Pick<QueuedMutation, 'method' | 'path' | 'body'>[] = [];
+
+  const send = async ({ method, path, body }: QueuedMutation) => {
+    sent.push({ method, path, body });
+    const answer = answers.shift();
+    if (!answer) throw new Error('No answer left for this call.');
+    return answer();
+  };
+
+  return { sent, send };
+}
+
+describe('replayMutations', () => {
+  it('sends changes oldest first and empties the queue', async () => {
+    const userId = nextUser();
+    await queue(userId, { method: 'PATCH', path: '/api/entries/entry-1', body: { title: 'Paris' }, label: 'first' });
+    await queue(userId, { method: 'DELETE', path: '/api/coupons/coupon-1', label: 'second' });
+    const server = createServer(
+      () => json(200, { entry: { id: 'entry-1', updatedAt: SAVED_VERSION } }),
+      () => new Response(null, { status: 204 })
+    );
+
+    const result = await replayMutations(userId, server.send);
+
+    assert.deepEqual(server.sent.map(({ path }) => path), ['/api/entries/entry-1', '/api/coupons/coupon-1']);
+    assert.deepEqual(result, { replayed: 2, rejected: [], pending: 0 });
+  });
+
+  it('leaves everything queued when the server cannot be reached, or is down, or the session expired', async () => {
+    for (const answer of [
+      () => Promise.reject(new TypeError('Failed to fetch')),
+      async () => json(503, { error: 'Unavailable' }),
+      async () => json(401, { error: 'Sign in again' }),
+    ]) {
+      const userId = nextUser();
+      await queue(userId, { method: 'DELETE', path: '/api/entries/entry-1', label: 'erase' });
+      await queue(userId, { method: 'DELETE', path: '/api/entries/entry-2', label: 'erase' });
+
+      const result = await replayMutations(userId, answer);
+
+      assert.deepEqual(result, { replayed: 0, rejected: [], pending: 2 });
+    }
+  });
+
+  it('drops a refused change with the reason the server gave, and carries on', async () => {
+    const userId = nextUser();
+    await queue(userId, { method: 'DELETE', path: '/api/coupons/coupon-1', label: 'Erase "Breakfast in bed"' });
+    await queue(userId, { method: 'DELETE', path: '/api/coupons/coupon-2', label: 'Erase "Picnic"' });
+    const server = createServer(
+      () => json(404, { error: 'Coupon not found' }),
+      () => new Response(null, { status: 204 })
+    );
+
+    const result = await replayMutations(userId, server.send);
+
+    assert.deepEqual(result, {
+      replayed: 1,
+      rejected: [{ label: 'Erase "Breakfast in bed"', error: 'Coupon not found' }],
+      pending: 0,
+    });
+  });
+
+  it('drops the changes made to a dream the server refused to create', async () => {
+    const userId = nextUser();
+    const tempId = createTempId();
+    await queue(userId, { method: 'POST', path: '/api/entries', body: { title: '' }, label: 'Write', tempId });
+    await queue(userId, { method: 'DELETE', path: `/api/entries/${tempId}`, label: 'Erase' });
+    const server = createServer(() => json(400, { error: 'title is required.' }));
+
+    const result = await replayMutations(userId, server.send);
+
+    assert.equal(server.sent.length, 1);
+    assert.deepEqual(result.rejected, [
+      { label: 'Write', error: 'title is required.' },
+      { label: 'Erase', error: 'It depended on an offline change that could not be saved.' },
+    ]);
+    assert.equal(result.pending, 0);
+  });
+});
+
+describe('following the server record', () => {
+  it('points later changes at the id the server gave a dream created offline', async () => {
+    const userId = nextUser();
+    const tempId = createTempId();
+    await queue(userId, { method: 'POST', path: '/api/entries', body: { title: 'Paris' }, label: 'Write', tempId });
+    await queue(userId, { method: 'POST', path: `/api/entries/${tempId}/steps`, body: { title: 'Go' }, label: 'Step' });
+    const server = createServer(
+      () => json(201, { entry: { id: 'entry-1', updatedAt: VERSION } }),
+      () => json(201, { id: 'step-1' })
+    );
+
+    await replayMutations(userId, server.send);
+
+    assert.equal(server.sent[1].path, '/api/entries/entry-1/steps');
+  });
+
+  it('lets a second offline edit start from the version the first one saved', async () => {
+    const userId = nextUser();
+    const edit = (title: string) => ({ title, updatedAt: VERSION });
+    await queue(userId, { method: 'PATCH', path: '/api/coupons/coupon-1', body: edit('Picnic'), label: 'first' });
+    await queue(userId, { method: 'PATCH', path: '/api/coupons/coupon-1', body: edit('Picnic!'), label: 'second' });
+    await queue(userId, { method: 'PATCH', path: '/api/coupons/coupon-2', body: edit('Brunch'), label: 'other' });
+    const server = createServer(
+      () => json(200, { id: 'coupon-1', updatedAt: SAVED_VERSION }),
+      () => json(200, { id: 'coupon-1', updatedAt: '2026-03-20T09:06:00.000Z' }),
+      () => json(200, { id: 'coupon-2', updatedAt: SAVED_VERSION })
+    );
+
+    await replayMutations(userId, server.send);
+
+    assert.deepEqual(server.sent[1].body, { title: 'Picnic!', updatedAt: SAVED_VERSION });
+    assert.deepEqual(server.sent[2].body, { title: 'Brunch', updatedAt: VERSION });
+  });
+
+  it('rewrites the queue as it goes, so changes left behind already carry the new id and version', async () => {
+    const userId = nextUser();
+    const tempId = createTempId();
+    await queue(userId, { method: 'POST', path: '/api/entries', body: { title: 'Paris' }, label: 'Write', tempId });
+    await queue(userId, {
+      method: 'PATCH',
+      path: `/api/entries/${tempId}`,
+      body: { title: 'Paris in spring', updatedAt: VERSION },
+      label: 'Edit',
+    });
+    const server = createServer(
+      () => json(201, { entry: { id: 'entry-1', updatedAt: SAVED_VERSION } }),
+      () => json(503, { error: 'Unavailable' })
+    );
+
+    const result = await replayMutations(userId, server.send);
+    const [left] = await listMutations(userId);
+
+    assert.equal(result.pending, 1);
+    assert.equal(left.path, '/api/entries/entry-1');
+    assert.deepEqual(left.body, { title: 'Paris in spring', updatedAt: SAVED_VERSION });
+  });
+});
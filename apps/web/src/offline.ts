@@ -0,0 +1,196 @@
+// Offline storage: the last data each user loaded and the changes they made while the server was out of reach.
+// Both live in IndexedDB so they survive a reload or a closed tab.
+
+export type QueuedMutation = {
+  id?: number;
+  userId: string;
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string;
+  body?: unknown;
+  // Shown to the user if the server rejects the change once it is replayed.
+  label: string;
+  // Set on creates: the placeholder id used locally until the server assigns the real one.
+  tempId?: string;
+  queuedAt: string;
+};
+
+export type RejectedMutation = {
+  label: string;
+  error: string;
+};
+
+export type ReplayResult = {
+  replayed: number;
+  rejected: RejectedMutation[];
+  pending: number;
+};
+
+type StoredSnapshot<T> = T & { userId: string; savedAt: string };
+
+type ServerRecord = { id?: string; updatedAt?: string };
+
+const DB_NAME = 'gomun-offline';
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = 'snapshots';
+const MUTATION_STORE = 'mutations';
+const TEMP_ID_PREFIX = 'offline-';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase() {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      database.createObjectStore(SNAPSHOT_STORE, { keyPath: 'userId' });
+      const mutations = database.createObjectStore(MUTATION_STORE, { keyPath: 'id', autoIncrement: true });
+      mutations.createIndex('userId', 'userId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  return databasePromise;
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+) {
+  const database = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function createTempId() {
+  return `${TEMP_ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function isTempId(id: string) {
+  return id.startsWith(TEMP_ID_PREFIX);
+}
+
+export async function saveSnapshot<T extends object>(userId: string, data: T) {
+  const snapshot: StoredSnapshot<T> = { ...data, userId, savedAt: new Date().toISOString() };
+  await withStore(SNAPSHOT_STORE, 'readwrite', (store) => store.put(snapshot));
+}
+
+export async function loadSnapshot<T extends object>(userId: string) {
+  const snapshot = await withStore<StoredSnapshot<T> | undefined>(SNAPSHOT_STORE, 'readonly', (store) =>
+    store.get(userId)
+  );
+  return snapshot ?? null;
+}
+
+export async function enqueueMutation(mutation: QueuedMutation) {
+  await withStore(MUTATION_STORE, 'readwrite', (store) => store.add(mutation));
+}
+
+export async function listMutations(userId: string) {
+  // Keys are auto-incremented, so the index returns changes in the order they were made.
+  return withStore<QueuedMutation[]>(MUTATION_STORE, 'readonly', (store) => store.index('userId').getAll(userId));
+}
+
+async function removeMutation(id: number) {
+  await withStore(MUTATION_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+function hasVersion(body: unknown): body is { updatedAt: unknown } {
+  return typeof body === 'object' && body !== null && 'updatedAt' in body;
+}
+
+// Once the server accepts a change, the changes queued behind it follow its answer: a placeholder id becomes the
+// real one, and later edits of the same dream or coupon start from the version just returned, so changes made in
+// one offline session never conflict with each other.
+async function followServerRecord(userId: string, tempId: string | undefined, record: ServerRecord | null) {
+  if (!record?.id) return;
+
+  const mutations = await listMutations(userId);
+
+  for (const mutation of mutations) {
+    const path = tempId ? mutation.path.replaceAll(tempId, record.id) : mutation.path;
+    const targetsRecord = path.split('/')[3] === record.id;
+    const body =
+      targetsRecord && record.updatedAt && hasVersion(mutation.body)
+        ? { ...mutation.body, updatedAt: record.updatedAt }
+        : mutation.body;
+
+    if (path === mutation.path && body === mutation.body) continue;
+    await withStore(MUTATION_STORE, 'readwrite', (store) => store.put({ ...mutation, path, body }));
+  }
+}
+
+export async function clearOfflineData(userId: string) {
+  const mutations = await listMutations(userId);
+
+  for (const mutation of mutations) {
+    if (mutation.id !== undefined) await removeMutation(mutation.id);
+  }
+
+  await withStore(SNAPSHOT_STORE, 'readwrite', (store) => store.delete(userId));
+}
+
+async function readRejection(response: Response) {
+  try {
+    const data: { error?: string } = await response.json();
+    return data.error ?? `The server refused it (${response.status}).`;
+  } catch {
+    return `The server refused it (${response.status}).`;
+  }
+}
+
+// Sends queued changes oldest first. A network failure, an expired session or a server error stops the replay
+// and leaves the rest queued for the next attempt; any other refusal drops the change and reports it, along with
+// every later change that pointed at a dream the server never created.
+export async function replayMutations(
+  userId: string,
+  send: (mutation: QueuedMutation) => Promise<Response>
+): Promise<ReplayResult> {
+  const rejected: RejectedMutation[] = [];
+  const abandonedIds = new Set<string>();
+  let replayed = 0;
+
+  for (;;) {
+    const [mutation] = await listMutations(userId);
+    if (!mutation || mutation.id === undefined) break;
+
+    if ([...abandonedIds].some((tempId) => mutation.path.includes(tempId))) {
+      rejected.push({ label: mutation.label, error: 'It depended on an offline change that could not be saved.' });
+      await removeMutation(mutation.id);
+      continue;
+    }
+
+    let response: Response;
+    try {
+      response = await send(mutation);
+    } catch {
+      break;
+    }
+
+    if (response.status === 401 || response.status >= 500) break;
+
+    if (!response.ok) {
+      rejected.push({ label: mutation.label, error: await readRejection(response) });
+      if (mutation.tempId) abandonedIds.add(mutation.tempId);
+      await removeMutation(mutation.id);
+      continue;
+    }
+
+    const data: (ServerRecord & { entry?: ServerRecord }) | null = await response.json().catch(() => null);
+    await removeMutation(mutation.id);
+    await followServerRecord(userId, mutation.tempId, data?.entry ?? data);
+    replayed += 1;
+  }
+
+  const remaining = await listMutations(userId);
+  return { replayed, rejected, pending: remaining.length };
+}
@@ -0,0 +1,51 @@
+import { formatCalendarDate } from './format';
+
+// Dream recurrence is kept as an RRULE; the form edits a few of its parts and the cards describe it in words.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export const RECURRENCE_UNITS: Record<RecurrenceFrequency, { adverb: string; unit: string }> = {
+  DAILY: { adverb: 'daily', unit: 'day' },
+  WEEKLY: { adverb: 'weekly', unit: 'week' },
+  MONTHLY: { adverb: 'monthly', unit: 'month' },
+  YEARLY: { adverb: 'yearly', unit: 'year' },
+};
+
+const RRULE_WEEKDAY_LABELS: Record<string, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+export function readRecurrencePart(rule: string, key: string) {
+  const part = rule.split(';').find((item) => item.startsWith(`${key}=`));
+  return part ? part.slice(key.length + 1) : '';
+}
+
+/** Sets or removes one RRULE part while leaving the ones the form does not edit untouched. */
+export function writeRecurrencePart(rule: string, key: string, value: string) {
+  const parts = rule.split(';').filter((item) => item && !item.startsWith(`${key}=`));
+  if (value) parts.push(`${key}=${value}`);
+  return parts.join(';');
+}
+
+export function describeRecurrence(rule: string) {
+  const freq = readRecurrencePart(rule, 'FREQ') as RecurrenceFrequency;
+  if (!RECURRENCE_UNITS[freq]) return 'Repeats';
+
+  const interval = Number(readRecurrencePart(rule, 'INTERVAL') || 1);
+  const byDay = readRecurrencePart(rule, 'BYDAY');
+  const count = readRecurrencePart(rule, 'COUNT');
+  const until = readRecurrencePart(rule, 'UNTIL');
+
+  let copy =
+    interval > 1 ? `Repeats every ${interval} ${RECURRENCE_UNITS[freq].unit}s` : `Repeats ${RECURRENCE_UNITS[freq].adverb}`;
+  if (byDay) copy += ` on ${byDay.split(',').map((day) => RRULE_WEEKDAY_LABELS[day] ?? day).join(', ')}`;
+  if (count) copy += `, ${count} times`;
+  if (until) copy += ` until ${formatCalendarDate(`${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`)}`;
+  return copy;
+}
@@ -0,0 +1,26 @@
+import type { AuthSession } from '@gomun/contract';
+
+// Where the API lives, and how this device keeps the session it signed in with.
+
+export const API_BASE = import.meta.env.VITE_API_URL ?? 'http://localhost:8080';
+
+const SESSION_STORAGE_KEY = 'gomun.session';
+
+export function loadStoredSession(): AuthSession | null {
+  try {
+    const raw = window.localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as AuthSession;
+    return typeof parsed?.token === 'string' && parsed.user ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeSession(session: AuthSession | null) {
+  if (session) {
+    window.localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  } else {
+    window.localStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { STATS_MONTHS, formatDays, formatRate, monthSeries } from './stats';
+
+describe('monthSeries', () => {
+  it('ends with the latest month and fills the months in between with zeros', () => {
+    const series = monthSeries([
+      { month: '2025-11', count: 2 },
+      { month: '2026-02', count: 5 },
+    ]);
+
+    assert.equal(series.length, STATS_MONTHS);
+    assert.equal(series[0].month, '2025-03');
+    assert.deepEqual(
+      series.slice(-4).map(({ month, count }) => [month, count]),
+      [
+        ['2025-11', 2],
+        ['2025-12', 0],
+        ['2026-01', 0],
+        ['2026-02', 5],
+      ]
+    );
+  });
+
+  it('drops months older than the chart spans', () => {
+    const series = monthSeries([
+      { month: '2024-01', count: 9 },
+      { month: '2026-02', count: 1 },
+    ]);
+
+    assert.equal(series.reduce((total, item) => total + item.count, 0), 1);
+  });
+
+  it('is empty before anything has come true', () => {
+    assert.deepEqual(monthSeries([]), []);
+  });
+});
+
+describe('formatRate', () => {
+  it('reads as a whole percentage, or a dash when there is nothing to divide by', () => {
+    assert.equal(formatRate(0.666), '67%');
+    assert.equal(formatRate(1), '100%');
+    assert.equal(formatRate(null), '–');
+  });
+});
+
+describe('formatDays', () => {
+  it('rounds to whole days and says so when it took less than one', () => {
+    assert.equal(formatDays(0.4), 'under a day');
+    assert.equal(formatDays(1.2), '1 day');
+    assert.equal(formatDays(12.6), '13 days');
+    assert.equal(formatDays(null), '–');
+  });
+});
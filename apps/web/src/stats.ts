@@ -0,0 +1,29 @@
+import type { MonthlyCompletions } from '@gomun/contract';
+
+// Figures for the statistics dashboard: the monthly series its chart draws and how rates and durations read.
+
+/** Months the completions chart spans, ending with the latest month that has one. */
+export const STATS_MONTHS = 12;
+
+/** Consecutive YYYY-MM months, filling the gaps the API leaves out with zeros. */
+export function monthSeries(completions: MonthlyCompletions[]) {
+  const last = completions[completions.length - 1];
+  if (!last) return [];
+
+  const counts = new Map(completions.map((item) => [item.month, item.count]));
+  const [year, month] = last.month.split('-').map(Number);
+  return Array.from({ length: STATS_MONTHS }, (_, index) => {
+    const date = new Date(Date.UTC(year, month - STATS_MONTHS + index, 1));
+    const key = date.toISOString().slice(0, 7);
+    return { month: key, date, count: counts.get(key) ?? 0 };
+  });
+}
+
+export function formatRate(rate: number | null) {
+  return rate === null ? '–' : `${Math.round(rate * 100)}%`;
+}
+
+export function formatDays(days: number | null) {
+  if (days === null) return '–';
+  return days < 1 ? 'under a day' : `${Math.round(days)} ${Math.round(days) === 1 ? 'day' : 'days'}`;
+}
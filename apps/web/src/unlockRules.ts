@@ -0,0 +1,212 @@
+import type { EntryOption, StreakPeriod, Tag, UnlockCondition as CouponUnlockCondition } from '@gomun/contract';
+import { formatCalendarDate } from './format';
+
+// How a coupon's unlock rule reads on its card, and the editable draft the coupon form keeps of it.
+
+export type UnlockRuleType = CouponUnlockCondition['type'];
+
+export type UnlockRuleDraft = {
+  id: string;
+  type: UnlockRuleType;
+  dreamId: string;
+  dreamCount: string;
+  date: string;
+  windowDays: string;
+  streakLength: string;
+  streakPeriod: StreakPeriod;
+  tagId: string;
+  children: UnlockRuleDraft[];
+};
+
+export const STREAK_PERIOD_LABELS: Record<StreakPeriod, string> = {
+  day: 'day',
+  week: 'week',
+  month: 'month',
+};
+
+let unlockRuleSequence = 0;
+
+function describeUnlockClause(
+  condition: CouponUnlockCondition,
+  dreamsById: Map<string, EntryOption>,
+  tagsById: Map<string, Tag>,
+  nested: boolean
+): string {
+  switch (condition.type) {
+    case 'dreamCompleted': {
+      const targetDream = dreamsById.get(condition.value);
+      return targetDream ? `"${targetDream.title}" is fulfilled` : 'an erased dream is fulfilled';
+    }
+    case 'dreamCount':
+      return `${condition.value} dreams come true`;
+    case 'all':
+    case 'any': {
+      const joined = condition.conditions
+        .map((child) => describeUnlockClause(child, dreamsById, tagsById, true))
+        .join(condition.type === 'all' ? ' and ' : ' or ');
+      return nested && condition.conditions.length > 1 ? `(${joined})` : joined;
+    }
+    case 'not':
+      return `not ${describeUnlockClause(condition.condition, dreamsById, tagsById, true)}`;
+    case 'date':
+      return `${formatCalendarDate(condition.value)} arrives`;
+    case 'dreamCountWithin':
+      return `${condition.value} dreams come true within ${condition.days} days`;
+    case 'streak':
+      return `a dream comes true every ${STREAK_PERIOD_LABELS[condition.period]} for ${condition.value} ${STREAK_PERIOD_LABELS[condition.period]}s in a row`;
+    case 'tagCount': {
+      const tag = tagsById.get(condition.tagId);
+      return `${condition.value} dreams tagged ${tag ? `"${tag.name}"` : 'with a deleted tag'} come true`;
+    }
+  }
+}
+
+export function describeUnlockCondition(
+  condition: CouponUnlockCondition | null | undefined,
+  dreamsById: Map<string, EntryOption>,
+  tagsById: Map<string, Tag>
+) {
+  if (!condition) {
+    return 'Available as soon as it is written.';
+  }
+
+  if (condition.type === 'dreamCompleted') {
+    const targetDream = dreamsById.get(condition.value);
+    return targetDream
+      ? `Unlock by fulfilling "${targetDream.title}".`
+      : 'Unlock by fulfilling a dream that was erased.';
+  }
+
+  if (condition.type === 'dreamCount') {
+    return `Unlock after ${condition.value} dreams come true.`;
+  }
+
+  if (condition.type === 'date') {
+    return `Unlock on ${formatCalendarDate(condition.value)}.`;
+  }
+
+  return `Unlock when ${describeUnlockClause(condition, dreamsById, tagsById, false)}.`;
+}
+
+export function isOrphanedCondition(
+  condition: CouponUnlockCondition | null | undefined,
+  dreamsById: Map<string, EntryOption>,
+  tagsById: Map<string, Tag>
+): boolean {
+  if (!condition) return false;
+
+  switch (condition.type) {
+    case 'dreamCompleted':
+      return !dreamsById.has(condition.value);
+    case 'tagCount':
+      return !tagsById.has(condition.tagId);
+    case 'all':
+    case 'any':
+      return condition.conditions.some((child) => isOrphanedCondition(child, dreamsById, tagsById));
+    case 'not':
+      return isOrphanedCondition(condition.condition, dreamsById, tagsById);
+    default:
+      return false;
+  }
+}
+
+export function createUnlockRuleDraft(type: UnlockRuleType = 'dreamCompleted'): UnlockRuleDraft {
+  unlockRuleSequence += 1;
+  return {
+    id: `rule-${unlockRuleSequence}`,
+    type,
+    dreamId: '',
+    dreamCount: '3',
+    date: '',
+    windowDays: '30',
+    streakLength: '4',
+    streakPeriod: 'week',
+    tagId: '',
+    children: type === 'all' || type === 'any' || type === 'not' ? [createUnlockRuleDraft()] : [],
+  };
+}
+
+export function conditionToDraft(condition: CouponUnlockCondition): UnlockRuleDraft {
+  const draft = createUnlockRuleDraft(condition.type);
+
+  switch (condition.type) {
+    case 'dreamCompleted':
+      return { ...draft, dreamId: condition.value };
+    case 'dreamCount':
+      return { ...draft, dreamCount: String(condition.value) };
+    case 'all':
+    case 'any':
+      return { ...draft, children: condition.conditions.map(conditionToDraft) };
+    case 'not':
+      return { ...draft, children: [conditionToDraft(condition.condition)] };
+    case 'date':
+      return { ...draft, date: condition.value };
+    case 'dreamCountWithin':
+      return { ...draft, dreamCount: String(condition.value), windowDays: String(condition.days) };
+    case 'streak':
+      return { ...draft, streakLength: String(condition.value), streakPeriod: condition.period };
+    case 'tagCount':
+      return { ...draft, dreamCount: String(condition.value), tagId: condition.tagId };
+  }
+}
+
+export function draftToCondition(draft: UnlockRuleDraft): CouponUnlockCondition {
+  switch (draft.type) {
+    case 'dreamCompleted':
+      if (!draft.dreamId) {
+        throw new Error('Pick the dream that should unlock this coupon.');
+      }
+      return { type: 'dreamCompleted', value: draft.dreamId };
+    case 'dreamCount': {
+      const dreamCount = Number(draft.dreamCount);
+      if (!Number.isInteger(dreamCount) || dreamCount <= 0) {
+        throw new Error('Use a valid number of completed dreams.');
+      }
+      return { type: 'dreamCount', value: dreamCount };
+    }
+    case 'all':
+    case 'any':
+      if (draft.children.length === 0) {
+        throw new Error('Every group needs at least one rule.');
+      }
+      return { type: draft.type, conditions: draft.children.map(draftToCondition) };
+    case 'not':
+      if (!draft.children[0]) {
+        throw new Error('Choose the rule that should stay untrue.');
+      }
+      return { type: 'not', condition: draftToCondition(draft.children[0]) };
+    case 'date':
+      if (!draft.date) {
+        throw new Error('Pick the day this coupon should unlock.');
+      }
+      return { type: 'date', value: draft.date };
+    case 'dreamCountWithin': {
+      const dreamCount = Number(draft.dreamCount);
+      const days = Number(draft.windowDays);
+      if (!Number.isInteger(dreamCount) || dreamCount <= 0) {
+        throw new Error('Use a valid number of completed dreams.');
+      }
+      if (!Number.isInteger(days) || days <= 0) {
+        throw new Error('Use a valid number of days for the window.');
+      }
+      return { type: 'dreamCountWithin', value: dreamCount, days };
+    }
+    case 'streak': {
+      const streakLength = Number(draft.streakLength);
+      if (!Number.isInteger(streakLength) || streakLength <= 0) {
+        throw new Error('Use a valid streak length.');
+      }
+      return { type: 'streak', value: streakLength, period: draft.streakPeriod };
+    }
+    case 'tagCount': {
+      const dreamCount = Number(draft.dreamCount);
+      if (!draft.tagId) {
+        throw new Error('Pick the tag whose dreams should count.');
+      }
+      if (!Number.isInteger(dreamCount) || dreamCount <= 0) {
+        throw new Error('Use a valid number of completed dreams.');
+      }
+      return { type: 'tagCount', value: dreamCount, tagId: draft.tagId };
+    }
+  }
+}
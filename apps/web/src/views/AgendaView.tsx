@@ -0,0 +1,329 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { ApiClient } from '@gomun/contract/client';
+import type {
+  Entry as AgendaEntry,
+  EntryPage,
+  LetterCount,
+  SpaceMember,
+  Step as EntryStep,
+  Tag,
+} from '@gomun/contract';
+import {
+  AGENDA_LETTERS,
+  AGENDA_SORT_OPTIONS,
+  DEFAULT_AGENDA_FILTERS,
+  buildEntryQuery,
+  buildLocalAgenda,
+} from '../agenda';
+import type { AgendaFilters } from '../agenda';
+import { EntryCard } from '../components/EntryCard';
+
+const ITEMS_PER_PAGE = 15;
+
+type AgendaViewProps = {
+  client: ApiClient;
+  offline: boolean;
+  refreshKey: number;
+  activeLetter: string | null;
+  onLetterChange: (letter: string | null) => void;
+  entriesById: Map<string, AgendaEntry>;
+  onEntriesLoaded: (entries: AgendaEntry[]) => void;
+  members: SpaceMember[];
+  tags: Tag[];
+  loading: boolean;
+  error: string | null;
+  deletingIds: Set<string>;
+  membersById: Map<string, SpaceMember>;
+  onEdit: (entry: AgendaEntry) => void;
+  onDelete: (entry: AgendaEntry) => void;
+  onToggleDone: (entry: AgendaEntry) => void;
+  onToggleStep: (entry: AgendaEntry, step: EntryStep) => void;
+  onReflect: (entry: AgendaEntry) => void;
+};
+
+export function AgendaView({
+  client,
+  offline,
+  refreshKey,
+  activeLetter,
+  onLetterChange,
+  entriesById,
+  onEntriesLoaded,
+  members,
+  tags,
+  loading,
+  error,
+  deletingIds,
+  membersById,
+  onEdit,
+  onDelete,
+  onToggleDone,
+  onToggleStep,
+  onReflect,
+}: AgendaViewProps) {
+  const [filters, setFilters] = useState<AgendaFilters>(DEFAULT_AGENDA_FILTERS);
+  const [letterCounts, setLetterCounts] = useState<LetterCount[] | null>(null);
+  const [pagination, setPagination] = useState<{ letter: string | null; cursors: (string | null)[] }>({
+    letter: null,
+    cursors: [null],
+  });
+  const [page, setPage] = useState<EntryPage | null>(null);
+  const [pageError, setPageError] = useState<string | null>(null);
+  const [pageLoading, setPageLoading] = useState(false);
+  // Cursor history belongs to one letter; switching letters starts again from the first page.
+  const pageCursors = pagination.letter === activeLetter ? pagination.cursors : [null];
+  const currentPageIndex = pageCursors.length - 1;
+  const currentCursor = pageCursors[currentPageIndex];
+  const localAgenda = useMemo(
+    () => (offline ? buildLocalAgenda([...entriesById.values()], filters) : null),
+    [offline, entriesById, filters]
+  );
+
+  useEffect(() => {
+    if (localAgenda) {
+      if (!localAgenda.counts.some((item) => item.letter === activeLetter)) {
+        onLetterChange(localAgenda.counts[0]?.letter ?? null);
+      }
+      return;
+    }
+
+    let isMounted = true;
+
+    async function loadCounts() {
+      try {
+        const counts = await client.countEntryLetters(buildEntryQuery(filters));
+        if (!isMounted) return;
+
+        setLetterCounts(counts);
+        if (!counts.some((item) => item.letter === activeLetter)) {
+          onLetterChange(counts[0]?.letter ?? null);
+        }
+      } catch (err) {
+        if (isMounted) {
+          setPageError(err instanceof Error ? err.message : 'Unable to count dreams');
+        }
+      }
+    }
+
+    loadCounts();
+    return () => {
+      isMounted = false;
+    };
+  }, [client, localAgenda, filters, refreshKey, activeLetter, onLetterChange]);
+
+  useEffect(() => {
+    if (!activeLetter) {
+      setPage(null);
+      return;
+    }
+
+    if (offline) return;
+
+    let isMounted = true;
+
+    async function loadPage() {
+      setPageLoading(true);
+      setPageError(null);
+
+      try {
+        const data = await client.listEntries({
+          ...buildEntryQuery(filters),
+          letter: activeLetter ?? undefined,
+          limit: ITEMS_PER_PAGE,
+          cursor: currentCursor ?? undefined,
+        });
+        if (isMounted) {
+          setPage(data);
+          onEntriesLoaded(data.items);
+        }
+      } catch (err) {
+        if (isMounted) {
+          setPageError(err instanceof Error ? err.message : 'Unable to load dreams');
+        }
+      } finally {
+        if (isMounted) {
+          setPageLoading(false);
+        }
+      }
+    }
+
+    loadPage();
+    return () => {
+      isMounted = false;
+    };
+  }, [client, offline, filters, activeLetter, currentCursor, refreshKey, onEntriesLoaded]);
+
+  const setPageCursors = (cursors: (string | null)[]) => {
+    setPagination({ letter: activeLetter, cursors });
+  };
+
+  const updateFilters = (patch: Partial<AgendaFilters>) => {
+    setFilters((prev) => ({ ...prev, ...patch }));
+    setPageCursors([null]);
+  };
+
+  if (loading) {
+    return <p className="agenda-status">Gathering your dreams...</p>;
+  }
+
+  if (error) {
+    return <p className="agenda-status error">{error}</p>;
+  }
+
+  const counts = localAgenda?.counts ?? letterCounts;
+  const activeCount = counts?.find((item) => item.letter === activeLetter)?.count ?? 0;
+  const totalPages = Math.max(1, Math.ceil(activeCount / ITEMS_PER_PAGE));
+  const countsByLetter = new Map((counts ?? []).map((item) => [item.letter, item.count]));
+  const listError = localAgenda ? null : pageError;
+  // Offline, a letter shows every saved dream at once; there is no server to page through.
+  // Online, cards reflect the latest local state, so toggles and edits show before the page reloads.
+  const visible = localAgenda
+    ? (localAgenda.byLetter.get(activeLetter ?? '') ?? [])
+    : (page?.items ?? []).flatMap((item) => entriesById.get(item.id) ?? []);
+
+  return (
+    <div className="book-wrapper agenda-wrapper">
+      <div className="agenda-toolbar">
+        <label className="form-field">
+          <span>Show</span>
+          <select
+            value={filters.done}
+            onChange={(event) => updateFilters({ done: event.target.value as AgendaFilters['done'] })}
+          >
+            <option value="all">All dreams</option>
+            <option value="open">Still dreams</option>
+            <option value="done">Come true</option>
+          </select>
+        </label>
+
+        <label className="form-field">
+          <span>Dreamer</span>
+          <select value={filters.userId} onChange={(event) => updateFilters({ userId: event.target.value })}>
+            <option value="">Everyone</option>
+            {members.map((member) => (
+              <option key={member.id} value={member.id}>
+                {member.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {tags.length > 0 && (
+          <label className="form-field">
+            <span>Tag</span>
+            <select value={filters.tagId} onChange={(event) => updateFilters({ tagId: event.target.value })}>
+              <option value="">Any tag</option>
+              {tags.map((tag) => (
+                <option key={tag.id} value={tag.id}>
+                  {tag.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <label className="form-field">
+          <span>From</span>
+          <input type="date" value={filters.from} onChange={(event) => updateFilters({ from: event.target.value })} />
+        </label>
+
+        <label className="form-field">
+          <span>To</span>
+          <input type="date" value={filters.to} onChange={(event) => updateFilters({ to: event.target.value })} />
+        </label>
+
+        <label className="form-field">
+          <span>Sort</span>
+          <select
+            value={filters.sort}
+            onChange={(event) => updateFilters({ sort: event.target.value as AgendaFilters['sort'] })}
+          >
+            {Object.entries(AGENDA_SORT_OPTIONS).map(([value, option]) => (
+              <option key={value} value={value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <nav className="letter-index" aria-label="Letters">
+        {AGENDA_LETTERS.map((letter) => {
+          const count = countsByLetter.get(letter) ?? 0;
+          return (
+            <button
+              key={letter}
+              type="button"
+              className={`letter-index-button${letter === activeLetter ? ' active' : ''}`}
+              onClick={() => onLetterChange(letter)}
+              disabled={count === 0}
+              aria-current={letter === activeLetter ? 'true' : undefined}
+              title={`${count} dreams`}
+            >
+              {letter}
+            </button>
+          );
+        })}
+      </nav>
+
+      {listError && <p className="agenda-status error">{listError}</p>}
+
+      {!listError && counts && counts.length === 0 && (
+        <p className="agenda-status">Write the first dream and start the story.</p>
+      )}
+
+      {!listError && activeLetter && (
+        <section className="book-section agenda-page">
+          <header className="section-header">
+            <span className="section-letter">{activeLetter}</span>
+          </header>
+
+          {pageLoading && !page && !localAgenda ? (
+            <p className="agenda-status">Turning the page...</p>
+          ) : (
+            <ul className="entries-list agenda-results">
+              {visible.map((entry) => (
+                <EntryCard
+                  key={entry.id}
+                  client={client}
+                  entry={entry}
+                  isDeleting={deletingIds.has(entry.id)}
+                  membersById={membersById}
+                  onEdit={onEdit}
+                  onDelete={onDelete}
+                  onToggleDone={onToggleDone}
+                  onToggleStep={onToggleStep}
+                  onReflect={onReflect}
+                />
+              ))}
+            </ul>
+          )}
+
+          {!localAgenda && (currentPageIndex > 0 || page?.nextCursor) && (
+            <nav className="letter-pagination" aria-label={`Pages for letter ${activeLetter}`}>
+              <button
+                type="button"
+                className="pagination-button"
+                onClick={() => setPageCursors(pageCursors.slice(0, -1))}
+                disabled={currentPageIndex === 0 || pageLoading}
+              >
+                Previous
+              </button>
+              <span className="pagination-pages">
+                Page {currentPageIndex + 1} of {totalPages}
+              </span>
+              <button
+                type="button"
+                className="pagination-button"
+                onClick={() => page?.nextCursor && setPageCursors([...pageCursors, page.nextCursor])}
+                disabled={!page?.nextCursor || pageLoading}
+              >
+                Next
+              </button>
+            </nav>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
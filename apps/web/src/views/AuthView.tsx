@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { createApiClient } from '@gomun/contract/client';
+import type { AuthSession } from '@gomun/contract';
+import { API_BASE } from '../session';
+import logoSrc from '/GoMun.png';
+
+// Signing up and logging in happen before there is a session to send.
+const publicClient = createApiClient({ baseUrl: API_BASE });
+
+type AuthViewProps = {
+  onAuthenticated: (session: AuthSession) => void;
+};
+
+export function AuthView({ onAuthenticated }: AuthViewProps) {
+  const [mode, setMode] = useState<'login' | 'signup'>('login');
+  const [formState, setFormState] = useState({ name: '', email: '', password: '' });
+  const [submitting, setSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const isSignup = mode === 'signup';
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setFormError(null);
+
+    if (!formState.email.trim() || !formState.password) {
+      setFormError('Email and password are required.');
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const credentials = { email: formState.email.trim(), password: formState.password };
+      const session = isSignup
+        ? await publicClient.signup({ ...credentials, name: formState.name.trim() || undefined })
+        : await publicClient.login(credentials);
+      onAuthenticated(session);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Unable to sign in');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="agenda-shell">
+      <header className="agenda-header">
+        <div className="title-row">
+          <img src={logoSrc} alt="GoMun emblem" className="brand-mark" />
+          <h1>GoMun</h1>
+        </div>
+        <p>Every shared dream, every small promise, every future kept close.</p>
+      </header>
+
+      <div className="entry-modal auth-card">
+        <header className="entry-modal-header">
+          <h2>{isSignup ? 'Create Account' : 'Sign In'}</h2>
+        </header>
+
+        <form className="entry-form" onSubmit={handleSubmit}>
+          {isSignup && (
+            <label className="form-field">
+              <span>Name</span>
+              <input
+                type="text"
+                name="name"
+                autoComplete="name"
+                value={formState.name}
+                onChange={(event) => setFormState((prev) => ({ ...prev, name: event.target.value }))}
+                placeholder="Luna"
+              />
+            </label>
+          )}
+
+          <label className="form-field">
+            <span>Email</span>
+            <input
+              type="email"
+              name="email"
+              autoComplete="email"
+              value={formState.email}
+              onChange={(event) => setFormState((prev) => ({ ...prev, email: event.target.value }))}
+              required
+            />
+          </label>
+
+          <label className="form-field">
+            <span>Password</span>
+            <input
+              type="password"
+              name="password"
+              autoComplete={isSignup ? 'new-password' : 'current-password'}
+              value={formState.password}
+              onChange={(event) => setFormState((prev) => ({ ...prev, password: event.target.value }))}
+              minLength={isSignup ? 8 : undefined}
+              required
+            />
+          </label>
+
+          {formError && <p className="form-error">{formError}</p>}
+
+          <footer className="form-actions">
+            <button
+              type="button"
+              className="ghost-button"
+              onClick={() => {
+                setMode(isSignup ? 'login' : 'signup');
+                setFormError(null);
+              }}
+              disabled={submitting}
+            >
+              {isSignup ? 'I have an account' : 'Create account'}
+            </button>
+            <button type="submit" disabled={submitting}>
+              {submitting ? 'Opening...' : isSignup ? 'Sign Up' : 'Sign In'}
+            </button>
+          </footer>
+        </form>
+      </div>
+    </div>
+  );
+}
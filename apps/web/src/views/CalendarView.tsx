@@ -0,0 +1,246 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { DragEvent } from 'react';
+import type { ApiClient } from '@gomun/contract/client';
+import { MAX_ENTRY_PAGE_SIZE } from '@gomun/contract/limits';
+import type { Entry as AgendaEntry, EntryPage } from '@gomun/contract';
+import { addMonths, byTitle, groupByDay, monthGrid, toDayKey } from '../calendar';
+import { describeRecurrence } from '../recurrence';
+
+type CalendarViewProps = {
+  client: ApiClient;
+  offline: boolean;
+  refreshKey: number;
+  entriesById: Map<string, AgendaEntry>;
+  onEntriesLoaded: (entries: AgendaEntry[]) => void;
+  loading: boolean;
+  error: string | null;
+  onEdit: (entry: AgendaEntry) => void;
+  onMoveEntry: (entry: AgendaEntry, date: string | null) => void;
+};
+
+const CALENDAR_WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const DRAGGED_ENTRY_TYPE = 'application/x-gomun-entry';
+
+/** Every dream dated between two calendar days, both included. */
+async function fetchEntriesBetween(client: ApiClient, from: string, to: string) {
+  const collected: AgendaEntry[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page: EntryPage = await client.listEntries({
+      from,
+      to,
+      sort: 'date',
+      order: 'asc',
+      limit: MAX_ENTRY_PAGE_SIZE,
+      cursor: cursor ?? undefined,
+    });
+    collected.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return collected;
+}
+
+export function CalendarView({
+  client,
+  offline,
+  refreshKey,
+  entriesById,
+  onEntriesLoaded,
+  loading,
+  error,
+  onEdit,
+  onMoveEntry,
+}: CalendarViewProps) {
+  const [month, setMonth] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [datedIds, setDatedIds] = useState<string[] | null>(null);
+  const [undatedPage, setUndatedPage] = useState<{ ids: string[]; nextCursor: string | null } | null>(null);
+  const [calendarError, setCalendarError] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const days = useMemo(() => monthGrid(month), [month]);
+
+  const firstDayKey = toDayKey(days[0]);
+  const lastDayKey = toDayKey(days[days.length - 1]);
+
+  // Only the weeks on screen and the first page of undated dreams are fetched; offline, the dreams kept on this
+  // device fill the calendar instead.
+  useEffect(() => {
+    if (offline) return;
+
+    let isMounted = true;
+
+    async function loadCalendar() {
+      setCalendarError(null);
+
+      try {
+        const [dated, undated] = await Promise.all([
+          fetchEntriesBetween(client, firstDayKey, lastDayKey),
+          client.listEntries({ dated: 'false', sort: 'title', limit: MAX_ENTRY_PAGE_SIZE }),
+        ]);
+        if (!isMounted) return;
+
+        onEntriesLoaded([...dated, ...undated.items]);
+        setDatedIds(dated.map((entry) => entry.id));
+        setUndatedPage({ ids: undated.items.map((entry) => entry.id), nextCursor: undated.nextCursor });
+      } catch (err) {
+        if (isMounted) {
+          setCalendarError(err instanceof Error ? err.message : 'Unable to load the calendar');
+        }
+      }
+    }
+
+    loadCalendar();
+    return () => {
+      isMounted = false;
+    };
+  }, [client, offline, firstDayKey, lastDayKey, refreshKey, onEntriesLoaded]);
+
+  const loadMoreUndated = async () => {
+    if (!undatedPage?.nextCursor) return;
+
+    setLoadingMore(true);
+
+    try {
+      const next = await client.listEntries({
+        dated: 'false',
+        sort: 'title',
+        limit: MAX_ENTRY_PAGE_SIZE,
+        cursor: undatedPage.nextCursor,
+      });
+      onEntriesLoaded(next.items);
+      setUndatedPage({
+        ids: [...undatedPage.ids, ...next.items.map((entry) => entry.id)],
+        nextCursor: next.nextCursor,
+      });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Unable to load more dreams');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Chips show the latest local state, so a dream dragged to another day moves before the calendar reloads.
+  const shown = useMemo(() => {
+    if (offline) return [...entriesById.values()];
+
+    const ids = new Set([...(datedIds ?? []), ...(undatedPage?.ids ?? [])]);
+    return [...ids].flatMap((id) => entriesById.get(id) ?? []);
+  }, [offline, entriesById, datedIds, undatedPage]);
+
+  const entriesByDay = useMemo(() => groupByDay(shown), [shown]);
+  const undatedEntries = shown.filter((entry) => !entry.date).sort(byTitle);
+  const todayKey = toDayKey(new Date());
+
+  const dropProps = (target: string, date: string | null) => ({
+    onDragOver: (event: DragEvent) => {
+      if (!event.dataTransfer.types.includes(DRAGGED_ENTRY_TYPE)) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'move';
+      setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget((current) => (current === target ? null : current)),
+    onDrop: (event: DragEvent) => {
+      event.preventDefault();
+      setDropTarget(null);
+      const entry = entriesById.get(event.dataTransfer.getData(DRAGGED_ENTRY_TYPE));
+      if (entry) onMoveEntry(entry, date);
+    },
+  });
+
+  const renderChip = (entry: AgendaEntry) => (
+    <button
+      key={entry.id}
+      type="button"
+      draggable
+      className={`calendar-chip${entry.done ? ' calendar-chip-done' : ''}`}
+      onDragStart={(event) => {
+        event.dataTransfer.setData(DRAGGED_ENTRY_TYPE, entry.id);
+        event.dataTransfer.effectAllowed = 'move';
+      }}
+      onClick={() => onEdit(entry)}
+      title={entry.recurrence ? `${entry.title} · ${describeRecurrence(entry.recurrence)}` : entry.title}
+    >
+      {entry.recurrence && <span aria-hidden="true">🔁 </span>}
+      {entry.title}
+    </button>
+  );
+
+  if (loading || (!offline && !calendarError && (datedIds === null || undatedPage === null))) {
+    return <p className="agenda-status">Opening the calendar...</p>;
+  }
+
+  if (error || (!offline && calendarError)) {
+    return <p className="agenda-status error">{error ?? calendarError}</p>;
+  }
+
+  return (
+    <div className="book-wrapper calendar-wrapper">
+      <section className="calendar-month">
+        <header className="calendar-header">
+          <button
+            type="button"
+            className="pagination-button"
+            onClick={() => setMonth(addMonths(month, -1))}
+          >
+            Previous
+          </button>
+          <h2>{month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}</h2>
+          <button
+            type="button"
+            className="pagination-button"
+            onClick={() => setMonth(addMonths(month, 1))}
+          >
+            Next
+          </button>
+        </header>
+
+        <div className="calendar-grid" role="grid">
+          {CALENDAR_WEEKDAYS.map((weekday) => (
+            <span key={weekday} className="calendar-weekday" role="columnheader">
+              {weekday}
+            </span>
+          ))}
+          {days.map((day) => {
+            const key = toDayKey(day);
+            const classes = [
+              'calendar-day',
+              day.getMonth() !== month.getMonth() ? 'calendar-day-outside' : '',
+              key === todayKey ? 'calendar-day-today' : '',
+              dropTarget === key ? 'calendar-drop-target' : '',
+            ];
+            return (
+              <div key={key} className={classes.filter(Boolean).join(' ')} role="gridcell" {...dropProps(key, key)}>
+                <span className="calendar-day-number">{day.getDate()}</span>
+                {(entriesByDay.get(key) ?? []).map(renderChip)}
+              </div>
+            );
+          })}
+        </div>
+      </section>
+
+      <aside
+        className={`calendar-tray${dropTarget === 'tray' ? ' calendar-drop-target' : ''}`}
+        {...dropProps('tray', null)}
+      >
+        <h3>No date yet</h3>
+        <p className="form-hint">Drag a dream onto a day to give it a date, or back here to clear it.</p>
+        {undatedEntries.length === 0 ? (
+          <p className="form-hint">Every dream has a day.</p>
+        ) : (
+          <div className="calendar-tray-list">{undatedEntries.map(renderChip)}</div>
+        )}
+        {!offline && undatedPage?.nextCursor && (
+          <button type="button" className="pagination-button" onClick={loadMoreUndated} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : 'More dreams'}
+          </button>
+        )}
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import type { Coupon, EntryOption, SpaceMember, Tag } from '@gomun/contract';
+import { couponTone, describeUsesLeft, groupByUsesLeft } from '../coupons';
+import type { CouponRequestAction, CouponTone } from '../coupons';
+import { describeUnlockCondition, isOrphanedCondition } from '../unlockRules';
+import { CouponCard } from '../components/CouponCard';
+
+type CouponsViewProps = {
+  coupons: Coupon[];
+  dreamsById: Map<string, EntryOption>;
+  tagsById: Map<string, Tag>;
+  membersById: Map<string, SpaceMember>;
+  completedDreams: number;
+  loading: boolean;
+  error: string | null;
+  redeemingIds: Set<string>;
+  onCreateCoupon: () => void;
+  onEditCoupon: (coupon: Coupon) => void;
+  currentUserId: string | null;
+  onRedeemCoupon: (coupon: Coupon, redeemed: boolean) => void;
+  onCouponRequest: (coupon: Coupon, action: CouponRequestAction, scheduledFor?: string) => void;
+  onReviewCoupon: (coupon: Coupon, action: 'keep' | 'relock') => void;
+};
+
+export function CouponsView({
+  coupons,
+  dreamsById,
+  tagsById,
+  membersById,
+  completedDreams,
+  loading,
+  error,
+  redeemingIds,
+  onCreateCoupon,
+  onEditCoupon,
+  currentUserId,
+  onRedeemCoupon,
+  onCouponRequest,
+  onReviewCoupon,
+}: CouponsViewProps) {
+  const now = Date.now();
+  const byTone = (tone: CouponTone) => coupons.filter((coupon) => couponTone(coupon, now) === tone);
+  // Coupons someone asked to use wait in their own section until the giver answers.
+  const isOpenRequest = (coupon: Coupon) => coupon.requestStatus === 'pending' || coupon.requestStatus === 'scheduled';
+  const requestedCoupons = coupons.filter(isOpenRequest);
+  const unlockedCoupons = byTone('available').filter((coupon) => !isOpenRequest(coupon));
+  const lockedCoupons = byTone('locked');
+  const expiredCoupons = byTone('expired');
+  const redeemedCoupons = byTone('redeemed');
+  const flaggedCoupons = coupons.filter((coupon) => coupon.needsReview);
+
+  if (loading) {
+    return <p className="agenda-status">Folding your coupons into place...</p>;
+  }
+
+  if (error) {
+    return <p className="agenda-status error">{error}</p>;
+  }
+
+  return (
+    <div className="book-wrapper coupons-wrapper">
+      <div className="coupons-lead">
+        <div>
+          <p className="coupon-kicker">Collected promises</p>
+          <h2 className="coupons-title">Coupons for the dreams that already moved the story forward.</h2>
+        </div>
+        <div className="coupons-summary">
+          <span>{completedDreams} dreams fulfilled</span>
+          <span>{unlockedCoupons.length} available coupons</span>
+          {requestedCoupons.length > 0 && <span>{requestedCoupons.length} waiting for an answer</span>}
+          {flaggedCoupons.length > 0 && <span>{flaggedCoupons.length} need review</span>}
+        </div>
+        <button type="button" className="new-entry-button secondary-button" onClick={onCreateCoupon}>
+          + Create Coupon
+        </button>
+      </div>
+
+      {coupons.length === 0 && (
+        <p className="agenda-status">There are no coupons yet. Create the first one from here.</p>
+      )}
+
+      {requestedCoupons.length > 0 && (
+        <CouponShelf
+          title="Pending requests"
+          tone="available"
+          coupons={requestedCoupons}
+          dreamsById={dreamsById}
+          tagsById={tagsById}
+          membersById={membersById}
+          redeemingIds={redeemingIds}
+          onEditCoupon={onEditCoupon}
+          currentUserId={currentUserId}
+          onRedeemCoupon={onRedeemCoupon}
+          onCouponRequest={onCouponRequest}
+          onReviewCoupon={onReviewCoupon}
+        />
+      )}
+
+      {groupByUsesLeft(unlockedCoupons).map(([left, shelf]) => (
+        <CouponShelf
+          key={left ?? 'unlimited'}
+          title={`Available · ${describeUsesLeft(left)}`}
+          tone="available"
+          coupons={shelf}
+          dreamsById={dreamsById}
+          tagsById={tagsById}
+          membersById={membersById}
+          redeemingIds={redeemingIds}
+          onEditCoupon={onEditCoupon}
+          currentUserId={currentUserId}
+          onRedeemCoupon={onRedeemCoupon}
+          onCouponRequest={onCouponRequest}
+          onReviewCoupon={onReviewCoupon}
+        />
+      ))}
+
+      {lockedCoupons.length > 0 && (
+        <CouponShelf
+          title="Locked"
+          tone="locked"
+          coupons={lockedCoupons}
+          dreamsById={dreamsById}
+          tagsById={tagsById}
+          membersById={membersById}
+          redeemingIds={redeemingIds}
+          onEditCoupon={onEditCoupon}
+          currentUserId={currentUserId}
+          onRedeemCoupon={onRedeemCoupon}
+          onCouponRequest={onCouponRequest}
+          onReviewCoupon={onReviewCoupon}
+        />
+      )}
+
+      {expiredCoupons.length > 0 && (
+        <CouponShelf
+          title="Expired"
+          tone="expired"
+          coupons={expiredCoupons}
+          dreamsById={dreamsById}
+          tagsById={tagsById}
+          membersById={membersById}
+          redeemingIds={redeemingIds}
+          onEditCoupon={onEditCoupon}
+          currentUserId={currentUserId}
+          onRedeemCoupon={onRedeemCoupon}
+          onCouponRequest={onCouponRequest}
+          onReviewCoupon={onReviewCoupon}
+        />
+      )}
+
+      {redeemedCoupons.length > 0 && (
+        <CouponShelf
+          title="Used up"
+          tone="redeemed"
+          coupons={redeemedCoupons}
+          dreamsById={dreamsById}
+          tagsById={tagsById}
+          membersById={membersById}
+          redeemingIds={redeemingIds}
+          onEditCoupon={onEditCoupon}
+          currentUserId={currentUserId}
+          onRedeemCoupon={onRedeemCoupon}
+          onCouponRequest={onCouponRequest}
+          onReviewCoupon={onReviewCoupon}
+        />
+      )}
+    </div>
+  );
+}
+
+type CouponShelfProps = {
+  title: string;
+  tone: CouponTone;
+  coupons: Coupon[];
+  dreamsById: Map<string, EntryOption>;
+  tagsById: Map<string, Tag>;
+  membersById: Map<string, SpaceMember>;
+  redeemingIds: Set<string>;
+  onEditCoupon: (coupon: Coupon) => void;
+  currentUserId: string | null;
+  onRedeemCoupon: (coupon: Coupon, redeemed: boolean) => void;
+  onCouponRequest: (coupon: Coupon, action: CouponRequestAction, scheduledFor?: string) => void;
+  onReviewCoupon: (coupon: Coupon, action: 'keep' | 'relock') => void;
+};
+
+function CouponShelf({
+  title,
+  tone,
+  coupons,
+  dreamsById,
+  tagsById,
+  membersById,
+  redeemingIds,
+  onEditCoupon,
+  currentUserId,
+  onRedeemCoupon,
+  onCouponRequest,
+  onReviewCoupon,
+}: CouponShelfProps) {
+  return (
+    <section className="coupon-shelf">
+      <header className="coupon-shelf-header">
+        <h3>{title}</h3>
+        <span>{coupons.length}</span>
+      </header>
+
+      <div className="coupon-grid">
+        {coupons.map((coupon) => (
+          <CouponCard
+            key={coupon.id}
+            coupon={coupon}
+            tone={tone}
+            unlockCopy={describeUnlockCondition(coupon.unlockCondition, dreamsById, tagsById)}
+            isOrphaned={isOrphanedCondition(coupon.unlockCondition, dreamsById, tagsById)}
+            membersById={membersById}
+            isRedeeming={redeemingIds.has(coupon.id)}
+            onEditCoupon={onEditCoupon}
+            currentUserId={currentUserId}
+            onRedeemCoupon={onRedeemCoupon}
+            onCouponRequest={onCouponRequest}
+            onReviewCoupon={onReviewCoupon}
+          />
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { ApiClient } from '@gomun/contract/client';
+import type { Memory, MemoryBook, SpaceMember } from '@gomun/contract';
+import { formatCalendarDate, formatDate, memberName } from '../format';
+import { AttachmentThumbnail } from '../components/Attachments';
+import { ReflectionSummary } from '../components/Reflection';
+
+/** The day a memory belongs to: the one the reflection names, or else the day the dream was ticked off. */
+function memoryDay(memory: Pick<Memory, 'completedAt' | 'reflection'>) {
+  const completedOn = memory.reflection?.completedOn;
+  return completedOn ? formatCalendarDate(completedOn.slice(0, 10)) : formatDate(memory.completedAt);
+}
+
+function memoryYear(memory: Memory) {
+  return Number((memory.reflection?.completedOn ?? memory.completedAt).slice(0, 4));
+}
+
+type MemoryBookViewProps = {
+  client: ApiClient;
+  refreshKey: number;
+  membersById: Map<string, SpaceMember>;
+};
+
+export function MemoryBookView({ client, refreshKey, membersById }: MemoryBookViewProps) {
+  const [year, setYear] = useState<number | null>(null);
+  const [book, setBook] = useState<MemoryBook | null>(null);
+  const [bookLoading, setBookLoading] = useState(true);
+  const [bookError, setBookError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setBookLoading(true);
+    setBookError(null);
+
+    client
+      .getMemoryBook({ year: year ?? undefined })
+      .then((data) => {
+        if (!cancelled) setBook(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setBookError(err instanceof Error ? err.message : 'Unable to load the memory book');
+      })
+      .finally(() => {
+        if (!cancelled) setBookLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, year, refreshKey]);
+
+  // Each year is a chapter, so the book still reads in order when every year is shown.
+  const chapters = useMemo(() => {
+    const grouped: { year: number; memories: Memory[] }[] = [];
+    for (const memory of book?.memories ?? []) {
+      const memoryYearValue = memoryYear(memory);
+      const last = grouped[grouped.length - 1];
+      if (last && last.year === memoryYearValue) {
+        last.memories.push(memory);
+      } else {
+        grouped.push({ year: memoryYearValue, memories: [memory] });
+      }
+    }
+    return grouped;
+  }, [book]);
+
+  return (
+    <div className="book-wrapper memory-book">
+      <div className="coupons-lead">
+        <div>
+          <p className="coupon-kicker">Memory Book</p>
+          <h2 className="coupons-title">Every dream that came true, in the order it happened.</h2>
+        </div>
+        {!!book?.years.length && (
+          <div className="tag-picker-options" role="group" aria-label="Year">
+            <button
+              type="button"
+              className={`tag-chip tag-chip-toggle${year === null ? ' active' : ''}`}
+              onClick={() => setYear(null)}
+            >
+              All years
+            </button>
+            {book.years.map((value) => (
+              <button
+                key={value}
+                type="button"
+                className={`tag-chip tag-chip-toggle${year === value ? ' active' : ''}`}
+                onClick={() => setYear(value)}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {bookError && <p className="agenda-status error">{bookError}</p>}
+      {bookLoading && !book && <p className="agenda-status">Opening the book...</p>}
+      {!bookLoading && !bookError && book?.memories.length === 0 && (
+        <p className="agenda-status">
+          {year === null ? 'No dream has come true yet. The first page is waiting.' : `Nothing came true in ${year}.`}
+        </p>
+      )}
+
+      {chapters.map((chapter) => (
+        <section key={chapter.year} className="memory-chapter">
+          <h3 className="timeline-day-title">{chapter.year}</h3>
+          <ol className="memory-list">
+            {chapter.memories.map((memory) => (
+              <li key={memory.id} className="memory-card">
+                <time dateTime={memory.reflection?.completedOn ?? memory.completedAt}>{memoryDay(memory)}</time>
+                <strong className="entry-title">{memory.title}</strong>
+                {memory.reflection && <ReflectionSummary reflection={memory.reflection} />}
+                {memory.attachments.length > 0 && (
+                  <ul className="entry-attachments" aria-label="Attachments">
+                    {memory.attachments.map((attachment) => (
+                      <li key={attachment.id} title={attachment.fileName}>
+                        <AttachmentThumbnail client={client} attachment={attachment} />
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {!!memory.tags.length && (
+                  <ul className="entry-tags" aria-label="Tags">
+                    {memory.tags.map((tag) => (
+                      <li key={tag.id} className="tag-chip">
+                        {tag.name}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {memory.completedById && (
+                  <span className="entry-meta">Fulfilled by {memberName(membersById, memory.completedById)}</span>
+                )}
+              </li>
+            ))}
+          </ol>
+        </section>
+      ))}
+    </div>
+  );
+}
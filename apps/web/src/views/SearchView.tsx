@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react';
+import type { ApiClient } from '@gomun/contract/client';
+import type { Coupon, SearchResult, Tag } from '@gomun/contract';
+import { couponTone } from '../coupons';
+
+const SEARCH_DEBOUNCE_MS = 250;
+const HIGHLIGHT_START = '\uE000';
+const HIGHLIGHT_STOP = '\uE001';
+
+type SearchViewProps = {
+  client: ApiClient;
+  couponsById: Map<string, Coupon>;
+  tags: Tag[];
+  loading: boolean;
+  error: string | null;
+  onEdit: (entryId: string) => void;
+  onEditCoupon: (coupon: Coupon) => void;
+};
+
+export function SearchView({ client, couponsById, tags, loading, error, onEdit, onEditCoupon }: SearchViewProps) {
+  const [query, setQuery] = useState('');
+  const [tagId, setTagId] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  const normalizedQuery = query.trim();
+
+  useEffect(() => {
+    if (!normalizedQuery) {
+      setResults([]);
+      setSearchError(null);
+      return;
+    }
+
+    let isMounted = true;
+    const timeoutId = window.setTimeout(async () => {
+      setSearching(true);
+      setSearchError(null);
+
+      try {
+        const data = await client.search({ q: normalizedQuery, tag: tagId || undefined });
+        if (isMounted) {
+          setResults(data.results);
+        }
+      } catch (err) {
+        if (isMounted) {
+          setSearchError(err instanceof Error ? err.message : 'Unable to search');
+        }
+      } finally {
+        if (isMounted) {
+          setSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isMounted = false;
+      window.clearTimeout(timeoutId);
+    };
+  }, [client, normalizedQuery, tagId]);
+
+  const entryHits = results.filter((result) => result.kind === 'entry');
+  const couponHits = results.filter((result) => result.kind === 'coupon' && couponsById.has(result.id));
+
+  return (
+    <div className="book-wrapper search-wrapper">
+      <div className="search-lead">
+        <div className="search-controls">
+          <input
+            type="search"
+            className="search-input"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Search dreams and coupons..."
+            aria-label="Search dreams and coupons"
+          />
+          {tags.length > 0 && (
+            <select
+              className="search-tag-filter"
+              value={tagId}
+              onChange={(event) => setTagId(event.target.value)}
+              aria-label="Only dreams with this tag"
+            >
+              <option value="">Any tag</option>
+              {tags.map((tag) => (
+                <option key={tag.id} value={tag.id}>
+                  {tag.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {query && (
+            <button type="button" className="search-clear" onClick={() => setQuery('')}>
+              Clear
+            </button>
+          )}
+        </div>
+
+        {loading && <p className="search-status">Reading your dream catalog...</p>}
+        {!loading && (error || searchError) && (
+          <p className="search-status agenda-status error">{error ?? searchError}</p>
+        )}
+        {!loading && !error && !searchError && (
+          <p className="search-summary">
+            {!normalizedQuery
+              ? 'Type a word or the start of one to search every dream and coupon.'
+              : searching
+                ? 'Searching...'
+                : `Found ${entryHits.length} dreams and ${couponHits.length} coupons for "${normalizedQuery}".`}
+          </p>
+        )}
+      </div>
+
+      {!loading && !error && normalizedQuery && !searching && results.length === 0 && (
+        <p className="search-status">Nothing matches this search.</p>
+      )}
+
+      {entryHits.length > 0 && (
+        <section className="book-section search-hits">
+          <header className="coupon-shelf-header">
+            <h3>Dreams</h3>
+            <span>{entryHits.length}</span>
+          </header>
+          <ul className="entries-list search-results">
+            {entryHits.map((hit) => (
+              <li key={hit.id} className="entry-card">
+                <div className="entry-actions">
+                  <button type="button" className="entry-edit-button" onClick={() => onEdit(hit.id)}>
+                    Edit
+                  </button>
+                </div>
+                <strong className="entry-title">
+                  <HighlightedText text={hit.titleHighlight} />
+                </strong>
+                {hit.snippet && (
+                  <p className="entry-note">
+                    <HighlightedText text={hit.snippet} />
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {couponHits.length > 0 && (
+        <section className="book-section search-hits">
+          <header className="coupon-shelf-header">
+            <h3>Coupons</h3>
+            <span>{couponHits.length}</span>
+          </header>
+          <ul className="entries-list search-results">
+            {couponHits.map((hit) => {
+              const coupon = couponsById.get(hit.id) as Coupon;
+              const tone = couponTone(coupon);
+              return (
+                <li key={hit.id} className="entry-card">
+                  <div className="entry-actions">
+                    <span className={`coupon-status coupon-status-${tone}`}>
+                      {tone === 'available' ? 'Unlocked' : tone === 'redeemed' ? 'Redeemed' : 'Locked'}
+                    </span>
+                    <button type="button" className="entry-edit-button" onClick={() => onEditCoupon(coupon)}>
+                      Edit
+                    </button>
+                  </div>
+                  <strong className="entry-title">
+                    <HighlightedText text={hit.titleHighlight} />
+                  </strong>
+                  {hit.snippet && (
+                    <p className="entry-note">
+                      <HighlightedText text={hit.snippet} />
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
+
+function HighlightedText({ text }: { text: string }) {
+  const parts = text.split(HIGHLIGHT_STOP);
+
+  return (
+    <>
+      {parts.map((part, index) => {
+        const [plain, marked] = part.split(HIGHLIGHT_START);
+        return (
+          <span key={index}>
+            {plain}
+            {marked !== undefined && <mark className="search-highlight">{marked}</mark>}
+          </span>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react';
+import type { ApiClient } from '@gomun/contract/client';
+import type { LetterStats, MonthlyCompletions, SpaceMember, Stats } from '@gomun/contract';
+import { memberName } from '../format';
+import { STATS_MONTHS, formatDays, formatRate, monthSeries } from '../stats';
+
+const CHART_HEIGHT = 140;
+
+function CompletionsChart({ completions }: { completions: MonthlyCompletions[] }) {
+  const months = monthSeries(completions);
+  const max = Math.max(1, ...months.map((item) => item.count));
+  const barWidth = 100 / STATS_MONTHS;
+
+  if (months.length === 0) return <p className="agenda-status">Nothing has come true yet.</p>;
+
+  return (
+    <div className="stats-chart">
+      <svg viewBox={`0 0 100 ${CHART_HEIGHT}`} preserveAspectRatio="none" role="img" aria-label="Completions by month">
+        {months.map((item, index) => {
+          const height = (item.count / max) * (CHART_HEIGHT - 4);
+          return (
+            <rect
+              key={item.month}
+              className="stats-bar"
+              x={index * barWidth + barWidth * 0.15}
+              y={CHART_HEIGHT - height}
+              width={barWidth * 0.7}
+              height={height}
+              rx={1}
+            >
+              <title>{`${item.month}: ${item.count}`}</title>
+            </rect>
+          );
+        })}
+      </svg>
+      <ol className="stats-axis" style={{ gridTemplateColumns: `repeat(${STATS_MONTHS}, 1fr)` }}>
+        {months.map((item) => (
+          <li key={item.month}>
+            <strong>{item.count || ''}</strong>
+            <span>
+              {item.date.toLocaleDateString(undefined, { month: 'short', timeZone: 'UTC' })}
+              {item.date.getUTCMonth() === 0 && ` ${item.date.getUTCFullYear()}`}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+/** Open and done as one split bar, with the done share filled in. */
+function ProgressBar({ open, done }: { open: number; done: number }) {
+  const total = open + done;
+  const share = total ? done / total : 0;
+
+  return (
+    <div className="stats-progress">
+      <div className="stats-meter" role="img" aria-label={`${done} of ${total} dreams came true`}>
+        <span style={{ width: `${share * 100}%` }} />
+      </div>
+      <p>
+        <strong>{done}</strong> came true, <strong>{open}</strong> still to go
+        {total > 0 && ` (${formatRate(share)} done)`}
+      </p>
+    </div>
+  );
+}
+
+function BarList({ rows }: { rows: { key: string; label: string; value: number }[] }) {
+  const max = Math.max(1, ...rows.map((row) => row.value));
+
+  return (
+    <ul className="stats-bar-list">
+      {rows.map((row) => (
+        <li key={row.key}>
+          <span>{row.label}</span>
+          <div className="stats-meter">
+            <span style={{ width: `${(row.value / max) * 100}%` }} />
+          </div>
+          <strong>{row.value}</strong>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** A column per letter bucket, done stacked under open, on the agenda's A–Z scale. */
+function LetterChart({ letters }: { letters: LetterStats[] }) {
+  const max = Math.max(1, ...letters.map((item) => item.open + item.done));
+
+  return (
+    <ol className="stats-letters" style={{ gridTemplateColumns: `repeat(${Math.max(letters.length, 1)}, 1fr)` }}>
+      {letters.map((item) => (
+        <li key={item.letter} title={`${item.letter}: ${item.done} done, ${item.open} open`}>
+          <div className="stats-letter-column">
+            <span className="stats-letter-open" style={{ height: `${(item.open / max) * 100}%` }} />
+            <span className="stats-letter-done" style={{ height: `${(item.done / max) * 100}%` }} />
+          </div>
+          <span>{item.letter}</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+type StatsViewProps = {
+  client: ApiClient;
+  refreshKey: number;
+  membersById: Map<string, SpaceMember>;
+};
+
+export function StatsView({ client, refreshKey, membersById }: StatsViewProps) {
+  const [stats, setStats] = useState<Stats | null>(null);
+  const [statsLoading, setStatsLoading] = useState(true);
+  const [statsError, setStatsError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatsLoading(true);
+    setStatsError(null);
+
+    client
+      .getStats()
+      .then((data) => {
+        if (!cancelled) setStats(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setStatsError(err instanceof Error ? err.message : 'Unable to load the statistics');
+      })
+      .finally(() => {
+        if (!cancelled) setStatsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, refreshKey]);
+
+  return (
+    <div className="book-wrapper stats-wrapper">
+      <div className="coupons-lead">
+        <div>
+          <p className="coupon-kicker">Dashboard</p>
+          <h2 className="coupons-title">How we are doing.</h2>
+        </div>
+      </div>
+
+      {statsError && <p className="agenda-status error">{statsError}</p>}
+      {statsLoading && !stats && <p className="agenda-status">Counting...</p>}
+
+      {stats && (
+        <>
+          <section className="stats-card stats-wide">
+            <h3 className="timeline-day-title">Dreams</h3>
+            <ProgressBar open={stats.entries.open} done={stats.entries.done} />
+            <p className="form-hint">
+              On average a dream comes true {formatDays(stats.averageDaysToComplete)} after it is written down.
+            </p>
+          </section>
+
+          <section className="stats-card stats-wide">
+            <h3 className="timeline-day-title">Came true, month by month</h3>
+            <CompletionsChart completions={stats.completionsByMonth} />
+          </section>
+
+          <section className="stats-card">
+            <h3 className="timeline-day-title">Fulfilled by</h3>
+            {stats.completionsByMember.length === 0 ? (
+              <p className="agenda-status">Nobody has ticked off a dream yet.</p>
+            ) : (
+              <BarList
+                rows={stats.completionsByMember.map((item) => ({
+                  key: item.userId ?? 'former',
+                  label: item.userId ? memberName(membersById, item.userId) : 'Former member',
+                  value: item.count,
+                }))}
+              />
+            )}
+          </section>
+
+          <section className="stats-card">
+            <h3 className="timeline-day-title">Coupons</h3>
+            <ul className="stats-bar-list">
+              <li>
+                <span>Unlocked</span>
+                <div className="stats-meter">
+                  <span style={{ width: `${(stats.coupons.unlockRate ?? 0) * 100}%` }} />
+                </div>
+                <strong>{formatRate(stats.coupons.unlockRate)}</strong>
+              </li>
+              <li>
+                <span>Used</span>
+                <div className="stats-meter">
+                  <span style={{ width: `${(stats.coupons.redeemRate ?? 0) * 100}%` }} />
+                </div>
+                <strong>{formatRate(stats.coupons.redeemRate)}</strong>
+              </li>
+            </ul>
+            <p className="form-hint">
+              {stats.coupons.unlocked} of {stats.coupons.total} coupons unlocked, {stats.coupons.redeemed} used.
+            </p>
+          </section>
+
+          <section className="stats-card stats-wide">
+            <h3 className="timeline-day-title">By letter</h3>
+            {stats.letters.length === 0 ? (
+              <p className="agenda-status">The agenda is still empty.</p>
+            ) : (
+              <LetterChart letters={stats.letters} />
+            )}
+            <p className="stats-legend">
+              <span className="stats-letter-done" /> Came true <span className="stats-letter-open" /> Still open
+            </p>
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
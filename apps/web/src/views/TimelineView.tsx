@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { ApiClient } from '@gomun/contract/client';
+import type { ActivityEvent, EventType as ActivityEventType, SpaceMember } from '@gomun/contract';
+import { formatDate, memberName } from '../format';
+
+const ACTIVITY_PHRASES: Record<ActivityEventType, (title: string) => string> = {
+  'entry.created': (title) => `wrote the dream ${title}`,
+  'entry.updated': (title) => `edited the dream ${title}`,
+  'entry.completed': (title) => `fulfilled the dream ${title}`,
+  'entry.reopened': (title) => `reopened the dream ${title}`,
+  'entry.deleted': (title) => `erased the dream ${title}`,
+  'coupon.created': (title) => `created the coupon ${title}`,
+  'coupon.unlocked': (title) => `unlocked the coupon ${title}`,
+  'coupon.relocked': (title) => `locked the coupon ${title} again`,
+  'coupon.redeemed': (title) => `redeemed the coupon ${title}`,
+  'coupon.unredeemed': (title) => `took back a use of the coupon ${title}`,
+  'coupon.requested': (title) => `asked to use the coupon ${title}`,
+  'coupon.requestCancelled': (title) => `withdrew the request for the coupon ${title}`,
+  'coupon.requestDeclined': (title) => `declined the request for the coupon ${title}`,
+  'coupon.requestScheduled': (title) => `planned a day to use the coupon ${title}`,
+  'backup.imported': () => 'restored a backup',
+};
+
+function describeActivity(event: ActivityEvent, membersById: Map<string, SpaceMember>) {
+  const title = event.payload.title ? `"${event.payload.title}"` : 'without a title';
+
+  // Events without an actor come from the scheduled unlock pass.
+  const name = event.actorId ? memberName(membersById, event.actorId) : 'the calendar';
+  const actor = name.charAt(0).toUpperCase() + name.slice(1);
+  const renamed =
+    event.type === 'entry.updated' && event.payload.previousTitle ? ` (was "${event.payload.previousTitle}")` : '';
+  const scheduled = event.payload.scheduledFor ? `: ${formatDate(event.payload.scheduledFor)}` : '';
+  return `${actor} ${ACTIVITY_PHRASES[event.type](title)}${renamed}${scheduled}`;
+}
+
+type TimelineViewProps = {
+  client: ApiClient;
+  refreshKey: number;
+  membersById: Map<string, SpaceMember>;
+};
+
+export function TimelineView({ client, refreshKey, membersById }: TimelineViewProps) {
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [timelineLoading, setTimelineLoading] = useState(true);
+  const [timelineError, setTimelineError] = useState<string | null>(null);
+
+  const loadPage = useCallback(
+    async (cursor: string | null) => {
+      setTimelineLoading(true);
+      setTimelineError(null);
+
+      try {
+        const data = await client.listActivity({ cursor: cursor ?? undefined });
+        setEvents((prev) => (cursor ? [...prev, ...data.items] : data.items));
+        setNextCursor(data.nextCursor);
+      } catch (err) {
+        setTimelineError(err instanceof Error ? err.message : 'Unable to load activity');
+      } finally {
+        setTimelineLoading(false);
+      }
+    },
+    [client]
+  );
+
+  useEffect(() => {
+    loadPage(null);
+  }, [loadPage, refreshKey]);
+
+  const days = useMemo(() => {
+    const grouped: { day: string; events: ActivityEvent[] }[] = [];
+    for (const event of events) {
+      const day = formatDate(event.createdAt);
+      const last = grouped[grouped.length - 1];
+      if (last && last.day === day) {
+        last.events.push(event);
+      } else {
+        grouped.push({ day, events: [event] });
+      }
+    }
+    return grouped;
+  }, [events]);
+
+  return (
+    <div className="book-wrapper timeline-wrapper">
+      <div className="coupons-lead">
+        <div>
+          <p className="coupon-kicker">Our story so far</p>
+          <h2 className="coupons-title">Every dream written, fulfilled and every coupon opened along the way.</h2>
+        </div>
+      </div>
+
+      {timelineError && <p className="agenda-status error">{timelineError}</p>}
+      {!timelineLoading && !timelineError && events.length === 0 && (
+        <p className="agenda-status">Nothing has happened yet. Write a dream to start the story.</p>
+      )}
+
+      {days.map(({ day, events: dayEvents }) => (
+        <section key={day} className="timeline-day">
+          <h3 className="timeline-day-title">{day}</h3>
+          <ol className="timeline-list">
+            {dayEvents.map((event) => (
+              <li key={event.id} className={`timeline-item timeline-item-${event.type.split('.')[0]}`}>
+                <time dateTime={event.createdAt}>
+                  {new Date(event.createdAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+                </time>
+                <span>{describeActivity(event, membersById)}</span>
+              </li>
+            ))}
+          </ol>
+        </section>
+      ))}
+
+      {timelineLoading && <p className="agenda-status">Turning back the pages...</p>}
+
+      {nextCursor && !timelineLoading && (
+        <nav className="letter-pagination" aria-label="Older activity">
+          <button type="button" className="pagination-button" onClick={() => loadPage(nextCursor)}>
+            Show older
+          </button>
+        </nav>
+      )}
+    </div>
+  );
+}
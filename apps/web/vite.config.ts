@@ -1,7 +1,32 @@
+import { createHash } from 'node:crypto'
 import { defineConfig } from 'vite'
+import type { Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Writes sw-assets.js next to the build: the hashed file names the service worker precaches, and a version that
+// changes with them so each deploy installs a fresh cache.
+function serviceWorkerAssets(): Plugin {
+  return {
+    name: 'gomun-sw-assets',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle)
+        .filter((fileName) => !fileName.endsWith('.map'))
+        .map((fileName) => `/${fileName}`)
+        .sort()
+      const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12)
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw-assets.js',
+        source: `self.BUILD_ASSETS = ${JSON.stringify(files)};\nself.BUILD_VERSION = '${version}';\n`,
+      })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorkerAssets()],
 })
@@ -0,0 +1,168 @@
+// Writes src/client/generated.ts from the OpenAPI document: one request builder per operation, typed with the
+// contract's own types. Run it with `npm run generate -w @gomun/contract` after changing a route.
+
+import { writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { buildOpenApiDocument } from '../src/openapi';
+import type { JsonSchema, OpenApiOperation, OpenApiResponse } from '../src/openapi';
+import type { ResponseKind } from '../src/client/request';
+
+const OUTPUT = fileURLToPath(new URL('../src/client/generated.ts', import.meta.url));
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+const MAX_LINE_LENGTH = 120;
+
+const document = buildOpenApiDocument();
+const typeNames = new Set<string>();
+
+function toLiteral(value: unknown) {
+  return typeof value === 'string' ? `'${value.replace(/'/g, "\\'")}'` : JSON.stringify(value);
+}
+
+/** Component names are the contract's type names, so a reference becomes an import. */
+function toType(schema: JsonSchema): string {
+  if (schema.$ref) {
+    const name = schema.$ref.slice(SCHEMA_REF_PREFIX.length);
+    typeNames.add(name);
+    return name;
+  }
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants) return variants.map((variant) => toType(variant as JsonSchema)).join(' | ');
+
+  if (schema.const !== undefined) return toLiteral(schema.const);
+  if (schema.enum) return schema.enum.map(toLiteral).join(' | ');
+
+  if (Array.isArray(schema.type)) {
+    return schema.type.map((type) => toType({ ...schema, type })).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const item = toType((schema.items ?? {}) as JsonSchema);
+      return /[|&]/.test(item) ? `(${item})[]` : `${item}[]`;
+    }
+    case 'object':
+      return toObjectType(schema);
+    default:
+      return 'unknown';
+  }
+}
+
+function toObjectType(schema: JsonSchema) {
+  const required = new Set(schema.required ?? []);
+  const properties = Object.entries(schema.properties ?? {}).map(
+    ([name, property]) => `${name}${required.has(name) ? '' : '?'}: ${toType(property as JsonSchema)}`
+  );
+
+  if (properties.length === 0 && typeof schema.additionalProperties === 'object') {
+    return `Record<string, ${toType(schema.additionalProperties)}>`;
+  }
+
+  return `{ ${properties.join('; ')} }`;
+}
+
+function successResponse(operation: OpenApiOperation): OpenApiResponse {
+  const status = Object.keys(operation.responses).find((code) => code.startsWith('2'));
+  if (!status) throw new Error(`${operation.operationId} has no success response.`);
+  return operation.responses[status];
+}
+
+/** JSON is parsed; a single text type is read as text; anything else, such as a choice of formats, is a file. */
+function toResult(response: OpenApiResponse): { kind: ResponseKind; type: string } {
+  const types = Object.keys(response.content ?? {});
+
+  if (types.length === 0) return { kind: 'none', type: 'void' };
+  if (types.length === 1 && types[0] === 'application/json') {
+    return { kind: 'json', type: toType(response.content!['application/json'].schema) };
+  }
+  if (types.length === 1 && types[0].startsWith('text/')) return { kind: 'text', type: 'string' };
+  return { kind: 'blob', type: 'Blob' };
+}
+
+function toBuilder(path: string, method: string, operation: OpenApiOperation) {
+  const parameters = operation.parameters ?? [];
+  const pathParameters = parameters.filter((parameter) => parameter.in === 'path');
+  const queryParameters = parameters.filter((parameter) => parameter.in === 'query');
+  const result = toResult(successResponse(operation));
+  const args: string[] = [];
+  const fields = [`method: '${method.toUpperCase()}'`];
+
+  if (pathParameters.length > 0) {
+    args.push(`params: { ${pathParameters.map((parameter) => `${parameter.name}: string`).join('; ')} }`);
+    const template = path.replace(/\{(\w+)\}/g, (_match, name: string) => `\${encodeURIComponent(params.${name})}`);
+    fields.push(`path: \`${template}\``);
+  } else {
+    fields.push(`path: '${path}'`);
+  }
+
+  const [contentType, media] = Object.entries(operation.requestBody?.content ?? {})[0] ?? [];
+  // A multipart body is a FormData the caller fills in; it carries its own content type and boundary.
+  const multipart = contentType?.startsWith('multipart/');
+  if (media) {
+    args.push(`body: ${multipart ? 'FormData' : toType(media.schema)}`);
+    fields.push('body');
+    if (contentType !== 'application/json' && !multipart) fields.push(`contentType: '${contentType}'`);
+  }
+
+  const queryFields = queryParameters.map(
+    (parameter) => `${parameter.name}${parameter.required ? '' : '?'}: ${toType(parameter.schema)}`
+  );
+  const queryDefault = queryParameters.some((parameter) => parameter.required) ? '' : ' = {}';
+  if (queryFields.length > 0) fields.push('query');
+  fields.push(`response: '${result.kind}'`);
+
+  const returns = `): ApiRequest<${result.type}> => ({`;
+  const inlineArgs = queryFields.length > 0 ? [...args, `query: { ${queryFields.join('; ')} }${queryDefault}`] : args;
+  let signature = [`  ${operation.operationId}: (${inlineArgs.join(', ')}${returns}`];
+
+  // Long signatures are wrapped the way the formatter would wrap them, one argument and one query field per line.
+  if (signature[0].length > MAX_LINE_LENGTH) {
+    signature = [
+      `  ${operation.operationId}: (`,
+      ...args.map((arg) => `    ${arg},`),
+      ...(queryFields.length > 0
+        ? ['    query: {', ...queryFields.map((field) => `      ${field};`), `    }${queryDefault}`]
+        : []),
+      `  ${returns}`,
+    ];
+  }
+
+  return [`  /** ${operation.summary} */`, ...signature, ...fields.map((field) => `    ${field},`), '  }),'].join('\n');
+}
+
+const builders: string[] = [];
+
+for (const [path, methods] of Object.entries(document.paths)) {
+  for (const [method, operation] of Object.entries(methods)) {
+    // The event stream is read with EventSource, which does its own connecting and reconnecting.
+    if (successResponse(operation).content?.['text/event-stream']) continue;
+    builders.push(toBuilder(path, method, operation));
+  }
+}
+
+const source = [
+  '// Generated by scripts/generate-client.ts from the OpenAPI document. Do not edit by hand; run',
+  '// `npm run generate -w @gomun/contract` after changing a route.',
+  '',
+  'import type {',
+  ...[...typeNames].sort().map((name) => `  ${name},`),
+  "} from '../index';",
+  "import type { ApiRequest } from './request';",
+  '',
+  'export const operations = {',
+  builders.join('\n'),
+  '};',
+  '',
+].join('\n');
+
+writeFileSync(OUTPUT, source);
+console.log(`Wrote ${builders.length} operations to ${OUTPUT}`);
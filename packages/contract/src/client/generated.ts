@@ -0,0 +1,453 @@
+// Generated by scripts/generate-client.ts from the OpenAPI document. Do not edit by hand; run
+// `npm run generate -w @gomun/contract` after changing a route.
+
+import type {
+  ActivityPage,
+  AuthSession,
+  AuthUser,
+  Backup,
+  CalendarImportResult,
+  CalendarToken,
+  Coupon,
+  CreateCouponBody,
+  CreateEntryBody,
+  CreateStepBody,
+  DeletionResult,
+  Entry,
+  EntryDoneBody,
+  EntryMutationResult,
+  EntryOption,
+  EntryPage,
+  EntryTagsBody,
+  ImportSummary,
+  JoinSpaceBody,
+  LetterCount,
+  LoginBody,
+  MemoryBook,
+  Occurrence,
+  PushSubscriptionBody,
+  PushUnsubscribeBody,
+  RedeemCouponBody,
+  ReminderSettings,
+  ReminderSettingsBody,
+  RespondCouponRequestBody,
+  ReviewCouponBody,
+  SearchResponse,
+  SignupBody,
+  Space,
+  SpaceBody,
+  Stats,
+  Step,
+  StepDeletionResult,
+  StepMutationResult,
+  StepOrderBody,
+  StreamTicket,
+  TagBody,
+  TagWithCount,
+  UpdateCouponBody,
+  UpdateEntryBody,
+  UpdateStepBody,
+} from '../index';
+import type { ApiRequest } from './request';
+
+export const operations = {
+  /** Check that the API is up */
+  getHealth: (): ApiRequest<string> => ({
+    method: 'GET',
+    path: '/health',
+    response: 'text',
+  }),
+  /** Create an account, with a space of its own, and sign in */
+  signup: (body: SignupBody): ApiRequest<AuthSession> => ({
+    method: 'POST',
+    path: '/api/auth/signup',
+    body,
+    response: 'json',
+  }),
+  /** Sign in with an email and password */
+  login: (body: LoginBody): ApiRequest<AuthSession> => ({
+    method: 'POST',
+    path: '/api/auth/login',
+    body,
+    response: 'json',
+  }),
+  /** End the current session */
+  logout: (): ApiRequest<void> => ({
+    method: 'POST',
+    path: '/api/auth/logout',
+    response: 'none',
+  }),
+  /** Read the signed-in user */
+  getCurrentUser: (): ApiRequest<{ user: AuthUser }> => ({
+    method: 'GET',
+    path: '/api/auth/me',
+    response: 'json',
+  }),
+  /** Get a ticket that opens one event stream within 30 seconds */
+  createStreamTicket: (): ApiRequest<StreamTicket> => ({
+    method: 'POST',
+    path: '/api/stream/ticket',
+    response: 'json',
+  }),
+  /** Read the current space and its members */
+  getSpace: (): ApiRequest<Space> => ({
+    method: 'GET',
+    path: '/api/space',
+    response: 'json',
+  }),
+  /** Rename the current space */
+  updateSpace: (body: SpaceBody): ApiRequest<Space> => ({
+    method: 'PUT',
+    path: '/api/space',
+    body,
+    response: 'json',
+  }),
+  /** Replace the invite code */
+  rotateInviteCode: (): ApiRequest<Space> => ({
+    method: 'POST',
+    path: '/api/space/invite',
+    response: 'json',
+  }),
+  /** Join a partner's space with their invite code */
+  joinSpace: (body: JoinSpaceBody): ApiRequest<Space> => ({
+    method: 'POST',
+    path: '/api/space/join',
+    body,
+    response: 'json',
+  }),
+  /** Leave the shared space for a new one of your own */
+  leaveSpace: (): ApiRequest<Space> => ({
+    method: 'POST',
+    path: '/api/space/leave',
+    response: 'json',
+  }),
+  /** List dreams a page at a time */
+  listEntries: (
+    query: {
+      done?: 'true' | 'false';
+      dated?: 'true' | 'false';
+      letter?: string;
+      from?: string;
+      to?: string;
+      userId?: string;
+      tag?: string;
+      sort?: 'title' | 'createdAt' | 'date' | 'completedAt';
+      order?: 'asc' | 'desc';
+      limit?: number;
+      cursor?: string;
+    } = {}
+  ): ApiRequest<EntryPage> => ({
+    method: 'GET',
+    path: '/api/entries',
+    query,
+    response: 'json',
+  }),
+  /** Add a dream */
+  createEntry: (body: CreateEntryBody): ApiRequest<Entry> => ({
+    method: 'POST',
+    path: '/api/entries',
+    body,
+    response: 'json',
+  }),
+  /** Count matching dreams by the first letter of their title */
+  countEntryLetters: (
+    query: {
+      done?: 'true' | 'false';
+      dated?: 'true' | 'false';
+      letter?: string;
+      from?: string;
+      to?: string;
+      userId?: string;
+      tag?: string;
+    } = {}
+  ): ApiRequest<LetterCount[]> => ({
+    method: 'GET',
+    path: '/api/entries/letters',
+    query,
+    response: 'json',
+  }),
+  /** List every dream by title alone, for pickers and counters */
+  listEntryOptions: (): ApiRequest<EntryOption[]> => ({
+    method: 'GET',
+    path: '/api/entries/options',
+    response: 'json',
+  }),
+  /** Load one dream */
+  getEntry: (params: { id: string }): ApiRequest<Entry> => ({
+    method: 'GET',
+    path: `/api/entries/${encodeURIComponent(params.id)}`,
+    response: 'json',
+  }),
+  /** Edit a dream */
+  updateEntry: (params: { id: string }, body: UpdateEntryBody): ApiRequest<Entry> => ({
+    method: 'PUT',
+    path: `/api/entries/${encodeURIComponent(params.id)}`,
+    body,
+    response: 'json',
+  }),
+  /** Erase a dream */
+  deleteEntry: (params: { id: string }): ApiRequest<DeletionResult> => ({
+    method: 'DELETE',
+    path: `/api/entries/${encodeURIComponent(params.id)}`,
+    response: 'json',
+  }),
+  /** Mark a dream as come true, or reopen it */
+  setEntryDone: (params: { id: string }, body: EntryDoneBody): ApiRequest<EntryMutationResult> => ({
+    method: 'PATCH',
+    path: `/api/entries/${encodeURIComponent(params.id)}/done`,
+    body,
+    response: 'json',
+  }),
+  /** List the fulfilled occurrences of a recurring dream */
+  listOccurrences: (params: { id: string }): ApiRequest<Occurrence[]> => ({
+    method: 'GET',
+    path: `/api/entries/${encodeURIComponent(params.id)}/occurrences`,
+    response: 'json',
+  }),
+  /** List a dream's steps in order */
+  listSteps: (params: { id: string }): ApiRequest<Step[]> => ({
+    method: 'GET',
+    path: `/api/entries/${encodeURIComponent(params.id)}/steps`,
+    response: 'json',
+  }),
+  /** Add a step to a dream */
+  createStep: (params: { id: string }, body: CreateStepBody): ApiRequest<StepMutationResult> => ({
+    method: 'POST',
+    path: `/api/entries/${encodeURIComponent(params.id)}/steps`,
+    body,
+    response: 'json',
+  }),
+  /** Put a dream's steps in a new order */
+  reorderSteps: (params: { id: string }, body: StepOrderBody): ApiRequest<Step[]> => ({
+    method: 'PUT',
+    path: `/api/entries/${encodeURIComponent(params.id)}/steps/order`,
+    body,
+    response: 'json',
+  }),
+  /** Rename a step or tick it off */
+  updateStep: (params: { id: string; stepId: string }, body: UpdateStepBody): ApiRequest<StepMutationResult> => ({
+    method: 'PUT',
+    path: `/api/entries/${encodeURIComponent(params.id)}/steps/${encodeURIComponent(params.stepId)}`,
+    body,
+    response: 'json',
+  }),
+  /** Remove a step */
+  deleteStep: (params: { id: string; stepId: string }): ApiRequest<StepDeletionResult> => ({
+    method: 'DELETE',
+    path: `/api/entries/${encodeURIComponent(params.id)}/steps/${encodeURIComponent(params.stepId)}`,
+    response: 'json',
+  }),
+  /** Replace a dream's tags */
+  setEntryTags: (params: { id: string }, body: EntryTagsBody): ApiRequest<EntryMutationResult> => ({
+    method: 'PUT',
+    path: `/api/entries/${encodeURIComponent(params.id)}/tags`,
+    body,
+    response: 'json',
+  }),
+  /** Attach photos or files to a dream */
+  uploadAttachments: (params: { id: string }, body: FormData): ApiRequest<Entry> => ({
+    method: 'POST',
+    path: `/api/entries/${encodeURIComponent(params.id)}/attachments`,
+    body,
+    response: 'json',
+  }),
+  /** Download an attached file */
+  getAttachment: (params: { id: string; attachmentId: string }): ApiRequest<Blob> => ({
+    method: 'GET',
+    path: `/api/entries/${encodeURIComponent(params.id)}/attachments/${encodeURIComponent(params.attachmentId)}`,
+    response: 'blob',
+  }),
+  /** Remove an attached file */
+  deleteAttachment: (params: { id: string; attachmentId: string }): ApiRequest<Entry> => ({
+    method: 'DELETE',
+    path: `/api/entries/${encodeURIComponent(params.id)}/attachments/${encodeURIComponent(params.attachmentId)}`,
+    response: 'json',
+  }),
+  /** Download the thumbnail of an attached photo */
+  getAttachmentThumbnail: (params: { id: string; attachmentId: string }): ApiRequest<Blob> => ({
+    method: 'GET',
+    path: `/api/entries/${encodeURIComponent(params.id)}/attachments/${encodeURIComponent(params.attachmentId)}/thumbnail`,
+    response: 'blob',
+  }),
+  /** List the tags of the space */
+  listTags: (): ApiRequest<TagWithCount[]> => ({
+    method: 'GET',
+    path: '/api/tags',
+    response: 'json',
+  }),
+  /** Create a tag */
+  createTag: (body: TagBody): ApiRequest<TagWithCount> => ({
+    method: 'POST',
+    path: '/api/tags',
+    body,
+    response: 'json',
+  }),
+  /** Rename a tag */
+  renameTag: (params: { id: string }, body: TagBody): ApiRequest<TagWithCount> => ({
+    method: 'PUT',
+    path: `/api/tags/${encodeURIComponent(params.id)}`,
+    body,
+    response: 'json',
+  }),
+  /** Delete a tag and take it off every dream */
+  deleteTag: (params: { id: string }): ApiRequest<DeletionResult> => ({
+    method: 'DELETE',
+    path: `/api/tags/${encodeURIComponent(params.id)}`,
+    response: 'json',
+  }),
+  /** List the coupons of the space */
+  listCoupons: (): ApiRequest<Coupon[]> => ({
+    method: 'GET',
+    path: '/api/coupons',
+    response: 'json',
+  }),
+  /** Write a coupon, optionally locked behind an unlock rule */
+  createCoupon: (body: CreateCouponBody): ApiRequest<Coupon> => ({
+    method: 'POST',
+    path: '/api/coupons',
+    body,
+    response: 'json',
+  }),
+  /** Edit a coupon */
+  updateCoupon: (params: { id: string }, body: UpdateCouponBody): ApiRequest<Coupon> => ({
+    method: 'PUT',
+    path: `/api/coupons/${encodeURIComponent(params.id)}`,
+    body,
+    response: 'json',
+  }),
+  /** Use an unlocked coupon once more, or take back its latest use */
+  redeemCoupon: (params: { id: string }, body: RedeemCouponBody): ApiRequest<Coupon> => ({
+    method: 'PATCH',
+    path: `/api/coupons/${encodeURIComponent(params.id)}/redeem`,
+    body,
+    response: 'json',
+  }),
+  /** Ask the giver of a coupon made out to you to let you use it */
+  requestCoupon: (params: { id: string }): ApiRequest<Coupon> => ({
+    method: 'POST',
+    path: `/api/coupons/${encodeURIComponent(params.id)}/request`,
+    response: 'json',
+  }),
+  /** Accept, decline or schedule a request to use a coupon you gave */
+  respondToCouponRequest: (params: { id: string }, body: RespondCouponRequestBody): ApiRequest<Coupon> => ({
+    method: 'PATCH',
+    path: `/api/coupons/${encodeURIComponent(params.id)}/request`,
+    body,
+    response: 'json',
+  }),
+  /** Withdraw your request to use a coupon, or clear one that was declined */
+  cancelCouponRequest: (params: { id: string }): ApiRequest<Coupon> => ({
+    method: 'DELETE',
+    path: `/api/coupons/${encodeURIComponent(params.id)}/request`,
+    response: 'json',
+  }),
+  /** Keep or lock again a coupon whose rule no longer holds */
+  reviewCoupon: (params: { id: string }, body: ReviewCouponBody): ApiRequest<Coupon> => ({
+    method: 'PATCH',
+    path: `/api/coupons/${encodeURIComponent(params.id)}/review`,
+    body,
+    response: 'json',
+  }),
+  /** Read the timeline of the space, newest first */
+  listActivity: (query: { limit?: number; cursor?: string } = {}): ApiRequest<ActivityPage> => ({
+    method: 'GET',
+    path: '/api/activity',
+    query,
+    response: 'json',
+  }),
+  /** Read every time a dream came true, oldest first, optionally for one year */
+  getMemoryBook: (query: { year?: number } = {}): ApiRequest<MemoryBook> => ({
+    method: 'GET',
+    path: '/api/memories',
+    query,
+    response: 'json',
+  }),
+  /** Count how the space is doing: completions over time and by person, open dreams and coupon use */
+  getStats: (): ApiRequest<Stats> => ({
+    method: 'GET',
+    path: '/api/stats',
+    response: 'json',
+  }),
+  /** Search dreams and coupons */
+  search: (query: { q?: string; tag?: string; limit?: number } = {}): ApiRequest<SearchResponse> => ({
+    method: 'GET',
+    path: '/api/search',
+    query,
+    response: 'json',
+  }),
+  /** Subscribe to dated dreams from a calendar app */
+  getCalendarFeed: (query: { token: string }): ApiRequest<string> => ({
+    method: 'GET',
+    path: '/api/calendar.ics',
+    query,
+    response: 'text',
+  }),
+  /** Create a calendar feed link, replacing any earlier one */
+  createCalendarToken: (): ApiRequest<CalendarToken> => ({
+    method: 'POST',
+    path: '/api/calendar/token',
+    response: 'json',
+  }),
+  /** Turn off the calendar feed link */
+  revokeCalendarToken: (): ApiRequest<void> => ({
+    method: 'DELETE',
+    path: '/api/calendar/token',
+    response: 'none',
+  }),
+  /** Add the events of an .ics file as dreams */
+  importCalendar: (body: string): ApiRequest<CalendarImportResult> => ({
+    method: 'POST',
+    path: '/api/calendar/import',
+    body,
+    contentType: 'text/calendar',
+    response: 'json',
+  }),
+  /** Read which channels you get reminders on */
+  getReminderSettings: (): ApiRequest<ReminderSettings> => ({
+    method: 'GET',
+    path: '/api/reminders/settings',
+    response: 'json',
+  }),
+  /** Turn reminder channels on or off */
+  updateReminderSettings: (body: ReminderSettingsBody): ApiRequest<ReminderSettings> => ({
+    method: 'PUT',
+    path: '/api/reminders/settings',
+    body,
+    response: 'json',
+  }),
+  /** Send push reminders to this browser */
+  subscribePush: (body: PushSubscriptionBody): ApiRequest<void> => ({
+    method: 'POST',
+    path: '/api/reminders/push-subscriptions',
+    body,
+    response: 'none',
+  }),
+  /** Stop sending push reminders to this browser */
+  unsubscribePush: (body: PushUnsubscribeBody): ApiRequest<void> => ({
+    method: 'DELETE',
+    path: '/api/reminders/push-subscriptions',
+    body,
+    response: 'none',
+  }),
+  /** Download everything in the space */
+  exportBackup: (query: { format?: 'json' | 'csv' } = {}): ApiRequest<Blob> => ({
+    method: 'GET',
+    path: '/api/export',
+    query,
+    response: 'blob',
+  }),
+  /** Restore a JSON backup, merged into the space or replacing it */
+  importBackup: (
+    body: Backup,
+    query: {
+      mode?: 'merge' | 'replace';
+      discardAttachments?: 'true' | 'false';
+    } = {}
+  ): ApiRequest<ImportSummary> => ({
+    method: 'POST',
+    path: '/api/import',
+    body,
+    query,
+    response: 'json',
+  }),
+};
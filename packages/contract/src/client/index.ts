@@ -0,0 +1,122 @@
+import { operations } from './generated';
+import type { ApiRequest, QueryValue } from './request';
+
+// A typed client for the API, shared by the web app and scripts. Only types come from the schema modules, so
+// using it does not bring the schema library into a bundle.
+
+export { operations as api } from './generated';
+export type { ApiRequest, QueryValue, ResponseKind } from './request';
+
+export type ApiClientOptions = {
+  /** Prepended to every path; leave it empty when the API serves the page. */
+  baseUrl?: string;
+  /** The session token to send, read again for every request. */
+  getToken?: () => string | null | undefined;
+  /** Sent with every request, such as the X-Client-Id that keeps a tab from hearing its own changes. */
+  headers?: Record<string, string>;
+  /** Called when a request that carried a token is refused with 401, meaning the session is over. */
+  onUnauthorized?: () => void;
+  fetch?: typeof fetch;
+};
+
+/** A response outside 2xx. `body` is the parsed JSON error, when there was one. */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly body: unknown;
+
+  constructor(status: number, body: unknown) {
+    super(readErrorMessage(body) ?? `The request failed (${status}).`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+function readErrorMessage(body: unknown) {
+  if (typeof body === 'object' && body !== null && 'error' in body && typeof body.error === 'string') {
+    return body.error;
+  }
+  return null;
+}
+
+function toQueryString(query: Record<string, QueryValue> | undefined) {
+  const params = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+
+  const text = params.toString();
+  return text ? `?${text}` : '';
+}
+
+type Operations = typeof operations;
+type ResultOf<R> = R extends ApiRequest<infer T> ? T : never;
+
+export type ApiClient = {
+  [K in keyof Operations]: (...args: Parameters<Operations[K]>) => Promise<ResultOf<ReturnType<Operations[K]>>>;
+} & {
+  /** Sends a request and returns the raw response, whatever its status. */
+  request: (request: ApiRequest<unknown>) => Promise<Response>;
+  /** Sends a request and reads its body, throwing an ApiError for any status outside 2xx. */
+  send: <T>(request: ApiRequest<T>) => Promise<T>;
+};
+
+/** Reads a response the way `request` said it would be read. */
+export async function readResponse<T>(response: Response, request: ApiRequest<T>): Promise<T> {
+  if (!response.ok) {
+    throw new ApiError(response.status, await response.json().catch(() => null));
+  }
+
+  switch (request.response) {
+    case 'json':
+      return response.json();
+    case 'text':
+      return (await response.text()) as T;
+    case 'blob':
+      return (await response.blob()) as T;
+    case 'none':
+      return undefined as T;
+  }
+}
+
+export function createApiClient(options: ApiClientOptions = {}): ApiClient {
+  const baseUrl = options.baseUrl ?? '';
+  // Called through a wrapper so the browser's fetch is never invoked with the options object as `this`.
+  const fetchImpl: typeof fetch = options.fetch ?? ((input, init) => fetch(input, init));
+
+  const request = async (call: ApiRequest<unknown>) => {
+    const headers = new Headers(options.headers);
+    const token = options.getToken?.();
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+
+    let body: BodyInit | undefined;
+    if (call.body instanceof FormData) {
+      // fetch writes the multipart Content-Type itself, boundary included.
+      body = call.body;
+    } else if (call.body !== undefined) {
+      headers.set('Content-Type', call.contentType ?? 'application/json');
+      body = call.contentType ? String(call.body) : JSON.stringify(call.body);
+    }
+
+    const response = await fetchImpl(`${baseUrl}${call.path}${toQueryString(call.query)}`, {
+      method: call.method,
+      headers,
+      body,
+    });
+
+    if (response.status === 401 && token) options.onUnauthorized?.();
+    return response;
+  };
+
+  const send = async <T>(call: ApiRequest<T>) => readResponse(await request(call), call);
+
+  const methods = Object.fromEntries(
+    Object.entries(operations).map(([name, build]) => [
+      name,
+      (...args: unknown[]) => send((build as (...args: unknown[]) => ApiRequest<unknown>)(...args)),
+    ])
+  );
+
+  return { ...methods, request, send } as ApiClient;
+}
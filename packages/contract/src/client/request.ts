@@ -0,0 +1,20 @@
+/** How a response body is read: JSON, plain text, a file download, or nothing at all. */
+export type ResponseKind = 'json' | 'text' | 'blob' | 'none';
+
+export type QueryValue = string | number | boolean | undefined;
+
+/**
+ * One call to the API, described rather than sent, so it can be stored in the offline queue and sent later.
+ * The generated builders in ./generated create these.
+ */
+export type ApiRequest<T> = {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string;
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+  /** Set for bodies that are sent as text rather than JSON. */
+  contentType?: string;
+  response: ResponseKind;
+  /** Never set: carries the response type from the builder to `send`. */
+  readonly result?: T;
+};
@@ -0,0 +1,6 @@
+export * from './limits';
+export * from './models';
+export * from './openapi';
+export * from './requests';
+export * from './routes';
+export * from './validation';
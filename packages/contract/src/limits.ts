@@ -0,0 +1,81 @@
+// Limits and option lists both apps need at runtime. This module has no imports so the web app can use it
+// without pulling the schema library into its bundle.
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const MAX_UNLOCK_DEPTH = 4;
+export const MAX_UNLOCK_BRANCHES = 10;
+
+export const MAX_TAGS_PER_ENTRY = 10;
+export const MAX_TAG_NAME_LENGTH = 32;
+
+export const DEFAULT_ENTRY_PAGE_SIZE = 50;
+export const MAX_ENTRY_PAGE_SIZE = 100;
+export const DEFAULT_ACTIVITY_PAGE_SIZE = 30;
+export const MAX_ACTIVITY_PAGE_SIZE = 100;
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+export const MAX_REMINDER_OFFSETS = 5;
+// Four weeks, in minutes.
+export const MAX_REMINDER_OFFSET_MINUTES = 60 * 24 * 28;
+
+export const MAX_COUPON_REDEMPTIONS = 99;
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_ENTRY = 20;
+export const MAX_FILES_PER_UPLOAD = 10;
+
+export const MIN_REFLECTION_RATING = 1;
+export const MAX_REFLECTION_RATING = 5;
+export const MAX_REFLECTION_COMPANIONS = 10;
+export const MAX_COMPANION_NAME_LENGTH = 60;
+
+export const STREAK_PERIODS = ['day', 'week', 'month'] as const;
+export const RELOCK_POLICIES = ['keep', 'relock', 'flag'] as const;
+export const REVIEW_REASONS = ['dreamUndone', 'dreamDeleted', 'tagRemoved', 'tagDeleted'] as const;
+export const REVIEW_ACTIONS = ['keep', 'relock'] as const;
+export const ENTRY_SORT_FIELDS = ['title', 'createdAt', 'date', 'completedAt'] as const;
+export const SORT_ORDERS = ['asc', 'desc'] as const;
+export const IMPORT_MODES = ['merge', 'replace'] as const;
+export const EXPORT_FORMATS = ['json', 'csv'] as const;
+export const REMINDER_CHANNELS = ['email', 'push'] as const;
+export const REMINDER_KINDS = ['upcoming', 'overdue'] as const;
+// Photos get a thumbnail; PDFs are kept for receipts and tickets.
+export const ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf'] as const;
+export const REDEEM_REFUSALS = ['locked', 'expired', 'usedUp', 'needsApproval'] as const;
+export const REQUEST_STATUSES = ['pending', 'scheduled', 'declined'] as const;
+export const REQUEST_RESPONSES = ['accept', 'decline', 'schedule'] as const;
+export const EVENT_TYPES = [
+  'entry.created',
+  'entry.updated',
+  'entry.completed',
+  'entry.reopened',
+  'entry.deleted',
+  'coupon.created',
+  'coupon.unlocked',
+  'coupon.relocked',
+  'coupon.redeemed',
+  'coupon.unredeemed',
+  'coupon.requested',
+  'coupon.requestCancelled',
+  'coupon.requestDeclined',
+  'coupon.requestScheduled',
+  'backup.imported',
+] as const;
+
+export type StreakPeriod = (typeof STREAK_PERIODS)[number];
+export type RelockPolicy = (typeof RELOCK_POLICIES)[number];
+export type ReviewReason = (typeof REVIEW_REASONS)[number];
+export type ReviewAction = (typeof REVIEW_ACTIONS)[number];
+export type EntrySortField = (typeof ENTRY_SORT_FIELDS)[number];
+export type SortOrder = (typeof SORT_ORDERS)[number];
+export type ImportMode = (typeof IMPORT_MODES)[number];
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+export type ReminderChannel = (typeof REMINDER_CHANNELS)[number];
+export type ReminderKind = (typeof REMINDER_KINDS)[number];
+export type AttachmentType = (typeof ATTACHMENT_TYPES)[number];
+export type RedeemRefusal = (typeof REDEEM_REFUSALS)[number];
+export type RequestStatus = (typeof REQUEST_STATUSES)[number];
+export type RequestResponse = (typeof REQUEST_RESPONSES)[number];
+export type EventType = (typeof EVENT_TYPES)[number];
@@ -0,0 +1,538 @@
+import { z } from 'zod';
+import {
+  EVENT_TYPES,
+  IMPORT_MODES,
+  MAX_UNLOCK_BRANCHES,
+  MAX_UNLOCK_DEPTH,
+  REDEEM_REFUSALS,
+  RELOCK_POLICIES,
+  REQUEST_STATUSES,
+  REVIEW_REASONS,
+  STREAK_PERIODS,
+} from './limits';
+import type { StreakPeriod } from './limits';
+import type { ValidationErrorBody } from './validation';
+
+// What the API sends back. Timestamps travel as ISO strings, so these are the shapes the web app reads,
+// not the Prisma records the API holds.
+
+const timestamp = z.iso.datetime({ offset: true });
+
+export type UnlockCondition =
+  | { type: 'dreamCompleted'; value: string }
+  | { type: 'dreamCount'; value: number }
+  | { type: 'all'; conditions: UnlockCondition[] }
+  | { type: 'any'; conditions: UnlockCondition[] }
+  | { type: 'not'; condition: UnlockCondition }
+  | { type: 'date'; value: string }
+  | { type: 'dreamCountWithin'; value: number; days: number }
+  | { type: 'streak'; value: number; period: StreakPeriod }
+  | { type: 'tagCount'; value: number; tagId: string };
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const ruleCount = (label: string) =>
+  z
+    .number({ error: `${label} must be a number.` })
+    .min(1, { error: `${label} must be at least 1.` })
+    .transform((value) => Math.floor(value));
+
+const ruleId = (message: string) => z.string({ error: message }).trim().min(1, { error: message });
+
+const ruleBranches = z
+  .array(z.lazy(() => unlockRuleSchema), { error: 'A group needs a list of rules.' })
+  .min(1, { error: 'A group needs at least one rule.' })
+  .max(MAX_UNLOCK_BRANCHES, { error: `A group can hold at most ${MAX_UNLOCK_BRANCHES} rules.` });
+
+/** One node of an unlock rule, before the nesting limit is checked. */
+export const unlockRuleSchema: z.ZodType<UnlockCondition, UnlockCondition> = z.discriminatedUnion(
+  'type',
+  [
+    z.object({ type: z.literal('dreamCompleted'), value: ruleId('Pick a dream.') }),
+    z.object({ type: z.literal('dreamCount'), value: ruleCount('The dream count') }),
+    z.object({ type: z.literal('all'), conditions: ruleBranches }),
+    z.object({ type: z.literal('any'), conditions: ruleBranches }),
+    z.object({ type: z.literal('not'), condition: z.lazy(() => unlockRuleSchema) }),
+    z.object({
+      type: z.literal('date'),
+      value: z
+        .string({ error: 'Pick a date.' })
+        .refine((value) => ISO_DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`)), {
+          error: 'The date must be YYYY-MM-DD.',
+        }),
+    }),
+    z.object({
+      type: z.literal('dreamCountWithin'),
+      value: ruleCount('The dream count'),
+      days: ruleCount('The number of days'),
+    }),
+    z.object({
+      type: z.literal('streak'),
+      value: ruleCount('The streak length'),
+      period: z.enum(STREAK_PERIODS, { error: `period must be one of ${STREAK_PERIODS.join(', ')}.` }),
+    }),
+    z.object({ type: z.literal('tagCount'), value: ruleCount('The dream count'), tagId: ruleId('Pick a tag.') }),
+  ],
+  { error: 'This is not a known rule type.' }
+);
+
+function unlockRuleDepth(condition: UnlockCondition): number {
+  switch (condition.type) {
+    case 'all':
+    case 'any':
+      return 1 + Math.max(...condition.conditions.map(unlockRuleDepth));
+    case 'not':
+      return 1 + unlockRuleDepth(condition.condition);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * A coupon's unlock rule. Counts are floored and ids trimmed, so parsing a stored rule again leaves it unchanged.
+ * The lazy wrapper keeps this a reference to the rule node, so the OpenAPI document describes the shape once.
+ */
+export const unlockConditionSchema = z.lazy(() => unlockRuleSchema).refine(
+  (condition) => unlockRuleDepth(condition) <= MAX_UNLOCK_DEPTH,
+  { error: `Rules can be nested at most ${MAX_UNLOCK_DEPTH} levels deep.` }
+);
+
+export const authUserSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string(),
+});
+
+export const authSessionSchema = z.object({
+  token: z.string(),
+  user: authUserSchema,
+});
+
+/** Opens one event stream, shortly after it is issued. */
+export const streamTicketSchema = z.object({ ticket: z.string() });
+
+export const spaceMemberSchema = authUserSchema.extend({
+  role: z.string(),
+  joinedAt: timestamp,
+});
+
+export const spaceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  inviteCode: z.string(),
+  createdAt: timestamp,
+  members: z.array(spaceMemberSchema),
+});
+
+/** A tag as it appears on a dream. */
+export const tagSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+/** Tags as the tag routes return them, with the number of dreams carrying each one. */
+export const tagWithCountSchema = tagSchema.extend({
+  spaceId: z.string(),
+  createdAt: timestamp,
+  _count: z.object({ entries: z.number() }),
+});
+
+export const stepSchema = z.object({
+  id: z.string(),
+  entryId: z.string(),
+  title: z.string(),
+  done: z.boolean(),
+  position: z.number(),
+  completedAt: timestamp.nullable(),
+  createdAt: timestamp,
+});
+
+/** A photo or file kept with a dream. The file and its thumbnail are read through their own routes. */
+export const attachmentSchema = z.object({
+  id: z.string(),
+  entryId: z.string(),
+  uploadedById: z.string().nullable(),
+  fileName: z.string(),
+  contentType: z.string(),
+  size: z.number(),
+  hasThumbnail: z.boolean(),
+  createdAt: timestamp,
+});
+
+/**
+ * What a completion was like, apart from the planning note. A one-off dream has one through `entryId`; each
+ * completion of a recurring dream has its own through `occurrenceId`.
+ */
+export const reflectionSchema = z.object({
+  id: z.string(),
+  entryId: z.string().nullable(),
+  occurrenceId: z.string().nullable(),
+  /** The day it happened, when that was not the day it was ticked off. */
+  completedOn: timestamp.nullable(),
+  note: z.string().nullable(),
+  rating: z.number().nullable(),
+  companions: z.array(z.string()),
+  authorId: z.string().nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export const entrySchema = z.object({
+  id: z.string(),
+  spaceId: z.string(),
+  userId: z.string(),
+  title: z.string(),
+  note: z.string().nullable(),
+  date: timestamp.nullable(),
+  done: z.boolean(),
+  completedById: z.string().nullable(),
+  completedAt: timestamp.nullable(),
+  recurrence: z.string().nullable(),
+  icalUid: z.string().nullable(),
+  autoComplete: z.boolean(),
+  reminderOffsets: z.array(z.number()),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  steps: z.array(stepSchema),
+  tags: z.array(tagSchema),
+  attachments: z.array(attachmentSchema),
+  reflection: reflectionSchema.nullable(),
+  _count: z.object({ occurrences: z.number() }),
+});
+
+export const occurrenceSchema = z.object({
+  id: z.string(),
+  entryId: z.string(),
+  date: timestamp.nullable(),
+  completedById: z.string().nullable(),
+  completedAt: timestamp,
+});
+
+export const couponSchema = z.object({
+  id: z.string(),
+  spaceId: z.string(),
+  userId: z.string(),
+  title: z.string(),
+  description: z.string().nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  unlocked: z.boolean(),
+  /** Every use is spent. The latest use is in `redeemedAt` and `redeemedById`. */
+  redeemed: z.boolean(),
+  redeemedAt: timestamp.nullable(),
+  redeemedById: z.string().nullable(),
+  expiresAt: timestamp.nullable(),
+  /** Null when the coupon can be used as often as you like. */
+  maxRedemptions: z.number().nullable(),
+  redemptionCount: z.number(),
+  /** Who the coupon is for; the giver is its author. Null when anyone may use it. */
+  recipientId: z.string().nullable(),
+  /** Where the recipient's latest request to use the coupon stands; null when there is none. */
+  requestStatus: z.enum(REQUEST_STATUSES).nullable(),
+  requestedAt: timestamp.nullable(),
+  respondedAt: timestamp.nullable(),
+  scheduledFor: timestamp.nullable(),
+  unlockCondition: unlockConditionSchema.nullable(),
+  relockPolicy: z.enum(RELOCK_POLICIES),
+  needsReview: z.boolean(),
+  reviewReason: z.enum(REVIEW_REASONS).nullable(),
+});
+
+/** Completing, reopening or retagging a dream can unlock coupons or put others up for review. */
+export const entryMutationResultSchema = z.object({
+  entry: entrySchema,
+  unlockedCoupons: z.array(couponSchema),
+  affectedCoupons: z.array(couponSchema),
+});
+
+export const stepMutationResultSchema = entryMutationResultSchema.extend({ step: stepSchema });
+
+export const stepDeletionResultSchema = entryMutationResultSchema.extend({ id: z.string() });
+
+export const deletionResultSchema = z.object({
+  id: z.string(),
+  affectedCoupons: z.array(couponSchema),
+});
+
+export const entryPageSchema = z.object({
+  items: z.array(entrySchema),
+  nextCursor: z.string().nullable(),
+});
+
+// The few fields coupon rule pickers and counters need, without loading whole dreams.
+export const entryOptionSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  // Fulfilled occurrences for recurring dreams, otherwise 1 once it has come true.
+  completions: z.number(),
+});
+
+export const letterCountSchema = z.object({
+  letter: z.string(),
+  count: z.number(),
+});
+
+export const searchResultSchema = z.object({
+  kind: z.enum(['entry', 'coupon']),
+  id: z.string(),
+  title: z.string(),
+  titleHighlight: z.string(),
+  snippet: z.string(),
+  rank: z.number(),
+});
+
+export const searchResponseSchema = z.object({
+  query: z.string(),
+  results: z.array(searchResultSchema),
+});
+
+export const activityEventSchema = z.object({
+  id: z.string(),
+  spaceId: z.string(),
+  actorId: z.string().nullable(),
+  type: z.enum(EVENT_TYPES),
+  payload: z.object({
+    title: z.string().optional(),
+    previousTitle: z.string().optional(),
+    entryId: z.string().optional(),
+    couponId: z.string().optional(),
+    scheduledFor: timestamp.optional(),
+    mode: z.enum(IMPORT_MODES).optional(),
+  }),
+  createdAt: timestamp,
+});
+
+export const activityPageSchema = z.object({
+  items: z.array(activityEventSchema),
+  nextCursor: z.string().nullable(),
+});
+
+/** One time a dream came true: a one-off dream once, a recurring one for every completion. */
+export const memorySchema = z.object({
+  /** The occurrence id for a recurring dream, the dream's own id otherwise. */
+  id: z.string(),
+  entryId: z.string(),
+  title: z.string(),
+  completedAt: timestamp,
+  completedById: z.string().nullable(),
+  reflection: reflectionSchema.nullable(),
+  tags: z.array(tagSchema),
+  attachments: z.array(attachmentSchema),
+});
+
+/** Completions oldest first, with every year that has one so the book can offer them all as filters. */
+export const memoryBookSchema = z.object({
+  years: z.array(z.number()),
+  memories: z.array(memorySchema),
+});
+
+export const monthlyCompletionsSchema = z.object({
+  /** A UTC month, as YYYY-MM. */
+  month: z.string(),
+  count: z.number(),
+});
+
+export const memberCompletionsSchema = z.object({
+  /** Null gathers completions by people who have since deleted their account. */
+  userId: z.string().nullable(),
+  count: z.number(),
+});
+
+export const letterStatsSchema = z.object({
+  letter: z.string(),
+  open: z.number(),
+  done: z.number(),
+});
+
+/**
+ * Progress of the space, counted in the database. A completion is one time a dream came true, so a recurring
+ * dream adds one for every occurrence, as in the memory book.
+ */
+export const statsSchema = z.object({
+  entries: z.object({ open: z.number(), done: z.number() }),
+  /** Oldest month first; months without a completion are left out. */
+  completionsByMonth: z.array(monthlyCompletionsSchema),
+  completionsByMember: z.array(memberCompletionsSchema),
+  letters: z.array(letterStatsSchema),
+  /** Mean days from adding a one-off dream to ticking it off, or null before the first one comes true. */
+  averageDaysToComplete: z.number().nullable(),
+  coupons: z.object({
+    total: z.number(),
+    unlocked: z.number(),
+    /** Coupons used at least once. */
+    redeemed: z.number(),
+    /** Share of coupons that are unlocked, from 0 to 1, or null without coupons. */
+    unlockRate: z.number().nullable(),
+    /** Share of unlocked coupons that have been used, from 0 to 1, or null while none is unlocked. */
+    redeemRate: z.number().nullable(),
+  }),
+});
+
+export const importSummarySchema = z.object({
+  mode: z.enum(IMPORT_MODES),
+  entriesCreated: z.number(),
+  entriesUpdated: z.number(),
+  couponsCreated: z.number(),
+  couponsUpdated: z.number(),
+});
+
+export const calendarImportResultSchema = z.object({
+  created: z.array(entrySchema),
+  skipped: z.number(),
+});
+
+export const calendarTokenSchema = z.object({ token: z.string() });
+
+const reminderChannelFlags = z.object({ email: z.boolean(), push: z.boolean() });
+
+/**
+ * The channels a user wants reminders on, and which of them the server can send at all. `vapidPublicKey` is what
+ * the browser needs to subscribe to push, or null when push is not set up.
+ */
+export const reminderSettingsSchema = reminderChannelFlags.extend({
+  available: reminderChannelFlags,
+  vapidPublicKey: z.string().nullable(),
+});
+
+const backupReflectionSchema = z.object({
+  completedOn: timestamp.nullable(),
+  note: z.string().nullable(),
+  rating: z.number().nullable(),
+  companions: z.array(z.string()),
+  author: z.string().nullable(),
+});
+
+/** The JSON backup written by the export route and read back by the import route. People are e-mail addresses. */
+export const backupSchema = z.object({
+  format: z.literal('gomun-backup'),
+  version: z.number(),
+  exportedAt: timestamp,
+  space: z.object({ name: z.string() }),
+  tags: z.array(tagSchema),
+  entries: z.array(
+    z.object({
+      id: z.string(),
+      title: z.string(),
+      note: z.string().nullable(),
+      date: timestamp.nullable(),
+      done: z.boolean(),
+      completedAt: timestamp.nullable(),
+      completedBy: z.string().nullable(),
+      createdBy: z.string().nullable(),
+      recurrence: z.string().nullable(),
+      autoComplete: z.boolean(),
+      reminderOffsets: z.array(z.number()).optional(),
+      createdAt: timestamp,
+      tags: z.array(z.string()),
+      steps: z.array(z.object({ title: z.string(), done: z.boolean(), completedAt: timestamp.nullable() })),
+      occurrences: z.array(
+        z.object({
+          date: timestamp.nullable(),
+          completedAt: timestamp,
+          completedBy: z.string().nullable(),
+          reflection: backupReflectionSchema.nullable().optional(),
+        })
+      ),
+      reflection: backupReflectionSchema.nullable().optional(),
+      // A list of what was attached, for the record: the files themselves are not in the backup.
+      attachments: z
+        .array(z.object({ fileName: z.string(), contentType: z.string(), size: z.number(), createdAt: timestamp }))
+        .optional(),
+    })
+  ),
+  coupons: z.array(
+    z.object({
+      id: z.string(),
+      title: z.string(),
+      description: z.string().nullable(),
+      createdAt: timestamp,
+      createdBy: z.string().nullable(),
+      unlockCondition: unlockConditionSchema.nullable(),
+      relockPolicy: z.enum(RELOCK_POLICIES),
+      unlocked: z.boolean(),
+      redeemed: z.boolean(),
+      redeemedAt: timestamp.nullable(),
+      redeemedBy: z.string().nullable(),
+      expiresAt: timestamp.nullable().optional(),
+      maxRedemptions: z.number().nullable().optional(),
+      recipient: z.string().nullable().optional(),
+      redemptions: z.array(z.object({ redeemedAt: timestamp, redeemedBy: z.string().nullable() })).optional(),
+      requestStatus: z.enum(REQUEST_STATUSES).nullable().optional(),
+      requestedAt: timestamp.nullable().optional(),
+      respondedAt: timestamp.nullable().optional(),
+      scheduledFor: timestamp.nullable().optional(),
+      needsReview: z.boolean().optional(),
+      reviewReason: z.enum(REVIEW_REASONS).nullable().optional(),
+    })
+  ),
+});
+
+/** Every failed request answers with at least a message that can be shown as it is. */
+export const errorBodySchema = z.object({ error: z.string() });
+
+export const validationErrorBodySchema = errorBodySchema.extend({
+  fields: z.record(z.string(), z.string()),
+}) satisfies z.ZodType<ValidationErrorBody>;
+
+/** A 409 from an edit that started from an older version carries the copy that won. */
+export const entryConflictBodySchema = errorBodySchema.extend({ current: entrySchema });
+
+export const couponConflictBodySchema = errorBodySchema.extend({ current: couponSchema });
+
+/** Why a coupon cannot be redeemed: it is still locked, past its date, or every use is spent. */
+export const redeemErrorBodySchema = errorBodySchema.extend({ reason: z.enum(REDEEM_REFUSALS) });
+
+export const backupErrorBodySchema = errorBodySchema.extend({ details: z.array(z.string()) });
+
+/** Changes pushed to the other devices in a space; each one mirrors the response its own request got. */
+export const syncMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('entries'), entries: z.array(entrySchema) }),
+  z.object({ type: z.literal('entryDeleted'), id: z.string() }),
+  z.object({ type: z.literal('steps'), entryId: z.string(), steps: z.array(stepSchema) }),
+  z.object({ type: z.literal('coupons'), coupons: z.array(couponSchema), unlockedIds: z.array(z.string()) }),
+  z.object({ type: z.literal('tags'), tags: z.array(tagWithCountSchema) }),
+  z.object({ type: z.literal('tagDeleted'), id: z.string() }),
+  z.object({ type: z.literal('reload') }),
+]);
+
+export type AuthUser = z.infer<typeof authUserSchema>;
+export type AuthSession = z.infer<typeof authSessionSchema>;
+export type SpaceMember = z.infer<typeof spaceMemberSchema>;
+export type Space = z.infer<typeof spaceSchema>;
+export type Tag = z.infer<typeof tagSchema>;
+export type TagWithCount = z.infer<typeof tagWithCountSchema>;
+export type Step = z.infer<typeof stepSchema>;
+export type Attachment = z.infer<typeof attachmentSchema>;
+export type Reflection = z.infer<typeof reflectionSchema>;
+export type Entry = z.infer<typeof entrySchema>;
+export type Occurrence = z.infer<typeof occurrenceSchema>;
+export type Coupon = z.infer<typeof couponSchema>;
+export type EntryMutationResult = z.infer<typeof entryMutationResultSchema>;
+export type StepMutationResult = z.infer<typeof stepMutationResultSchema>;
+export type StepDeletionResult = z.infer<typeof stepDeletionResultSchema>;
+export type DeletionResult = z.infer<typeof deletionResultSchema>;
+export type EntryPage = z.infer<typeof entryPageSchema>;
+export type EntryOption = z.infer<typeof entryOptionSchema>;
+export type LetterCount = z.infer<typeof letterCountSchema>;
+export type SearchResult = z.infer<typeof searchResultSchema>;
+export type SearchResponse = z.infer<typeof searchResponseSchema>;
+export type ActivityEvent = z.infer<typeof activityEventSchema>;
+export type ActivityPage = z.infer<typeof activityPageSchema>;
+export type Memory = z.infer<typeof memorySchema>;
+export type MemoryBook = z.infer<typeof memoryBookSchema>;
+export type MonthlyCompletions = z.infer<typeof monthlyCompletionsSchema>;
+export type MemberCompletions = z.infer<typeof memberCompletionsSchema>;
+export type LetterStats = z.infer<typeof letterStatsSchema>;
+export type Stats = z.infer<typeof statsSchema>;
+export type ImportSummary = z.infer<typeof importSummarySchema>;
+export type CalendarImportResult = z.infer<typeof calendarImportResultSchema>;
+export type CalendarToken = z.infer<typeof calendarTokenSchema>;
+export type StreamTicket = z.infer<typeof streamTicketSchema>;
+export type ReminderSettings = z.infer<typeof reminderSettingsSchema>;
+export type Backup = z.infer<typeof backupSchema>;
+export type ErrorBody = z.infer<typeof errorBodySchema>;
+export type EntryConflictBody = z.infer<typeof entryConflictBodySchema>;
+export type CouponConflictBody = z.infer<typeof couponConflictBodySchema>;
+export type RedeemErrorBody = z.infer<typeof redeemErrorBodySchema>;
+export type BackupErrorBody = z.infer<typeof backupErrorBodySchema>;
+export type SyncMessage = z.infer<typeof syncMessageSchema>;
@@ -0,0 +1,361 @@
+import { z } from 'zod';
+import {
+  activityEventSchema,
+  activityPageSchema,
+  attachmentSchema,
+  authSessionSchema,
+  authUserSchema,
+  backupErrorBodySchema,
+  backupSchema,
+  calendarImportResultSchema,
+  calendarTokenSchema,
+  couponConflictBodySchema,
+  couponSchema,
+  deletionResultSchema,
+  entryConflictBodySchema,
+  entryMutationResultSchema,
+  entryOptionSchema,
+  entryPageSchema,
+  entrySchema,
+  errorBodySchema,
+  importSummarySchema,
+  letterCountSchema,
+  letterStatsSchema,
+  memberCompletionsSchema,
+  memoryBookSchema,
+  memorySchema,
+  monthlyCompletionsSchema,
+  occurrenceSchema,
+  redeemErrorBodySchema,
+  reflectionSchema,
+  reminderSettingsSchema,
+  searchResponseSchema,
+  searchResultSchema,
+  spaceMemberSchema,
+  spaceSchema,
+  statsSchema,
+  stepDeletionResultSchema,
+  stepMutationResultSchema,
+  stepSchema,
+  streamTicketSchema,
+  tagSchema,
+  tagWithCountSchema,
+  unlockRuleSchema,
+  validationErrorBodySchema,
+} from './models';
+import {
+  createCouponBodySchema,
+  createEntryBodySchema,
+  createStepBodySchema,
+  entryDoneBodySchema,
+  entryTagsBodySchema,
+  joinSpaceBodySchema,
+  loginBodySchema,
+  pushSubscriptionBodySchema,
+  pushUnsubscribeBodySchema,
+  redeemCouponBodySchema,
+  reflectionBodySchema,
+  reminderSettingsBodySchema,
+  respondCouponRequestBodySchema,
+  reviewCouponBodySchema,
+  signupBodySchema,
+  spaceBodySchema,
+  stepOrderBodySchema,
+  tagBodySchema,
+  updateCouponBodySchema,
+  updateEntryBodySchema,
+  updateStepBodySchema,
+} from './requests';
+import { apiRoutes } from './routes';
+import type { ApiRoute, RawContent } from './routes';
+
+export type JsonSchema = z.core.JSONSchema.BaseSchema;
+
+export type OpenApiMediaType = { schema: JsonSchema };
+
+export type OpenApiParameter = {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  schema: JsonSchema;
+};
+
+export type OpenApiResponse = {
+  description: string;
+  content?: Record<string, OpenApiMediaType>;
+};
+
+export type OpenApiOperation = {
+  operationId: string;
+  summary: string;
+  tags: string[];
+  security?: [];
+  parameters?: OpenApiParameter[];
+  requestBody?: { required: true; description?: string; content: Record<string, OpenApiMediaType> };
+  responses: Record<string, OpenApiResponse>;
+};
+
+export type OpenApiDocument = {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description: string };
+  tags: { name: string }[];
+  security: { session: [] }[];
+  paths: Record<string, Partial<Record<ApiRoute['method'], OpenApiOperation>>>;
+  components: {
+    securitySchemes: { session: { type: 'http'; scheme: 'bearer'; description: string } };
+    schemas: Record<string, JsonSchema>;
+  };
+};
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+const STATUS_DESCRIPTIONS: Record<number, string> = {
+  200: 'OK.',
+  201: 'Created.',
+  204: 'Done; there is no body.',
+  400: 'The request is not valid.',
+  401: 'Not signed in, or the session expired.',
+  404: 'Not found, or not in your space.',
+  409: 'Conflicts with the data as it is now.',
+  500: 'The server could not finish the request.',
+};
+
+// Named schemas become components, and their names are the contract's type names, so the generated client can
+// import each one instead of spelling it out. Responses are described as the API sends them and request bodies as
+// the web app writes them.
+const responseSchemas = z.registry<{ id: string }>();
+const requestSchemas = z.registry<{ id: string }>();
+
+for (const [schema, id] of [
+  [authUserSchema, 'AuthUser'],
+  [authSessionSchema, 'AuthSession'],
+  [streamTicketSchema, 'StreamTicket'],
+  [spaceMemberSchema, 'SpaceMember'],
+  [spaceSchema, 'Space'],
+  [tagSchema, 'Tag'],
+  [tagWithCountSchema, 'TagWithCount'],
+  [stepSchema, 'Step'],
+  [attachmentSchema, 'Attachment'],
+  [reflectionSchema, 'Reflection'],
+  [entrySchema, 'Entry'],
+  [occurrenceSchema, 'Occurrence'],
+  [couponSchema, 'Coupon'],
+  [entryMutationResultSchema, 'EntryMutationResult'],
+  [stepMutationResultSchema, 'StepMutationResult'],
+  [stepDeletionResultSchema, 'StepDeletionResult'],
+  [deletionResultSchema, 'DeletionResult'],
+  [entryPageSchema, 'EntryPage'],
+  [entryOptionSchema, 'EntryOption'],
+  [letterCountSchema, 'LetterCount'],
+  [searchResultSchema, 'SearchResult'],
+  [searchResponseSchema, 'SearchResponse'],
+  [activityEventSchema, 'ActivityEvent'],
+  [activityPageSchema, 'ActivityPage'],
+  [memorySchema, 'Memory'],
+  [memoryBookSchema, 'MemoryBook'],
+  [monthlyCompletionsSchema, 'MonthlyCompletions'],
+  [memberCompletionsSchema, 'MemberCompletions'],
+  [letterStatsSchema, 'LetterStats'],
+  [statsSchema, 'Stats'],
+  [importSummarySchema, 'ImportSummary'],
+  [calendarImportResultSchema, 'CalendarImportResult'],
+  [calendarTokenSchema, 'CalendarToken'],
+  [reminderSettingsSchema, 'ReminderSettings'],
+  [backupSchema, 'Backup'],
+  [errorBodySchema, 'ErrorBody'],
+  [validationErrorBodySchema, 'ValidationErrorBody'],
+  [entryConflictBodySchema, 'EntryConflictBody'],
+  [couponConflictBodySchema, 'CouponConflictBody'],
+  [redeemErrorBodySchema, 'RedeemErrorBody'],
+  [backupErrorBodySchema, 'BackupErrorBody'],
+  [unlockRuleSchema, 'UnlockCondition'],
+] as const) {
+  responseSchemas.add(schema, { id });
+}
+
+for (const [schema, id] of [
+  [signupBodySchema, 'SignupBody'],
+  [loginBodySchema, 'LoginBody'],
+  [spaceBodySchema, 'SpaceBody'],
+  [joinSpaceBodySchema, 'JoinSpaceBody'],
+  [createEntryBodySchema, 'CreateEntryBody'],
+  [updateEntryBodySchema, 'UpdateEntryBody'],
+  [reflectionBodySchema, 'ReflectionBody'],
+  [entryDoneBodySchema, 'EntryDoneBody'],
+  [createStepBodySchema, 'CreateStepBody'],
+  [updateStepBodySchema, 'UpdateStepBody'],
+  [stepOrderBodySchema, 'StepOrderBody'],
+  [entryTagsBodySchema, 'EntryTagsBody'],
+  [tagBodySchema, 'TagBody'],
+  [createCouponBodySchema, 'CreateCouponBody'],
+  [updateCouponBodySchema, 'UpdateCouponBody'],
+  [redeemCouponBodySchema, 'RedeemCouponBody'],
+  [respondCouponRequestBodySchema, 'RespondCouponRequestBody'],
+  [reviewCouponBodySchema, 'ReviewCouponBody'],
+  [reminderSettingsBodySchema, 'ReminderSettingsBody'],
+  [pushSubscriptionBodySchema, 'PushSubscriptionBody'],
+  [pushUnsubscribeBodySchema, 'PushUnsubscribeBody'],
+  [backupSchema, 'Backup'],
+  [unlockRuleSchema, 'UnlockCondition'],
+] as const) {
+  requestSchemas.add(schema, { id });
+}
+
+/** The date-time pattern zod writes out is hundreds of characters that say no more than the format does. */
+function tidySchema({ jsonSchema }: { jsonSchema: JsonSchema }) {
+  if (jsonSchema.format === 'date-time') delete jsonSchema.pattern;
+}
+
+function toComponents(registry: z.core.$ZodRegistry<{ id: string }>, io: 'input' | 'output') {
+  const { schemas } = z.toJSONSchema(registry, {
+    io,
+    unrepresentable: 'any',
+    uri: (id) => `${SCHEMA_REF_PREFIX}${id}`,
+    override: tidySchema,
+  });
+
+  return Object.fromEntries(
+    Object.entries(schemas).map(([id, { $schema: _dialect, $id: _id, ...schema }]) => [id, schema])
+  );
+}
+
+function rewriteRefs(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(rewriteRefs);
+  if (!value || typeof value !== 'object') return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      key === '$ref' && typeof item === 'string' ? item.replace('#/$defs/', SCHEMA_REF_PREFIX) : rewriteRefs(item),
+    ])
+  );
+}
+
+/** A schema used in one place only, with references to the named ones. */
+function toInlineSchema(schema: z.ZodType, io: 'input' | 'output'): JsonSchema {
+  const registry = io === 'input' ? requestSchemas : responseSchemas;
+  const id = registry.get(schema)?.id;
+  if (id) return { $ref: `${SCHEMA_REF_PREFIX}${id}` };
+
+  const { $schema: _dialect, $defs: _defs, ...json } = z.toJSONSchema(schema, {
+    io,
+    unrepresentable: 'any',
+    metadata: registry,
+    override: tidySchema,
+  });
+  return rewriteRefs(json) as JsonSchema;
+}
+
+function isRawContent(value: z.ZodType | RawContent): value is RawContent {
+  return 'contentType' in value;
+}
+
+function toRawMedia(contents: RawContent[], io: 'input' | 'output'): Record<string, OpenApiMediaType> {
+  const text: JsonSchema = { type: 'string' };
+  return Object.fromEntries(
+    contents.map((content) => [content.contentType, { schema: content.schema ? toInlineSchema(content.schema, io) : text }])
+  );
+}
+
+function toResponse(status: number, response: ApiRoute['responses'][number]): OpenApiResponse {
+  const description = STATUS_DESCRIPTIONS[status] ?? 'See the error message.';
+
+  if (response === null) return { description };
+
+  if (Array.isArray(response) || isRawContent(response)) {
+    const contents = Array.isArray(response) ? response : [response];
+    return {
+      description: contents.map((content) => content.description).join(' '),
+      content: toRawMedia(contents, 'output'),
+    };
+  }
+
+  return { description, content: { 'application/json': { schema: toInlineSchema(response, 'output') } } };
+}
+
+function toParameters(route: ApiRoute): OpenApiParameter[] {
+  const pathParameters = Array.from(route.path.matchAll(/\{(\w+)\}/g), ([, name]) => ({
+    name,
+    in: 'path' as const,
+    required: true,
+    schema: { type: 'string' } satisfies JsonSchema,
+  }));
+
+  if (!route.query) return pathParameters;
+
+  // Query schemas are read as they are written: text that the schema coerces and defaults on the way in.
+  const query = toInlineSchema(route.query, 'input');
+  const required = new Set(query.required ?? []);
+  const queryParameters = Object.entries(query.properties ?? {}).map(([name, schema]) => ({
+    name,
+    in: 'query' as const,
+    required: required.has(name),
+    schema: schema as JsonSchema,
+  }));
+
+  return [...pathParameters, ...queryParameters];
+}
+
+function toOperation(operationId: string, route: ApiRoute): OpenApiOperation {
+  const parameters = toParameters(route);
+  const responses: Record<string, OpenApiResponse> = {};
+
+  for (const [status, response] of Object.entries(route.responses)) {
+    responses[status] = toResponse(Number(status), response);
+  }
+
+  if (!route.public) {
+    responses[401] ??= toResponse(401, errorBodySchema);
+  }
+
+  return {
+    operationId,
+    summary: route.summary,
+    tags: [route.tag],
+    ...(route.public ? { security: [] } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(route.body
+      ? {
+          requestBody: isRawContent(route.body)
+            ? { required: true, description: route.body.description, content: toRawMedia([route.body], 'input') }
+            : {
+                required: true,
+                content: { 'application/json': { schema: toInlineSchema(route.body, 'input') } },
+              },
+        }
+      : {}),
+    responses,
+  };
+}
+
+/** The OpenAPI 3.1 description of every route in `apiRoutes`. Building it walks every schema, so build it once. */
+export function buildOpenApiDocument(): OpenApiDocument {
+  const routes: [string, ApiRoute][] = Object.entries(apiRoutes);
+  const paths: OpenApiDocument['paths'] = {};
+
+  for (const [operationId, route] of routes) {
+    paths[route.path] = { ...paths[route.path], [route.method]: toOperation(operationId, route) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'GoMun API',
+      version: '1.0.0',
+      description:
+        'Shared dreams, steps, tags and coupons for a space of up to two people. Sign in through /api/auth to get a ' +
+        'session token, then send it as a bearer token.',
+    },
+    tags: Array.from(new Set(routes.map(([, route]) => route.tag)), (name) => ({ name })),
+    security: [{ session: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        session: { type: 'http', scheme: 'bearer', description: 'The token returned by signup or login.' },
+      },
+      // Unlock rules are documented as they are written: their counts are normalised on the way in, which the
+      // response side cannot express.
+      schemas: { ...toComponents(responseSchemas, 'output'), ...toComponents(requestSchemas, 'input') },
+    },
+  };
+}
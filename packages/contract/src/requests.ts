@@ -0,0 +1,429 @@
+import { z } from 'zod';
+import {
+  DEFAULT_ACTIVITY_PAGE_SIZE,
+  DEFAULT_ENTRY_PAGE_SIZE,
+  DEFAULT_SEARCH_LIMIT,
+  ENTRY_SORT_FIELDS,
+  EXPORT_FORMATS,
+  IMPORT_MODES,
+  MAX_ACTIVITY_PAGE_SIZE,
+  MAX_COMPANION_NAME_LENGTH,
+  MAX_COUPON_REDEMPTIONS,
+  MAX_ENTRY_PAGE_SIZE,
+  MAX_REFLECTION_COMPANIONS,
+  MAX_REFLECTION_RATING,
+  MAX_REMINDER_OFFSET_MINUTES,
+  MAX_REMINDER_OFFSETS,
+  MAX_SEARCH_LIMIT,
+  MAX_TAG_NAME_LENGTH,
+  MAX_TAGS_PER_ENTRY,
+  MIN_PASSWORD_LENGTH,
+  MIN_REFLECTION_RATING,
+  RELOCK_POLICIES,
+  REQUEST_RESPONSES,
+  REVIEW_ACTIONS,
+  SORT_ORDERS,
+} from './limits';
+import { unlockConditionSchema } from './models';
+
+// What the web app sends. Schemas trim and normalise as they validate, so handlers work with the parsed output
+// and the web app types its request bodies with the input side.
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const LATIN_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+const requiredText = (message: string) => z.string({ error: message }).trim().min(1, { error: message });
+
+/** Leaving the field out keeps the stored value; null or blank text clears it. */
+const optionalText = (field: string) =>
+  z
+    .string({ error: `${field} must be text.` })
+    .nullish()
+    .transform((value) => (value === undefined ? undefined : value?.trim() || null));
+
+/** Same as optionalText, for dates: a missing date is kept, null or '' clears it. */
+const optionalDate = z
+  .string({ error: 'date must be a valid date.' })
+  .nullish()
+  .refine((value) => !value || !Number.isNaN(new Date(value).getTime()), { error: 'date must be a valid date.' })
+  .transform((value) => (value === undefined ? undefined : value ? new Date(value) : null));
+
+/** Edits send the `updatedAt` they started from, so a change saved elsewhere in the meantime is never overwritten. */
+const expectedVersion = z
+  .string({ error: 'updatedAt is required.' })
+  .refine((value) => !Number.isNaN(new Date(value).getTime()), { error: 'updatedAt is required.' })
+  .transform((value) => new Date(value));
+
+const tagIdsMessage = `tagIds must be a list of at most ${MAX_TAGS_PER_ENTRY} tag ids.`;
+
+const tagIds = z
+  .array(z.string({ error: tagIdsMessage }), { error: tagIdsMessage })
+  .transform((ids) => Array.from(new Set(ids)))
+  .refine((ids) => ids.length <= MAX_TAGS_PER_ENTRY, { error: tagIdsMessage });
+
+/** Tag names are compared case-insensitively, so they are stored lower-cased with single spaces. */
+export function normalizeTagName(raw: string) {
+  return raw.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+const tagName = z
+  .string({ error: 'Name is required.' })
+  .transform(normalizeTagName)
+  .pipe(
+    z
+      .string()
+      .min(1, { error: 'Name is required.' })
+      .max(MAX_TAG_NAME_LENGTH, { error: `Name must be at most ${MAX_TAG_NAME_LENGTH} characters.` })
+  );
+
+const reminderOffsetsMessage =
+  `reminderOffsets must be a list of at most ${MAX_REMINDER_OFFSETS} whole minutes ` +
+  `between 0 and ${MAX_REMINDER_OFFSET_MINUTES}.`;
+
+/** Minutes before a dream's date to remind about it; 0 reminds at the date itself. Kept largest first, once each. */
+export const reminderOffsetsSchema = z
+  .array(
+    z
+      .number({ error: reminderOffsetsMessage })
+      .int({ error: reminderOffsetsMessage })
+      .min(0, { error: reminderOffsetsMessage })
+      .max(MAX_REMINDER_OFFSET_MINUTES, { error: reminderOffsetsMessage }),
+    { error: reminderOffsetsMessage }
+  )
+  .transform((offsets) => Array.from(new Set(offsets)).sort((a, b) => b - a))
+  .refine((offsets) => offsets.length <= MAX_REMINDER_OFFSETS, { error: reminderOffsetsMessage });
+
+export const signupBodySchema = z.object({
+  email: z
+    .string({ error: 'A valid email is required.' })
+    .trim()
+    .toLowerCase()
+    .refine((value) => value.includes('@'), { error: 'A valid email is required.' }),
+  password: z
+    .string({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.` })
+    .min(MIN_PASSWORD_LENGTH, { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.` }),
+  name: z
+    .string({ error: 'name must be text.' })
+    .optional()
+    .transform((value) => value?.trim() || undefined),
+});
+
+export const loginBodySchema = z.object({
+  email: requiredText('Email is required.').toLowerCase(),
+  password: z.string({ error: 'Password is required.' }).min(1, { error: 'Password is required.' }),
+});
+
+export const spaceBodySchema = z.object({
+  name: requiredText('Name is required.'),
+});
+
+export const joinSpaceBodySchema = z.object({
+  inviteCode: requiredText('Invite code is required.').toUpperCase(),
+});
+
+export const createEntryBodySchema = z.object({
+  title: requiredText('Title is required.'),
+  note: optionalText('note'),
+  date: optionalDate,
+  // RRULE text is checked by the API, which also knows how to expand it.
+  recurrence: z.string({ error: 'recurrence must be text.' }).nullish(),
+  autoComplete: z.boolean({ error: 'autoComplete must be a boolean.' }).optional(),
+  reminderOffsets: reminderOffsetsSchema.optional(),
+  tagIds: tagIds.optional(),
+});
+
+export const updateEntryBodySchema = createEntryBodySchema.omit({ tagIds: true }).extend({
+  updatedAt: expectedVersion,
+});
+
+const ratingMessage =
+  `rating must be a whole number from ${MIN_REFLECTION_RATING} to ${MAX_REFLECTION_RATING}, or null.`;
+
+const companionsMessage =
+  `companions must be a list of at most ${MAX_REFLECTION_COMPANIONS} names ` +
+  `of up to ${MAX_COMPANION_NAME_LENGTH} characters.`;
+
+/** What it was like when a dream came true, kept apart from the planning note. Left-out fields keep what was saved. */
+export const reflectionBodySchema = z.object({
+  /** The day it happened, when that was not the day it was ticked off. Null goes back to the day it was ticked. */
+  completedOn: optionalDate,
+  note: optionalText('note'),
+  rating: z
+    .number({ error: ratingMessage })
+    .int({ error: ratingMessage })
+    .min(MIN_REFLECTION_RATING, { error: ratingMessage })
+    .max(MAX_REFLECTION_RATING, { error: ratingMessage })
+    .nullish(),
+  /** Who was there, by name: the other person in the space or anyone else. Each name is kept once. */
+  companions: z
+    .array(
+      z
+        .string({ error: companionsMessage })
+        .trim()
+        .min(1, { error: companionsMessage })
+        .max(MAX_COMPANION_NAME_LENGTH, { error: companionsMessage }),
+      { error: companionsMessage }
+    )
+    .transform((names) => Array.from(new Set(names)))
+    .refine((names) => names.length <= MAX_REFLECTION_COMPANIONS, { error: companionsMessage })
+    .optional(),
+});
+
+export const entryDoneBodySchema = z
+  .object({
+    done: z.boolean({ error: 'done must be a boolean.' }),
+    reflection: reflectionBodySchema.optional(),
+  })
+  .refine((body) => body.done || !body.reflection, {
+    path: ['reflection'],
+    error: 'A reflection can only be saved when marking a dream done.',
+  });
+
+export const createStepBodySchema = z.object({
+  title: requiredText('Title is required.'),
+});
+
+export const updateStepBodySchema = z.object({
+  title: requiredText('Title cannot be empty.').optional(),
+  done: z.boolean({ error: 'done must be a boolean.' }).optional(),
+});
+
+export const stepOrderBodySchema = z.object({
+  stepIds: z.array(z.string({ error: 'stepIds must be an array of step ids.' }), {
+    error: 'stepIds must be an array of step ids.',
+  }),
+});
+
+export const entryTagsBodySchema = z.object({
+  tagIds,
+});
+
+export const tagBodySchema = z.object({
+  name: tagName,
+});
+
+/**
+ * A coupon is good through its last day, so a bare calendar day means the end of that day. Null or '' clears it;
+ * left out it stays as it is.
+ */
+const expiryDate = z
+  .string({ error: 'expiresAt must be a valid date.' })
+  .nullish()
+  .refine((value) => !value || !Number.isNaN(new Date(value).getTime()), { error: 'expiresAt must be a valid date.' })
+  .transform((value) => {
+    if (value === undefined) return undefined;
+    if (!value) return null;
+    const parsed = new Date(value);
+    return ISO_DATE_PATTERN.test(value) ? new Date(parsed.getTime() + DAY_MS - 1) : parsed;
+  });
+
+const maxRedemptionsMessage =
+  `maxRedemptions must be a whole number from 1 to ${MAX_COUPON_REDEMPTIONS}, or null for no limit.`;
+
+const redemptionLimit = z
+  .number({ error: maxRedemptionsMessage })
+  .int({ error: maxRedemptionsMessage })
+  .min(1, { error: maxRedemptionsMessage })
+  .max(MAX_COUPON_REDEMPTIONS, { error: maxRedemptionsMessage })
+  .nullish();
+
+/** How many times a coupon can be used. Left out it is good for one use; null means as often as you like. */
+export const maxRedemptionsSchema = redemptionLimit.transform((value) => (value === undefined ? 1 : value));
+
+const relockPolicy = z
+  .enum(RELOCK_POLICIES, { error: `relockPolicy must be one of ${RELOCK_POLICIES.join(', ')}.` })
+  .nullish();
+
+/** The person the coupon is for. Left out, a new coupon is for the other person in the space; null is for anyone. */
+const recipientId = z
+  .string({ error: 'recipientId must be a user id.' })
+  .trim()
+  .min(1, { error: 'recipientId must be a user id.' })
+  .nullish();
+
+export const createCouponBodySchema = z.object({
+  title: requiredText('Title is required.'),
+  description: optionalText('description').transform((value) => value ?? null),
+  unlockCondition: unlockConditionSchema.nullish().transform((value) => value ?? null),
+  relockPolicy: relockPolicy.transform((value) => value ?? 'keep'),
+  expiresAt: expiryDate.transform((value) => value ?? null),
+  maxRedemptions: maxRedemptionsSchema,
+  recipientId,
+});
+
+/** Leaving a field out keeps what the coupon has now; null clears it, or puts relockPolicy back to keep. */
+export const updateCouponBodySchema = z.object({
+  title: requiredText('Title is required.').optional(),
+  description: optionalText('description'),
+  unlockCondition: unlockConditionSchema.nullish(),
+  relockPolicy: relockPolicy.transform((value) => (value === undefined ? undefined : (value ?? 'keep'))),
+  expiresAt: expiryDate,
+  maxRedemptions: redemptionLimit,
+  recipientId,
+  updatedAt: expectedVersion,
+});
+
+/** `true` uses the coupon once more; `false` takes back its latest use. */
+export const redeemCouponBodySchema = z.object({
+  redeemed: z.boolean({ error: 'redeemed must be a boolean.' }),
+});
+
+/** The giver's answer to a redemption request. Scheduling needs the day it will happen. */
+export const respondCouponRequestBodySchema = z.object({
+  action: z.enum(REQUEST_RESPONSES, { error: `action must be one of ${REQUEST_RESPONSES.join(', ')}.` }),
+  scheduledFor: optionalDate,
+});
+
+export const reviewCouponBodySchema = z.object({
+  action: z.enum(REVIEW_ACTIONS, { error: `action must be ${REVIEW_ACTIONS.join(' or ')}.` }),
+});
+
+export const reminderSettingsBodySchema = z.object({
+  email: z.boolean({ error: 'email must be a boolean.' }).optional(),
+  push: z.boolean({ error: 'push must be a boolean.' }).optional(),
+});
+
+/** What PushSubscription.toJSON() gives the browser; the expiration time it also carries is not kept. */
+export const pushSubscriptionBodySchema = z.object({
+  endpoint: z.url({ protocol: /^https$/, error: 'endpoint must be an https URL.' }),
+  keys: z.object(
+    {
+      p256dh: requiredText('keys.p256dh is required.'),
+      auth: requiredText('keys.auth is required.'),
+    },
+    { error: 'keys is required.' }
+  ),
+});
+
+export const pushUnsubscribeBodySchema = pushSubscriptionBodySchema.pick({ endpoint: true });
+
+/** Query strings arrive as text, possibly repeated; blank or repeated values count as absent. */
+const queryParam = <T extends z.ZodType>(schema: T) =>
+  z.preprocess((value) => (typeof value === 'string' && value.trim() ? value.trim() : undefined), schema);
+
+const pageSize = (fallback: number, max: number) =>
+  queryParam(
+    z.coerce
+      .number({ error: `limit must be between 1 and ${max}.` })
+      .int({ error: `limit must be between 1 and ${max}.` })
+      .min(1, { error: `limit must be between 1 and ${max}.` })
+      .max(max, { error: `limit must be between 1 and ${max}.` })
+      .default(fallback)
+  );
+
+const boundary = (key: 'from' | 'to') =>
+  queryParam(
+    z
+      .string()
+      .refine((value) => !Number.isNaN(new Date(value).getTime()), { error: `${key} must be a valid date.` })
+      .transform((value) => {
+        const parsed = new Date(value);
+        // A bare calendar day as the upper bound includes that whole day.
+        return key === 'to' && ISO_DATE_PATTERN.test(value) ? new Date(parsed.getTime() + DAY_MS - 1) : parsed;
+      })
+      .optional()
+  );
+
+export const entryFiltersQuerySchema = z.object({
+  done: queryParam(
+    z
+      .enum(['true', 'false'], { error: 'done must be true or false.' })
+      .transform((value) => value === 'true')
+      .optional()
+  ),
+  // false keeps only dreams without a date, true only dreams with one.
+  dated: queryParam(
+    z
+      .enum(['true', 'false'], { error: 'dated must be true or false.' })
+      .transform((value) => value === 'true')
+      .optional()
+  ),
+  letter: queryParam(
+    z
+      .string()
+      .toUpperCase()
+      .refine((value) => value === '#' || (value.length === 1 && LATIN_LETTERS.includes(value)), {
+        error: 'letter must be A-Z or #.',
+      })
+      .optional()
+  ),
+  from: boundary('from'),
+  to: boundary('to'),
+  userId: queryParam(z.string().optional()),
+  tag: queryParam(z.string().optional()),
+});
+
+export const entryListQuerySchema = entryFiltersQuerySchema.extend({
+  sort: queryParam(
+    z.enum(ENTRY_SORT_FIELDS, { error: `sort must be one of ${ENTRY_SORT_FIELDS.join(', ')}.` }).default('createdAt')
+  ),
+  // Titles default to A–Z; every other sort defaults to newest first.
+  order: queryParam(z.enum(SORT_ORDERS, { error: 'order must be asc or desc.' }).optional()),
+  limit: pageSize(DEFAULT_ENTRY_PAGE_SIZE, MAX_ENTRY_PAGE_SIZE),
+  cursor: queryParam(z.string().optional()),
+});
+
+export const activityQuerySchema = z.object({
+  limit: pageSize(DEFAULT_ACTIVITY_PAGE_SIZE, MAX_ACTIVITY_PAGE_SIZE),
+  cursor: queryParam(z.string().optional()),
+});
+
+const yearMessage = 'year must be a year such as 2025.';
+
+export const memoryBookQuerySchema = z.object({
+  year: queryParam(
+    z.coerce
+      .number({ error: yearMessage })
+      .int({ error: yearMessage })
+      .min(1970, { error: yearMessage })
+      .max(9999, { error: yearMessage })
+      .optional()
+  ),
+});
+
+export const searchQuerySchema = z.object({
+  q: queryParam(z.string().default('')),
+  tag: queryParam(z.string().optional()),
+  limit: pageSize(DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT),
+});
+
+export const exportQuerySchema = z.object({
+  format: queryParam(z.enum(EXPORT_FORMATS, { error: 'format must be json or csv.' }).default('json')),
+});
+
+export const importQuerySchema = z.object({
+  mode: queryParam(z.enum(IMPORT_MODES, { error: `mode must be one of ${IMPORT_MODES.join(', ')}.` }).default('merge')),
+  // Backups carry no files, so replacing a space that has some only goes ahead once this says they may go.
+  discardAttachments: queryParam(
+    z
+      .enum(['true', 'false'], { error: 'discardAttachments must be true or false.' })
+      .transform((value) => value === 'true')
+      .default(false)
+  ),
+});
+
+export type SignupBody = z.input<typeof signupBodySchema>;
+export type LoginBody = z.input<typeof loginBodySchema>;
+export type SpaceBody = z.input<typeof spaceBodySchema>;
+export type JoinSpaceBody = z.input<typeof joinSpaceBodySchema>;
+export type CreateEntryBody = z.input<typeof createEntryBodySchema>;
+export type UpdateEntryBody = z.input<typeof updateEntryBodySchema>;
+export type EntryDoneBody = z.input<typeof entryDoneBodySchema>;
+export type ReflectionBody = z.input<typeof reflectionBodySchema>;
+export type CreateStepBody = z.input<typeof createStepBodySchema>;
+export type UpdateStepBody = z.input<typeof updateStepBodySchema>;
+export type StepOrderBody = z.input<typeof stepOrderBodySchema>;
+export type EntryTagsBody = z.input<typeof entryTagsBodySchema>;
+export type TagBody = z.input<typeof tagBodySchema>;
+export type CreateCouponBody = z.input<typeof createCouponBodySchema>;
+export type UpdateCouponBody = z.input<typeof updateCouponBodySchema>;
+export type RedeemCouponBody = z.input<typeof redeemCouponBodySchema>;
+export type RespondCouponRequestBody = z.input<typeof respondCouponRequestBodySchema>;
+export type ReviewCouponBody = z.input<typeof reviewCouponBodySchema>;
+export type ReminderSettingsBody = z.input<typeof reminderSettingsBodySchema>;
+export type PushSubscriptionBody = z.input<typeof pushSubscriptionBodySchema>;
+export type PushUnsubscribeBody = z.input<typeof pushUnsubscribeBodySchema>;
+export type EntryFiltersQuery = z.output<typeof entryFiltersQuerySchema>;
+export type EntryListQuery = z.output<typeof entryListQuerySchema>;
+export type ReflectionFields = z.output<typeof reflectionBodySchema>;
@@ -0,0 +1,588 @@
+import { z } from 'zod';
+import { MAX_ATTACHMENT_BYTES, MAX_FILES_PER_UPLOAD } from './limits';
+import {
+  activityPageSchema,
+  authSessionSchema,
+  authUserSchema,
+  backupErrorBodySchema,
+  backupSchema,
+  calendarImportResultSchema,
+  calendarTokenSchema,
+  couponConflictBodySchema,
+  couponSchema,
+  deletionResultSchema,
+  entryConflictBodySchema,
+  entryMutationResultSchema,
+  entryOptionSchema,
+  entryPageSchema,
+  entrySchema,
+  errorBodySchema,
+  importSummarySchema,
+  letterCountSchema,
+  memoryBookSchema,
+  occurrenceSchema,
+  redeemErrorBodySchema,
+  reminderSettingsSchema,
+  searchResponseSchema,
+  spaceSchema,
+  statsSchema,
+  stepDeletionResultSchema,
+  stepMutationResultSchema,
+  stepSchema,
+  streamTicketSchema,
+  tagWithCountSchema,
+  validationErrorBodySchema,
+} from './models';
+import {
+  activityQuerySchema,
+  createCouponBodySchema,
+  createEntryBodySchema,
+  createStepBodySchema,
+  entryDoneBodySchema,
+  entryFiltersQuerySchema,
+  entryListQuerySchema,
+  entryTagsBodySchema,
+  exportQuerySchema,
+  importQuerySchema,
+  joinSpaceBodySchema,
+  loginBodySchema,
+  memoryBookQuerySchema,
+  pushSubscriptionBodySchema,
+  pushUnsubscribeBodySchema,
+  redeemCouponBodySchema,
+  respondCouponRequestBodySchema,
+  reminderSettingsBodySchema,
+  reviewCouponBodySchema,
+  searchQuerySchema,
+  signupBodySchema,
+  spaceBodySchema,
+  stepOrderBodySchema,
+  tagBodySchema,
+  updateCouponBodySchema,
+  updateEntryBodySchema,
+  updateStepBodySchema,
+} from './requests';
+
+// Every route the API serves, as the OpenAPI document and the generated client see it. The handlers in
+// apps/api stay hand-written, so a new or changed handler needs its entry here too.
+
+/** A body or response that is not JSON, such as an uploaded calendar or a file download. */
+export type RawContent = {
+  contentType: string;
+  description: string;
+  schema?: z.ZodType;
+};
+
+/** Success and error responses by status. `null` means the status has no body. */
+export type RouteResponses = Record<number, z.ZodType | RawContent | RawContent[] | null>;
+
+export type ApiRoute = {
+  method: 'get' | 'post' | 'put' | 'patch' | 'delete';
+  /** OpenAPI path template: `{id}` where Express has `:id`. */
+  path: string;
+  tag: string;
+  summary: string;
+  /** Routes that need no session, or that check a token of their own. */
+  public?: true;
+  query?: z.ZodObject;
+  body?: z.ZodType | RawContent;
+  responses: RouteResponses;
+};
+
+/** A 400 either comes from a schema, with one message per field, or from a check the handler makes itself. */
+const badRequestSchema = z.union([validationErrorBodySchema, errorBodySchema]);
+
+function errors(...statuses: number[]): RouteResponses {
+  return Object.fromEntries(
+    statuses.map((status) => [status, status === 400 ? badRequestSchema : errorBodySchema])
+  );
+}
+
+export const apiRoutes = {
+  getHealth: {
+    method: 'get',
+    path: '/health',
+    tag: 'System',
+    summary: 'Check that the API is up',
+    public: true,
+    responses: { 200: { contentType: 'text/plain', description: 'Always `ok`.' } },
+  },
+  signup: {
+    method: 'post',
+    path: '/api/auth/signup',
+    tag: 'Auth',
+    summary: 'Create an account, with a space of its own, and sign in',
+    public: true,
+    body: signupBodySchema,
+    responses: { 201: authSessionSchema, ...errors(400, 409, 500) },
+  },
+  login: {
+    method: 'post',
+    path: '/api/auth/login',
+    tag: 'Auth',
+    summary: 'Sign in with an email and password',
+    public: true,
+    body: loginBodySchema,
+    responses: { 200: authSessionSchema, ...errors(400, 401, 500) },
+  },
+  logout: {
+    method: 'post',
+    path: '/api/auth/logout',
+    tag: 'Auth',
+    summary: 'End the current session',
+    responses: { 204: null, ...errors(500) },
+  },
+  getCurrentUser: {
+    method: 'get',
+    path: '/api/auth/me',
+    tag: 'Auth',
+    summary: 'Read the signed-in user',
+    responses: { 200: z.object({ user: authUserSchema }) },
+  },
+  createStreamTicket: {
+    method: 'post',
+    path: '/api/stream/ticket',
+    tag: 'Sync',
+    summary: 'Get a ticket that opens one event stream within 30 seconds',
+    responses: { 201: streamTicketSchema },
+  },
+  streamChanges: {
+    method: 'get',
+    path: '/api/stream',
+    tag: 'Sync',
+    summary: 'Receive changes made on other devices as Server-Sent Events',
+    public: true,
+    // EventSource cannot set headers, so a single-use ticket stands in for the session token.
+    query: z.object({ ticket: z.string(), clientId: z.string().optional() }),
+    responses: {
+      200: {
+        contentType: 'text/event-stream',
+        description: 'One `sync` event per change, each carrying a SyncMessage as JSON.',
+      },
+      ...errors(401),
+    },
+  },
+  getSpace: {
+    method: 'get',
+    path: '/api/space',
+    tag: 'Space',
+    summary: 'Read the current space and its members',
+    responses: { 200: spaceSchema, ...errors(404, 500) },
+  },
+  updateSpace: {
+    method: 'put',
+    path: '/api/space',
+    tag: 'Space',
+    summary: 'Rename the current space',
+    body: spaceBodySchema,
+    responses: { 200: spaceSchema, ...errors(400, 500) },
+  },
+  rotateInviteCode: {
+    method: 'post',
+    path: '/api/space/invite',
+    tag: 'Space',
+    summary: 'Replace the invite code',
+    responses: { 200: spaceSchema, ...errors(500) },
+  },
+  joinSpace: {
+    method: 'post',
+    path: '/api/space/join',
+    tag: 'Space',
+    summary: "Join a partner's space with their invite code",
+    body: joinSpaceBodySchema,
+    responses: { 200: spaceSchema, ...errors(400, 404, 409, 500) },
+  },
+  leaveSpace: {
+    method: 'post',
+    path: '/api/space/leave',
+    tag: 'Space',
+    summary: 'Leave the shared space for a new one of your own',
+    responses: { 200: spaceSchema, ...errors(400, 500) },
+  },
+  listEntries: {
+    method: 'get',
+    path: '/api/entries',
+    tag: 'Dreams',
+    summary: 'List dreams a page at a time',
+    query: entryListQuerySchema,
+    responses: { 200: entryPageSchema, ...errors(400, 500) },
+  },
+  countEntryLetters: {
+    method: 'get',
+    path: '/api/entries/letters',
+    tag: 'Dreams',
+    summary: 'Count matching dreams by the first letter of their title',
+    query: entryFiltersQuerySchema,
+    responses: { 200: z.array(letterCountSchema), ...errors(400, 500) },
+  },
+  listEntryOptions: {
+    method: 'get',
+    path: '/api/entries/options',
+    tag: 'Dreams',
+    summary: 'List every dream by title alone, for pickers and counters',
+    responses: { 200: z.array(entryOptionSchema), ...errors(500) },
+  },
+  getEntry: {
+    method: 'get',
+    path: '/api/entries/{id}',
+    tag: 'Dreams',
+    summary: 'Load one dream',
+    responses: { 200: entrySchema, ...errors(404, 500) },
+  },
+  createEntry: {
+    method: 'post',
+    path: '/api/entries',
+    tag: 'Dreams',
+    summary: 'Add a dream',
+    body: createEntryBodySchema,
+    responses: { 201: entrySchema, ...errors(400, 500) },
+  },
+  updateEntry: {
+    method: 'put',
+    path: '/api/entries/{id}',
+    tag: 'Dreams',
+    summary: 'Edit a dream',
+    body: updateEntryBodySchema,
+    responses: { 200: entrySchema, ...errors(400, 404, 500), 409: entryConflictBodySchema },
+  },
+  setEntryDone: {
+    method: 'patch',
+    path: '/api/entries/{id}/done',
+    tag: 'Dreams',
+    summary: 'Mark a dream as come true, or reopen it',
+    body: entryDoneBodySchema,
+    responses: { 200: entryMutationResultSchema, ...errors(400, 404, 500) },
+  },
+  listOccurrences: {
+    method: 'get',
+    path: '/api/entries/{id}/occurrences',
+    tag: 'Dreams',
+    summary: 'List the fulfilled occurrences of a recurring dream',
+    responses: { 200: z.array(occurrenceSchema), ...errors(404, 500) },
+  },
+  listSteps: {
+    method: 'get',
+    path: '/api/entries/{id}/steps',
+    tag: 'Steps',
+    summary: "List a dream's steps in order",
+    responses: { 200: z.array(stepSchema), ...errors(404, 500) },
+  },
+  createStep: {
+    method: 'post',
+    path: '/api/entries/{id}/steps',
+    tag: 'Steps',
+    summary: 'Add a step to a dream',
+    body: createStepBodySchema,
+    responses: { 201: stepMutationResultSchema, ...errors(400, 404, 500) },
+  },
+  reorderSteps: {
+    method: 'put',
+    path: '/api/entries/{id}/steps/order',
+    tag: 'Steps',
+    summary: "Put a dream's steps in a new order",
+    body: stepOrderBodySchema,
+    responses: { 200: z.array(stepSchema), ...errors(400, 404, 500) },
+  },
+  updateStep: {
+    method: 'put',
+    path: '/api/entries/{id}/steps/{stepId}',
+    tag: 'Steps',
+    summary: 'Rename a step or tick it off',
+    body: updateStepBodySchema,
+    responses: { 200: stepMutationResultSchema, ...errors(400, 404, 500) },
+  },
+  deleteStep: {
+    method: 'delete',
+    path: '/api/entries/{id}/steps/{stepId}',
+    tag: 'Steps',
+    summary: 'Remove a step',
+    responses: { 200: stepDeletionResultSchema, ...errors(404, 500) },
+  },
+  setEntryTags: {
+    method: 'put',
+    path: '/api/entries/{id}/tags',
+    tag: 'Dreams',
+    summary: "Replace a dream's tags",
+    body: entryTagsBodySchema,
+    responses: { 200: entryMutationResultSchema, ...errors(400, 404, 500) },
+  },
+  uploadAttachments: {
+    method: 'post',
+    path: '/api/entries/{id}/attachments',
+    tag: 'Attachments',
+    summary: 'Attach photos or files to a dream',
+    body: {
+      contentType: 'multipart/form-data',
+      description:
+        `Up to ${MAX_FILES_PER_UPLOAD} photos (JPEG, PNG, WebP, GIF) or PDFs in the \`files\` field, ` +
+        `each at most ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB.`,
+      schema: z.object({ files: z.array(z.file()) }),
+    },
+    responses: { 201: entrySchema, ...errors(400, 404, 500) },
+  },
+  getAttachment: {
+    method: 'get',
+    path: '/api/entries/{id}/attachments/{attachmentId}',
+    tag: 'Attachments',
+    summary: 'Download an attached file',
+    responses: {
+      200: { contentType: 'application/octet-stream', description: 'The file as it was uploaded, with its own type.' },
+      ...errors(404, 500),
+    },
+  },
+  getAttachmentThumbnail: {
+    method: 'get',
+    path: '/api/entries/{id}/attachments/{attachmentId}/thumbnail',
+    tag: 'Attachments',
+    summary: 'Download the thumbnail of an attached photo',
+    responses: { 200: { contentType: 'image/webp', description: 'A small square preview.' }, ...errors(404, 500) },
+  },
+  deleteAttachment: {
+    method: 'delete',
+    path: '/api/entries/{id}/attachments/{attachmentId}',
+    tag: 'Attachments',
+    summary: 'Remove an attached file',
+    responses: { 200: entrySchema, ...errors(404, 500) },
+  },
+  deleteEntry: {
+    method: 'delete',
+    path: '/api/entries/{id}',
+    tag: 'Dreams',
+    summary: 'Erase a dream',
+    responses: { 200: deletionResultSchema, ...errors(400, 404, 500) },
+  },
+  listTags: {
+    method: 'get',
+    path: '/api/tags',
+    tag: 'Tags',
+    summary: 'List the tags of the space',
+    responses: { 200: z.array(tagWithCountSchema) },
+  },
+  createTag: {
+    method: 'post',
+    path: '/api/tags',
+    tag: 'Tags',
+    summary: 'Create a tag',
+    body: tagBodySchema,
+    responses: { 201: tagWithCountSchema, ...errors(400, 409, 500) },
+  },
+  renameTag: {
+    method: 'put',
+    path: '/api/tags/{id}',
+    tag: 'Tags',
+    summary: 'Rename a tag',
+    body: tagBodySchema,
+    responses: { 200: tagWithCountSchema, ...errors(400, 404, 409, 500) },
+  },
+  deleteTag: {
+    method: 'delete',
+    path: '/api/tags/{id}',
+    tag: 'Tags',
+    summary: 'Delete a tag and take it off every dream',
+    responses: { 200: deletionResultSchema, ...errors(404, 500) },
+  },
+  listCoupons: {
+    method: 'get',
+    path: '/api/coupons',
+    tag: 'Coupons',
+    summary: 'List the coupons of the space',
+    responses: { 200: z.array(couponSchema) },
+  },
+  createCoupon: {
+    method: 'post',
+    path: '/api/coupons',
+    tag: 'Coupons',
+    summary: 'Write a coupon, optionally locked behind an unlock rule',
+    body: createCouponBodySchema,
+    responses: { 201: couponSchema, ...errors(400, 500) },
+  },
+  updateCoupon: {
+    method: 'put',
+    path: '/api/coupons/{id}',
+    tag: 'Coupons',
+    summary: 'Edit a coupon',
+    body: updateCouponBodySchema,
+    responses: { 200: couponSchema, ...errors(400, 404, 500), 409: couponConflictBodySchema },
+  },
+  redeemCoupon: {
+    method: 'patch',
+    path: '/api/coupons/{id}/redeem',
+    tag: 'Coupons',
+    summary: 'Use an unlocked coupon once more, or take back its latest use',
+    body: redeemCouponBodySchema,
+    responses: {
+      200: couponSchema,
+      ...errors(404, 500),
+      400: z.union([validationErrorBodySchema, redeemErrorBodySchema]),
+      409: couponConflictBodySchema,
+    },
+  },
+  requestCoupon: {
+    method: 'post',
+    path: '/api/coupons/{id}/request',
+    tag: 'Coupons',
+    summary: 'Ask the giver of a coupon made out to you to let you use it',
+    responses: {
+      200: couponSchema,
+      ...errors(404, 500),
+      400: z.union([redeemErrorBodySchema, errorBodySchema]),
+      409: couponConflictBodySchema,
+    },
+  },
+  respondToCouponRequest: {
+    method: 'patch',
+    path: '/api/coupons/{id}/request',
+    tag: 'Coupons',
+    summary: 'Accept, decline or schedule a request to use a coupon you gave',
+    body: respondCouponRequestBodySchema,
+    responses: {
+      200: couponSchema,
+      ...errors(404, 500),
+      400: z.union([validationErrorBodySchema, redeemErrorBodySchema, errorBodySchema]),
+      409: couponConflictBodySchema,
+    },
+  },
+  cancelCouponRequest: {
+    method: 'delete',
+    path: '/api/coupons/{id}/request',
+    tag: 'Coupons',
+    summary: 'Withdraw your request to use a coupon, or clear one that was declined',
+    responses: { 200: couponSchema, ...errors(400, 404, 500), 409: couponConflictBodySchema },
+  },
+  reviewCoupon: {
+    method: 'patch',
+    path: '/api/coupons/{id}/review',
+    tag: 'Coupons',
+    summary: 'Keep or lock again a coupon whose rule no longer holds',
+    body: reviewCouponBodySchema,
+    responses: { 200: couponSchema, ...errors(400, 404, 500) },
+  },
+  listActivity: {
+    method: 'get',
+    path: '/api/activity',
+    tag: 'Activity',
+    summary: 'Read the timeline of the space, newest first',
+    query: activityQuerySchema,
+    responses: { 200: activityPageSchema, ...errors(400, 500) },
+  },
+  getMemoryBook: {
+    method: 'get',
+    path: '/api/memories',
+    tag: 'Activity',
+    summary: 'Read every time a dream came true, oldest first, optionally for one year',
+    query: memoryBookQuerySchema,
+    responses: { 200: memoryBookSchema, ...errors(400, 500) },
+  },
+  getStats: {
+    method: 'get',
+    path: '/api/stats',
+    tag: 'Activity',
+    summary: 'Count how the space is doing: completions over time and by person, open dreams and coupon use',
+    responses: { 200: statsSchema, ...errors(500) },
+  },
+  search: {
+    method: 'get',
+    path: '/api/search',
+    tag: 'Search',
+    summary: 'Search dreams and coupons',
+    query: searchQuerySchema,
+    responses: { 200: searchResponseSchema, ...errors(400, 500) },
+  },
+  getCalendarFeed: {
+    method: 'get',
+    path: '/api/calendar.ics',
+    tag: 'Calendar',
+    summary: 'Subscribe to dated dreams from a calendar app',
+    // Calendar apps cannot sign in, so the feed checks its own long-lived token instead of a session.
+    public: true,
+    query: z.object({ token: z.string() }),
+    responses: {
+      200: { contentType: 'text/calendar', description: 'An iCalendar feed with one event per dated dream.' },
+      ...errors(401, 500),
+    },
+  },
+  createCalendarToken: {
+    method: 'post',
+    path: '/api/calendar/token',
+    tag: 'Calendar',
+    summary: 'Create a calendar feed link, replacing any earlier one',
+    responses: { 201: calendarTokenSchema, ...errors(500) },
+  },
+  revokeCalendarToken: {
+    method: 'delete',
+    path: '/api/calendar/token',
+    tag: 'Calendar',
+    summary: 'Turn off the calendar feed link',
+    responses: { 204: null, ...errors(500) },
+  },
+  importCalendar: {
+    method: 'post',
+    path: '/api/calendar/import',
+    tag: 'Calendar',
+    summary: 'Add the events of an .ics file as dreams',
+    body: { contentType: 'text/calendar', description: 'The text of an .ics file.', schema: z.string() },
+    responses: { 201: calendarImportResultSchema, ...errors(400, 500) },
+  },
+  getReminderSettings: {
+    method: 'get',
+    path: '/api/reminders/settings',
+    tag: 'Reminders',
+    summary: 'Read which channels you get reminders on',
+    responses: { 200: reminderSettingsSchema, ...errors(500) },
+  },
+  updateReminderSettings: {
+    method: 'put',
+    path: '/api/reminders/settings',
+    tag: 'Reminders',
+    summary: 'Turn reminder channels on or off',
+    body: reminderSettingsBodySchema,
+    responses: { 200: reminderSettingsSchema, ...errors(400, 500) },
+  },
+  subscribePush: {
+    method: 'post',
+    path: '/api/reminders/push-subscriptions',
+    tag: 'Reminders',
+    summary: 'Send push reminders to this browser',
+    body: pushSubscriptionBodySchema,
+    responses: { 204: null, ...errors(400, 500) },
+  },
+  unsubscribePush: {
+    method: 'delete',
+    path: '/api/reminders/push-subscriptions',
+    tag: 'Reminders',
+    summary: 'Stop sending push reminders to this browser',
+    body: pushUnsubscribeBodySchema,
+    responses: { 204: null, ...errors(400, 500) },
+  },
+  exportBackup: {
+    method: 'get',
+    path: '/api/export',
+    tag: 'Backup',
+    summary: 'Download everything in the space',
+    query: exportQuerySchema,
+    responses: {
+      200: [
+        { contentType: 'application/json', description: 'A backup that can be imported again.', schema: backupSchema },
+        { contentType: 'text/csv', description: 'One spreadsheet row per dream and per coupon.' },
+      ],
+      ...errors(400, 500),
+    },
+  },
+  importBackup: {
+    method: 'post',
+    path: '/api/import',
+    tag: 'Backup',
+    summary: 'Restore a JSON backup, merged into the space or replacing it',
+    query: importQuerySchema,
+    body: backupSchema,
+    responses: {
+      200: importSummarySchema,
+      // A backup that parses but does not hold together lists every problem found.
+      400: z.union([backupErrorBodySchema, validationErrorBodySchema, errorBodySchema]),
+      // A replace that would erase photos and files, asked without discardAttachments.
+      ...errors(409, 500),
+    },
+  },
+} satisfies Record<string, ApiRoute>;
+
+export type ApiOperationId = keyof typeof apiRoutes;
@@ -0,0 +1,30 @@
+import type { z } from 'zod';
+
+/** Body of a 400 for input that failed its schema: a summary line plus one message per field, keyed by its path. */
+export type ValidationErrorBody = {
+  error: string;
+  fields: Record<string, string>;
+};
+
+export type ValidationResult<T> = { ok: true; data: T } | { ok: false; error: ValidationErrorBody };
+
+export function fieldError(field: string, message: string): ValidationErrorBody {
+  return { error: message, fields: { [field]: message } };
+}
+
+export function toValidationError(error: z.ZodError): ValidationErrorBody {
+  const fields: Record<string, string> = {};
+
+  for (const issue of error.issues) {
+    const key = issue.path.map(String).join('.') || '_';
+    // The first problem found for a field is the one worth showing.
+    fields[key] ??= issue.message;
+  }
+
+  return { error: error.issues[0]?.message ?? 'The request is not valid.', fields };
+}
+
+export function validate<S extends z.ZodType>(schema: S, input: unknown): ValidationResult<z.output<S>> {
+  const result = schema.safeParse(input);
+  return result.success ? { ok: true, data: result.data } : { ok: false, error: toValidationError(result.error) };
+}